@@ -0,0 +1,443 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { Organization, RedditAccountActivity, RedditAccountKarma, RedditAccountWithStats } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white'
+const primaryButtonClass = 'px-4 py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all shadow-md shadow-indigo-500/30 hover:shadow-lg hover:shadow-indigo-500/40 disabled:opacity-50 font-semibold'
+
+type AccountDetail = {
+  karma: RedditAccountKarma[]
+  subreddits: { subreddit: string; replies: number; last_at: string }[]
+  activity: RedditAccountActivity[]
+}
+
+const emptyAccount = { username: '', max_comments_per_day: 3, min_subreddit_gap_hours: 24, notes: '' }
+
+export default function AccountsPage() {
+  const router = useRouter()
+  const supabase = createClient()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [organizationId, setOrganizationId] = useState('')
+  const [accounts, setAccounts] = useState<RedditAccountWithStats[]>([])
+  const [newAccount, setNewAccount] = useState(emptyAccount)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [detail, setDetail] = useState<AccountDetail | null>(null)
+  const [karma, setKarma] = useState({ link_karma: '', comment_karma: '' })
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const role = organizations.find((o) => o.id === organizationId)?.role
+  const canManage = role === 'owner' || role === 'editor'
+
+  useEffect(() => {
+    const checkAuthAndFetchOrganizations = async () => {
+      // Ensure authenticated; redirect to login if not
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        router.replace('/auth/login')
+        return
+      }
+
+      setUserId(user.id)
+
+      // Linking for posting comes back here from Reddit with the outcome
+      const search = new URLSearchParams(window.location.search)
+      if (search.get('linked')) setNotice(`u/${search.get('linked')} is linked and can post approved replies`)
+      if (search.get('oauth_error')) setError(search.get('oauth_error'))
+
+      const response = await fetch('/api/organizations')
+      const { data } = await response.json()
+      setOrganizations(data || [])
+      setOrganizationId(data?.[0]?.id || '')
+    }
+
+    checkAuthAndFetchOrganizations()
+  }, [router, supabase])
+
+  const fetchAccounts = useCallback(async () => {
+    if (!organizationId) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/reddit-accounts?organization_id=${organizationId}`)
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to fetch Reddit accounts')
+      }
+
+      setAccounts(data || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [organizationId])
+
+  useEffect(() => {
+    if (userId) fetchAccounts()
+  }, [userId, fetchAccounts])
+
+  // Sends a request and surfaces its error; returns the response data, or null on failure
+  const send = async (url: string, method: string, body?: unknown) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Request failed')
+      }
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return null
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleExpand = async (account: RedditAccountWithStats) => {
+    if (expandedId === account.id) {
+      setExpandedId(null)
+      return
+    }
+
+    setExpandedId(account.id)
+    setDetail(null)
+    setKarma({ link_karma: '', comment_karma: '' })
+
+    const data = await send(`/api/reddit-accounts/${account.id}`, 'GET')
+    if (data) setDetail(data)
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await send('/api/reddit-accounts', 'POST', { ...newAccount, organization_id: organizationId })
+    if (data) {
+      setNewAccount(emptyAccount)
+      await fetchAccounts()
+    }
+  }
+
+  const handleUpdate = async (account: RedditAccountWithStats, changes: Record<string, unknown>) => {
+    const data = await send('/api/reddit-accounts', 'PATCH', { id: account.id, ...changes })
+    if (data) {
+      setAccounts(accounts.map((a) => (a.id === account.id ? { ...a, ...data } : a)))
+    }
+  }
+
+  const handleDelete = async (account: RedditAccountWithStats) => {
+    if (!confirm(`Remove u/${account.username}? Drafts assigned to it are kept.`)) return
+    if (await send(`/api/reddit-accounts?id=${account.id}`, 'DELETE')) {
+      setAccounts(accounts.filter((a) => a.id !== account.id))
+    }
+  }
+
+  const handleUnlink = async (account: RedditAccountWithStats) => {
+    if (!confirm(`Unlink u/${account.username}? Replies can no longer be posted from it until it's linked again.`)) return
+    const data = await send(`/api/reddit-accounts/${account.id}/oauth`, 'DELETE')
+    if (data) {
+      setAccounts(accounts.map((a) => (a.id === account.id ? { ...a, ...data } : a)))
+    }
+  }
+
+  const handleRecordKarma = async (e: React.FormEvent, account: RedditAccountWithStats) => {
+    e.preventDefault()
+    const data = await send(`/api/reddit-accounts/${account.id}/karma`, 'POST', {
+      link_karma: Number(karma.link_karma),
+      comment_karma: Number(karma.comment_karma),
+    })
+    if (data) {
+      setAccounts(accounts.map((a) => (a.id === account.id ? { ...a, karma: data } : a)))
+      setDetail(detail ? { ...detail, karma: [data, ...detail.karma] } : detail)
+      setKarma({ link_karma: '', comment_karma: '' })
+    }
+  }
+
+  if (!userId) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center py-12">
+          <p className="text-gray-500">Loading accounts...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="container mx-auto px-6 py-8 max-w-5xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 bg-clip-text text-transparent mb-2">Reddit Accounts</h1>
+          <p className="text-slate-600 text-lg">The accounts your team posts replies from, and how often each may post</p>
+        </div>
+
+        {organizations.length > 1 && (
+          <div className="mb-6">
+            <select
+              value={organizationId}
+              onChange={(e) => setOrganizationId(e.target.value)}
+              className={`${inputClass} w-auto`}
+            >
+              {organizations.map((organization) => (
+                <option key={organization.id} value={organization.id}>{organization.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {notice && (
+          <div className="mb-6 p-4 bg-emerald-50 border border-emerald-200 rounded-xl">
+            <p className="text-sm text-emerald-700">{notice}</p>
+          </div>
+        )}
+
+        {canManage && (
+          <form onSubmit={handleCreate} className="card p-6 mb-6 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <label className="text-sm text-slate-600">
+              Username
+              <input
+                type="text"
+                value={newAccount.username}
+                onChange={(e) => setNewAccount({ ...newAccount, username: e.target.value })}
+                placeholder="u/username"
+                required
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-sm text-slate-600">
+              Replies per day
+              <input
+                type="number"
+                min={1}
+                value={newAccount.max_comments_per_day}
+                onChange={(e) => setNewAccount({ ...newAccount, max_comments_per_day: Number(e.target.value) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-sm text-slate-600">
+              Hours between replies in a subreddit
+              <input
+                type="number"
+                min={0}
+                value={newAccount.min_subreddit_gap_hours}
+                onChange={(e) => setNewAccount({ ...newAccount, min_subreddit_gap_hours: Number(e.target.value) })}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <button type="submit" disabled={isSaving || !newAccount.username.trim()} className={primaryButtonClass}>
+              Add Account
+            </button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading accounts...</p>
+          </div>
+        ) : accounts.length === 0 ? (
+          <div className="card p-12 text-center">
+            <p className="text-gray-500">No Reddit accounts yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {accounts.map((account) => (
+              <div key={account.id} className="card p-5">
+                <button onClick={() => handleExpand(account)} className="w-full text-left">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900">
+                        u/{account.username}
+                        {!account.is_active && <span className="ml-2 text-xs font-semibold text-slate-500">Inactive</span>}
+                        {account.oauth_linked_at && <span className="ml-2 text-xs font-semibold text-emerald-700">Linked for posting</span>}
+                      </p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {account.karma
+                          ? `${account.karma.link_karma + account.karma.comment_karma} karma (${new Date(account.karma.recorded_at).toLocaleDateString()})`
+                          : 'No karma recorded'}
+                        {' · '}last reply {account.last_posted_at ? new Date(account.last_posted_at).toLocaleString() : 'never'}
+                      </p>
+                    </div>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${
+                        account.replies_last_day >= account.max_comments_per_day ? 'bg-amber-50 text-amber-700' : 'bg-slate-100 text-slate-600'
+                      }`}
+                    >
+                      {account.replies_last_day}/{account.max_comments_per_day} today
+                    </span>
+                  </div>
+                </button>
+
+                {expandedId === account.id && (
+                  <div className="mt-4 pt-4 border-t border-slate-100 space-y-4">
+                    {canManage && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <label className="text-sm text-slate-600">
+                          Replies per day
+                          <input
+                            type="number"
+                            min={1}
+                            defaultValue={account.max_comments_per_day}
+                            onBlur={(e) => Number(e.target.value) !== account.max_comments_per_day && handleUpdate(account, { max_comments_per_day: Number(e.target.value) })}
+                            className={`${inputClass} mt-1`}
+                          />
+                        </label>
+                        <label className="text-sm text-slate-600">
+                          Hours between replies in a subreddit
+                          <input
+                            type="number"
+                            min={0}
+                            defaultValue={account.min_subreddit_gap_hours}
+                            onBlur={(e) => Number(e.target.value) !== account.min_subreddit_gap_hours && handleUpdate(account, { min_subreddit_gap_hours: Number(e.target.value) })}
+                            className={`${inputClass} mt-1`}
+                          />
+                        </label>
+                        <label className="text-sm text-slate-600">
+                          Notes
+                          <input
+                            type="text"
+                            defaultValue={account.notes || ''}
+                            onBlur={(e) => e.target.value !== (account.notes || '') && handleUpdate(account, { notes: e.target.value })}
+                            className={`${inputClass} mt-1`}
+                          />
+                        </label>
+                      </div>
+                    )}
+                    {!canManage && account.notes && <p className="text-sm text-slate-600">{account.notes}</p>}
+
+                    {role !== 'client' && (
+                      <form onSubmit={(e) => handleRecordKarma(e, account)} className="flex flex-wrap items-end gap-2">
+                        <label className="text-sm text-slate-600">
+                          Post karma
+                          <input
+                            type="number"
+                            value={karma.link_karma}
+                            onChange={(e) => setKarma({ ...karma, link_karma: e.target.value })}
+                            required
+                            className={`${inputClass} mt-1 w-32`}
+                          />
+                        </label>
+                        <label className="text-sm text-slate-600">
+                          Comment karma
+                          <input
+                            type="number"
+                            value={karma.comment_karma}
+                            onChange={(e) => setKarma({ ...karma, comment_karma: e.target.value })}
+                            required
+                            className={`${inputClass} mt-1 w-32`}
+                          />
+                        </label>
+                        <button type="submit" disabled={isSaving} className={primaryButtonClass}>
+                          Record Karma
+                        </button>
+                      </form>
+                    )}
+
+                    {!detail ? (
+                      <p className="text-xs text-slate-500">Loading history...</p>
+                    ) : (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <p className="text-sm font-semibold text-slate-700 mb-2">Karma</p>
+                          {detail.karma.length === 0 ? (
+                            <p className="text-xs text-slate-500">No snapshots yet.</p>
+                          ) : (
+                            <table className="w-full text-xs">
+                              <tbody>
+                                {detail.karma.map((snapshot) => (
+                                  <tr key={snapshot.id} className="border-t border-slate-100">
+                                    <td className="py-1 text-slate-500">{new Date(snapshot.recorded_at).toLocaleDateString()}</td>
+                                    <td className="py-1 text-right">{snapshot.link_karma} post</td>
+                                    <td className="py-1 text-right">{snapshot.comment_karma} comment</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </div>
+                        <div>
+                          <p className="text-sm font-semibold text-slate-700 mb-2">Subreddits</p>
+                          {detail.subreddits.length === 0 ? (
+                            <p className="text-xs text-slate-500">No scheduled or posted replies yet.</p>
+                          ) : (
+                            <table className="w-full text-xs">
+                              <tbody>
+                                {detail.subreddits.map((entry) => (
+                                  <tr key={entry.subreddit} className="border-t border-slate-100">
+                                    <td className="py-1 text-gray-900">r/{entry.subreddit}</td>
+                                    <td className="py-1 text-right">{entry.replies} {entry.replies === 1 ? 'reply' : 'replies'}</td>
+                                    <td className="py-1 text-right text-slate-500">{new Date(entry.last_at).toLocaleDateString()}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    {canManage && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleUpdate(account, { is_active: !account.is_active })}
+                          disabled={isSaving}
+                          className="px-3 py-2 text-xs font-semibold text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg disabled:opacity-50 transition-all"
+                        >
+                          {account.is_active ? 'Deactivate' : 'Activate'}
+                        </button>
+                        {account.oauth_linked_at ? (
+                          <button
+                            onClick={() => handleUnlink(account)}
+                            disabled={isSaving}
+                            className="px-3 py-2 text-xs font-semibold text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg disabled:opacity-50 transition-all"
+                          >
+                            Unlink
+                          </button>
+                        ) : (
+                          <a
+                            href={`/api/reddit-accounts/${account.id}/oauth`}
+                            className="px-3 py-2 text-xs font-semibold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 rounded-lg transition-all"
+                          >
+                            Link for posting
+                          </a>
+                        )}
+                        <button
+                          onClick={() => handleDelete(account)}
+                          disabled={isSaving}
+                          className="px-3 py-2 text-xs font-semibold text-red-600 bg-red-50 hover:bg-red-100 rounded-lg disabled:opacity-50 transition-all"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
+import { UsageTotals } from '@/lib/types'
 
 export const dynamic = 'force-dynamic'
 
@@ -15,6 +16,11 @@ interface User {
   providers: string[]
 }
 
+function formatSpend(totals?: UsageTotals): string {
+  if (!totals) return '–'
+  return `$${totals.cost.toFixed(2)} (${totals.calls} call${totals.calls !== 1 ? 's' : ''})`
+}
+
 export default function AdminPage() {
   const router = useRouter()
   const supabase = createClient()
@@ -23,6 +29,7 @@ export default function AdminPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [impersonating, setImpersonating] = useState<string | null>(null)
+  const [spendByUser, setSpendByUser] = useState<Map<string, UsageTotals>>(new Map())
 
   useEffect(() => {
     const checkAuthAndFetchUsers = async () => {
@@ -57,6 +64,13 @@ export default function AdminPage() {
         }
 
         setUsers(data || [])
+
+        // This month's API spend per user; the user list still shows if it can't be loaded
+        const usageResponse = await fetch('/api/admin/usage')
+        const { data: usage } = await usageResponse.json()
+        if (usageResponse.ok && usage) {
+          setSpendByUser(new Map(usage.byUser.map(({ userId, ...totals }: UsageTotals & { userId: string }) => [userId, totals])))
+        }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred')
       } finally {
@@ -147,6 +161,7 @@ export default function AdminPage() {
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">Created</th>
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">Last Sign In</th>
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">Providers</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">API spend this month</th>
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">Actions</th>
                   </tr>
                 </thead>
@@ -183,6 +198,9 @@ export default function AdminPage() {
                           ))}
                         </div>
                       </td>
+                      <td className="py-3 px-4 text-sm text-gray-600 text-right">
+                        {formatSpend(spendByUser.get(user.id))}
+                      </td>
                       <td className="py-3 px-4">
                         <button
                           onClick={() => handleImpersonate(user.id)}
@@ -0,0 +1,266 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { API_KEY_SCOPES, ApiKey, ApiKeyScope, Project } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white'
+
+export default function ApiKeysPage() {
+  const router = useRouter()
+  const supabase = createClient()
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAuthChecked, setIsAuthChecked] = useState(false)
+  const [name, setName] = useState('')
+  const [scope, setScope] = useState<ApiKeyScope>('read')
+  const [projectIds, setProjectIds] = useState<string[]>([]) // Empty = all projects
+  const [isSaving, setIsSaving] = useState(false)
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      // Ensure authenticated; redirect to login if not
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        router.replace('/auth/login')
+        return
+      }
+
+      setIsAuthChecked(true)
+    }
+
+    checkAuth()
+  }, [router, supabase])
+
+  useEffect(() => {
+    if (!isAuthChecked) return
+
+    const fetchData = async () => {
+      try {
+        const [keysResponse, projectsResponse] = await Promise.all([
+          fetch('/api/api-keys'),
+          fetch('/api/projects'),
+        ])
+        const keysResult = await keysResponse.json()
+        const projectsResult = await projectsResponse.json()
+
+        if (!keysResponse.ok || keysResult.error) {
+          throw new Error(keysResult.error || 'Failed to fetch API keys')
+        }
+        if (!projectsResponse.ok || projectsResult.error) {
+          throw new Error(projectsResult.error || 'Failed to fetch projects')
+        }
+
+        setApiKeys(keysResult.data || [])
+        setProjects(projectsResult.data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [isAuthChecked])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+    setNewKey(null)
+
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scope, project_ids: projectIds.length > 0 ? projectIds : null }),
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to create API key')
+      }
+
+      const { key, ...apiKey } = data
+      setApiKeys([apiKey, ...apiKeys])
+      setNewKey(key)
+      setName('')
+      setScope('read')
+      setProjectIds([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working.`)) return
+
+    setError(null)
+    try {
+      const response = await fetch(`/api/api-keys?id=${apiKey.id}`, { method: 'DELETE' })
+      const { error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to revoke API key')
+      }
+
+      setApiKeys(apiKeys.filter((k) => k.id !== apiKey.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const projectNames = (ids: string[] | null) =>
+    ids ? ids.map((id) => projects.find((p) => p.id === id)?.name || 'Deleted project').join(', ') : 'All projects'
+
+  if (!isAuthChecked) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center py-12">
+          <p className="text-gray-500">Loading API keys...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="container mx-auto px-6 py-8 max-w-5xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 bg-clip-text text-transparent mb-2">API Keys</h1>
+          <p className="text-slate-600 text-lg">
+            Call the API from scripts with <code className="text-base">Authorization: Bearer &lt;key&gt;</code>
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {newKey && (
+          <div className="mb-6 p-4 bg-emerald-50 border border-emerald-200 rounded-xl">
+            <p className="text-sm font-semibold text-emerald-800 mb-2">
+              Copy your new key now. It won&apos;t be shown again.
+            </p>
+            <div className="flex items-center gap-3">
+              <code className="flex-1 px-3 py-2 bg-white border border-emerald-200 rounded-lg font-mono text-sm break-all">{newKey}</code>
+              <button
+                onClick={() => navigator.clipboard.writeText(newKey)}
+                className="px-4 py-2 text-sm border border-emerald-300 text-emerald-800 rounded-xl hover:bg-white transition-all font-semibold"
+              >
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="card p-6 mb-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">New API key</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name, e.g. Nightly export"
+              required
+              className={inputClass}
+            />
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as ApiKeyScope)}
+              className={inputClass}
+            >
+              {API_KEY_SCOPES.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {projects.length > 0 && (
+            <div>
+              <p className="text-sm text-slate-600 mb-2">Projects (none selected = all projects)</p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-1.5">
+                {projects.map((project) => (
+                  <label key={project.id} className="flex items-center gap-2 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={projectIds.includes(project.id)}
+                      onChange={() => setProjectIds(projectIds.includes(project.id) ? projectIds.filter((id) => id !== project.id) : [...projectIds, project.id])}
+                      className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {project.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all shadow-md shadow-indigo-500/30 hover:shadow-lg hover:shadow-indigo-500/40 disabled:opacity-50 font-semibold"
+          >
+            {isSaving ? 'Creating...' : 'Create Key'}
+          </button>
+        </form>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading API keys...</p>
+          </div>
+        ) : apiKeys.length === 0 ? (
+          <div className="card p-12 text-center">
+            <p className="text-gray-500">No API keys yet.</p>
+          </div>
+        ) : (
+          <div className="card overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-slate-600">
+                <tr>
+                  <th className="px-4 py-3 font-semibold">Name</th>
+                  <th className="px-4 py-3 font-semibold">Key</th>
+                  <th className="px-4 py-3 font-semibold">Access</th>
+                  <th className="px-4 py-3 font-semibold">Last used</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {apiKeys.map((apiKey) => (
+                  <tr key={apiKey.id} className="border-t border-slate-100">
+                    <td className="px-4 py-3 font-semibold text-gray-900">{apiKey.name}</td>
+                    <td className="px-4 py-3 font-mono text-slate-600">{apiKey.key_prefix}…</td>
+                    <td className="px-4 py-3 text-slate-600">
+                      {API_KEY_SCOPES.find((s) => s.value === apiKey.scope)?.label} · {projectNames(apiKey.project_ids)}
+                    </td>
+                    <td className="px-4 py-3 text-slate-500">
+                      {apiKey.last_used_at ? new Date(apiKey.last_used_at).toLocaleString() : 'Never'}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => handleRevoke(apiKey)}
+                        className="text-xs text-red-600 hover:text-red-700 font-semibold"
+                      >
+                        Revoke
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { ApiUsageMonthly } from '@/lib/types'
+import { groupUsage, parseUsageMonth, shiftMonth } from '@/lib/usage'
+
+const ADMIN_EMAIL = process.env.ADMIN_EMAIL || process.env.NEXT_PUBLIC_ADMIN_EMAIL
+
+// API spend of every user for a month (YYYY-MM, default current), for billing
+export async function GET(request: NextRequest) {
+  try {
+    if (!ADMIN_EMAIL) {
+      return NextResponse.json(
+        { data: null, error: 'Admin email not configured' },
+        { status: 500 }
+      )
+    }
+
+    // Check authentication
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check if user is admin
+    if (user.email !== ADMIN_EMAIL) {
+      return NextResponse.json(
+        { data: null, error: 'Forbidden: Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    const month = parseUsageMonth(new URL(request.url).searchParams.get('month'))
+    if (!month) {
+      return NextResponse.json(
+        { data: null, error: 'month must be in YYYY-MM format' },
+        { status: 400 }
+      )
+    }
+
+    // The service role bypasses RLS, so the view covers every user
+    const adminClient = createAdminClient()
+    const { data, error } = await adminClient
+      .from('api_usage_monthly')
+      .select('*')
+      .eq('month', shiftMonth(month, 0))
+
+    if (error) throw error
+
+    const byUser = [...groupUsage((data || []) as ApiUsageMonthly[], (row) => row.user_id)]
+      .map(([userId, totals]) => ({ userId, ...totals }))
+      .sort((a, b) => b.cost - a.cost)
+
+    return NextResponse.json({ data: { month, byUser }, error: null })
+  } catch (error) {
+    console.error('Error fetching API usage:', error)
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { parseAlertRuleInput } from '@/lib/alerts'
+
+// Postgres check_violation, raised when an update leaves a rule without its threshold or channel target
+const CHECK_VIOLATION = '23514'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const projectId = new URL(request.url).searchParams.get('project_id')
+
+    let query = supabase
+      .from('alert_rules')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (projectId) {
+      query = query.eq('project_id', projectId)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.project_id) {
+      return NextResponse.json(
+        { data: null, error: 'Project ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const rule = parseAlertRuleInput(body, true)
+    if (rule.error) {
+      return NextResponse.json(
+        { data: null, error: rule.error },
+        { status: 400 }
+      )
+    }
+
+    // RLS only allows rules in the user's own projects
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .insert({ project_id: body.project_id, ...rule.data })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.id) {
+      return NextResponse.json(
+        { data: null, error: 'Rule ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const rule = parseAlertRuleInput(body, false)
+    if (rule.error) {
+      return NextResponse.json(
+        { data: null, error: rule.error },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .update(rule.data)
+      .eq('id', body.id)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === CHECK_VIOLATION) {
+        return NextResponse.json(
+          { data: null, error: 'The rule needs a threshold for its type and a target for each channel' },
+          { status: 400 }
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { data: null, error: 'Rule ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('alert_rules')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { success: true }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
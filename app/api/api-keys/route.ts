@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { generateApiKey, parseApiKeyInput } from '@/lib/api-keys'
+
+const API_KEY_COLUMNS = 'id, user_id, name, key_prefix, scope, project_ids, last_used_at, revoked_at, created_at'
+
+// A key can only be scoped to projects the user owns (RLS hides the others)
+async function ownsProjects(supabase: SupabaseClient, projectIds: string[]): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id')
+    .in('id', projectIds)
+
+  if (error) throw error
+  return (data || []).length === projectIds.length
+}
+
+// Active keys of the user; revoked keys are kept for the record but not listed
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Creates a key (`name`, `scope`, `project_ids`). The response's `key` is the only time it is shown.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const input = parseApiKeyInput(body, true)
+    if (input.error) {
+      return NextResponse.json(
+        { data: null, error: input.error },
+        { status: 400 }
+      )
+    }
+
+    if (input.data.project_ids && !(await ownsProjects(supabase, input.data.project_ids))) {
+      return NextResponse.json(
+        { data: null, error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const { key, prefix, hash } = generateApiKey()
+    const { data, error } = await supabase
+      .from('api_keys')
+      .insert({ user_id: user.id, key_prefix: prefix, key_hash: hash, ...input.data })
+      .select(API_KEY_COLUMNS)
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { ...data, key }, error: null }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Renames a key or changes its scope or projects
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.id) {
+      return NextResponse.json(
+        { data: null, error: 'API key ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const input = parseApiKeyInput(body, false)
+    if (input.error) {
+      return NextResponse.json(
+        { data: null, error: input.error },
+        { status: 400 }
+      )
+    }
+
+    if (input.data.project_ids && !(await ownsProjects(supabase, input.data.project_ids))) {
+      return NextResponse.json(
+        { data: null, error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .update(input.data)
+      .eq('id', body.id)
+      .is('revoked_at', null)
+      .select(API_KEY_COLUMNS)
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Revokes a key. Requests made with it are refused from then on.
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { data: null, error: 'API key ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('revoked_at', null)
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { success: true }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
 
+// The description belongs to an organization: the project's when `project_id` is given, else
+// `organization_id`, else the user's oldest organization
+async function resolveOrganizationId(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: string | null,
+  organizationId: string | null
+): Promise<string | null> {
+  if (projectId) {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('organization_id')
+      .eq('id', projectId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data?.organization_id || null
+  }
+
+  if (organizationId) return organizationId
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('organization_id')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.organization_id || null
+}
+
 export async function GET(request: NextRequest) {
   try {
     const supabase = await createClient()
@@ -14,11 +48,23 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get user's business description
+    const { searchParams } = new URL(request.url)
+    const organizationId = await resolveOrganizationId(
+      supabase,
+      user.id,
+      searchParams.get('project_id'),
+      searchParams.get('organization_id')
+    )
+
+    if (!organizationId) {
+      return NextResponse.json({ data: { description: '' }, error: null })
+    }
+
+    // Get the organization's business description
     const { data, error } = await supabase
       .from('business_descriptions')
       .select('description')
-      .eq('user_id', user.id)
+      .eq('organization_id', organizationId)
       .single()
 
     if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
@@ -52,7 +98,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { description } = body
+    const { description, project_id, organization_id } = body
 
     if (!description || typeof description !== 'string') {
       return NextResponse.json(
@@ -61,20 +107,37 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Upsert business description (insert or update)
+    const organizationId = await resolveOrganizationId(supabase, user.id, project_id || null, organization_id || null)
+    if (!organizationId) {
+      return NextResponse.json(
+        { data: null, error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    // Upsert business description (insert or update); only owners and editors pass RLS
     const { data, error } = await supabase
       .from('business_descriptions')
       .upsert({
+        organization_id: organizationId,
         user_id: user.id,
         description: description.trim(),
         updated_at: new Date().toISOString(),
       }, {
-        onConflict: 'user_id',
+        onConflict: 'organization_id',
       })
       .select()
       .single()
 
-    if (error) throw error
+    if (error) {
+      if (error.code === '42501') {
+        return NextResponse.json(
+          { data: null, error: 'Only owners and editors can change the business description' },
+          { status: 403 }
+        )
+      }
+      throw error
+    }
 
     return NextResponse.json({ 
       data: { description: data.description }, 
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { parseRedditUrl } from '@/lib/reddit-url'
+import { findThread, findThreadProjectId } from '@/lib/threads'
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,6 +15,14 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const thread = parseRedditUrl(postUrl)
+    if (!thread) {
+      return NextResponse.json(
+        { data: null, error: 'Invalid Reddit thread URL' },
+        { status: 400 }
+      )
+    }
+
     const supabase = await createClient()
     
     // Check authentication
@@ -24,22 +34,18 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get post data with subreddit and project info
-    const { data: postData, error: postError } = await supabase
-      .from('reddit_posts')
-      .select('subreddit, keywords!inner(project_id)')
-      .eq('post_url', postUrl)
-      .single()
+    // Exclusions apply to the thread, through the project it ranks for
+    const storedThread = await findThread(supabase, thread.threadId)
+    const projectId = storedThread ? await findThreadProjectId(supabase, storedThread.id) : null
 
-    if (postError || !postData) {
+    if (!storedThread || !projectId) {
       return NextResponse.json(
         { data: null, error: 'Post not found' },
         { status: 404 }
       )
     }
 
-    const projectId = (postData as any).keywords.project_id
-    const subreddit = postData.subreddit
+    const subreddit = storedThread.subreddit
 
     // Get project exclusions
     const { data: projectData } = await supabase
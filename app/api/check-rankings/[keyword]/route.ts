@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { checkRankings, saveRankingsToDatabase } from '@/lib/rankings'
-
-export async function GET(
+import { findKeywordsByText } from '@/lib/keywords'
+
+/**
+ * Old text-based endpoint. Keyword text is only unique per project, so this resolves it
+ * (optionally within `?project_id=`) and redirects to /api/keywords/{id}/rankings. A 308 keeps
+ * the method, so POST still checks rankings. Text tracked in several projects answers 409 with
+ * the candidates.
+ */
+async function redirectToKeyword(
   request: NextRequest,
   { params }: { params: Promise<{ keyword: string }> }
 ) {
@@ -28,94 +34,24 @@ export async function GET(
       )
     }
 
-    // Find keyword in database
-    const { data: keywordData, error: keywordError } = await supabase
-      .from('keywords')
-      .select('id')
-      .eq('keyword', keyword)
-      .single()
+    const projectId = new URL(request.url).searchParams.get('project_id')
+    const matches = await findKeywordsByText(supabase, keyword, projectId)
 
-    if (keywordError || !keywordData) {
+    if (matches.length === 0) {
       return NextResponse.json(
         { data: null, error: 'Keyword not found' },
         { status: 404 }
       )
     }
 
-    // Just fetch existing posts from database (fast)
-    const { data: posts, error: postsError } = await supabase
-      .from('reddit_posts')
-      .select('*')
-      .eq('keyword_id', keywordData.id)
-      .order('rank_position', { ascending: true })
-
-    if (postsError) throw postsError
-
-    return NextResponse.json({ data: posts || [], error: null })
-  } catch (error) {
-    return NextResponse.json(
-      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    )
-  }
-}
-
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ keyword: string }> }
-) {
-  try {
-    const { keyword: keywordParam } = await params
-    const keyword = decodeURIComponent(keywordParam)
-
-    if (!keyword) {
-      return NextResponse.json(
-        { data: null, error: 'Keyword is required' },
-        { status: 400 }
-      )
-    }
-
-    const supabase = await createClient()
-    
-    // Check authentication
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    if (authError || !user) {
-      return NextResponse.json(
-        { data: null, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Find keyword in database
-    const { data: keywordData, error: keywordError } = await supabase
-      .from('keywords')
-      .select('id')
-      .eq('keyword', keyword)
-      .single()
-
-    if (keywordError || !keywordData) {
+    if (matches.length > 1) {
       return NextResponse.json(
-        { data: null, error: 'Keyword not found' },
-        { status: 404 }
+        { data: matches, error: 'Keyword is tracked in several projects. Use /api/keywords/{id}/rankings or pass project_id.' },
+        { status: 409 }
       )
     }
 
-    // Check rankings (this calls external APIs - slow)
-    const redditPosts = await checkRankings(keyword)
-
-    // Save rankings to database (need to pass supabase client for RLS)
-    await saveRankingsToDatabase(keywordData.id, keyword, redditPosts, supabase)
-
-    // Fetch updated posts
-    const { data: posts, error: postsError } = await supabase
-      .from('reddit_posts')
-      .select('*')
-      .eq('keyword_id', keywordData.id)
-      .order('rank_position', { ascending: true })
-
-    if (postsError) throw postsError
-
-    return NextResponse.json({ data: posts || [], error: null })
+    return NextResponse.redirect(new URL(`/api/keywords/${matches[0].id}/rankings`, request.url), 308)
   } catch (error) {
     return NextResponse.json(
       { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
@@ -123,3 +59,6 @@ export async function POST(
     )
   }
 }
+
+export const GET = redirectToKeyword
+export const POST = redirectToKeyword
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { deliverPendingNotifications } from '@/lib/notifications'
+
+// Sends pending alert emails and webhooks: those created by the edge function and retries of
+// failed deliveries. Call it every few minutes from a scheduler.
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await deliverPendingNotifications(createAdminClient())
+
+    return NextResponse.json({
+      message: 'Notifications delivered',
+      ...result,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
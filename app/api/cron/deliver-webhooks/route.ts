@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { deliverPendingWebhooks } from '@/lib/webhooks'
+
+// Retries failed webhook deliveries and sends those queued by the edge function. Call it every minute from a scheduler.
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await deliverPendingWebhooks(createAdminClient())
+
+    return NextResponse.json({
+      message: 'Webhook deliveries processed',
+      ...result,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
-import { checkRankings, saveRankingsToDatabase } from '@/lib/rankings'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { fetchDueKeywords, recordKeywordCheckFailure, runRankingCheck } from '@/lib/rankings'
+import { resolveSerpSettings } from '@/lib/serp-settings'
+import { startRefreshRun } from '@/lib/refresh-runs'
 
-// Cron job endpoint to refresh all keyword rankings daily
+// Cron job endpoint to refresh the rankings of due keywords, call it hourly
 export async function GET(request: NextRequest) {
   try {
     // Check if this is a cron request (you can add authentication here)
@@ -16,48 +18,67 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Fetch all keywords
-    const { data: keywords, error: keywordsError } = await supabase
-      .from('keywords')
-      .select('id, keyword')
+    // Backing off failed keywords needs the service role
+    const supabase = createAdminClient()
+
+    // Keywords due for a check by their refresh interval, most overdue first
+    const { data: keywords, error: keywordsError } = await fetchDueKeywords(supabase)
 
     if (keywordsError) throw keywordsError
 
     if (!keywords || keywords.length === 0) {
       return NextResponse.json({
-        message: 'No keywords to check',
+        message: 'No keywords due for a check',
         checked: 0,
       })
     }
 
+    const run = await startRefreshRun(supabase, 'cron', { source: 'api', keywordsTotal: keywords.length })
+
     // Check rankings for each keyword
     const results = []
     for (const keyword of keywords) {
+      const startedAt = new Date().toISOString()
       try {
-        const redditPosts = await checkRankings(keyword.keyword)
-        await saveRankingsToDatabase(keyword.id, keyword.keyword, redditPosts)
+        const serpSettings = resolveSerpSettings(keyword.projects, keyword)
+        const { postsCount, cost } = await runRankingCheck(keyword.id, keyword.keyword, supabase, serpSettings)
+        await run.record({ keywordId: keyword.id, keyword: keyword.keyword, startedAt, postsCount, cost })
         results.push({
           keyword: keyword.keyword,
           success: true,
-          postsCount: redditPosts.length,
+          postsCount,
         })
       } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        // A keyword that isn't backed off is retried on the next run, so report it with the failure
+        const backoffError = await recordKeywordCheckFailure(supabase, keyword.id).then(
+          () => null,
+          (backoffFailure: Error) => backoffFailure.message
+        )
+        if (backoffError) console.error(backoffError)
+        await run.record({ keywordId: keyword.id, keyword: keyword.keyword, startedAt, error: message })
         results.push({
           keyword: keyword.keyword,
           success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
+          error: message,
+          backoffError,
         })
       }
     }
 
+    await run.finish()
+
     const successCount = results.filter((r) => r.success).length
     const failureCount = results.filter((r) => !r.success).length
+    const backoffFailureCount = results.filter((r) => r.backoffError).length
 
     return NextResponse.json({
       message: 'Cron job completed',
+      runId: run.runId,
       checked: keywords.length,
       successful: successCount,
       failed: failureCount,
+      backoffFailed: backoffFailureCount,
       results,
     })
   } catch (error) {
@@ -1,91 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
-import { ReplyStyle, REPLY_STYLES } from '@/lib/types'
 import { replaceTemplateVariables, buildTemplateVariables } from '@/lib/template'
-
-interface ApifyScrapedItem {
-  title?: string
-  text?: string
-  content?: string
-  comments?: Array<{ text?: string }>
-  numberOfComments?: number
-}
-
-async function scrapeReddit(postUrl: string, includeComments: boolean) {
-  const apifyToken = process.env.APIFY_API_TOKEN
-  if (!apifyToken) return { data: null, error: 'APIFY_API_TOKEN not configured' }
-
-  const apiUrl = `https://api.apify.com/v2/acts/trudax~reddit-scraper-lite/run-sync-get-dataset-items?token=${apifyToken}`
-  const requestBody = {
-    debugMode: false,
-    ignoreStartUrls: false,
-    includeNSFW: true,
-    maxComments: 25,
-    maxCommunitiesCount: 1,
-    maxItems: 1,
-    maxPostCount: 1,
-    maxUserCount: 0,
-    proxy: {
-      useApifyProxy: true,
-      apifyProxyGroups: ['RESIDENTIAL']
-    },
-    scrollTimeout: 40,
-    searchComments: false,
-    searchCommunities: false,
-    searchPosts: true,
-    searchUsers: false,
-    skipComments: !includeComments ? true : false,
-    skipCommunity: true,
-    skipUserPosts: true,
-    sort: 'new',
-    startUrls: [{ url: postUrl }],
-  }
-
-  const res = await fetch(apiUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(requestBody),
-  })
-
-  if (!res.ok) {
-    return { data: null, error: `Apify error ${res.status}` }
-  }
-  const json = await res.json()
-  const item: ApifyScrapedItem | null = Array.isArray(json) && json.length > 0 ? json[0] : json
-  return { data: item as ApifyScrapedItem, error: null }
-}
-
-async function getProjectTemplate(postUrl: string, supabase: any): Promise<string | null> {
+import { getThreadForReply } from '@/lib/scrapers'
+import { parseRedditUrl, RedditThreadRef } from '@/lib/reddit-url'
+import { describeError } from '@/lib/http'
+import { generateReply, getLlmProvider, getProjectLlmSettings } from '@/lib/llm'
+import { applyReplyStyle, findReplyStyle, getReplyStyles } from '@/lib/reply-styles'
+import { createUsageRecorder } from '@/lib/usage'
+import { findOrCreateThread, findThread, findThreadProjectId } from '@/lib/threads'
+import { saveReplyDraft } from '@/lib/reply-drafts'
+
+async function getProjectTemplate(threadId: string, supabase: any): Promise<string | null> {
   try {
     const { data: { user }, error: authCheckError } = await supabase.auth.getUser()
     if (authCheckError || !user) {
       return null
     }
 
-    const { data: postsData, error: postError } = await supabase
-      .from('reddit_posts')
-      .select('keyword_id')
-      .eq('post_url', postUrl)
-      .limit(1)
-
-    if (postError || !postsData || postsData.length === 0 || !postsData[0]?.keyword_id) {
-      return null
-    }
-
-    const { data: keywordData, error: keywordError } = await supabase
-      .from('keywords')
-      .select('project_id')
-      .eq('id', postsData[0].keyword_id)
-      .single()
-
-    if (keywordError || !keywordData?.project_id) {
+    const projectId = await findThreadProjectId(supabase, threadId)
+    if (!projectId) {
       return null
     }
 
     const { data: projectData, error: projectError } = await supabase
       .from('projects')
       .select('prompt_template')
-      .eq('id', keywordData.project_id)
+      .eq('id', projectId)
       .single()
 
     if (projectError) {
@@ -98,36 +39,42 @@ async function getProjectTemplate(postUrl: string, supabase: any): Promise<strin
   }
 }
 
-async function checkDraftExists(postUrl: string, supabase: any): Promise<boolean> {
+// Only the user's own draft counts: colleagues' drafts of the thread are visible too, but don't stop
+// the user from drafting their own
+async function checkDraftExists(threadId: string, userId: string, supabase: SupabaseClient): Promise<boolean> {
   try {
     const { data, error } = await supabase
       .from('reply_drafts')
       .select('draft_content')
-      .eq('post_url', postUrl)
-      .single()
+      .eq('thread_id', threadId)
+      .eq('user_id', userId)
+      .maybeSingle()
 
-    return !error && data && data.draft_content && data.draft_content.length > 0
+    return !error && !!data?.draft_content
   } catch {
     return false
   }
 }
 
-async function saveDraft(postUrl: string, reply: string, supabase: any): Promise<boolean> {
+async function saveDraft(
+  thread: RedditThreadRef,
+  details: { post_title?: string; subreddit?: string },
+  reply: string,
+  supabase: SupabaseClient,
+  userId: string
+): Promise<boolean> {
   try {
-    const { data: { user } } = await supabase.auth.getUser()
-    if (!user) return false
+    const threadId = await findOrCreateThread(supabase, thread, details)
+
+    // Sends draft.created, or draft.updated with approved and scheduled drafts sent back to review
+    await saveReplyDraft(supabase, {
+      userId,
+      threadId,
+      postUrl: thread.canonicalUrl,
+      content: reply,
+    })
 
-    const { error } = await supabase
-      .from('reply_drafts')
-      .upsert({
-        user_id: user.id,
-        post_url: postUrl,
-        draft_content: reply,
-      }, {
-        onConflict: 'user_id,post_url'
-      })
-
-    return !error
+    return true
   } catch {
     return false
   }
@@ -139,12 +86,12 @@ export async function POST(req: NextRequest) {
     const { 
       postUrls, 
       businessDescription, 
-      style = 'casual', 
+      style: styleKey, 
       includeComments = false 
     } = body as {
       postUrls: string[]
       businessDescription: string
-      style?: ReplyStyle
+      style?: string
       includeComments?: boolean
     }
 
@@ -156,12 +103,10 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ data: null, error: 'businessDescription is required' }, { status: 400 })
     }
 
-    // Validate style
-    if (style && !REPLY_STYLES[style as ReplyStyle]) {
-      return NextResponse.json({ data: null, error: `Invalid style. Must be one of: ${Object.keys(REPLY_STYLES).join(', ')}` }, { status: 400 })
+    if (styleKey !== undefined && typeof styleKey !== 'string') {
+      return NextResponse.json({ data: null, error: 'style must be a style key' }, { status: 400 })
     }
 
-    const validatedStyle = (style || 'casual') as ReplyStyle
     const supabase = await createClient()
     
     // Check authentication
@@ -197,24 +142,33 @@ Requirements:
 
 Return only the comment text.`
 
-    const openaiKey = process.env.OPENAI_API_KEY
-    if (!openaiKey) {
-      return NextResponse.json({ data: null, error: 'OPENAI_API_KEY not configured' }, { status: 500 })
-    }
-
     const results: Array<{
       postUrl: string
       success: boolean
       reply?: string
       error?: string
+      code?: string
       skipped?: boolean
     }> = []
 
     // Process sequentially
     for (const postUrl of postUrls) {
       try {
+        const thread = parseRedditUrl(postUrl)
+        if (!thread) {
+          results.push({
+            postUrl,
+            success: false,
+            error: 'Invalid Reddit thread URL'
+          })
+          continue
+        }
+
+        // Threads that were never tracked have no stored data, project or draft yet
+        const storedThread = await findThread(supabase, thread.threadId)
+
         // Check if draft already exists
-        const hasDraft = await checkDraftExists(postUrl, supabase)
+        const hasDraft = storedThread ? await checkDraftExists(storedThread.id, user.id, supabase) : false
         if (hasDraft) {
           results.push({
             postUrl,
@@ -225,85 +179,50 @@ Return only the comment text.`
           continue
         }
 
+        // Provider calls are billed to the thread's project, or only to the user when the thread isn't tracked
+        const projectId = storedThread ? await findThreadProjectId(supabase, storedThread.id) : null
+        const usage = createUsageRecorder(supabase, { userId: user.id, projectId })
+
+        // Each thread's project has its own styles, so a style missing from it fails only that thread
+        const { style, error: styleError } = findReplyStyle(await getReplyStyles(supabase, projectId), styleKey)
+        if (styleError !== null) {
+          results.push({
+            postUrl,
+            success: false,
+            error: styleError
+          })
+          continue
+        }
+
+        // Each thread's project picks its own model; an unconfigured provider fails only that thread
+        const llmSettings = applyReplyStyle(await getProjectLlmSettings(supabase, projectId), style)
+        const llm = getLlmProvider(llmSettings.provider)
+
         // Get project template
-        const projectTemplate = await getProjectTemplate(postUrl, supabase)
+        const projectTemplate = storedThread ? await getProjectTemplate(storedThread.id, supabase) : null
         const template = projectTemplate || defaultTemplate
 
-        // Get stored post data or scrape
-        let scraped: ApifyScrapedItem | null = null
-        const { data: dbPosts } = await supabase
-          .from('reddit_posts')
-          .select('apify_scraped_data')
-          .eq('post_url', postUrl)
-          .limit(1)
-        
-        const dbPost = dbPosts && dbPosts.length > 0 ? dbPosts[0] : null
-
-        if (dbPost?.apify_scraped_data) {
-          scraped = dbPost.apify_scraped_data as ApifyScrapedItem
-          const hasComments = scraped.comments && 
-                             Array.isArray(scraped.comments) && 
-                             scraped.comments.length > 0
-          
-          if (includeComments && !hasComments) {
-            const { data, error } = await scrapeReddit(postUrl, true)
-            if (!error && data) {
-              scraped = {
-                ...scraped,
-                comments: data.comments || scraped.comments,
-                numberOfComments: data.numberOfComments || scraped.numberOfComments
-              }
-            }
-          }
-        } else {
-          const { data, error } = await scrapeReddit(postUrl, includeComments)
-          if (!error) scraped = data
-        }
+        // Stored thread content, with fresh comments scraped when requested but not stored
+        const scraped = await getThreadForReply(thread.canonicalUrl, storedThread?.scraped_data, includeComments, usage)
 
         // Build template variables
         const variables = buildTemplateVariables({
           businessDescription,
-          style: validatedStyle,
-          postUrl,
+          style,
+          postUrl: thread.canonicalUrl,
           scraped: scraped ? {
-            text: scraped.text,
-            content: scraped.content,
+            text: scraped.body,
             comments: scraped.comments,
             title: scraped.title,
+            subreddit: scraped.subreddit,
           } : null,
         })
 
         // Replace variables in template
         const prompt = replaceTemplateVariables(template, variables)
 
-        // Generate reply with OpenAI
-        const completion = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${openaiKey}`,
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o-mini',
-            messages: [
-              { role: 'system', content: 'You are an expert Reddit community marketer.' },
-              { role: 'user', content: prompt },
-            ],
-          }),
-        })
-
-        if (!completion.ok) {
-          const err = await completion.text()
-          results.push({
-            postUrl,
-            success: false,
-            error: `OpenAI API error ${completion.status}`
-          })
-          continue
-        }
-
-        const result = await completion.json()
-        const reply = result.choices?.[0]?.message?.content?.trim() || ''
+        // Generate reply with the project's model
+        const { text: reply } = await generateReply(llmSettings, prompt, usage, llm)
 
         if (!reply) {
           results.push({
@@ -315,7 +234,7 @@ Return only the comment text.`
         }
 
         // Save draft
-        const draftSaved = await saveDraft(postUrl, reply, supabase)
+        const draftSaved = await saveDraft(thread, { post_title: scraped?.title, subreddit: scraped?.subreddit }, reply, supabase, user.id)
         if (!draftSaved) {
           console.warn('Failed to save draft for postUrl:', postUrl)
         }
@@ -331,10 +250,12 @@ Return only the comment text.`
           await new Promise(resolve => setTimeout(resolve, 1500))
         }
       } catch (error) {
+        const { message, code } = describeError(error)
         results.push({
           postUrl,
           success: false,
-          error: error instanceof Error ? error.message : 'Unknown error'
+          error: message,
+          code
         })
       }
     }
@@ -356,7 +277,8 @@ Return only the comment text.`
       error: null
     })
   } catch (e) {
-    return NextResponse.json({ data: null, error: e instanceof Error ? e.message : 'Unknown error' }, { status: 500 })
+    const { status, message, code } = describeError(e)
+    return NextResponse.json({ data: null, error: message, code }, { status })
   }
 }
 
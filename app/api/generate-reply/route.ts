@@ -1,61 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { ReplyStyle, REPLY_STYLES } from '@/lib/types'
 import { replaceTemplateVariables, buildTemplateVariables } from '@/lib/template'
-
-interface ApifyScrapedItem {
-  title?: string
-  text?: string
-  content?: string
-  comments?: Array<{ text?: string }>
-  numberOfComments?: number
-}
-
-async function scrapeReddit(postUrl: string, includeComments: boolean) {
-  const apifyToken = process.env.APIFY_API_TOKEN
-  if (!apifyToken) return { data: null, error: 'APIFY_API_TOKEN not configured' }
-
-  const apiUrl = `https://api.apify.com/v2/acts/trudax~reddit-scraper-lite/run-sync-get-dataset-items?token=${apifyToken}`
-  const requestBody = {
-    debugMode: false,
-    ignoreStartUrls: false,
-    includeNSFW: true,
-    maxComments: 25,
-    maxCommunitiesCount: 1,
-    maxItems: 1,
-    maxPostCount: 1,
-    maxUserCount: 0,
-    proxy: {
-      useApifyProxy: true,
-      apifyProxyGroups: ['RESIDENTIAL']
-    },
-    scrollTimeout: 40,
-    searchComments: false,
-    searchCommunities: false,
-    searchPosts: true,
-    searchUsers: false,
-    skipComments: !includeComments ? true : false,
-    skipCommunity: true,
-    skipUserPosts: true,
-    sort: 'new',
-    startUrls: [{ url: postUrl }],
-  }
-
-  const res = await fetch(apiUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(requestBody),
-  })
-
-  if (!res.ok) {
-    return { data: null, error: `Apify error ${res.status}` }
-  }
-  const json = await res.json()
-  const item: ApifyScrapedItem | null = Array.isArray(json) && json.length > 0 ? json[0] : json
-  return { data: item as ApifyScrapedItem, error: null }
-}
-
-async function getProjectTemplate(postUrl: string, supabase: any): Promise<string | null> {
+import { getThreadForReply } from '@/lib/scrapers'
+import { parseRedditUrl } from '@/lib/reddit-url'
+import { describeError } from '@/lib/http'
+import { generateReply, getLlmProvider, getProjectLlmSettings } from '@/lib/llm'
+import { applyReplyStyle, findReplyStyle, getReplyStyles } from '@/lib/reply-styles'
+import { createUsageRecorder } from '@/lib/usage'
+import { findThread, findThreadProjectId } from '@/lib/threads'
+
+async function getProjectTemplate(threadId: string, supabase: any): Promise<string | null> {
   try {
     // Verify authentication context
     const { data: { user }, error: authCheckError } = await supabase.auth.getUser()
@@ -65,65 +19,36 @@ async function getProjectTemplate(postUrl: string, supabase: any): Promise<strin
     }
     console.log('Authenticated user in getProjectTemplate:', user.id, user.email)
 
-    // Step 1: Get the post and its keyword_id (may be multiple posts with same URL, so get first one)
-    // RLS will automatically filter to only posts from the user's projects
-    const { data: postsData, error: postError } = await supabase
-      .from('reddit_posts')
-      .select('keyword_id')
-      .eq('post_url', postUrl)
-      .limit(1)
-
-    if (postError) {
-      console.error('Error fetching post data:', postError)
-      return null
-    }
-
-    if (!postsData || postsData.length === 0 || !postsData[0]?.keyword_id) {
-      console.warn('No post data or keyword_id found for postUrl:', postUrl, 'This might be due to RLS filtering if the post doesn\'t belong to the authenticated user')
-      return null
-    }
-
-    const postData = postsData[0]
-    console.log('Found post with keyword_id:', postData.keyword_id)
-
-    // Step 2: Get the keyword and its project_id
-    const { data: keywordData, error: keywordError } = await supabase
-      .from('keywords')
-      .select('project_id')
-      .eq('id', postData.keyword_id)
-      .single()
-
-    if (keywordError) {
-      console.error('Error fetching keyword data:', keywordError, 'keyword_id:', postData.keyword_id)
-      return null
-    }
+    // Resolve the project through the thread's best ranking keyword
+    // RLS will automatically filter to only rankings from the user's projects
+    const projectId = await findThreadProjectId(supabase, threadId)
 
-    if (!keywordData || !keywordData.project_id) {
-      console.warn('No keyword data or project_id found for keyword_id:', postData.keyword_id)
+    if (!projectId) {
+      console.warn('No project found for thread:', threadId, 'This might be due to RLS filtering if the thread doesn\'t rank for any of the authenticated user\'s keywords')
       return null
     }
 
-    console.log('Found keyword with project_id:', keywordData.project_id)
+    console.log('Found project for thread:', projectId)
 
-    // Step 3: Get the project template
+    // Get the project template
     const { data: projectData, error: projectError } = await supabase
       .from('projects')
       .select('prompt_template')
-      .eq('id', keywordData.project_id)
+      .eq('id', projectId)
       .single()
 
     if (projectError) {
-      console.error('Error fetching project template:', projectError, 'project_id:', keywordData.project_id)
+      console.error('Error fetching project template:', projectError, 'project_id:', projectId)
       return null
     }
 
     const template = projectData?.prompt_template
     if (!template || template.trim() === '') {
-      console.warn('No prompt_template found or empty for project:', keywordData.project_id)
+      console.warn('No prompt_template found or empty for project:', projectId)
       return null
     }
 
-    console.log('Successfully loaded project template for postUrl:', postUrl, 'template length:', template.length)
+    console.log('Successfully loaded project template for thread:', threadId, 'template length:', template.length)
     return template
   } catch (error) {
     console.error('Unexpected error in getProjectTemplate:', error)
@@ -134,25 +59,22 @@ async function getProjectTemplate(postUrl: string, supabase: any): Promise<strin
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
-    const { postUrl, businessDescription, style = 'casual', includeComments = false } = body as {
+    const { postUrl, businessDescription, style: styleKey, includeComments = false } = body as {
       postUrl: string
       businessDescription: string
-      style?: ReplyStyle
+      style?: string
       includeComments?: boolean
     }
 
-    // Validate style
-    if (style && !REPLY_STYLES[style as ReplyStyle]) {
-      return NextResponse.json({ data: null, error: `Invalid style. Must be one of: ${Object.keys(REPLY_STYLES).join(', ')}` }, { status: 400 })
-    }
-    
-    const validatedStyle = (style || 'casual') as ReplyStyle
-    const styleConfig = REPLY_STYLES[validatedStyle]
-
     if (!postUrl || !businessDescription) {
       return NextResponse.json({ data: null, error: 'postUrl and businessDescription are required' }, { status: 400 })
     }
 
+    const thread = parseRedditUrl(postUrl)
+    if (!thread) {
+      return NextResponse.json({ data: null, error: 'Invalid Reddit thread URL' }, { status: 400 })
+    }
+
     const supabase = await createClient()
     
     // Check authentication
@@ -168,8 +90,25 @@ export async function POST(req: NextRequest) {
     // Log authenticated user for debugging
     console.log('Generate reply - Authenticated user:', user.id, user.email)
 
+    // Stored thread (scrape data, project link); missing when the thread was never tracked
+    const storedThread = await findThread(supabase, thread.threadId)
+
+    // Provider calls are billed to the thread's project, or only to the user when the thread isn't tracked
+    const projectId = storedThread ? await findThreadProjectId(supabase, storedThread.id) : null
+    const usage = createUsageRecorder(supabase, { userId: user.id, projectId })
+
+    // Styles are the project's own (the defaults without a project); the first one when none is given
+    const { style, error: styleError } = findReplyStyle(await getReplyStyles(supabase, projectId), styleKey)
+    if (styleError !== null) {
+      return NextResponse.json({ data: null, error: styleError }, { status: 400 })
+    }
+
+    // The project's model with the style's parameters; fails before any scraping when its provider isn't configured
+    const llmSettings = applyReplyStyle(await getProjectLlmSettings(supabase, projectId), style)
+    const llm = getLlmProvider(llmSettings.provider)
+
     // Get project template
-    const projectTemplate = await getProjectTemplate(postUrl, supabase)
+    const projectTemplate = storedThread ? await getProjectTemplate(storedThread.id, supabase) : null
     
     // Log which template is being used for debugging
     if (projectTemplate) {
@@ -205,96 +144,31 @@ Return only the comment text.`
 
     const template = projectTemplate || defaultTemplate
 
-    // First, try to get stored post data from database
-    // Note: There may be multiple posts with the same URL (same post tracked for multiple keywords)
-    // We'll use the first one's scraped data
-    let scraped: ApifyScrapedItem | null = null
-    const { data: dbPosts } = await supabase
-      .from('reddit_posts')
-      .select('apify_scraped_data')
-      .eq('post_url', postUrl)
-      .limit(1)
-    
-    const dbPost = dbPosts && dbPosts.length > 0 ? dbPosts[0] : null
-
-    if (dbPost?.apify_scraped_data) {
-      // Use stored data (includes post content like text/content)
-      // Note: Ranking checks use skipComments: true, so stored data typically won't have comments
-      scraped = dbPost.apify_scraped_data as ApifyScrapedItem
-      
-      // Check if comments exist in stored data (they won't if scraped with skipComments: true)
-      const hasComments = scraped.comments && 
-                         Array.isArray(scraped.comments) && 
-                         scraped.comments.length > 0
-      
-      // If user wants comments but stored data doesn't have them, scrape fresh
-      if (includeComments && !hasComments) {
-        const { data, error } = await scrapeReddit(postUrl, true)
-        if (!error && data) {
-          // Merge fresh comments into stored data (keep stored post content)
-          scraped = {
-            ...scraped,
-            comments: data.comments || scraped.comments,
-            numberOfComments: data.numberOfComments || scraped.numberOfComments
-          }
-        }
-      }
-    } else {
-      // No stored data - scrape fresh to get post content
-      // Use includeComments flag to determine if we should fetch comments too
-      const { data, error } = await scrapeReddit(postUrl, includeComments)
-      if (!error) scraped = data
-    }
+    // Stored thread content, with fresh comments scraped when requested but not stored
+    const scraped = await getThreadForReply(thread.canonicalUrl, storedThread?.scraped_data, includeComments, usage)
 
     // Build template variables
     const variables = buildTemplateVariables({
       businessDescription,
-      style: validatedStyle,
-      postUrl,
+      style,
+      postUrl: thread.canonicalUrl,
       scraped: scraped ? {
-        text: scraped.text,
-        content: scraped.content,
+        text: scraped.body,
         comments: scraped.comments,
         title: scraped.title,
+        subreddit: scraped.subreddit,
       } : null,
     })
 
     // Replace variables in template
     const prompt = replaceTemplateVariables(template, variables)
 
-    const openaiKey = process.env.OPENAI_API_KEY
-    if (!openaiKey) {
-      return NextResponse.json({ data: null, error: 'OPENAI_API_KEY not configured' }, { status: 500 })
-    }
-
-    const completion = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${openaiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-5-mini',
-        messages: [
-          { role: 'system', content: 'You are an expert Reddit community marketer.' },
-          { role: 'user', content: prompt },
-        ],
-        //temperature: styleConfig.temperature,
-        //max_tokens: styleConfig.maxTokens,
-      }),
-    })
-
-    if (!completion.ok) {
-      const err = await completion.text()
-      return NextResponse.json({ data: null, error: `OpenAI API error ${completion.status}: ${err}` }, { status: 500 })
-    }
-
-    const result = await completion.json()
-    const reply = result.choices?.[0]?.message?.content?.trim() || ''
+    const { text: reply } = await generateReply(llmSettings, prompt, usage, llm)
 
     return NextResponse.json({ data: { reply }, error: null })
   } catch (e) {
-    return NextResponse.json({ data: null, error: e instanceof Error ? e.message : 'Unknown error' }, { status: 500 })
+    const { status, message, code } = describeError(e)
+    return NextResponse.json({ data: null, error: message, code }, { status })
   }
 }
 
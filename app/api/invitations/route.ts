@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { OrganizationInvitation } from '@/lib/types'
+
+type InvitationRow = Omit<OrganizationInvitation, 'organization_name'> & {
+  organizations: { name: string } | { name: string }[] | null
+}
+
+// Pending invitations addressed to the signed-in user's email
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!user.email) {
+      return NextResponse.json({ data: [], error: null })
+    }
+
+    const { data, error } = await supabase
+      .from('organization_invitations')
+      .select('id, organization_id, email, role, invited_by, expires_at, accepted_at, created_at, organizations(name)')
+      .eq('email', user.email.toLowerCase())
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    const invitations: OrganizationInvitation[] = ((data || []) as InvitationRow[]).map(({ organizations, ...invitation }) => ({
+      ...invitation,
+      // Supabase may return an embedded many-to-one relation as an array
+      organization_name: (Array.isArray(organizations) ? organizations[0] : organizations)?.name || '',
+    }))
+
+    return NextResponse.json({ data: invitations, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Accepts an invitation (`id`) and joins its organization
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.id) {
+      return NextResponse.json(
+        { data: null, error: 'Invitation ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase.rpc('accept_organization_invitation', { p_invitation_id: body.id })
+
+    if (error) {
+      if (error.code === 'P0002') {
+        return NextResponse.json(
+          { data: null, error: 'Invitation not found or expired' },
+          { status: 404 }
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json({ data: { organization_id: data }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Declines an invitation (`?id`)
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { data: null, error: 'Invitation ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('organization_invitations')
+      .delete()
+      .eq('id', id)
+      .is('accepted_at', null)
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { success: true }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { describeError } from '@/lib/http'
+import { runRankingCheck } from '@/lib/rankings'
+import { startRefreshRun } from '@/lib/refresh-runs'
+import { RANKING_WITH_HISTORY_SELECT, toRedditPost } from '@/lib/threads'
+
+// Threads of a keyword, including dropped ones with their history
+async function fetchKeywordPosts(supabase: SupabaseClient, keywordId: string) {
+  const { data: posts, error } = await supabase
+    .from('keyword_thread_rankings')
+    .select(RANKING_WITH_HISTORY_SELECT)
+    .eq('keyword_id', keywordId)
+    .order('rank_position', { ascending: true })
+    .order('checked_at', { referencedTable: 'rankings_history', ascending: true })
+
+  if (error) throw error
+  return (posts || []).map(toRedditPost)
+}
+
+// Stored rankings of a keyword (fast, no external calls)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    const { data: keywordData, error: keywordError } = await supabase
+      .from('keywords')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (keywordError || !keywordData) {
+      return NextResponse.json(
+        { data: null, error: 'Keyword not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ data: await fetchKeywordPosts(supabase, keywordData.id), error: null })
+  } catch (error) {
+    // SERP provider failures keep their status (429, 502, 503, 504) so the UI can tell them apart
+    const { status, message, code } = describeError(error)
+    return NextResponse.json(
+      { data: null, error: message, code },
+      { status }
+    )
+  }
+}
+
+// Checks the keyword's rankings now (calls external APIs - slow) and returns them
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    const { data: keywordData, error: keywordError } = await supabase
+      .from('keywords')
+      .select('id, keyword')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (keywordError || !keywordData) {
+      return NextResponse.json(
+        { data: null, error: 'Keyword not found' },
+        { status: 404 }
+      )
+    }
+
+    const { keyword } = keywordData
+    const run = await startRefreshRun(supabase, 'manual', { source: 'api', userId: user.id, keywordsTotal: 1 })
+    const startedAt = new Date().toISOString()
+
+    try {
+      // Check rankings in the keyword's market and save them to the database (need to pass supabase client for RLS)
+      const { postsCount, cost } = await runRankingCheck(keywordData.id, keyword, supabase)
+      await run.record({ keywordId: keywordData.id, keyword, startedAt, postsCount, cost })
+      await run.finish()
+    } catch (error) {
+      await run.record({ keywordId: keywordData.id, keyword, startedAt, error: error instanceof Error ? error.message : 'Unknown error' })
+      await run.finish()
+      throw error
+    }
+
+    return NextResponse.json({ data: await fetchKeywordPosts(supabase, keywordData.id), error: null })
+  } catch (error) {
+    // SERP provider failures keep their status (429, 502, 503, 504) so the UI can tell them apart
+    const { status, message, code } = describeError(error)
+    return NextResponse.json(
+      { data: null, error: message, code },
+      { status }
+    )
+  }
+}
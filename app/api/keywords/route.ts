@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
-import { checkRankings, saveRankingsToDatabase } from '@/lib/rankings'
+import { startRankingChecks } from '@/lib/ranking-jobs'
+import { parseKeywordSettingsInput } from '@/lib/keywords'
+import { RankingJob } from '@/lib/types'
 
 export async function GET(request: NextRequest) {
   try {
@@ -40,14 +43,13 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function checkRankingsForKeyword(keywordId: string, keywordText: string, supabaseClient: any) {
+// Queues ranking checks for new keywords; adding keywords succeeds even if queueing fails
+async function queueRankingChecks(keywordIds: string[], supabaseClient: SupabaseClient): Promise<RankingJob[]> {
   try {
-    const redditPosts = await checkRankings(keywordText)
-    await saveRankingsToDatabase(keywordId, keywordText, redditPosts, supabaseClient)
-    return { success: true, postsCount: redditPosts.length }
+    return await startRankingChecks(supabaseClient, keywordIds)
   } catch (error) {
-    console.error(`Error checking rankings for keyword ${keywordText}:`, error)
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    console.error('Error queueing ranking checks:', error)
+    return []
   }
 }
 
@@ -138,42 +140,28 @@ export async function POST(request: NextRequest) {
 
           if (insertError) throw insertError
 
-          // Auto-check rankings for newly added keywords (sequentially to avoid parallel Apify calls)
-          if (insertedData && insertedData.length > 0) {
-            for (const kw of insertedData) {
-              try {
-                await checkRankingsForKeyword(kw.id, kw.keyword, supabase)
-              } catch (error) {
-                console.error(`Error checking rankings for keyword ${kw.keyword}:`, error)
-              }
-            }
-          }
+          // Queue ranking checks for newly added keywords, poll /api/ranking-jobs for progress
+          const jobs = await queueRankingChecks((insertedData || []).map((kw) => kw.id), supabase)
 
           return NextResponse.json({
             data: insertedData,
             error: null,
             skipped: existingKeywords.length,
             added: newKeywords.length,
+            jobs,
           }, { status: 201 })
         }
         throw error
       }
 
-      // Auto-check rankings for newly added keywords (sequentially to avoid parallel Apify calls)
-      if (data && data.length > 0) {
-        for (const kw of data) {
-          try {
-            await checkRankingsForKeyword(kw.id, kw.keyword, supabase)
-          } catch (error) {
-            console.error(`Error checking rankings for keyword ${kw.keyword}:`, error)
-          }
-        }
-      }
+      // Queue ranking checks for newly added keywords, poll /api/ranking-jobs for progress
+      const jobs = await queueRankingChecks((data || []).map((kw) => kw.id), supabase)
 
       return NextResponse.json({
         data,
         error: null,
         added: validKeywords.length,
+        jobs,
       }, { status: 201 })
     }
 
@@ -212,16 +200,10 @@ export async function POST(request: NextRequest) {
       throw error
     }
 
-    // Auto-check rankings for newly added keyword (sequential processing)
-    if (data) {
-      try {
-        await checkRankingsForKeyword(data.id, data.keyword, supabase)
-      } catch (error) {
-        console.error(`Error checking rankings for keyword ${data.keyword}:`, error)
-      }
-    }
+    // Queue a ranking check for the new keyword
+    const jobs = data ? await queueRankingChecks([data.id], supabase) : []
 
-    return NextResponse.json({ data, error: null }, { status: 201 })
+    return NextResponse.json({ data, error: null, jobs }, { status: 201 })
   } catch (error) {
     return NextResponse.json(
       { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
@@ -300,3 +282,61 @@ export async function DELETE(request: NextRequest) {
     )
   }
 }
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json(
+        { data: null, error: 'Keyword ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const settings = parseKeywordSettingsInput(body)
+    if (settings.error) {
+      return NextResponse.json(
+        { data: null, error: settings.error },
+        { status: 400 }
+      )
+    }
+
+    const updates = settings.data
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { data: null, error: 'No fields to update' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('keywords')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createMockCommentId, isMockRedditEnabled, readMockAccessToken } from '@/lib/reddit-api/mock'
+
+// Stand-in for Reddit's comment endpoint. Nothing is posted; the comment gets a made-up ID under the thread.
+export async function POST(request: NextRequest) {
+  if (!isMockRedditEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const username = readMockAccessToken(request.headers.get('authorization'))
+  if (!username) {
+    return NextResponse.json({ message: 'Unauthorized', error: 401 }, { status: 401 })
+  }
+
+  const form = new URLSearchParams(await request.text())
+  const thingId = form.get('thing_id') || ''
+  const text = form.get('text') || ''
+
+  // Reddit reports validation errors with 200 and a list of [code, message, field]
+  const threadId = /^t3_([a-z0-9]+)$/i.exec(thingId)?.[1]
+  if (!threadId) {
+    return NextResponse.json({ json: { errors: [['INVALID_THING_ID', 'that thing does not exist', 'thing_id']] } })
+  }
+  if (!text.trim()) {
+    return NextResponse.json({ json: { errors: [['NO_TEXT', 'we need something here', 'text']] } })
+  }
+
+  const id = createMockCommentId()
+  return NextResponse.json({
+    json: {
+      errors: [],
+      data: {
+        things: [{
+          kind: 't1',
+          data: {
+            id,
+            name: `t1_${id}`,
+            author: username,
+            body: text,
+            link_id: thingId,
+            parent_id: thingId,
+            permalink: `/comments/${threadId.toLowerCase()}/_/${id}/`,
+          },
+        }],
+      },
+    },
+  })
+}
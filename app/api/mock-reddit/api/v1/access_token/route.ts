@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  createMockTokens,
+  isMockRedditClient,
+  isMockRedditEnabled,
+  readMockCode,
+  readMockRefreshToken,
+} from '@/lib/reddit-api/mock'
+
+// Stand-in for Reddit's token endpoint: exchanges codes and refresh tokens issued by this server
+export async function POST(request: NextRequest) {
+  if (!isMockRedditEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  if (!isMockRedditClient(request.headers.get('authorization'))) {
+    return NextResponse.json({ message: 'Unauthorized', error: 401 }, { status: 401 })
+  }
+
+  const form = new URLSearchParams(await request.text())
+  switch (form.get('grant_type')) {
+    case 'authorization_code': {
+      const username = readMockCode(form.get('code'))
+      if (!username) return NextResponse.json({ error: 'invalid_grant' })
+      return NextResponse.json(createMockTokens(username, true))
+    }
+    case 'refresh_token': {
+      const username = readMockRefreshToken(form.get('refresh_token'))
+      if (!username) return NextResponse.json({ error: 'invalid_grant' })
+      return NextResponse.json(createMockTokens(username, false))
+    }
+    default:
+      return NextResponse.json({ error: 'unsupported_grant_type' })
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createMockCode, isMockRedditEnabled, MOCK_REDDIT_CLIENT_ID } from '@/lib/reddit-api/mock'
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+// The http(s) URL to send the user back to, or null when it's missing or not a URL
+function parseRedirectUri(value: unknown): URL | null {
+  if (typeof value !== 'string' || !value) return null
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+// Stand-in for Reddit's consent page: asks which username to sign in as
+export async function GET(request: NextRequest) {
+  if (!isMockRedditEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const params = request.nextUrl.searchParams
+  if (params.get('client_id') !== MOCK_REDDIT_CLIENT_ID || !parseRedirectUri(params.get('redirect_uri'))) {
+    return NextResponse.json({ error: 'invalid client_id or redirect_uri' }, { status: 400 })
+  }
+
+  const hidden = ['redirect_uri', 'state']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) || '')}">`)
+    .join('')
+
+  const html = `<!DOCTYPE html>
+<html>
+<head><title>Mock Reddit authorization</title></head>
+<body style="font-family: sans-serif; max-width: 28rem; margin: 4rem auto;">
+<h1>Mock Reddit</h1>
+<p>Allow the app to post as this account? Requested scopes: ${escapeHtml(params.get('scope') || '')}</p>
+<form method="post">
+${hidden}
+<label>Username <input name="username" required pattern="[A-Za-z0-9_-]{3,20}"></label>
+<button type="submit" name="decision" value="allow">Allow</button>
+<button type="submit" name="decision" value="deny" formnovalidate>Decline</button>
+</form>
+</body>
+</html>`
+
+  return new NextResponse(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+}
+
+// Redirects back to the app with a code for the username, or access_denied, like Reddit does
+export async function POST(request: NextRequest) {
+  if (!isMockRedditEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const form = await request.formData()
+  const url = parseRedirectUri(form.get('redirect_uri'))
+  const username = form.get('username')
+  if (!url) {
+    return NextResponse.json({ error: 'redirect_uri must be an http(s) URL' }, { status: 400 })
+  }
+
+  url.searchParams.set('state', String(form.get('state') || ''))
+  if (form.get('decision') === 'allow' && typeof username === 'string' && username) {
+    url.searchParams.set('code', createMockCode(username))
+  } else {
+    url.searchParams.set('error', 'access_denied')
+  }
+
+  return NextResponse.redirect(url, 303)
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isMockRedditEnabled, readMockAccessToken } from '@/lib/reddit-api/mock'
+
+// Stand-in for Reddit's identity endpoint
+export async function GET(request: NextRequest) {
+  if (!isMockRedditEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const username = readMockAccessToken(request.headers.get('authorization'))
+  if (!username) {
+    return NextResponse.json({ message: 'Unauthorized', error: 401 }, { status: 401 })
+  }
+
+  return NextResponse.json({ name: username, link_karma: 1, comment_karma: 1 })
+}
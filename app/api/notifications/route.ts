@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+// In-app notifications of the user, newest first, with the unread count. ?unread=true lists unread ones only.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limitParam = Number(searchParams.get('limit') || DEFAULT_LIMIT)
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT
+
+    let query = supabase
+      .from('notifications')
+      .select('*')
+      .eq('in_app', true)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (searchParams.get('unread') === 'true') {
+      query = query.is('read_at', null)
+    }
+
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      query,
+      supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('in_app', true)
+        .is('read_at', null),
+    ])
+
+    if (error) throw error
+    if (countError) throw countError
+
+    return NextResponse.json({ data, unreadCount: count || 0, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Marks notifications as read: { ids: [...] } or { all: true }
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { ids, all } = await request.json()
+
+    if (all !== true && (!Array.isArray(ids) || ids.length === 0)) {
+      return NextResponse.json(
+        { data: null, error: 'ids or all is required' },
+        { status: 400 }
+      )
+    }
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .is('read_at', null)
+
+    if (all !== true) {
+      query = query.in('id', ids)
+    }
+
+    const { error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { success: true }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getOrganizationRole, parseInvitationInput, sendInvitationEmail } from '@/lib/organizations'
+
+const INVITATION_COLUMNS = 'id, organization_id, email, role, invited_by, expires_at, accepted_at, created_at'
+
+// Pending invitations of an organization (owners only), newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    const { data, error } = await supabase
+      .from('organization_invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('organization_id', id)
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Invites someone by email (`email`, `role`) and emails them a link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const input = parseInvitationInput(await request.json())
+    if (input.error || !input.data) {
+      return NextResponse.json(
+        { data: null, error: input.error },
+        { status: 400 }
+      )
+    }
+
+    if ((await getOrganizationRole(supabase, id, user.id)) !== 'owner') {
+      return NextResponse.json(
+        { data: null, error: 'Only owners can invite members' },
+        { status: 403 }
+      )
+    }
+
+    const { data: member, error: memberError } = await supabase
+      .from('organization_members')
+      .select('user_id')
+      .eq('organization_id', id)
+      .eq('email', input.data.email)
+      .maybeSingle()
+
+    if (memberError) throw memberError
+
+    if (member) {
+      return NextResponse.json(
+        { data: null, error: `${input.data.email} is already a member` },
+        { status: 409 }
+      )
+    }
+
+    // Expired invitations would block a new one on the pending-email index
+    const { error: expiredError } = await supabase
+      .from('organization_invitations')
+      .delete()
+      .eq('organization_id', id)
+      .eq('email', input.data.email)
+      .is('accepted_at', null)
+      .lte('expires_at', new Date().toISOString())
+
+    if (expiredError) throw expiredError
+
+    const { data, error } = await supabase
+      .from('organization_invitations')
+      .insert({ organization_id: id, invited_by: user.id, ...input.data })
+      .select(INVITATION_COLUMNS)
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { data: null, error: `${input.data.email} already has a pending invitation` },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    const { data: organization } = await supabase
+      .from('organizations')
+      .select('name')
+      .eq('id', id)
+      .single()
+
+    await sendInvitationEmail(data, organization?.name || 'an organization', user.email)
+
+    return NextResponse.json({ data, error: null }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Cancels a pending invitation (`?invitation_id`)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const invitationId = new URL(request.url).searchParams.get('invitation_id')
+
+    if (!invitationId) {
+      return NextResponse.json(
+        { data: null, error: 'Invitation ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('organization_invitations')
+      .delete()
+      .eq('id', invitationId)
+      .eq('organization_id', id)
+      .is('accepted_at', null)
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { success: true }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isLastOwner, isOrganizationRole } from '@/lib/organizations'
+import { ORGANIZATION_ROLES } from '@/lib/types'
+
+const MEMBER_COLUMNS = 'organization_id, user_id, email, role, created_at'
+
+// Members of an organization, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    // RLS limits this to organizations the user is a member of
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select(MEMBER_COLUMNS)
+      .eq('organization_id', id)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Changes a member's role (`user_id`, `role`); owners only
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    if (!body.user_id) {
+      return NextResponse.json(
+        { data: null, error: 'User ID is required' },
+        { status: 400 }
+      )
+    }
+    if (!isOrganizationRole(body.role)) {
+      return NextResponse.json(
+        { data: null, error: `role must be one of: ${ORGANIZATION_ROLES.map((r) => r.value).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (body.role !== 'owner' && (await isLastOwner(supabase, id, body.user_id))) {
+      return NextResponse.json(
+        { data: null, error: 'An organization needs at least one owner' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .update({ role: body.role })
+      .eq('organization_id', id)
+      .eq('user_id', body.user_id)
+      .select(MEMBER_COLUMNS)
+      .maybeSingle()
+
+    if (error) throw error
+
+    if (!data) {
+      return NextResponse.json(
+        { data: null, error: 'Only owners can change roles' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Removes a member (`?user_id`). Owners can remove anyone; members can remove themselves to leave.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const userId = new URL(request.url).searchParams.get('user_id')
+
+    if (!userId) {
+      return NextResponse.json(
+        { data: null, error: 'User ID is required' },
+        { status: 400 }
+      )
+    }
+
+    if (await isLastOwner(supabase, id, userId)) {
+      return NextResponse.json(
+        { data: null, error: 'An organization needs at least one owner. Delete it instead.' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', id)
+      .eq('user_id', userId)
+      .select('user_id')
+
+    if (error) throw error
+
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { data: null, error: 'Only owners can remove other members' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({ data: { success: true }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
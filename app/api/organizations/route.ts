@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { Organization, OrganizationRole } from '@/lib/types'
+
+type MembershipRow = {
+  role: OrganizationRole
+  organizations: Omit<Organization, 'role'> | Omit<Organization, 'role'>[] | null
+}
+
+// Organizations the user is a member of, with their role in each, oldest first
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('role, organizations(id, name, created_by, created_at, updated_at)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    const organizations: Organization[] = ((data || []) as MembershipRow[]).flatMap(({ role, organizations }) => {
+      // Supabase may return an embedded many-to-one relation as an array
+      const organization = Array.isArray(organizations) ? organizations[0] : organizations
+      return organization ? [{ ...organization, role }] : []
+    })
+
+    return NextResponse.json({ data: organizations, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Creates an organization (`name`); the creator becomes its owner
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!name) {
+      return NextResponse.json(
+        { data: null, error: 'Organization name is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('organizations')
+      .insert({ name, created_by: user.id })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { ...data, role: 'owner' }, error: null }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Renames an organization (owners only)
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!body.id) {
+      return NextResponse.json(
+        { data: null, error: 'Organization ID is required' },
+        { status: 400 }
+      )
+    }
+    if (!name) {
+      return NextResponse.json(
+        { data: null, error: 'Organization name is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('organizations')
+      .update({ name })
+      .eq('id', body.id)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+
+    // RLS hides the row from members who aren't owners
+    if (!data) {
+      return NextResponse.json(
+        { data: null, error: 'Only owners can rename an organization' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({ data: { ...data, role: 'owner' }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Deletes an organization with its projects (owners only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { data: null, error: 'Organization ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('organizations')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) throw error
+
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { data: null, error: 'Only owners can delete an organization' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({ data: { success: true }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
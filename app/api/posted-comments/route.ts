@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { POSTED_COMMENT_GROUP_BYS, summarizePostedComments } from '@/lib/posted-comments'
+import { PostedCommentGroupBy } from '@/lib/types'
+
+// How posted comments fared, grouped by `group_by` (thread, subreddit or keyword, default thread),
+// optionally for one project. RLS limits this to comments of drafts the user can see.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const groupBy = (searchParams.get('group_by') || 'thread') as PostedCommentGroupBy
+    const projectId = searchParams.get('project_id')
+
+    if (!POSTED_COMMENT_GROUP_BYS.includes(groupBy)) {
+      return NextResponse.json(
+        { data: null, error: `group_by must be one of: ${POSTED_COMMENT_GROUP_BYS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const data = await summarizePostedComments(supabase, groupBy, projectId)
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
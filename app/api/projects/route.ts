@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { resolveProjectOrganizationId } from '@/lib/organizations'
+import { parseProjectInput } from '@/lib/projects'
 
 export async function GET() {
   try {
@@ -17,7 +19,6 @@ export async function GET() {
     const { data, error } = await supabase
       .from('projects')
       .select('*')
-      .eq('user_id', user.id)
       .order('created_at', { ascending: false })
 
     if (error) throw error
@@ -45,22 +46,28 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { name, description } = body
 
-    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+    // Market settings are optional (database defaults apply when omitted)
+    const input = parseProjectInput(body, true)
+    if (input.error) {
       return NextResponse.json(
-        { data: null, error: 'Project name is required' },
+        { data: null, error: input.error },
         { status: 400 }
       )
     }
 
+    // Defaults to the user's personal organization
+    const organizationId = await resolveProjectOrganizationId(supabase, user.id, input.data.organization_id)
+    if (!organizationId) {
+      return NextResponse.json(
+        { data: null, error: 'Only owners and editors can create projects in an organization' },
+        { status: 403 }
+      )
+    }
+
     const { data, error } = await supabase
       .from('projects')
-      .insert([{ 
-        name: name.trim(), 
-        description: description?.trim() || null,
-        user_id: user.id
-      }])
+      .insert([{ ...input.data, organization_id: organizationId, user_id: user.id }])
       .select()
       .single()
 
@@ -110,7 +117,6 @@ export async function DELETE(request: NextRequest) {
       .from('projects')
       .delete()
       .eq('id', id)
-      .eq('user_id', user.id)
 
     if (error) throw error
 
@@ -137,7 +143,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { id, name, description, prompt_template, subreddit_exclusions } = body
+    const { id } = body
 
     if (!id) {
       return NextResponse.json(
@@ -146,18 +152,14 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
-    const updateData: any = {}
-    if (name !== undefined) updateData.name = name.trim()
-    if (description !== undefined) updateData.description = description?.trim() || null
-    if (prompt_template !== undefined) updateData.prompt_template = prompt_template
-    if (subreddit_exclusions !== undefined) {
-      // Normalize exclusions: lowercase, remove 'r/' prefix, filter empty
-      updateData.subreddit_exclusions = Array.isArray(subreddit_exclusions)
-        ? subreddit_exclusions
-            .map((s: string) => s.trim().toLowerCase().replace(/^r\//, ''))
-            .filter((s: string) => s.length > 0)
-        : []
+    const input = parseProjectInput(body, false)
+    if (input.error) {
+      return NextResponse.json(
+        { data: null, error: input.error },
+        { status: 400 }
+      )
     }
+    const updateData = input.data
 
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json(
@@ -170,7 +172,6 @@ export async function PATCH(request: NextRequest) {
       .from('projects')
       .update(updateData)
       .eq('id', id)
-      .eq('user_id', user.id)
       .select()
       .single()
 
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { loadRankingSeries } from '@/lib/ranking-history'
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+
+// Rank history of every thread of a keyword (keyword_id) or every keyword of a thread (thread_id)
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const keywordId = searchParams.get('keyword_id')
+    const threadId = searchParams.get('thread_id')
+    const daysParam = Number(searchParams.get('days') || DEFAULT_DAYS)
+    const days = Number.isInteger(daysParam) && daysParam > 0 ? Math.min(daysParam, MAX_DAYS) : DEFAULT_DAYS
+
+    if (!keywordId && !threadId) {
+      return NextResponse.json(
+        { data: null, error: 'keyword_id or thread_id is required' },
+        { status: 400 }
+      )
+    }
+
+    const series = await loadRankingSeries(supabase, { keywordId, threadId }, days)
+
+    return NextResponse.json({ data: series, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
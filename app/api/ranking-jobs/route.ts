@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getRankingJobProgress } from '@/lib/ranking-jobs'
+
+// Per-keyword progress of queued ranking checks, polled by the keyword forms and list
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const projectId = searchParams.get('project_id')
+    const keywordIdsParam = searchParams.get('keyword_ids')
+
+    let keywordIds: string[] = []
+
+    if (keywordIdsParam) {
+      keywordIds = keywordIdsParam.split(',').map((id) => id.trim()).filter(Boolean)
+    } else if (projectId) {
+      // RLS limits this to the user's own projects
+      const { data: keywords, error: keywordsError } = await supabase
+        .from('keywords')
+        .select('id')
+        .eq('project_id', projectId)
+
+      if (keywordsError) throw keywordsError
+      keywordIds = (keywords || []).map((k: { id: string }) => k.id)
+    } else {
+      return NextResponse.json(
+        { data: null, error: 'keyword_ids or project_id is required' },
+        { status: 400 }
+      )
+    }
+
+    const progress = await getRankingJobProgress(supabase, keywordIds)
+
+    return NextResponse.json({ data: progress, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
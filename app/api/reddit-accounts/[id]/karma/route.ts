@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+// Records the account's current karma (`link_karma`, `comment_karma`), as shown on its profile
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const { link_karma: linkKarma, comment_karma: commentKarma } = await request.json()
+
+    if (!Number.isInteger(linkKarma) || !Number.isInteger(commentKarma)) {
+      return NextResponse.json(
+        { data: null, error: 'link_karma and comment_karma must be whole numbers' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('reddit_account_karma')
+      .insert({ account_id: id, link_karma: linkKarma, comment_karma: commentKarma, recorded_by: user.id })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '42501') {
+        return NextResponse.json(
+          { data: null, error: 'Your role does not allow recording karma for this account' },
+          { status: 403 }
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json({ data, error: null }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
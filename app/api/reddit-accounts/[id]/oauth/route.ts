@@ -0,0 +1,120 @@
+import { randomBytes } from 'node:crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { canEditProjects, getOrganizationRole } from '@/lib/organizations'
+import { getRedditClient } from '@/lib/reddit-api'
+import {
+  deleteRedditAccountCredentials,
+  getRedditOAuthRedirectUri,
+  REDDIT_OAUTH_STATE_COOKIE,
+} from '@/lib/reddit-accounts'
+
+function accountsPageRedirect(request: NextRequest, params: Record<string, string>) {
+  const url = new URL('/accounts', request.url)
+  Object.entries(params).forEach(([name, value]) => url.searchParams.set(name, value))
+  return NextResponse.redirect(url)
+}
+
+// Starts linking an account for posting: sends the browser to Reddit to grant access.
+// Owners and editors only; Reddit redirects back to /api/reddit-accounts/oauth/callback.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.redirect(new URL('/auth/login', request.url))
+    }
+
+    const { id } = await params
+
+    const { data: account, error } = await supabase
+      .from('reddit_accounts')
+      .select('id, organization_id')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+
+    if (!account) {
+      return accountsPageRedirect(request, { oauth_error: 'Account not found' })
+    }
+
+    if (!canEditProjects(await getOrganizationRole(supabase, account.organization_id, user.id))) {
+      return accountsPageRedirect(request, { oauth_error: 'Only owners and editors can link accounts' })
+    }
+
+    const state = randomBytes(16).toString('hex')
+    const response = NextResponse.redirect(getRedditClient().getAuthorizeUrl(state, getRedditOAuthRedirectUri()))
+    response.cookies.set(REDDIT_OAUTH_STATE_COOKIE, `${state}:${account.id}`, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/api/reddit-accounts/oauth',
+      maxAge: 10 * 60,
+    })
+    return response
+  } catch (error) {
+    console.error('Error starting Reddit account linking:', error)
+    return accountsPageRedirect(request, {
+      oauth_error: error instanceof Error ? error.message : 'Could not start linking',
+    })
+  }
+}
+
+// Unlinks an account: forgets its Reddit credentials, so replies can no longer be posted from it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    const { data: account, error } = await supabase
+      .from('reddit_accounts')
+      .select('id, organization_id')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+
+    if (!account) {
+      return NextResponse.json(
+        { data: null, error: 'Account not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canEditProjects(await getOrganizationRole(supabase, account.organization_id, user.id))) {
+      return NextResponse.json(
+        { data: null, error: 'Only owners and editors can unlink accounts' },
+        { status: 403 }
+      )
+    }
+
+    const data = await deleteRedditAccountCredentials(createAdminClient(), account.id)
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getRedditAccountActivity, getSubredditHistory } from '@/lib/reddit-accounts'
+
+// An account with its karma snapshots, the subreddits it replied in and its drafts
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    const { data: account, error } = await supabase
+      .from('reddit_accounts')
+      .select('*, reddit_account_karma(*)')
+      .eq('id', id)
+      .order('recorded_at', { referencedTable: 'reddit_account_karma', ascending: false })
+      .maybeSingle()
+
+    if (error) throw error
+
+    if (!account) {
+      return NextResponse.json(
+        { data: null, error: 'Account not found' },
+        { status: 404 }
+      )
+    }
+
+    const { reddit_account_karma: karma, ...rest } = account
+    const activity = await getRedditAccountActivity(supabase, id)
+
+    return NextResponse.json({
+      data: { ...rest, karma: karma || [], subreddits: getSubredditHistory(activity), activity },
+      error: null,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
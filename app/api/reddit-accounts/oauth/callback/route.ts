@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { canEditProjects, getOrganizationRole } from '@/lib/organizations'
+import { getRedditClient } from '@/lib/reddit-api'
+import {
+  getRedditOAuthRedirectUri,
+  REDDIT_OAUTH_STATE_COOKIE,
+  saveRedditAccountCredentials,
+} from '@/lib/reddit-accounts'
+
+// Where Reddit sends the browser back after the user granted (or declined) access. Checks the
+// state, makes sure the user signed in to Reddit as the account being linked, and stores its
+// refresh token. Ends on the accounts page with ?linked=<username> or ?oauth_error=<message>.
+export async function GET(request: NextRequest) {
+  const finish = (params: Record<string, string>) => {
+    const url = new URL('/accounts', request.url)
+    Object.entries(params).forEach(([name, value]) => url.searchParams.set(name, value))
+    const response = NextResponse.redirect(url)
+    response.cookies.delete({ name: REDDIT_OAUTH_STATE_COOKIE, path: '/api/reddit-accounts/oauth' })
+    return response
+  }
+
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.redirect(new URL('/auth/login', request.url))
+    }
+
+    const search = request.nextUrl.searchParams
+    const [expectedState, accountId] = (request.cookies.get(REDDIT_OAUTH_STATE_COOKIE)?.value || '').split(':')
+    if (!expectedState || !accountId || search.get('state') !== expectedState) {
+      return finish({ oauth_error: 'Linking expired or was started in another browser. Try again.' })
+    }
+
+    if (search.get('error')) {
+      return finish({
+        oauth_error: search.get('error') === 'access_denied' ? 'Access was declined on Reddit' : `Reddit error: ${search.get('error')}`,
+      })
+    }
+
+    const code = search.get('code')
+    if (!code) {
+      return finish({ oauth_error: 'Reddit did not return an authorization code' })
+    }
+
+    const { data: account, error } = await supabase
+      .from('reddit_accounts')
+      .select('id, organization_id, username')
+      .eq('id', accountId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    if (!account || !canEditProjects(await getOrganizationRole(supabase, account.organization_id, user.id))) {
+      return finish({ oauth_error: 'Only owners and editors can link accounts' })
+    }
+
+    const client = getRedditClient()
+    const tokens = await client.exchangeCode(code, getRedditOAuthRedirectUri())
+    const username = await client.getUsername(tokens.accessToken)
+
+    if (username.toLowerCase() !== account.username.toLowerCase()) {
+      return finish({ oauth_error: `Signed in to Reddit as u/${username}, not u/${account.username}` })
+    }
+
+    await saveRedditAccountCredentials(createAdminClient(), account.id, tokens, user.id)
+
+    return finish({ linked: account.username })
+  } catch (error) {
+    console.error('Error linking Reddit account:', error)
+    return finish({ oauth_error: error instanceof Error ? error.message : 'Could not link the account' })
+  }
+}
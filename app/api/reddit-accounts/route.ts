@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { listRedditAccounts, parseRedditAccountInput } from '@/lib/reddit-accounts'
+
+// Reddit accounts of the user's organizations (or of `organization_id`), with their latest karma
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const organizationId = new URL(request.url).searchParams.get('organization_id')
+    const data = await listRedditAccounts(supabase, organizationId)
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Adds an account to an organization. Owners and editors manage accounts.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const account = parseRedditAccountInput(await request.json(), true)
+    if (account.error) {
+      return NextResponse.json(
+        { data: null, error: account.error },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('reddit_accounts')
+      .insert({ ...account.data, created_by: user.id })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { data: null, error: 'This account is already registered in the organization' },
+          { status: 409 }
+        )
+      }
+      if (error.code === '42501') {
+        return NextResponse.json(
+          { data: null, error: 'Only owners and editors can add Reddit accounts' },
+          { status: 403 }
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json({ data, error: null }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Updates an account's username, notes, cadence limits or active flag
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.id) {
+      return NextResponse.json(
+        { data: null, error: 'Account ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const account = parseRedditAccountInput(body, false)
+    if (account.error) {
+      return NextResponse.json(
+        { data: null, error: account.error },
+        { status: 400 }
+      )
+    }
+
+    // RLS hides the update from members who aren't owners or editors
+    const { data, error } = await supabase
+      .from('reddit_accounts')
+      .update(account.data)
+      .eq('id', body.id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { data: null, error: 'This account is already registered in the organization' },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { data: null, error: 'Account not found, or your role does not allow editing it' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Removes an account. Its drafts are kept and lose their account.
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { data: null, error: 'Account ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('reddit_accounts')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { success: true }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+// Past ranking refreshes with per-keyword outcomes. RLS limits runs and items to the user's own keywords.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const keywordId = searchParams.get('keyword_id')
+    const limitParam = Number(searchParams.get('limit') || DEFAULT_LIMIT)
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT
+
+    // Only runs that checked this keyword, with only its item
+    let query = supabase
+      .from('refresh_runs')
+      .select(keywordId ? '*, refresh_run_items!inner(*)' : '*, refresh_run_items(*)')
+      .order('started_at', { ascending: false })
+      .order('keyword', { referencedTable: 'refresh_run_items', ascending: true })
+      .limit(limit)
+
+    if (keywordId) {
+      query = query.eq('refresh_run_items.keyword_id', keywordId)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json({ data: data || [], error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
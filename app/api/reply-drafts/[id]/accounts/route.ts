@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getDraftAccountWarnings } from '@/lib/reddit-accounts'
+import { findReplyDraft } from '@/lib/reply-drafts'
+
+// Reddit accounts the draft could be posted from, each with the cadence rules posting it would break
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const draft = await findReplyDraft(supabase, id)
+
+    if (!draft) {
+      return NextResponse.json(
+        { data: null, error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    const data = await getDraftAccountWarnings(supabase, draft)
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+const COMMENT_COLUMNS = 'id, draft_id, user_id, author_email, body, created_at'
+
+// Review comments of a draft, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    // RLS limits this to drafts the user can see
+    const { data, error } = await supabase
+      .from('reply_draft_comments')
+      .select(COMMENT_COLUMNS)
+      .eq('draft_id', id)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Adds a comment (`body`). Clients can read the discussion but not take part.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const { body } = await request.json()
+
+    if (!body || typeof body !== 'string' || !body.trim()) {
+      return NextResponse.json(
+        { data: null, error: 'Comment is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('reply_draft_comments')
+      .insert({ draft_id: id, user_id: user.id, author_email: user.email || null, body: body.trim() })
+      .select(COMMENT_COLUMNS)
+      .single()
+
+    if (error) {
+      if (error.code === '42501') {
+        return NextResponse.json(
+          { data: null, error: 'Your role does not allow commenting on this draft' },
+          { status: 403 }
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json({ data, error: null }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Deletes one of the user's comments (`?comment_id`)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const commentId = new URL(request.url).searchParams.get('comment_id')
+
+    if (!commentId) {
+      return NextResponse.json(
+        { data: null, error: 'Comment ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('reply_draft_comments')
+      .delete()
+      .eq('id', commentId)
+      .eq('draft_id', id)
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { success: true }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
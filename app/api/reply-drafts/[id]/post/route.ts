@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { recordPostedComment } from '@/lib/posted-comments'
+import { getRedditClient } from '@/lib/reddit-api'
+import { getCadenceWarnings, getRedditAccessToken, getRedditAccountActivity } from '@/lib/reddit-accounts'
+import { parseRedditUrl } from '@/lib/reddit-url'
+import { canEditReplyDraft, canReviewReplyDraft, claimReplyDraftForPosting, findReplyDraft, isApprovedByReviewer, releaseReplyDraft, setReplyDraftStatus, validateStatusChange } from '@/lib/reply-drafts'
+import { findThreadOrganizationIds } from '@/lib/threads'
+import { RedditAccount } from '@/lib/types'
+
+// Approves a draft if it's still in review and posts it as a comment on its thread through the Reddit
+// API, from `reddit_account_id` (default: the draft's account), which must be a linked account of an
+// organization tracking the thread. Only a reviewer other than the author can approve on the way.
+// The draft is claimed (`posting`) first, so concurrent requests post it once; the others get a 409.
+// Also answers 409 with `warnings` when posting now breaks the account's cadence limits, unless
+// `ignore_warnings` is set.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    let draft = await findReplyDraft(supabase, id)
+
+    if (!draft) {
+      return NextResponse.json(
+        { data: null, error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await canEditReplyDraft(supabase, draft, user.id))) {
+      return NextResponse.json(
+        { data: null, error: 'Your role does not allow editing this draft' },
+        { status: 403 }
+      )
+    }
+
+    // Drafts in review are approved on the way, by someone allowed to review them; otherwise posting
+    // follows the review workflow
+    const needsApproval = draft.status === 'in_review'
+    if (needsApproval && !(await canReviewReplyDraft(supabase, draft, user.id))) {
+      return NextResponse.json(
+        {
+          data: null,
+          error: draft.user_id === user.id
+            ? 'Authors cannot approve their own drafts. Ask a reviewer to approve it first.'
+            : 'Only the assigned reviewer or an owner or editor can approve this draft',
+        },
+        { status: 403 }
+      )
+    }
+    const { error: statusError } = validateStatusChange(needsApproval ? 'approved' : draft.status, 'posted', null)
+    if (statusError) {
+      return NextResponse.json(
+        { data: null, error: `${statusError}. Only drafts in review, approved or scheduled can be posted.` },
+        { status: 400 }
+      )
+    }
+
+    const threadId = parseRedditUrl(draft.post_url)?.threadId
+    if (!threadId) {
+      return NextResponse.json(
+        { data: null, error: "The draft's thread URL is not a Reddit thread" },
+        { status: 400 }
+      )
+    }
+
+    const accountId = body.reddit_account_id || draft.reddit_account_id
+    if (!accountId) {
+      return NextResponse.json(
+        { data: null, error: 'reddit_account_id is required when the draft has no account' },
+        { status: 400 }
+      )
+    }
+
+    // RLS only shows accounts of the user's organizations
+    const { data: account, error: accountError } = await supabase
+      .from('reddit_accounts')
+      .select('*')
+      .eq('id', accountId)
+      .maybeSingle<RedditAccount>()
+
+    if (accountError) throw accountError
+    if (!account || !(await findThreadOrganizationIds(supabase, draft.thread_id)).includes(account.organization_id)) {
+      return NextResponse.json(
+        { data: null, error: 'reddit_account_id must be an account of an organization tracking the thread' },
+        { status: 400 }
+      )
+    }
+    if (!account.oauth_linked_at) {
+      return NextResponse.json(
+        { data: null, error: `u/${account.username} is not linked for posting` },
+        { status: 400 }
+      )
+    }
+
+    const warnings = getCadenceWarnings(account, await getRedditAccountActivity(supabase, account.id), {
+      id: draft.id,
+      thread_id: draft.thread_id,
+      subreddit: draft.subreddit,
+      plannedAt: new Date(),
+    })
+    if (warnings.length > 0 && body.ignore_warnings !== true) {
+      return NextResponse.json(
+        { data: { warnings }, error: "Posting now breaks the account's cadence limits" },
+        { status: 409 }
+      )
+    }
+
+    if (needsApproval) {
+      draft = { ...draft, ...(await setReplyDraftStatus(supabase, draft, draft.post_url, { status: 'approved', scheduledFor: null, userId: user.id })) }
+    }
+
+    const claimed = await claimReplyDraftForPosting(supabase, draft.id, account.id)
+    if (!claimed) {
+      return NextResponse.json(
+        { data: null, error: 'The draft is already being posted, or is no longer approved' },
+        { status: 409 }
+      )
+    }
+
+    // The claimed row is the current one, so its approval is checked after any change since it was read.
+    // Drafts without a proper approval go back to review.
+    if (!isApprovedByReviewer(claimed)) {
+      await releaseReplyDraft(draft, 'in_review')
+      return NextResponse.json(
+        { data: null, error: 'The draft was not approved by a reviewer other than its author' },
+        { status: 403 }
+      )
+    }
+
+    const client = getRedditClient()
+    let permalink: string
+    try {
+      const accessToken = await getRedditAccessToken(createAdminClient(), client, account.id)
+      if (!accessToken) {
+        throw new Error(`u/${account.username} is not linked for posting`)
+      }
+      permalink = (await client.submitComment(accessToken, `t3_${threadId}`, claimed.draft_content)).permalink
+    } catch (error) {
+      console.error(`Error posting draft ${draft.id} to Reddit:`, error)
+      await releaseReplyDraft(draft)
+      return NextResponse.json(
+        { data: null, error: error instanceof Error ? error.message : 'Reddit did not accept the comment' },
+        { status: 502 }
+      )
+    }
+
+    const { data, error } = await recordPostedComment(supabase, { ...draft, ...claimed }, { permalink, userId: user.id, postedVia: 'api' })
+
+    if (error || !data) {
+      // The comment is live, so say where it is even though it couldn't be recorded
+      return NextResponse.json(
+        { data: { permalink }, error: `Posted, but the comment could not be recorded: ${error}` },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: { ...data.postedComment, draft_status: data.draft.status },
+      error: null,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
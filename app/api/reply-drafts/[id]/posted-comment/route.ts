@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { findPostedComment, recordPostedComment } from '@/lib/posted-comments'
+import { canEditReplyDraft, findReplyDraft } from '@/lib/reply-drafts'
+
+// The live comment a draft was posted as, or null when none is recorded
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    // RLS limits this to drafts the user can see
+    const data = await findPostedComment(supabase, id)
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Records the comment permalink (`permalink`) a draft was posted as and marks the draft posted.
+// Sending a new permalink for a posted draft replaces the old one.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const { permalink } = await request.json()
+    const draft = await findReplyDraft(supabase, id)
+
+    if (!draft) {
+      return NextResponse.json(
+        { data: null, error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await canEditReplyDraft(supabase, draft, user.id))) {
+      return NextResponse.json(
+        { data: null, error: 'Your role does not allow editing this draft' },
+        { status: 403 }
+      )
+    }
+
+    const { data, error } = await recordPostedComment(supabase, draft, { permalink, userId: user.id })
+
+    if (error || !data) {
+      return NextResponse.json(
+        { data: null, error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      data: { ...data.postedComment, draft_status: data.draft.status },
+      error: null,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isCoMember } from '@/lib/organizations'
+import { findThreadOrganizationIds } from '@/lib/threads'
+import { canEditReplyDraft, canReviewReplyDraft, findReplyDraft, isReviewStatus, setReplyDraftStatus, updateReplyDraftContent, validateStatusChange } from '@/lib/reply-drafts'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const draft = await findReplyDraft(supabase, id)
+
+    if (!draft) {
+      return NextResponse.json(
+        { data: null, error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ data: draft, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Edits a draft: `draft_content`, `assignee_id`, `reviewer_id`, `reddit_account_id`, or `status` (with
+// `scheduled_for` when scheduling). Authors, and members who aren't clients in the thread's organization, can edit.
+// Approving and rejecting is left to the assigned reviewer or an owner or editor, never the author.
+// Accounts are assigned even when they break cadence limits; GET /api/reply-drafts/[id]/accounts warns about those.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const found = await findReplyDraft(supabase, id)
+
+    if (!found) {
+      return NextResponse.json(
+        { data: null, error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    let draft = found
+
+    if (!(await canEditReplyDraft(supabase, draft, user.id))) {
+      return NextResponse.json(
+        { data: null, error: 'Your role does not allow editing this draft' },
+        { status: 403 }
+      )
+    }
+
+    for (const field of ['assignee_id', 'reviewer_id'] as const) {
+      if (body[field] && !(await isCoMember(supabase, body[field]))) {
+        return NextResponse.json(
+          { data: null, error: `${field} must be a member of one of your organizations` },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (body.reddit_account_id) {
+      // RLS only shows accounts of the user's organizations
+      const { data: account, error: accountError } = await supabase
+        .from('reddit_accounts')
+        .select('id, organization_id')
+        .eq('id', body.reddit_account_id)
+        .maybeSingle()
+
+      if (accountError) throw accountError
+      if (!account || !(await findThreadOrganizationIds(supabase, draft.thread_id)).includes(account.organization_id)) {
+        return NextResponse.json(
+          { data: null, error: 'reddit_account_id must be an account of an organization tracking the thread' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const statusChange = body.status !== undefined ? validateStatusChange(draft.status, body.status, body.scheduled_for) : null
+    if (statusChange?.error) {
+      return NextResponse.json(
+        { data: null, error: statusChange.error },
+        { status: 400 }
+      )
+    }
+
+    if (statusChange?.data && isReviewStatus(statusChange.data.status) && !(await canReviewReplyDraft(supabase, draft, user.id))) {
+      return NextResponse.json(
+        {
+          data: null,
+          error: draft.user_id === user.id
+            ? 'Authors cannot approve or reject their own drafts'
+            : 'Only the assigned reviewer or an owner or editor can approve or reject this draft',
+        },
+        { status: 403 }
+      )
+    }
+
+    if (body.draft_content !== undefined) {
+      if (typeof body.draft_content !== 'string' || !body.draft_content.trim()) {
+        return NextResponse.json(
+          { data: null, error: 'Draft content is required' },
+          { status: 400 }
+        )
+      }
+      draft = { ...draft, ...(await updateReplyDraftContent(supabase, draft, draft.post_url, body.draft_content.trim())) }
+    }
+
+    if (body.assignee_id !== undefined || body.reviewer_id !== undefined || body.reddit_account_id !== undefined) {
+      const assignment: Record<string, string | null> = {}
+      if (body.assignee_id !== undefined) assignment.assignee_id = body.assignee_id || null
+      if (body.reviewer_id !== undefined) assignment.reviewer_id = body.reviewer_id || null
+      if (body.reddit_account_id !== undefined) assignment.reddit_account_id = body.reddit_account_id || null
+
+      const { data, error } = await supabase
+        .from('reply_drafts')
+        .update(assignment)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+      draft = { ...draft, ...data }
+    }
+
+    if (statusChange?.data) {
+      draft = { ...draft, ...(await setReplyDraftStatus(supabase, draft, draft.post_url, { ...statusChange.data, userId: user.id })) }
+    }
+
+    return NextResponse.json({ data: draft, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { DRAFT_WITH_THREAD_SELECT, toReplyDraftWithThread } from '@/lib/reply-drafts'
+import { REPLY_DRAFT_STATUSES } from '@/lib/types'
+
+const QUEUE_LIMIT = 100
+
+// Drafts of the user and their colleagues, recently changed first. `status` filters by status,
+// `assigned=me` and `reviewer=me` to the user's work. `members` lists who can be assigned.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+
+    if (status && !REPLY_DRAFT_STATUSES.some((s) => s.value === status)) {
+      return NextResponse.json(
+        { data: null, error: `status must be one of: ${REPLY_DRAFT_STATUSES.map((s) => s.value).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    let query = supabase
+      .from('reply_drafts')
+      .select(DRAFT_WITH_THREAD_SELECT)
+      .order('updated_at', { ascending: false })
+      .limit(QUEUE_LIMIT)
+
+    if (status) query = query.eq('status', status)
+    if (searchParams.get('assigned') === 'me') query = query.eq('assignee_id', user.id)
+    if (searchParams.get('reviewer') === 'me') query = query.eq('reviewer_id', user.id)
+
+    const [{ data, error }, { data: memberRows, error: membersError }] = await Promise.all([
+      query,
+      supabase.from('organization_members').select('user_id, email'),
+    ])
+
+    if (error) throw error
+    if (membersError) throw membersError
+
+    // A colleague in several shared organizations is listed once
+    const members = [...new Map((memberRows || []).map((m) => [m.user_id, m])).values()]
+
+    return NextResponse.json({
+      data: { drafts: (data || []).map(toReplyDraftWithThread), members },
+      error: null,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { parseRedditUrl } from '@/lib/reddit-url'
+import { saveReplyDraft } from '@/lib/reply-drafts'
+import { findOrCreateThread, findThread } from '@/lib/threads'
 
 export async function GET(request: NextRequest) {
   try {
@@ -24,12 +27,29 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const thread = parseRedditUrl(postUrl)
+    if (!thread) {
+      return NextResponse.json(
+        { data: null, error: 'Invalid Reddit thread URL' },
+        { status: 400 }
+      )
+    }
+
+    // Drafts attach to the thread, so an untracked thread has no draft yet
+    const storedThread = await findThread(supabase, thread.threadId)
+    if (!storedThread) {
+      return NextResponse.json({ 
+        data: { id: null, draft_content: '', status: null }, 
+        error: null 
+      })
+    }
+
     // Get draft for this user and post
     const { data, error } = await supabase
       .from('reply_drafts')
-      .select('draft_content')
+      .select('id, draft_content, status')
       .eq('user_id', user.id)
-      .eq('post_url', postUrl)
+      .eq('thread_id', storedThread.id)
       .single()
 
     if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
@@ -37,7 +57,7 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json({ 
-      data: { draft_content: data?.draft_content || '' }, 
+      data: { id: data?.id || null, draft_content: data?.draft_content || '', status: data?.status || null }, 
       error: null 
     })
   } catch (error) {
@@ -72,6 +92,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const thread = parseRedditUrl(postUrl)
+    if (!thread) {
+      return NextResponse.json(
+        { data: null, error: 'Invalid Reddit thread URL' },
+        { status: 400 }
+      )
+    }
+
     if (!draftContent || typeof draftContent !== 'string') {
       return NextResponse.json(
         { data: null, error: 'Draft content is required' },
@@ -79,47 +107,18 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Upsert draft (insert or update)
-    // Use insert with ON CONFLICT handling
-    const { data: existing } = await supabase
-      .from('reply_drafts')
-      .select('id')
-      .eq('user_id', user.id)
-      .eq('post_url', postUrl)
-      .maybeSingle()
+    // Drafts can be written for threads that aren't tracked by any keyword yet
+    const threadId = await findOrCreateThread(supabase, thread)
 
-    let data, error
-    if (existing) {
-      // Update existing draft
-      const result = await supabase
-        .from('reply_drafts')
-        .update({
-          draft_content: draftContent.trim(),
-        })
-        .eq('id', existing.id)
-        .select()
-        .single()
-      data = result.data
-      error = result.error
-    } else {
-      // Insert new draft
-      const result = await supabase
-        .from('reply_drafts')
-        .insert({
-          user_id: user.id,
-          post_url: postUrl,
-          draft_content: draftContent.trim(),
-        })
-        .select()
-        .single()
-      data = result.data
-      error = result.error
-    }
-
-    if (error) throw error
+    const { draft } = await saveReplyDraft(supabase, {
+      userId: user.id,
+      threadId,
+      postUrl: thread.canonicalUrl,
+      content: draftContent.trim(),
+    })
 
     return NextResponse.json({ 
-      data: { draft_content: data.draft_content }, 
+      data: { id: draft.id, draft_content: draft.draft_content, status: draft.status }, 
       error: null 
     })
   } catch (error) {
@@ -154,14 +153,26 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    // Delete draft for this user and post
-    const { error } = await supabase
-      .from('reply_drafts')
-      .delete()
-      .eq('user_id', user.id)
-      .eq('post_url', postUrl)
+    const thread = parseRedditUrl(postUrl)
+    if (!thread) {
+      return NextResponse.json(
+        { data: null, error: 'Invalid Reddit thread URL' },
+        { status: 400 }
+      )
+    }
+
+    const storedThread = await findThread(supabase, thread.threadId)
 
-    if (error) throw error
+    if (storedThread) {
+      // Delete draft for this user and post
+      const { error } = await supabase
+        .from('reply_drafts')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('thread_id', storedThread.id)
+
+      if (error) throw error
+    }
 
     return NextResponse.json({ 
       data: { success: true }, 
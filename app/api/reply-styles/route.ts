@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getReplyStyles, parseReplyStyleInput } from '@/lib/reply-styles'
+
+// Postgres unique_violation, raised when a project already has a style with the key
+const UNIQUE_VIOLATION = '23505'
+
+// With `stored=true`, the project's own styles (for editing); otherwise the styles replies for the
+// project can be written in, which are the defaults without a project or when it has none
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const projectId = searchParams.get('project_id')
+
+    if (searchParams.get('stored') !== 'true') {
+      return NextResponse.json({ data: await getReplyStyles(supabase, projectId), error: null })
+    }
+
+    if (!projectId) {
+      return NextResponse.json(
+        { data: null, error: 'Project ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('reply_styles')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.project_id) {
+      return NextResponse.json(
+        { data: null, error: 'Project ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const style = parseReplyStyleInput(body, true)
+    if (style.error) {
+      return NextResponse.json(
+        { data: null, error: style.error },
+        { status: 400 }
+      )
+    }
+
+    // RLS only allows owners and editors of the project to add styles
+    const { data, error } = await supabase
+      .from('reply_styles')
+      .insert({ project_id: body.project_id, ...style.data })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        return NextResponse.json(
+          { data: null, error: `The project already has a style with the key "${style.data.key}"` },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json({ data, error: null }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.id) {
+      return NextResponse.json(
+        { data: null, error: 'Style ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const style = parseReplyStyleInput(body, false)
+    if (style.error) {
+      return NextResponse.json(
+        { data: null, error: style.error },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('reply_styles')
+      .update(style.data)
+      .eq('id', body.id)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        return NextResponse.json(
+          { data: null, error: `The project already has a style with the key "${style.data.key}"` },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { data: null, error: 'Style ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('reply_styles')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { success: true }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ApiUsageMonthly, UsageSummary, UsageTotals } from '@/lib/types'
+import { emptyUsageTotals, groupUsage, parseUsageMonth, shiftMonth } from '@/lib/usage'
+
+const TOP_KEYWORDS_LIMIT = 25
+
+const byCost = (a: UsageTotals, b: UsageTotals) => b.cost - a.cost || b.calls - a.calls
+
+// API spend of the user for a month (YYYY-MM, default current), optionally for one project,
+// with the 12 months up to it. RLS limits the ledger to calls billed to the user.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const month = parseUsageMonth(searchParams.get('month'))
+    const projectId = searchParams.get('project_id')
+
+    if (!month) {
+      return NextResponse.json(
+        { data: null, error: 'month must be in YYYY-MM format' },
+        { status: 400 }
+      )
+    }
+
+    const monthStart = shiftMonth(month, 0)
+    let query = supabase
+      .from('api_usage_monthly')
+      .select('*')
+      .gte('month', shiftMonth(month, -11))
+      .lt('month', shiftMonth(month, 1))
+
+    if (projectId) {
+      query = query.eq('project_id', projectId)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+
+    const rows = (data || []) as ApiUsageMonthly[]
+    const monthRows = rows.filter((row) => row.month === monthStart)
+
+    // Names for the projects and keywords in the month; deleted ones come back as null
+    const projectIds = [...new Set(monthRows.map((row) => row.project_id).filter((id): id is string => !!id))]
+    const keywordIds = [...new Set(monthRows.map((row) => row.keyword_id).filter((id): id is string => !!id))]
+    const [{ data: projects }, { data: keywords }] = await Promise.all([
+      projectIds.length > 0
+        ? supabase.from('projects').select('id, name').in('id', projectIds)
+        : Promise.resolve({ data: [] }),
+      keywordIds.length > 0
+        ? supabase.from('keywords').select('id, keyword, project_id').in('id', keywordIds)
+        : Promise.resolve({ data: [] }),
+    ])
+    const projectNames = new Map<string, string>((projects || []).map((p: { id: string; name: string }) => [p.id, p.name]))
+    const keywordsById = new Map<string, { keyword: string; project_id: string }>(
+      (keywords || []).map((k: { id: string; keyword: string; project_id: string }) => [k.id, k])
+    )
+
+    const monthly = groupUsage(rows, (row) => row.month)
+    const summary: UsageSummary = {
+      month,
+      totals: groupUsage(monthRows, () => month).get(month) || emptyUsageTotals(),
+      byProvider: [...groupUsage(monthRows, (row) => row.provider)]
+        .map(([provider, totals]) => ({ provider: provider as string, ...totals }))
+        .sort(byCost),
+      byProject: [...groupUsage(monthRows, (row) => row.project_id)]
+        .map(([id, totals]) => ({ projectId: id, name: id ? projectNames.get(id) || null : null, ...totals }))
+        .sort(byCost),
+      // Keyword-level spend only covers ranking checks, replies are billed to projects
+      byKeyword: [...groupUsage(monthRows, (row) => row.keyword_id || undefined)]
+        .map(([id, totals]) => ({
+          keywordId: id as string,
+          keyword: keywordsById.get(id as string)?.keyword || null,
+          projectId: keywordsById.get(id as string)?.project_id || null,
+          ...totals,
+        }))
+        .sort(byCost)
+        .slice(0, TOP_KEYWORDS_LIMIT),
+      monthly: Array.from({ length: 12 }, (_, i) => {
+        const start = shiftMonth(month, i - 11)
+        return { month: start.slice(0, 7), ...(monthly.get(start) || emptyUsageTotals()) }
+      }),
+    }
+
+    return NextResponse.json({ data: summary, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
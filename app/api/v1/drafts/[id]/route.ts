@@ -0,0 +1,59 @@
+import { apiV1Data, apiV1Route, notFound, readJsonBody, validationError } from '@/lib/api-v1/handler'
+import { DRAFT_SELECT, toApiDraft } from '@/lib/api-v1/resources'
+import { saveReplyDraft } from '@/lib/reply-drafts'
+
+export const GET = apiV1Route<{ id: string }>(async ({ params, supabase, user }) => {
+  const { data, error } = await supabase
+    .from('reply_drafts')
+    .select(DRAFT_SELECT)
+    .eq('id', params.id)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw notFound('Draft')
+
+  return apiV1Data(toApiDraft(data))
+})
+
+export const PATCH = apiV1Route<{ id: string }>(async ({ params, request, supabase, user }) => {
+  const body = await readJsonBody(request)
+
+  if (typeof body.content !== 'string' || !body.content.trim()) {
+    throw validationError('content is required')
+  }
+
+  const { data: existing, error } = await supabase
+    .from('reply_drafts')
+    .select(DRAFT_SELECT)
+    .eq('id', params.id)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!existing) throw notFound('Draft')
+
+  const current = toApiDraft(existing)
+  const { draft } = await saveReplyDraft(supabase, {
+    userId: user.id,
+    threadId: current.thread_id,
+    postUrl: current.post_url,
+    content: body.content.trim(),
+  })
+
+  return apiV1Data({ ...draft, post_url: current.post_url })
+})
+
+export const DELETE = apiV1Route<{ id: string }>(async ({ params, supabase, user }) => {
+  const { data, error } = await supabase
+    .from('reply_drafts')
+    .delete()
+    .eq('id', params.id)
+    .eq('user_id', user.id)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) throw notFound('Draft')
+
+  return apiV1Data({ id: params.id, deleted: true })
+})
@@ -0,0 +1,78 @@
+import { apiV1Data, apiV1List, apiV1Route, notFound, readJsonBody, validationError } from '@/lib/api-v1/handler'
+import { cursorFilter, parsePageParams, toPage } from '@/lib/api-v1/pagination'
+import { DRAFT_SELECT, toApiDraft } from '@/lib/api-v1/resources'
+import { parseRedditUrl } from '@/lib/reddit-url'
+import { saveReplyDraft } from '@/lib/reply-drafts'
+import { findOrCreateThread } from '@/lib/threads'
+
+export const GET = apiV1Route(async ({ request, supabase, user }) => {
+  const { searchParams } = new URL(request.url)
+  const page = parsePageParams(searchParams)
+  const threadId = searchParams.get('thread_id')
+
+  let query = supabase
+    .from('reply_drafts')
+    .select(DRAFT_SELECT)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(page.limit + 1)
+
+  if (threadId) {
+    query = query.eq('thread_id', threadId)
+  }
+  if (page.cursor) {
+    query = query.or(cursorFilter(page.cursor))
+  }
+
+  const { data, error } = await query
+
+  if (error) throw error
+
+  const { items, nextCursor } = toPage(data || [], page.limit)
+  return apiV1List(items.map(toApiDraft), nextCursor)
+})
+
+// Saves the caller's draft for a thread, given by `thread_id` or `post_url`. A thread has one draft
+// per user, so posting again replaces its content (200 instead of 201).
+export const POST = apiV1Route(async ({ request, supabase, user }) => {
+  const body = await readJsonBody(request)
+
+  if (typeof body.content !== 'string' || !body.content.trim()) {
+    throw validationError('content is required')
+  }
+
+  let threadId: string
+  let postUrl: string
+  if (typeof body.thread_id === 'string' && body.thread_id) {
+    const { data: thread, error } = await supabase
+      .from('threads')
+      .select('id, post_url')
+      .eq('id', body.thread_id)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!thread) throw notFound('Thread')
+
+    threadId = thread.id
+    postUrl = thread.post_url
+  } else if (typeof body.post_url === 'string' && body.post_url) {
+    const thread = parseRedditUrl(body.post_url)
+    if (!thread) throw validationError('post_url is not a Reddit thread URL')
+
+    // Drafts can be written for threads that aren't tracked by any keyword yet
+    threadId = await findOrCreateThread(supabase, thread)
+    postUrl = thread.canonicalUrl
+  } else {
+    throw validationError('thread_id or post_url is required')
+  }
+
+  const { draft, created } = await saveReplyDraft(supabase, {
+    userId: user.id,
+    threadId,
+    postUrl,
+    content: body.content.trim(),
+  })
+
+  return apiV1Data({ ...draft, post_url: postUrl }, created ? 201 : 200)
+})
@@ -0,0 +1,32 @@
+import { apiV1Data, apiV1Route, notFound } from '@/lib/api-v1/handler'
+import { KEYWORD_RANKING_SELECT, toApiKeywordRanking } from '@/lib/api-v1/resources'
+
+// Threads ranking for the keyword at its last check, best first; `include_dropped=true` adds those that dropped out
+export const GET = apiV1Route<{ id: string }>(async ({ params, request, supabase }) => {
+  const includeDropped = new URL(request.url).searchParams.get('include_dropped') === 'true'
+
+  const { data: keyword, error: keywordError } = await supabase
+    .from('keywords')
+    .select('id')
+    .eq('id', params.id)
+    .maybeSingle()
+
+  if (keywordError) throw keywordError
+  if (!keyword) throw notFound('Keyword')
+
+  let query = supabase
+    .from('keyword_thread_rankings')
+    .select(KEYWORD_RANKING_SELECT)
+    .eq('keyword_id', keyword.id)
+    .order('rank_position', { ascending: true })
+
+  if (!includeDropped) {
+    query = query.is('dropped_at', null)
+  }
+
+  const { data, error } = await query
+
+  if (error) throw error
+
+  return apiV1Data((data || []).map(toApiKeywordRanking))
+})
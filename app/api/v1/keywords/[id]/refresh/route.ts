@@ -0,0 +1,18 @@
+import { apiV1Data, apiV1Route, notFound } from '@/lib/api-v1/handler'
+import { startRankingChecks } from '@/lib/ranking-jobs'
+
+// Queues a ranking check for the keyword (or returns the one already queued); poll /api/v1/ranking-jobs/{id}
+export const POST = apiV1Route<{ id: string }>(async ({ params, supabase }) => {
+  const { data: keyword, error } = await supabase
+    .from('keywords')
+    .select('id')
+    .eq('id', params.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!keyword) throw notFound('Keyword')
+
+  const [job] = await startRankingChecks(supabase, [keyword.id])
+
+  return apiV1Data(job, 202)
+})
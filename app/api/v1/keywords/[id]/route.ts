@@ -0,0 +1,47 @@
+import { apiV1Data, apiV1Route, notFound, readJsonBody, validationError } from '@/lib/api-v1/handler'
+import { parseKeywordSettingsInput } from '@/lib/keywords'
+
+export const GET = apiV1Route<{ id: string }>(async ({ params, supabase }) => {
+  const { data, error } = await supabase
+    .from('keywords')
+    .select('*')
+    .eq('id', params.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw notFound('Keyword')
+
+  return apiV1Data(data)
+})
+
+// Market overrides (null falls back to the project) and refresh_interval
+export const PATCH = apiV1Route<{ id: string }>(async ({ params, request, supabase }) => {
+  const settings = parseKeywordSettingsInput(await readJsonBody(request))
+  if (settings.error) throw validationError(settings.error)
+  if (Object.keys(settings.data).length === 0) throw validationError('No fields to update')
+
+  const { data, error } = await supabase
+    .from('keywords')
+    .update(settings.data)
+    .eq('id', params.id)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw notFound('Keyword')
+
+  return apiV1Data(data)
+})
+
+export const DELETE = apiV1Route<{ id: string }>(async ({ params, supabase }) => {
+  const { data, error } = await supabase
+    .from('keywords')
+    .delete()
+    .eq('id', params.id)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) throw notFound('Keyword')
+
+  return apiV1Data({ id: params.id, deleted: true })
+})
@@ -0,0 +1,59 @@
+import { apiV1Data, apiV1List, apiV1Route, readJsonBody, validationError } from '@/lib/api-v1/handler'
+import { cursorFilter, parsePageParams, toPage } from '@/lib/api-v1/pagination'
+import { parseKeywordSettingsInput } from '@/lib/keywords'
+import { startRankingChecks } from '@/lib/ranking-jobs'
+
+export const GET = apiV1Route(async ({ request, supabase }) => {
+  const { searchParams } = new URL(request.url)
+  const page = parsePageParams(searchParams)
+  const projectId = searchParams.get('project_id')
+
+  let query = supabase
+    .from('keywords')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(page.limit + 1)
+
+  if (projectId) {
+    query = query.eq('project_id', projectId)
+  }
+  if (page.cursor) {
+    query = query.or(cursorFilter(page.cursor))
+  }
+
+  const { data, error } = await query
+
+  if (error) throw error
+
+  const { items, nextCursor } = toPage(data || [], page.limit)
+  return apiV1List(items, nextCursor)
+})
+
+// Adds a keyword to a project and queues its first ranking check
+export const POST = apiV1Route(async ({ request, supabase }) => {
+  const body = await readJsonBody(request)
+
+  if (typeof body.project_id !== 'string' || !body.project_id) {
+    throw validationError('project_id is required')
+  }
+  if (typeof body.keyword !== 'string' || !body.keyword.trim()) {
+    throw validationError('keyword is required')
+  }
+
+  const settings = parseKeywordSettingsInput(body)
+  if (settings.error) throw validationError(settings.error)
+
+  // RLS only allows keywords in the caller's own projects
+  const { data, error } = await supabase
+    .from('keywords')
+    .insert({ project_id: body.project_id, keyword: body.keyword.trim(), ...settings.data })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await startRankingChecks(supabase, [data.id])
+
+  return apiV1Data(data, 201)
+})
@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildOpenApiDocument } from '@/lib/api-v1/openapi'
+
+// Public: the proxy lets this through without a session or API key
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(new URL(request.url).origin))
+}
@@ -0,0 +1,18 @@
+import { apiV1Data, apiV1Route, notFound } from '@/lib/api-v1/handler'
+import { startRankingChecks } from '@/lib/ranking-jobs'
+
+// Queues a ranking check for every keyword of the project; poll /api/v1/ranking-jobs/{id}
+export const POST = apiV1Route<{ id: string }>(async ({ params, supabase }) => {
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('id, keywords(id)')
+    .eq('id', params.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!project) throw notFound('Project')
+
+  const jobs = await startRankingChecks(supabase, (project.keywords || []).map((keyword: { id: string }) => keyword.id))
+
+  return apiV1Data(jobs, 202)
+})
@@ -0,0 +1,47 @@
+import { apiV1Data, apiV1Route, notFound, readJsonBody, validationError } from '@/lib/api-v1/handler'
+import { parseProjectInput } from '@/lib/projects'
+
+export const GET = apiV1Route<{ id: string }>(async ({ params, supabase }) => {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', params.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw notFound('Project')
+
+  return apiV1Data(data)
+})
+
+export const PATCH = apiV1Route<{ id: string }>(async ({ params, request, supabase }) => {
+  const input = parseProjectInput(await readJsonBody(request), false)
+  if (input.error) throw validationError(input.error)
+  if (Object.keys(input.data).length === 0) throw validationError('No fields to update')
+
+  const { data, error } = await supabase
+    .from('projects')
+    .update(input.data)
+    .eq('id', params.id)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw notFound('Project')
+
+  return apiV1Data(data)
+})
+
+// Deletes the project with its keywords, rankings, alert rules and webhooks
+export const DELETE = apiV1Route<{ id: string }>(async ({ params, supabase }) => {
+  const { data, error } = await supabase
+    .from('projects')
+    .delete()
+    .eq('id', params.id)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) throw notFound('Project')
+
+  return apiV1Data({ id: params.id, deleted: true })
+})
@@ -0,0 +1,46 @@
+import { ApiV1Error, apiV1Data, apiV1List, apiV1Route, readJsonBody, validationError } from '@/lib/api-v1/handler'
+import { cursorFilter, parsePageParams, toPage } from '@/lib/api-v1/pagination'
+import { resolveProjectOrganizationId } from '@/lib/organizations'
+import { parseProjectInput } from '@/lib/projects'
+
+export const GET = apiV1Route(async ({ request, supabase }) => {
+  const page = parsePageParams(new URL(request.url).searchParams)
+
+  let query = supabase
+    .from('projects')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(page.limit + 1)
+
+  if (page.cursor) {
+    query = query.or(cursorFilter(page.cursor))
+  }
+
+  const { data, error } = await query
+
+  if (error) throw error
+
+  const { items, nextCursor } = toPage(data || [], page.limit)
+  return apiV1List(items, nextCursor)
+})
+
+export const POST = apiV1Route(async ({ request, supabase, user }) => {
+  const input = parseProjectInput(await readJsonBody(request), true)
+  if (input.error) throw validationError(input.error)
+
+  const organizationId = await resolveProjectOrganizationId(supabase, user.id, input.data.organization_id)
+  if (!organizationId) {
+    throw new ApiV1Error(403, 'forbidden', 'Only owners and editors can create projects in an organization')
+  }
+
+  const { data, error } = await supabase
+    .from('projects')
+    .insert({ ...input.data, organization_id: organizationId, user_id: user.id })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  return apiV1Data(data, 201)
+})
@@ -0,0 +1,15 @@
+import { apiV1Data, apiV1Route, notFound } from '@/lib/api-v1/handler'
+
+// Status of a ranking check queued by a refresh or keyword creation
+export const GET = apiV1Route<{ id: string }>(async ({ params, supabase }) => {
+  const { data, error } = await supabase
+    .from('ranking_jobs')
+    .select('*')
+    .eq('id', params.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw notFound('Ranking job')
+
+  return apiV1Data(data)
+})
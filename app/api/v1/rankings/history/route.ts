@@ -0,0 +1,24 @@
+import { apiV1Data, apiV1Route, validationError } from '@/lib/api-v1/handler'
+import { loadRankingSeries } from '@/lib/ranking-history'
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+
+// Rank history of every thread of a keyword (keyword_id) or every keyword of a thread (thread_id)
+export const GET = apiV1Route(async ({ request, supabase }) => {
+  const { searchParams } = new URL(request.url)
+  const keywordId = searchParams.get('keyword_id')
+  const threadId = searchParams.get('thread_id')
+  const daysParam = searchParams.get('days')
+
+  if (!keywordId && !threadId) {
+    throw validationError('keyword_id or thread_id is required')
+  }
+
+  const days = daysParam === null ? DEFAULT_DAYS : Number(daysParam)
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    throw validationError(`days must be an integer between 1 and ${MAX_DAYS}`)
+  }
+
+  return apiV1Data(await loadRankingSeries(supabase, { keywordId, threadId }, days))
+})
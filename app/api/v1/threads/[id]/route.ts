@@ -0,0 +1,15 @@
+import { apiV1Data, apiV1Route, notFound } from '@/lib/api-v1/handler'
+import { THREAD_SELECT, toApiThread } from '@/lib/api-v1/resources'
+
+export const GET = apiV1Route<{ id: string }>(async ({ params, supabase }) => {
+  const { data, error } = await supabase
+    .from('threads')
+    .select(THREAD_SELECT)
+    .eq('id', params.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw notFound('Thread')
+
+  return apiV1Data(toApiThread(data))
+})
@@ -0,0 +1,35 @@
+import { apiV1List, apiV1Route } from '@/lib/api-v1/handler'
+import { cursorFilter, parsePageParams, toPage } from '@/lib/api-v1/pagination'
+import { THREAD_SELECT, toApiThread } from '@/lib/api-v1/resources'
+
+// Threads ranking (or having ranked) for the caller's keywords, optionally of one keyword or project
+export const GET = apiV1Route(async ({ request, supabase }) => {
+  const { searchParams } = new URL(request.url)
+  const page = parsePageParams(searchParams)
+  const keywordId = searchParams.get('keyword_id')
+  const projectId = searchParams.get('project_id')
+
+  let query = supabase
+    .from('threads')
+    .select(THREAD_SELECT)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(page.limit + 1)
+
+  if (keywordId) {
+    query = query.eq('keyword_thread_rankings.keyword_id', keywordId)
+  }
+  if (projectId) {
+    query = query.eq('keyword_thread_rankings.keywords.project_id', projectId)
+  }
+  if (page.cursor) {
+    query = query.or(cursorFilter(page.cursor))
+  }
+
+  const { data, error } = await query
+
+  if (error) throw error
+
+  const { items, nextCursor } = toPage(data || [], page.limit)
+  return apiV1List(items.map(toApiThread), nextCursor)
+})
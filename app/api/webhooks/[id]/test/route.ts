@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { sendTestWebhook } from '@/lib/webhooks'
+import { WebhookEndpoint } from '@/lib/types'
+
+// Sends a signed webhook.test event to the endpoint and returns the logged delivery
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    // RLS limits this to endpoints of the user's projects
+    const { data: endpoint, error } = await supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { data: null, error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    const delivery = await sendTestWebhook(supabase, endpoint as WebhookEndpoint)
+
+    return NextResponse.json({ data: delivery, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
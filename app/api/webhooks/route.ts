@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { generateWebhookSecret, parseWebhookEndpointInput } from '@/lib/webhooks'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const projectId = new URL(request.url).searchParams.get('project_id')
+
+    let query = supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (projectId) {
+      query = query.eq('project_id', projectId)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Subscribes a URL to a project's events (all events unless `events` is given) with a new signing secret
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.project_id) {
+      return NextResponse.json(
+        { data: null, error: 'Project ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const endpoint = parseWebhookEndpointInput(body, true)
+    if (endpoint.error) {
+      return NextResponse.json(
+        { data: null, error: endpoint.error },
+        { status: 400 }
+      )
+    }
+
+    // RLS only allows endpoints in the user's own projects
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .insert({ project_id: body.project_id, secret: generateWebhookSecret(), ...endpoint.data })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Updates an endpoint's url, description, events or enabled flag; `rotate_secret: true` issues a new secret
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body.id) {
+      return NextResponse.json(
+        { data: null, error: 'Webhook ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const endpoint = parseWebhookEndpointInput(body, false)
+    if (endpoint.error) {
+      return NextResponse.json(
+        { data: null, error: endpoint.error },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .update({
+        ...endpoint.data,
+        ...(body.rotate_secret === true ? { secret: generateWebhookSecret() } : {}),
+      })
+      .eq('id', body.id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ data, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { data: null, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { data: null, error: 'Webhook ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { success: true }, error: null })
+  } catch (error) {
+    return NextResponse.json(
+      { data: null, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,581 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import DraftStatusBadge from '@/components/DraftStatusBadge'
+import {
+  PostedComment,
+  RedditAccount,
+  REPLY_DRAFT_STATUSES,
+  REPLY_DRAFT_TRANSITIONS,
+  ReplyDraftComment,
+  ReplyDraftStatus,
+  ReplyDraftWithThread,
+} from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white'
+
+// Button labels for moving a draft to each status
+const TRANSITION_LABELS: Record<ReplyDraftStatus, string> = {
+  generated: 'Back to Generated',
+  in_review: 'Submit for Review',
+  approved: 'Approve',
+  rejected: 'Reject',
+  scheduled: 'Schedule',
+  posting: 'Post',
+  posted: 'Mark Posted',
+}
+
+const POSTED_COMMENT_STYLES: Record<PostedComment['status'], string> = {
+  live: 'bg-emerald-50 text-emerald-700',
+  removed: 'bg-red-50 text-red-700',
+  deleted: 'bg-slate-100 text-slate-600',
+}
+
+type Member = { user_id: string; email: string | null }
+
+type AccountOption = { account: RedditAccount; warnings: string[] }
+
+export default function DraftsPage() {
+  const router = useRouter()
+  const supabase = createClient()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [drafts, setDrafts] = useState<ReplyDraftWithThread[]>([])
+  const [members, setMembers] = useState<Member[]>([])
+  const [status, setStatus] = useState<ReplyDraftStatus | ''>('in_review')
+  const [mine, setMine] = useState<'' | 'assigned' | 'reviewer'>('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [editedContent, setEditedContent] = useState('')
+  const [scheduledFor, setScheduledFor] = useState('')
+  const [comments, setComments] = useState<ReplyDraftComment[]>([])
+  const [newComment, setNewComment] = useState('')
+  const [postedComment, setPostedComment] = useState<PostedComment | null>(null)
+  const [permalink, setPermalink] = useState('')
+  const [accounts, setAccounts] = useState<AccountOption[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      // Ensure authenticated; redirect to login if not
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        router.replace('/auth/login')
+        return
+      }
+
+      setUserId(user.id)
+    }
+
+    checkAuth()
+  }, [router, supabase])
+
+  const fetchQueue = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams()
+      if (status) params.set('status', status)
+      if (mine) params.set(mine, 'me')
+
+      const response = await fetch(`/api/reply-drafts/queue?${params}`)
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to fetch drafts')
+      }
+
+      setDrafts(data.drafts || [])
+      setMembers(data.members || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status, mine])
+
+  useEffect(() => {
+    if (userId) fetchQueue()
+  }, [userId, fetchQueue])
+
+  const memberName = (id: string | null) =>
+    id ? (id === userId ? 'You' : members.find((m) => m.user_id === id)?.email || 'Former member') : 'Nobody'
+
+  // Cadence warnings depend on when the draft goes live, so they're fetched again after each change
+  const fetchAccounts = async (draftId: string) => {
+    try {
+      const response = await fetch(`/api/reply-drafts/${draftId}/accounts`)
+      const { data, error: apiError } = await response.json()
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to fetch Reddit accounts')
+      }
+      setAccounts(data || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleExpand = async (draft: ReplyDraftWithThread) => {
+    if (expandedId === draft.id) {
+      setExpandedId(null)
+      return
+    }
+
+    setExpandedId(draft.id)
+    setEditedContent(draft.draft_content)
+    setScheduledFor('')
+    setComments([])
+    setNewComment('')
+    setPostedComment(null)
+    setPermalink('')
+    setAccounts([])
+    fetchAccounts(draft.id)
+
+    try {
+      const [commentsResponse, postedResponse] = await Promise.all([
+        fetch(`/api/reply-drafts/${draft.id}/comments`),
+        fetch(`/api/reply-drafts/${draft.id}/posted-comment`),
+      ])
+      const { data, error: apiError } = await commentsResponse.json()
+      if (!commentsResponse.ok || apiError) {
+        throw new Error(apiError || 'Failed to fetch comments')
+      }
+      setComments(data || [])
+
+      const { data: posted, error: postedError } = await postedResponse.json()
+      if (!postedResponse.ok || postedError) {
+        throw new Error(postedError || 'Failed to fetch the posted comment')
+      }
+      setPostedComment(posted)
+      setPermalink(posted?.permalink || '')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const updateDraft = async (draft: ReplyDraftWithThread, changes: Record<string, unknown>) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/reply-drafts/${draft.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to update draft')
+      }
+
+      setDrafts(drafts.map((d) => (d.id === draft.id ? data : d)))
+      setEditedContent(data.draft_content)
+      fetchAccounts(draft.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleTransition = (draft: ReplyDraftWithThread, next: ReplyDraftStatus) => {
+    if (next === 'scheduled') {
+      if (!scheduledFor) {
+        setError('Pick when the reply should be posted')
+        return
+      }
+      updateDraft(draft, { status: next, scheduled_for: new Date(scheduledFor).toISOString() })
+      return
+    }
+    updateDraft(draft, { status: next })
+  }
+
+  const handleMarkPosted = async (e: React.FormEvent, draft: ReplyDraftWithThread) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/reply-drafts/${draft.id}/posted-comment`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ permalink }),
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to record the posted comment')
+      }
+
+      const { draft_status: draftStatus, ...posted } = data
+      setPostedComment(posted)
+      setPermalink(posted.permalink)
+      setDrafts(drafts.map((d) => (d.id === draft.id ? { ...d, status: draftStatus } : d)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // The draft's account, when it's linked for posting through the Reddit API
+  const linkedAccountOf = (draft: ReplyDraftWithThread) =>
+    accounts.find((a) => a.account.id === draft.reddit_account_id && a.account.oauth_linked_at)?.account
+
+  // Posts the draft through the Reddit API from its linked account, confirming first when that breaks cadence limits
+  const handlePostViaApi = async (draft: ReplyDraftWithThread, ignoreWarnings = false) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/reply-drafts/${draft.id}/post`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ignore_warnings: ignoreWarnings }),
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (response.status === 409 && data?.warnings) {
+        if (confirm(`${data.warnings.join('\n')}\n\nPost anyway?`)) {
+          await handlePostViaApi(draft, true)
+        }
+        return
+      }
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to post the reply')
+      }
+
+      const { draft_status: draftStatus, ...posted } = data
+      setPostedComment(posted)
+      setPermalink(posted.permalink)
+      setDrafts(drafts.map((d) => (d.id === draft.id ? { ...d, status: draftStatus } : d)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAddComment = async (e: React.FormEvent, draft: ReplyDraftWithThread) => {
+    e.preventDefault()
+    setError(null)
+    try {
+      const response = await fetch(`/api/reply-drafts/${draft.id}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: newComment }),
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to add comment')
+      }
+
+      setComments([...comments, data])
+      setNewComment('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleDeleteComment = async (draft: ReplyDraftWithThread, comment: ReplyDraftComment) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/reply-drafts/${draft.id}/comments?comment_id=${comment.id}`, { method: 'DELETE' })
+      const { error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to delete comment')
+      }
+
+      setComments(comments.filter((c) => c.id !== comment.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  if (!userId) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center py-12">
+          <p className="text-gray-500">Loading drafts...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="container mx-auto px-6 py-8 max-w-5xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 bg-clip-text text-transparent mb-2">Review Queue</h1>
+          <p className="text-slate-600 text-lg">Reply drafts of your team, from generated to posted</p>
+        </div>
+
+        <div className="card p-4 mb-6 flex flex-wrap items-center gap-3">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ReplyDraftStatus | '')}
+            className={`${inputClass} w-auto`}
+          >
+            <option value="">All statuses</option>
+            {REPLY_DRAFT_STATUSES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={mine}
+            onChange={(e) => setMine(e.target.value as '' | 'assigned' | 'reviewer')}
+            className={`${inputClass} w-auto`}
+          >
+            <option value="">Everyone&apos;s drafts</option>
+            <option value="assigned">Assigned to me</option>
+            <option value="reviewer">Reviewed by me</option>
+          </select>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading drafts...</p>
+          </div>
+        ) : drafts.length === 0 ? (
+          <div className="card p-12 text-center">
+            <p className="text-gray-500">No drafts here.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {drafts.map((draft) => (
+              <div key={draft.id} className="card p-5">
+                <button onClick={() => handleExpand(draft)} className="w-full text-left">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900 truncate">{draft.post_title || draft.post_url}</p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {draft.subreddit && `r/${draft.subreddit.replace(/^r\//, '')} · `}
+                        by {memberName(draft.user_id)} · assigned to {memberName(draft.assignee_id)} · updated {new Date(draft.updated_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <DraftStatusBadge status={draft.status} />
+                  </div>
+                </button>
+
+                {expandedId === draft.id && (
+                  <div className="mt-4 pt-4 border-t border-slate-100 space-y-4">
+                    <a href={draft.post_url} target="_blank" rel="noopener noreferrer" className="text-xs text-indigo-600 hover:text-indigo-700 break-all">
+                      {draft.post_url}
+                    </a>
+
+                    <textarea
+                      value={editedContent}
+                      onChange={(e) => setEditedContent(e.target.value)}
+                      rows={8}
+                      className={`${inputClass} font-mono resize-none`}
+                    />
+                    {draft.status !== 'posted' && (
+                      <button
+                        onClick={() => updateDraft(draft, { draft_content: editedContent })}
+                        disabled={isSaving || !editedContent.trim() || editedContent === draft.draft_content}
+                        className="px-3 py-2 text-xs font-semibold text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg disabled:opacity-50 transition-all"
+                      >
+                        Save Changes
+                      </button>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <label className="text-sm text-slate-600">
+                        Assignee
+                        <select
+                          value={draft.assignee_id || ''}
+                          onChange={(e) => updateDraft(draft, { assignee_id: e.target.value || null })}
+                          disabled={isSaving}
+                          className={`${inputClass} mt-1`}
+                        >
+                          <option value="">Nobody</option>
+                          {members.map((m) => (
+                            <option key={m.user_id} value={m.user_id}>
+                              {m.email || m.user_id}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="text-sm text-slate-600">
+                        Reviewer
+                        <select
+                          value={draft.reviewer_id || ''}
+                          onChange={(e) => updateDraft(draft, { reviewer_id: e.target.value || null })}
+                          disabled={isSaving}
+                          className={`${inputClass} mt-1`}
+                        >
+                          <option value="">Nobody</option>
+                          {members.map((m) => (
+                            <option key={m.user_id} value={m.user_id}>
+                              {m.email || m.user_id}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+
+                    <label className="block text-sm text-slate-600">
+                      Reddit account
+                      <select
+                        value={draft.reddit_account_id || ''}
+                        onChange={(e) => updateDraft(draft, { reddit_account_id: e.target.value || null })}
+                        disabled={isSaving}
+                        className={`${inputClass} mt-1`}
+                      >
+                        <option value="">Not assigned</option>
+                        {accounts.map(({ account, warnings }) => (
+                          <option key={account.id} value={account.id}>
+                            u/{account.username}
+                            {draft.status !== 'posted' && warnings.length > 0 ? ` (${warnings.length} ${warnings.length === 1 ? 'warning' : 'warnings'})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {draft.status !== 'posted' &&
+                      (accounts.find((a) => a.account.id === draft.reddit_account_id)?.warnings || []).map((warning) => (
+                        <p key={warning} className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                          {warning}
+                        </p>
+                      ))}
+
+                    {REPLY_DRAFT_TRANSITIONS[draft.status].length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        {REPLY_DRAFT_TRANSITIONS[draft.status].includes('scheduled') && (
+                          <input
+                            type="datetime-local"
+                            value={scheduledFor}
+                            onChange={(e) => setScheduledFor(e.target.value)}
+                            className={`${inputClass} w-auto`}
+                          />
+                        )}
+                        {REPLY_DRAFT_TRANSITIONS[draft.status]
+                          // Authors can't approve or reject their own drafts; posting has its own controls
+                          .filter((next) => next !== 'posted' && next !== 'posting' && !(draft.user_id === userId && (next === 'approved' || next === 'rejected')))
+                          .map((next) => (
+                          <button
+                            key={next}
+                            onClick={() => handleTransition(draft, next)}
+                            disabled={isSaving}
+                            className={`px-3 py-2 text-xs font-semibold rounded-lg transition-all disabled:opacity-50 ${
+                              next === 'rejected'
+                                ? 'text-red-600 bg-red-50 hover:bg-red-100'
+                                : 'text-white bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700'
+                            }`}
+                          >
+                            {TRANSITION_LABELS[next]}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {draft.scheduled_for && (
+                      <p className="text-xs text-slate-500">Scheduled for {new Date(draft.scheduled_for).toLocaleString()}</p>
+                    )}
+
+                    {(draft.status === 'posted' || REPLY_DRAFT_TRANSITIONS[draft.status].includes('posted')) && (
+                      <div>
+                        <p className="text-sm font-semibold text-slate-700 mb-2">Posted Comment</p>
+                        <form onSubmit={(e) => handleMarkPosted(e, draft)} className="flex gap-2">
+                          <input
+                            type="url"
+                            value={permalink}
+                            onChange={(e) => setPermalink(e.target.value)}
+                            placeholder="https://www.reddit.com/r/.../comments/.../comment/..."
+                            required
+                            className={inputClass}
+                          />
+                          <button
+                            type="submit"
+                            disabled={isSaving || permalink === postedComment?.permalink}
+                            className="px-4 py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all font-semibold whitespace-nowrap disabled:opacity-50"
+                          >
+                            {postedComment ? 'Update Link' : TRANSITION_LABELS.posted}
+                          </button>
+                        </form>
+                        {!postedComment && draft.status !== 'posting' && linkedAccountOf(draft) && (
+                          <button
+                            onClick={() => handlePostViaApi(draft)}
+                            disabled={isSaving}
+                            className="mt-2 px-3 py-2 text-xs font-semibold text-white rounded-lg bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 transition-all disabled:opacity-50"
+                          >
+                            Post via u/{linkedAccountOf(draft)?.username}
+                          </button>
+                        )}
+                        {postedComment && (
+                          <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-slate-600">
+                            <span className={`px-2 py-0.5 rounded-full font-semibold ${POSTED_COMMENT_STYLES[postedComment.status]}`}>
+                              {postedComment.status}
+                            </span>
+                            {postedComment.posted_via === 'api' && <span>Posted via the API</span>}
+                            <span>Score {postedComment.score ?? '–'}</span>
+                            <span>Replies {postedComment.reply_count ?? '–'}</span>
+                            <span>
+                              {postedComment.last_checked_at
+                                ? `Checked ${new Date(postedComment.last_checked_at).toLocaleString()}`
+                                : 'Not checked yet'}
+                            </span>
+                            {postedComment.check_error && <span className="text-red-600">Last check failed: {postedComment.check_error}</span>}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    <div>
+                      <p className="text-sm font-semibold text-slate-700 mb-2">Comments</p>
+                      <div className="space-y-2 mb-3">
+                        {comments.length === 0 && <p className="text-xs text-slate-500">No comments yet.</p>}
+                        {comments.map((comment) => (
+                          <div key={comment.id} className="p-3 bg-slate-50 rounded-lg text-sm">
+                            <div className="flex items-center justify-between text-xs text-slate-500 mb-1">
+                              <span>
+                                {comment.user_id === userId ? 'You' : comment.author_email || 'Member'} · {new Date(comment.created_at).toLocaleString()}
+                              </span>
+                              {comment.user_id === userId && (
+                                <button onClick={() => handleDeleteComment(draft, comment)} className="text-red-600 hover:text-red-700 font-semibold">
+                                  Delete
+                                </button>
+                              )}
+                            </div>
+                            <p className="text-slate-800 whitespace-pre-wrap">{comment.body}</p>
+                          </div>
+                        ))}
+                      </div>
+                      <form onSubmit={(e) => handleAddComment(e, draft)} className="flex gap-2">
+                        <input
+                          type="text"
+                          value={newComment}
+                          onChange={(e) => setNewComment(e.target.value)}
+                          placeholder="Add a comment"
+                          required
+                          className={inputClass}
+                        />
+                        <button
+                          type="submit"
+                          className="px-4 py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all font-semibold"
+                        >
+                          Comment
+                        </button>
+                      </form>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,39 +2,58 @@
 
 import { use, useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
-import RankingsList from '@/components/RankingsList'
 import Link from 'next/link'
 import { createClient } from '@/lib/supabase/client'
+import { findKeywordsByText, keywordPath } from '@/lib/keywords'
 
 export const dynamic = 'force-dynamic'
 
-export default function KeywordRankingsPage({
+type KeywordMatch = Awaited<ReturnType<typeof findKeywordsByText>>[number]
+
+/**
+ * Old text-based keyword link. Redirects to the keyword's page, or lets the user pick
+ * the project when the keyword is tracked in several.
+ */
+export default function KeywordRedirectPage({
   params,
 }: {
   params: Promise<{ keyword: string }>
 }) {
   const router = useRouter()
   const supabase = createClient()
-  const [isAuthChecked, setIsAuthChecked] = useState(false)
+  const [matches, setMatches] = useState<KeywordMatch[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
   const { keyword } = use(params)
   const decodedKeyword = decodeURIComponent(keyword)
 
   useEffect(() => {
-    const checkAuth = async () => {
+    const resolveKeyword = async () => {
       const { data: { user }, error: authError } = await supabase.auth.getUser()
       
       if (authError || !user) {
         router.replace('/auth/login')
         return
       }
-      
-      setIsAuthChecked(true)
+
+      try {
+        const projectId = new URLSearchParams(window.location.search).get('project')
+        const found = await findKeywordsByText(supabase, decodedKeyword, projectId)
+
+        if (found.length === 1) {
+          router.replace(keywordPath(found[0]))
+          return
+        }
+
+        setMatches(found)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to find keyword')
+      }
     }
 
-    checkAuth()
-  }, [router, supabase])
+    resolveKeyword()
+  }, [router, supabase, decodedKeyword])
 
-  if (!isAuthChecked) {
+  if (!matches && !error) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
         <div className="text-center">
@@ -46,7 +65,7 @@ export default function KeywordRankingsPage({
 
   return (
     <div className="min-h-screen bg-slate-50">
-      <div className="container mx-auto px-6 py-8 max-w-7xl">
+      <div className="container mx-auto px-6 py-8 max-w-3xl">
         <div className="mb-6">
           <Link
             href="/keywords"
@@ -57,15 +76,35 @@ export default function KeywordRankingsPage({
             </svg>
             Back to Keywords
           </Link>
-          <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 bg-clip-text text-transparent mb-2">Rankings</h1>
-          <p className="text-slate-600 text-lg">
-            Reddit posts ranking on Google&apos;s first page for &quot;{decodedKeyword}&quot;
-          </p>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 bg-clip-text text-transparent mb-2">&quot;{decodedKeyword}&quot;</h1>
         </div>
 
-        <RankingsList keyword={decodedKeyword} />
+        {error ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        ) : matches && matches.length === 0 ? (
+          <div className="card p-12 text-center">
+            <p className="text-gray-500">This keyword isn&apos;t tracked in any of your projects.</p>
+          </div>
+        ) : (
+          <div className="card p-6">
+            <p className="text-slate-600 mb-4">This keyword is tracked in several projects. Pick one:</p>
+            <ul className="space-y-2">
+              {matches?.map((match) => (
+                <li key={match.id}>
+                  <Link
+                    href={keywordPath(match)}
+                    className="block p-4 rounded-xl border border-slate-200 hover:border-indigo-300 hover:shadow-md transition-all bg-white font-semibold text-slate-900 hover:text-indigo-600"
+                  >
+                    {match.project_name || 'Untitled project'}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   )
 }
-
@@ -6,7 +6,8 @@ import Link from 'next/link'
 import KeywordForm from '@/components/KeywordForm'
 import BulkKeywordForm from '@/components/BulkKeywordForm'
 import KeywordList from '@/components/KeywordList'
-import { Project } from '@/lib/types'
+import { Keyword, Project } from '@/lib/types'
+import { keywordPath } from '@/lib/keywords'
 import { createClient } from '@/lib/supabase/client'
 
 export const dynamic = 'force-dynamic'
@@ -50,9 +51,10 @@ export default function KeywordsPage() {
         }
         
         setProjects(data || [])
-        // Auto-select first project if available
+        // Select the project from the link (?project=), else the first one
         if (data && data.length > 0 && !selectedProjectId) {
-          setSelectedProjectId(data[0].id)
+          const requestedId = new URLSearchParams(window.location.search).get('project')
+          setSelectedProjectId(data.some((project: Project) => project.id === requestedId) ? requestedId : data[0].id)
         }
       } catch (err) {
         console.error('Failed to fetch projects:', err)
@@ -79,8 +81,8 @@ export default function KeywordsPage() {
     setRefreshKey((prev) => prev + 1)
   }
 
-  const handleKeywordClick = (keyword: string) => {
-    router.push(`/keywords/${encodeURIComponent(keyword)}`)
+  const handleKeywordClick = (keyword: Keyword) => {
+    router.push(keywordPath(keyword))
   }
 
   const handleProjectCreated = async () => {
@@ -0,0 +1,196 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { AlertNotification, DeliveryStatus } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+function DeliveryBadge({ channel, status }: { channel: string; status: DeliveryStatus | null }) {
+  if (!status) return null
+  const styles: Record<DeliveryStatus, string> = {
+    pending: 'bg-amber-50 text-amber-700 border-amber-200',
+    sent: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    failed: 'bg-red-50 text-red-600 border-red-200',
+  }
+  return (
+    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full border ${styles[status]}`}>
+      {channel} {status}
+    </span>
+  )
+}
+
+export default function NotificationsPage() {
+  const router = useRouter()
+  const supabase = createClient()
+  const [notifications, setNotifications] = useState<AlertNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [unreadOnly, setUnreadOnly] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAuthChecked, setIsAuthChecked] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      // Ensure authenticated; redirect to login if not
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        router.replace('/auth/login')
+        return
+      }
+
+      setIsAuthChecked(true)
+    }
+
+    checkAuth()
+  }, [router, supabase])
+
+  useEffect(() => {
+    if (!isAuthChecked) return
+
+    const fetchNotifications = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const response = await fetch(`/api/notifications${unreadOnly ? '?unread=true' : ''}`)
+        const { data, unreadCount: count, error: apiError } = await response.json()
+
+        if (!response.ok || apiError) {
+          throw new Error(apiError || 'Failed to fetch notifications')
+        }
+
+        setNotifications(data || [])
+        setUnreadCount(count || 0)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchNotifications()
+  }, [isAuthChecked, unreadOnly])
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    setError(null)
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const { error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to mark notifications as read')
+      }
+
+      const readAt = new Date().toISOString()
+      const ids = 'ids' in body ? body.ids : notifications.map((n) => n.id)
+      setNotifications(notifications.map((n) => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n)))
+      setUnreadCount('ids' in body ? Math.max(0, unreadCount - ids.length) : 0)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  if (!isAuthChecked) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center py-12">
+          <p className="text-gray-500">Loading alerts...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="container mx-auto px-6 py-8 max-w-5xl">
+        <div className="mb-8 flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 bg-clip-text text-transparent mb-2">Alerts</h1>
+            <p className="text-slate-600 text-lg">
+              Ranking changes matched by your projects&apos; alert rules
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={unreadOnly}
+                onChange={(e) => setUnreadOnly(e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Unread only
+            </label>
+            <button
+              onClick={() => markRead({ all: true })}
+              disabled={unreadCount === 0}
+              className="px-4 py-2 text-sm border border-slate-300 text-slate-700 rounded-xl hover:bg-white transition-all font-semibold disabled:opacity-50"
+            >
+              Mark all as read
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading alerts...</p>
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="card p-12 text-center">
+            <p className="text-gray-500">
+              {unreadOnly ? 'No unread alerts.' : 'No alerts yet. Add alert rules to a project to get notified of ranking changes.'}
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {notifications.map((notification) => (
+              <li
+                key={notification.id}
+                className={`card p-5 ${notification.read_at ? 'opacity-70' : 'border-l-4 border-l-indigo-500'}`}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900">{notification.title}</p>
+                    {notification.body && (
+                      <p className="mt-1 text-sm text-slate-600 whitespace-pre-line break-words">{notification.body}</p>
+                    )}
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                      <span className="text-xs text-slate-500">{new Date(notification.created_at).toLocaleString()}</span>
+                      <DeliveryBadge channel="Email" status={notification.email_status} />
+                      <DeliveryBadge channel="Webhook" status={notification.webhook_status} />
+                      {notification.delivery_error && (
+                        <span className="text-xs text-red-600" title={notification.delivery_error}>
+                          {notification.delivery_error}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {!notification.read_at && (
+                    <button
+                      onClick={() => markRead({ ids: [notification.id] })}
+                      className="text-xs text-indigo-600 hover:text-indigo-700 font-semibold flex-shrink-0"
+                    >
+                      Mark as read
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,441 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { ORGANIZATION_ROLES, Organization, OrganizationInvitation, OrganizationMember, OrganizationRole } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white'
+const primaryButtonClass = 'px-4 py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all shadow-md shadow-indigo-500/30 hover:shadow-lg hover:shadow-indigo-500/40 disabled:opacity-50 font-semibold'
+
+const roleLabel = (role: OrganizationRole) => ORGANIZATION_ROLES.find((r) => r.value === role)?.label || role
+
+export default function OrganizationsPage() {
+  const router = useRouter()
+  const supabase = createClient()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [myInvitations, setMyInvitations] = useState<OrganizationInvitation[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [members, setMembers] = useState<OrganizationMember[]>([])
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [newName, setNewName] = useState('')
+  const [renameTo, setRenameTo] = useState('')
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('editor')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const selected = organizations.find((o) => o.id === selectedId) || null
+  const isOwner = selected?.role === 'owner'
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      // Ensure authenticated; redirect to login if not
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        router.replace('/auth/login')
+        return
+      }
+
+      setUserId(user.id)
+    }
+
+    checkAuth()
+  }, [router, supabase])
+
+  const fetchOrganizations = useCallback(async () => {
+    try {
+      const [organizationsResponse, invitationsResponse] = await Promise.all([
+        fetch('/api/organizations'),
+        fetch('/api/invitations'),
+      ])
+      const organizationsResult = await organizationsResponse.json()
+      const invitationsResult = await invitationsResponse.json()
+
+      if (!organizationsResponse.ok || organizationsResult.error) {
+        throw new Error(organizationsResult.error || 'Failed to fetch organizations')
+      }
+      if (!invitationsResponse.ok || invitationsResult.error) {
+        throw new Error(invitationsResult.error || 'Failed to fetch invitations')
+      }
+
+      const data: Organization[] = organizationsResult.data || []
+      setOrganizations(data)
+      setMyInvitations(invitationsResult.data || [])
+      setSelectedId((current) => (current && data.some((o) => o.id === current) ? current : data[0]?.id || null))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (userId) fetchOrganizations()
+  }, [userId, fetchOrganizations])
+
+  // Members and, for owners, pending invitations of the selected organization
+  useEffect(() => {
+    if (!selected) return
+    setRenameTo(selected.name)
+
+    const fetchMembers = async () => {
+      try {
+        const membersResponse = await fetch(`/api/organizations/${selected.id}/members`)
+        const membersResult = await membersResponse.json()
+        if (!membersResponse.ok || membersResult.error) {
+          throw new Error(membersResult.error || 'Failed to fetch members')
+        }
+        setMembers(membersResult.data || [])
+
+        if (selected.role === 'owner') {
+          const invitationsResponse = await fetch(`/api/organizations/${selected.id}/invitations`)
+          const invitationsResult = await invitationsResponse.json()
+          if (!invitationsResponse.ok || invitationsResult.error) {
+            throw new Error(invitationsResult.error || 'Failed to fetch invitations')
+          }
+          setInvitations(invitationsResult.data || [])
+        } else {
+          setInvitations([])
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      }
+    }
+
+    fetchMembers()
+  }, [selected])
+
+  // Sends a request and surfaces its error; returns the response data, or null on failure
+  const send = async (url: string, method: string, body?: unknown) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Request failed')
+      }
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      return null
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await send('/api/organizations', 'POST', { name: newName })
+    if (data) {
+      setOrganizations([...organizations, data])
+      setSelectedId(data.id)
+      setNewName('')
+    }
+  }
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selected) return
+    const data = await send('/api/organizations', 'PATCH', { id: selected.id, name: renameTo })
+    if (data) {
+      setOrganizations(organizations.map((o) => (o.id === selected.id ? { ...o, name: data.name } : o)))
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete "${selected.name}" with all its projects? This can't be undone.`)) return
+    if (await send(`/api/organizations?id=${selected.id}`, 'DELETE')) {
+      setSelectedId(null)
+      await fetchOrganizations()
+    }
+  }
+
+  const handleRoleChange = async (member: OrganizationMember, role: OrganizationRole) => {
+    if (!selected) return
+    const data = await send(`/api/organizations/${selected.id}/members`, 'PATCH', { user_id: member.user_id, role })
+    if (data) {
+      setMembers(members.map((m) => (m.user_id === member.user_id ? data : m)))
+    }
+  }
+
+  const handleRemove = async (member: OrganizationMember) => {
+    if (!selected) return
+    const isSelf = member.user_id === userId
+    if (!confirm(isSelf ? `Leave "${selected.name}"?` : `Remove ${member.email || 'this member'} from "${selected.name}"?`)) return
+
+    if (await send(`/api/organizations/${selected.id}/members?user_id=${member.user_id}`, 'DELETE')) {
+      if (isSelf) {
+        setSelectedId(null)
+        await fetchOrganizations()
+      } else {
+        setMembers(members.filter((m) => m.user_id !== member.user_id))
+      }
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selected) return
+    const data = await send(`/api/organizations/${selected.id}/invitations`, 'POST', { email: inviteEmail, role: inviteRole })
+    if (data) {
+      setInvitations([data, ...invitations])
+      setInviteEmail('')
+    }
+  }
+
+  const handleCancelInvitation = async (invitation: OrganizationInvitation) => {
+    if (!selected) return
+    if (await send(`/api/organizations/${selected.id}/invitations?invitation_id=${invitation.id}`, 'DELETE')) {
+      setInvitations(invitations.filter((i) => i.id !== invitation.id))
+    }
+  }
+
+  const handleAccept = async (invitation: OrganizationInvitation) => {
+    const data = await send('/api/invitations', 'POST', { id: invitation.id })
+    if (data) {
+      setSelectedId(data.organization_id)
+      await fetchOrganizations()
+    }
+  }
+
+  const handleDecline = async (invitation: OrganizationInvitation) => {
+    if (await send(`/api/invitations?id=${invitation.id}`, 'DELETE')) {
+      setMyInvitations(myInvitations.filter((i) => i.id !== invitation.id))
+    }
+  }
+
+  if (!userId) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center py-12">
+          <p className="text-gray-500">Loading organizations...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="container mx-auto px-6 py-8 max-w-5xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 bg-clip-text text-transparent mb-2">Team</h1>
+          <p className="text-slate-600 text-lg">Share projects with your team and clients</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {myInvitations.length > 0 && (
+          <div className="card p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Invitations</h2>
+            <div className="space-y-2">
+              {myInvitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-slate-700">
+                    <span className="font-semibold">{invitation.organization_name}</span> invited you as {roleLabel(invitation.role)}
+                  </span>
+                  <div className="flex gap-2">
+                    <button onClick={() => handleAccept(invitation)} disabled={isSaving} className={primaryButtonClass}>
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => handleDecline(invitation)}
+                      disabled={isSaving}
+                      className="px-4 py-2 text-sm border border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50 transition-all font-semibold"
+                    >
+                      Decline
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading organizations...</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-4">
+              <div className="card p-2">
+                {organizations.map((organization) => (
+                  <button
+                    key={organization.id}
+                    onClick={() => setSelectedId(organization.id)}
+                    className={`w-full text-left px-4 py-3 rounded-lg transition-all ${
+                      organization.id === selectedId ? 'bg-indigo-50 text-indigo-900' : 'hover:bg-slate-50 text-slate-700'
+                    }`}
+                  >
+                    <p className="font-semibold text-sm">{organization.name}</p>
+                    <p className="text-xs text-slate-500">{roleLabel(organization.role)}</p>
+                  </button>
+                ))}
+              </div>
+              <form onSubmit={handleCreate} className="card p-4 space-y-3">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="New organization name"
+                  required
+                  className={inputClass}
+                />
+                <button type="submit" disabled={isSaving} className={primaryButtonClass}>
+                  Create Organization
+                </button>
+              </form>
+            </div>
+
+            {selected && (
+              <div className="md:col-span-2 space-y-6">
+                {isOwner && (
+                  <form onSubmit={handleRename} className="card p-6 flex items-center gap-3">
+                    <input
+                      type="text"
+                      value={renameTo}
+                      onChange={(e) => setRenameTo(e.target.value)}
+                      required
+                      className={inputClass}
+                    />
+                    <button type="submit" disabled={isSaving || renameTo.trim() === selected.name} className={primaryButtonClass}>
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleDelete}
+                      disabled={isSaving}
+                      className="text-sm text-red-600 hover:text-red-700 font-semibold whitespace-nowrap"
+                    >
+                      Delete
+                    </button>
+                  </form>
+                )}
+
+                <div className="card overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-left text-slate-600">
+                      <tr>
+                        <th className="px-4 py-3 font-semibold">Member</th>
+                        <th className="px-4 py-3 font-semibold">Role</th>
+                        <th className="px-4 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {members.map((member) => (
+                        <tr key={member.user_id} className="border-t border-slate-100">
+                          <td className="px-4 py-3 text-gray-900">
+                            {member.email || member.user_id}
+                            {member.user_id === userId && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                          </td>
+                          <td className="px-4 py-3 text-slate-600">
+                            {isOwner ? (
+                              <select
+                                value={member.role}
+                                onChange={(e) => handleRoleChange(member, e.target.value as OrganizationRole)}
+                                disabled={isSaving}
+                                className={inputClass}
+                              >
+                                {ORGANIZATION_ROLES.map((r) => (
+                                  <option key={r.value} value={r.value}>
+                                    {r.label}
+                                  </option>
+                                ))}
+                              </select>
+                            ) : (
+                              roleLabel(member.role)
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {(isOwner || member.user_id === userId) && (
+                              <button
+                                onClick={() => handleRemove(member)}
+                                disabled={isSaving}
+                                className="text-xs text-red-600 hover:text-red-700 font-semibold"
+                              >
+                                {member.user_id === userId ? 'Leave' : 'Remove'}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {isOwner && (
+                  <form onSubmit={handleInvite} className="card p-6 space-y-4">
+                    <h2 className="text-lg font-semibold text-gray-900">Invite a member</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <input
+                        type="email"
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                        placeholder="teammate@example.com"
+                        required
+                        className={inputClass}
+                      />
+                      <select
+                        value={inviteRole}
+                        onChange={(e) => setInviteRole(e.target.value as OrganizationRole)}
+                        className={inputClass}
+                      >
+                        {ORGANIZATION_ROLES.map((r) => (
+                          <option key={r.value} value={r.value}>
+                            {r.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      {ORGANIZATION_ROLES.find((r) => r.value === inviteRole)?.description}
+                    </p>
+                    <button type="submit" disabled={isSaving} className={primaryButtonClass}>
+                      {isSaving ? 'Sending...' : 'Send Invitation'}
+                    </button>
+
+                    {invitations.length > 0 && (
+                      <div className="pt-2 space-y-2">
+                        <p className="text-sm font-semibold text-slate-700">Pending</p>
+                        {invitations.map((invitation) => (
+                          <div key={invitation.id} className="flex items-center justify-between text-sm text-slate-600">
+                            <span>
+                              {invitation.email} · {roleLabel(invitation.role)} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => handleCancelInvitation(invitation)}
+                              className="text-xs text-red-600 hover:text-red-700 font-semibold"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </form>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
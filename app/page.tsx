@@ -5,6 +5,9 @@ import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { Keyword, RedditPost } from '@/lib/types'
 import { createClient } from '@/lib/supabase/client'
+import { keywordPath } from '@/lib/keywords'
+import { formatRankingMarket } from '@/lib/serp-settings'
+import { RANKING_WITH_THREAD_SELECT, toRedditPost } from '@/lib/threads'
 
 export const dynamic = 'force-dynamic'
 
@@ -48,10 +51,11 @@ export default function Dashboard() {
 
         setKeywords(keywordsData || [])
 
-        // Fetch total count of posts
+        // Fetch total count of posts that are still ranking
         const { count: postsCount, error: countError } = await supabase
-          .from('reddit_posts')
+          .from('keyword_thread_rankings')
           .select('*', { count: 'exact', head: true })
+          .is('dropped_at', null)
 
         if (countError) {
           console.error('Error fetching posts count:', countError)
@@ -61,13 +65,15 @@ export default function Dashboard() {
 
         // Fetch recent reddit posts (limit 10 for display)
         const { data: postsData, error: postsError } = await supabase
-          .from('reddit_posts')
+          .from('keyword_thread_rankings')
           .select(`
             *,
+            threads (*),
             keywords!inner (
               keyword
             )
           `)
+          .is('dropped_at', null)
           .order('last_checked_at', { ascending: false })
           .limit(10)
 
@@ -75,15 +81,16 @@ export default function Dashboard() {
           console.error('Error fetching posts:', postsError)
           // Try without join if relation doesn't work
           const { data: postsDataSimple, error: postsErrorSimple } = await supabase
-            .from('reddit_posts')
-            .select('*')
+            .from('keyword_thread_rankings')
+            .select(RANKING_WITH_THREAD_SELECT)
+            .is('dropped_at', null)
             .order('last_checked_at', { ascending: false })
             .limit(10)
           
           if (postsErrorSimple) throw postsErrorSimple
-          setPosts(postsDataSimple || [])
+          setPosts((postsDataSimple || []).map(toRedditPost))
         } else {
-          setPosts(postsData || [])
+          setPosts((postsData || []).map(toRedditPost))
         }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred')
@@ -228,7 +235,7 @@ export default function Dashboard() {
                   {keywords.slice(0, 6).map((keyword) => (
                     <Link
                       key={keyword.id}
-                      href={`/keywords/${encodeURIComponent(keyword.keyword)}`}
+                      href={keywordPath(keyword)}
                       className="p-5 rounded-xl border border-slate-200 hover:border-indigo-300 hover:shadow-lg transition-all bg-white hover:bg-gradient-to-br hover:from-white hover:to-indigo-50/30 group"
                     >
                       <div className="flex items-start justify-between">
@@ -258,8 +265,9 @@ export default function Dashboard() {
                 <h2 className="text-2xl font-semibold text-gray-900 mb-6">Latest Rankings</h2>
                 <div className="space-y-4">
                   {posts.slice(0, 5).map((post) => {
-                    const keyword = (post as any).keywords?.keyword || keywords.find(k => k.id === post.keyword_id)?.keyword || 'Unknown'
-                    const apifyData = (post as any).apify_scraped_data
+                    const postKeyword = keywords.find(k => k.id === post.keyword_id)
+                    const keyword = (post as any).keywords?.keyword || postKeyword?.keyword || 'Unknown'
+                    const apifyData = (post as any).scraped_data
                     const upvotes = apifyData?.upVotes || apifyData?.score || apifyData?.upvotes || apifyData?.upvoteCount || null
                     const comments = apifyData?.numberOfComments || apifyData?.numComments || apifyData?.commentsCount || (Array.isArray(apifyData?.comments) ? apifyData.comments.length : null) || null
                     
@@ -277,13 +285,18 @@ export default function Dashboard() {
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center gap-2 mb-3 flex-wrap">
                               <Link
-                                href={`/keywords/${encodeURIComponent(keyword)}`}
+                                href={postKeyword ? keywordPath(postKeyword) : `/keywords/${encodeURIComponent(keyword)}`}
                                 className="text-sm font-semibold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent hover:from-indigo-700 hover:to-purple-700 transition-all"
                               >
                                 {keyword}
                               </Link>
                               <span className="text-xs text-slate-400">•</span>
                               <span className="text-xs font-semibold text-slate-700">r/{post.subreddit}</span>
+                              {formatRankingMarket(post) && (
+                                <span className="text-xs text-slate-600 px-2 py-0.5 rounded-full bg-slate-100 border border-slate-200 font-medium">
+                                  {formatRankingMarket(post)}
+                                </span>
+                              )}
                               {apifyData && (
                                 <>
                                   <span className="text-xs px-2.5 py-1 rounded-full bg-gradient-to-r from-emerald-100 to-teal-100 text-emerald-700 font-semibold border border-emerald-200/50">Scraped</span>
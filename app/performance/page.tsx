@@ -0,0 +1,179 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { PostedCommentGroupBy, PostedCommentSummary, Project } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const GROUP_BY_LABELS: Record<PostedCommentGroupBy, string> = {
+  thread: 'Thread',
+  subreddit: 'Subreddit',
+  keyword: 'Keyword',
+}
+
+function formatRate(count: number, total: number): string {
+  return total > 0 ? `${Math.round((count / total) * 100)}%` : '–'
+}
+
+export default function PerformancePage() {
+  const router = useRouter()
+  const supabase = createClient()
+  const [rows, setRows] = useState<PostedCommentSummary[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [groupBy, setGroupBy] = useState<PostedCommentGroupBy>('thread')
+  const [projectId, setProjectId] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAuthChecked, setIsAuthChecked] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const checkAuthAndFetchProjects = async () => {
+      // Ensure authenticated; redirect to login if not
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        router.replace('/auth/login')
+        return
+      }
+
+      setIsAuthChecked(true)
+
+      const response = await fetch('/api/projects')
+      const { data } = await response.json()
+      setProjects(data || [])
+    }
+
+    checkAuthAndFetchProjects()
+  }, [router, supabase])
+
+  useEffect(() => {
+    if (!isAuthChecked) return
+
+    const fetchReport = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const params = new URLSearchParams({ group_by: groupBy })
+        if (projectId) params.set('project_id', projectId)
+
+        const response = await fetch(`/api/posted-comments?${params.toString()}`)
+        const { data, error: apiError } = await response.json()
+
+        if (!response.ok || apiError) {
+          throw new Error(apiError || 'Failed to fetch posted comments')
+        }
+
+        setRows(data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchReport()
+  }, [isAuthChecked, groupBy, projectId])
+
+  if (!isAuthChecked) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center py-12">
+          <p className="text-gray-500">Loading performance...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="container mx-auto px-6 py-8 max-w-7xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 bg-clip-text text-transparent mb-2">Reply Performance</h1>
+          <p className="text-slate-600 text-lg">
+            Which posted replies survived and drew engagement. A reply counts as engaged once it&apos;s live with a reply or more than one vote.
+          </p>
+        </div>
+
+        <div className="mb-6 flex flex-wrap gap-3">
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as PostedCommentGroupBy)}
+            className="px-4 py-3 border border-slate-300 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+          >
+            {(Object.keys(GROUP_BY_LABELS) as PostedCommentGroupBy[]).map((value) => (
+              <option key={value} value={value}>By {GROUP_BY_LABELS[value].toLowerCase()}</option>
+            ))}
+          </select>
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="px-4 py-3 border border-slate-300 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+          >
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading performance...</p>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="card p-12 text-center">
+            <p className="text-gray-500">No posted replies yet. Add the comment link to a draft in the review queue once it&apos;s live.</p>
+          </div>
+        ) : (
+          <div className="card overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <th className="text-left font-semibold px-5 py-2">{GROUP_BY_LABELS[groupBy]}</th>
+                  <th className="text-right font-semibold px-5 py-2">Posted</th>
+                  <th className="text-right font-semibold px-5 py-2">Survived</th>
+                  <th className="text-right font-semibold px-5 py-2">Removed</th>
+                  <th className="text-right font-semibold px-5 py-2">Deleted</th>
+                  <th className="text-right font-semibold px-5 py-2">Engaged</th>
+                  <th className="text-right font-semibold px-5 py-2">Score</th>
+                  <th className="text-right font-semibold px-5 py-2">Replies</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key} className="border-t border-slate-100">
+                    <td className="px-5 py-2 text-gray-900 max-w-md truncate">
+                      {row.url ? (
+                        <a href={row.url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:text-indigo-700">
+                          {row.label}
+                        </a>
+                      ) : (
+                        row.label
+                      )}
+                    </td>
+                    <td className="px-5 py-2 text-right">{row.posted}</td>
+                    <td className="px-5 py-2 text-right text-emerald-700">{formatRate(row.live, row.posted)}</td>
+                    <td className="px-5 py-2 text-right text-red-600">{row.removed}</td>
+                    <td className="px-5 py-2 text-right text-slate-500">{row.deleted}</td>
+                    <td className="px-5 py-2 text-right">{row.engaged}</td>
+                    <td className="px-5 py-2 text-right font-medium">{row.total_score}</td>
+                    <td className="px-5 py-2 text-right font-medium">{row.total_replies}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { use, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import RankingsList from '@/components/RankingsList'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import { keywordPath } from '@/lib/keywords'
+
+export const dynamic = 'force-dynamic'
+
+interface KeywordWithProject {
+  id: string
+  keyword: string
+  project_id: string
+  projects: { name: string } | { name: string }[] | null
+}
+
+export default function KeywordRankingsPage({
+  params,
+}: {
+  params: Promise<{ projectId: string; keywordId: string }>
+}) {
+  const router = useRouter()
+  const supabase = createClient()
+  const [isAuthChecked, setIsAuthChecked] = useState(false)
+  const [keyword, setKeyword] = useState<{ id: string; keyword: string; projectId: string; projectName: string } | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const { projectId, keywordId } = use(params)
+
+  useEffect(() => {
+    const checkAuthAndFetchKeyword = async () => {
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+      
+      if (authError || !user) {
+        router.replace('/auth/login')
+        return
+      }
+      
+      setIsAuthChecked(true)
+
+      const { data, error } = await supabase
+        .from('keywords')
+        .select('id, keyword, project_id, projects(name)')
+        .eq('id', keywordId)
+        .maybeSingle<KeywordWithProject>()
+
+      if (error) {
+        console.error('Failed to fetch keyword:', error)
+      }
+
+      // A link with the wrong project still finds the keyword
+      if (data && data.project_id !== projectId) {
+        router.replace(keywordPath(data))
+        return
+      }
+
+      if (data) {
+        // Supabase may return an embedded many-to-one relation as an array
+        const project = Array.isArray(data.projects) ? data.projects[0] : data.projects
+        setKeyword({ id: data.id, keyword: data.keyword, projectId: data.project_id, projectName: project?.name || 'Project' })
+      }
+      setIsLoading(false)
+    }
+
+    checkAuthAndFetchKeyword()
+  }, [router, supabase, projectId, keywordId])
+
+  if (!isAuthChecked || isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-500">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!keyword) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <div className="container mx-auto px-6 py-8 max-w-7xl">
+          <div className="card p-12 text-center">
+            <p className="text-gray-500 mb-4">Keyword not found.</p>
+            <Link href="/keywords" className="text-indigo-600 hover:text-indigo-800 text-sm font-medium">
+              Back to Keywords
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="container mx-auto px-6 py-8 max-w-7xl">
+        <div className="mb-6">
+          <nav className="text-sm mb-4 flex items-center gap-2 font-medium" aria-label="Breadcrumb">
+            <Link href="/projects" className="text-indigo-600 hover:text-indigo-800">
+              Projects
+            </Link>
+            <span className="text-slate-400">/</span>
+            <Link href={`/keywords?project=${keyword.projectId}`} className="text-indigo-600 hover:text-indigo-800">
+              {keyword.projectName}
+            </Link>
+            <span className="text-slate-400">/</span>
+            <span className="text-slate-600">{keyword.keyword}</span>
+          </nav>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 bg-clip-text text-transparent mb-2">Rankings</h1>
+          <p className="text-slate-600 text-lg">
+            Reddit posts ranking on Google&apos;s first page for &quot;{keyword.keyword}&quot;
+          </p>
+        </div>
+
+        <RankingsList keywordId={keyword.id} keyword={keyword.keyword} projectId={keyword.projectId} />
+      </div>
+    </div>
+  )
+}
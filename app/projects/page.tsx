@@ -3,8 +3,13 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { Project } from '@/lib/types'
+import { Organization, PAGE_ONE_MAX_POSITION, Project, SerpSettings, TRACKING_DEPTHS, TrackingDepth } from '@/lib/types'
+import { SERP_DEVICES, SERP_LANGUAGES, SERP_LOCATIONS, formatSerpMarket, resolveSerpSettings } from '@/lib/serp-settings'
+import { DEFAULT_SYSTEM_PROMPT, LLM_PROVIDERS, formatLlmSettings, resolveLlmSettings } from '@/lib/llm-settings'
 import ConfirmationModal from '@/components/ConfirmationModal'
+import AlertRulesPanel from '@/components/AlertRulesPanel'
+import ReplyStylesPanel from '@/components/ReplyStylesPanel'
+import WebhookEndpointsPanel from '@/components/WebhookEndpointsPanel'
 import { createClient } from '@/lib/supabase/client'
 
 export const dynamic = 'force-dynamic'
@@ -20,6 +25,8 @@ export default function ProjectsPage() {
   const [showForm, setShowForm] = useState(false)
   const [projectName, setProjectName] = useState('')
   const [projectDescription, setProjectDescription] = useState('')
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [organizationId, setOrganizationId] = useState('') // Empty = personal organization
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [confirmDelete, setConfirmDelete] = useState<{ id: string; name: string } | null>(null)
   const [editingTemplate, setEditingTemplate] = useState<string | null>(null)
@@ -29,19 +36,30 @@ export default function ProjectsPage() {
   const [exclusionList, setExclusionList] = useState<string[]>([])
   const [newExclusion, setNewExclusion] = useState('')
   const [isSavingExclusions, setIsSavingExclusions] = useState(false)
+  const [editingMarket, setEditingMarket] = useState<string | null>(null)
+  const [marketSettings, setMarketSettings] = useState<SerpSettings | null>(null)
+  const [isSavingMarket, setIsSavingMarket] = useState(false)
+  const [editingModel, setEditingModel] = useState<string | null>(null)
+  const [modelSettings, setModelSettings] = useState({ provider: '', model: '', temperature: '', maxTokens: '', systemPrompt: '' })
+  const [isSavingModel, setIsSavingModel] = useState(false)
 
   const fetchProjects = async () => {
     setIsLoading(true)
     setError(null)
     try {
-      const response = await fetch('/api/projects')
+      const [response, organizationsResponse] = await Promise.all([
+        fetch('/api/projects'),
+        fetch('/api/organizations'),
+      ])
       const { data, error: apiError } = await response.json()
+      const organizationsResult = await organizationsResponse.json()
 
       if (!response.ok || apiError) {
         throw new Error(apiError || 'Failed to fetch projects')
       }
 
       setProjects(data || [])
+      setOrganizations(organizationsResult.data || [])
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
@@ -82,6 +100,9 @@ export default function ProjectsPage() {
     )
   }
 
+  // Organizations the user can create projects in, personal one first
+  const editableOrganizations = organizations.filter((o) => o.role === 'owner' || o.role === 'editor')
+
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsCreating(true)
@@ -96,6 +117,7 @@ export default function ProjectsPage() {
         body: JSON.stringify({
           name: projectName.trim(),
           description: projectDescription.trim() || undefined,
+          organization_id: organizationId || undefined,
         }),
       })
 
@@ -107,6 +129,7 @@ export default function ProjectsPage() {
 
       setProjectName('')
       setProjectDescription('')
+      setOrganizationId('')
       setShowForm(false)
       await fetchProjects()
     } catch (err) {
@@ -236,6 +259,94 @@ export default function ProjectsPage() {
     }
   }
 
+  const handleEditMarket = (project: Project) => {
+    setEditingMarket(project.id)
+    setMarketSettings(resolveSerpSettings(project))
+  }
+
+  const handleSaveMarket = async (projectId: string) => {
+    if (!marketSettings) return
+    setIsSavingMarket(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/projects', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          id: projectId,
+          serp_location_code: marketSettings.locationCode,
+          serp_language_code: marketSettings.languageCode,
+          serp_device: marketSettings.device,
+          tracking_depth: marketSettings.depth,
+        }),
+      })
+
+      const { error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to save search market')
+      }
+
+      setEditingMarket(null)
+      setMarketSettings(null)
+      await fetchProjects()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save search market')
+    } finally {
+      setIsSavingMarket(false)
+    }
+  }
+
+  const handleEditModel = (project: Project) => {
+    setEditingModel(project.id)
+    setModelSettings({
+      provider: project.llm_provider || '',
+      model: project.llm_model || '',
+      temperature: project.llm_temperature === null ? '' : String(project.llm_temperature),
+      maxTokens: project.llm_max_tokens === null ? '' : String(project.llm_max_tokens),
+      systemPrompt: project.llm_system_prompt || '',
+    })
+  }
+
+  const handleSaveModel = async (projectId: string) => {
+    setIsSavingModel(true)
+    setError(null)
+
+    try {
+      // Empty fields go back to the defaults
+      const response = await fetch('/api/projects', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          id: projectId,
+          llm_provider: modelSettings.provider || null,
+          llm_model: modelSettings.model || null,
+          llm_temperature: modelSettings.temperature === '' ? null : Number(modelSettings.temperature),
+          llm_max_tokens: modelSettings.maxTokens === '' ? null : Number(modelSettings.maxTokens),
+          llm_system_prompt: modelSettings.systemPrompt || null,
+        }),
+      })
+
+      const { error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to save reply model')
+      }
+
+      setEditingModel(null)
+      await fetchProjects()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save reply model')
+    } finally {
+      setIsSavingModel(false)
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-slate-50">
@@ -302,6 +413,26 @@ export default function ProjectsPage() {
                   disabled={isCreating}
                 />
               </div>
+              {editableOrganizations.length > 1 && (
+                <div>
+                  <label htmlFor="project-organization" className="block text-sm font-semibold text-slate-700 mb-2">
+                    Organization
+                  </label>
+                  <select
+                    id="project-organization"
+                    value={organizationId || editableOrganizations[0].id}
+                    onChange={(e) => setOrganizationId(e.target.value)}
+                    className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all bg-white"
+                    disabled={isCreating}
+                  >
+                    {editableOrganizations.map((organization) => (
+                      <option key={organization.id} value={organization.id}>
+                        {organization.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
               {error && (
                 <div className="p-3 bg-red-50 border border-red-200 rounded-xl">
                   <p className="text-sm text-red-600 flex items-center gap-2">
@@ -393,6 +524,11 @@ export default function ProjectsPage() {
                 <div className="flex items-start justify-between mb-4">
                   <div className="flex-1">
                     <h3 className="text-lg font-semibold text-slate-900 mb-1">{project.name}</h3>
+                    {organizations.length > 1 && (
+                      <p className="text-xs font-semibold text-indigo-600 mb-1">
+                        {organizations.find((o) => o.id === project.organization_id)?.name}
+                      </p>
+                    )}
                     {project.description && (
                       <p className="text-sm text-slate-600 line-clamp-2">{project.description}</p>
                     )}
@@ -436,7 +572,7 @@ export default function ProjectsPage() {
                         <span className="text-xs text-slate-500 ml-2 font-normal">(Use {`{{variableName}}`} for variables)</span>
                       </label>
                       <div className="text-xs text-slate-500 font-mono">
-                        Available: {`{{tone}}`}, {`{{businessDescription}}`}, {`{{postUrl}}`}, {`{{postText}}`}, {`{{commentsText}}`}, {`{{subreddit}}`}, {`{{postTitle}}`}
+                        Available: {`{{tone}}`}, {`{{targetWords}}`}, {`{{businessDescription}}`}, {`{{postUrl}}`}, {`{{postText}}`}, {`{{commentsText}}`}, {`{{subreddit}}`}, {`{{postTitle}}`}
                       </div>
                     </div>
                     <textarea
@@ -601,6 +737,234 @@ export default function ProjectsPage() {
                   </div>
                 )}
 
+                {/* Search Market Editor */}
+                {editingMarket === project.id && marketSettings ? (
+                  <div className="mt-4 p-4 bg-slate-50 rounded-xl border border-slate-200">
+                    <label className="block text-sm font-semibold text-slate-700 mb-3">
+                      Search Market
+                      <span className="text-xs text-slate-500 ml-2 font-normal">(Google location, language, device and tracking depth used for ranking checks)</span>
+                    </label>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                      <select
+                        value={marketSettings.locationCode}
+                        onChange={(e) => setMarketSettings({ ...marketSettings, locationCode: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white"
+                      >
+                        {!SERP_LOCATIONS.some((l) => l.code === marketSettings.locationCode) && (
+                          <option value={marketSettings.locationCode}>Location {marketSettings.locationCode}</option>
+                        )}
+                        {SERP_LOCATIONS.map((location) => (
+                          <option key={location.code} value={location.code}>
+                            {location.name}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={marketSettings.languageCode}
+                        onChange={(e) => setMarketSettings({ ...marketSettings, languageCode: e.target.value })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white"
+                      >
+                        {!SERP_LANGUAGES.some((l) => l.code === marketSettings.languageCode) && (
+                          <option value={marketSettings.languageCode}>{marketSettings.languageCode}</option>
+                        )}
+                        {SERP_LANGUAGES.map((language) => (
+                          <option key={language.code} value={language.code}>
+                            {language.name}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={marketSettings.device}
+                        onChange={(e) => setMarketSettings({ ...marketSettings, device: e.target.value as SerpSettings['device'] })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white"
+                      >
+                        {SERP_DEVICES.map((device) => (
+                          <option key={device} value={device}>
+                            {device.charAt(0).toUpperCase() + device.slice(1)}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={marketSettings.depth}
+                        onChange={(e) => setMarketSettings({ ...marketSettings, depth: Number(e.target.value) as TrackingDepth })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white"
+                      >
+                        {TRACKING_DEPTHS.map((depth) => (
+                          <option key={depth} value={depth}>
+                            Top {depth}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {marketSettings.depth > PAGE_ONE_MAX_POSITION && (
+                      <p className="mt-2 text-xs text-slate-500">
+                        Results beyond position {PAGE_ONE_MAX_POSITION} are shown as striking distance. Deeper checks cost more per SERP request.
+                      </p>
+                    )}
+                    {error && editingMarket === project.id && (
+                      <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+                        <p className="text-xs text-red-600">{error}</p>
+                      </div>
+                    )}
+                    <div className="flex gap-2 mt-3">
+                      <button
+                        onClick={() => handleSaveMarket(project.id)}
+                        disabled={isSavingMarket}
+                        className="px-4 py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all shadow-md shadow-indigo-500/30 hover:shadow-lg hover:shadow-indigo-500/40 disabled:opacity-50 font-semibold"
+                      >
+                        {isSavingMarket ? 'Saving...' : 'Save Market'}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditingMarket(null)
+                          setMarketSettings(null)
+                          setError(null)
+                        }}
+                        className="px-4 py-2 text-sm border border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50 transition-all font-semibold"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="mt-4 p-3 bg-slate-50 rounded-lg border border-slate-200">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs font-semibold text-slate-700">Search Market</span>
+                        <span className="inline-flex items-center px-2 py-1 bg-white border border-slate-300 rounded text-xs text-slate-700 font-medium">
+                          {formatSerpMarket(resolveSerpSettings(project))}
+                        </span>
+                        <span className="inline-flex items-center px-2 py-1 bg-white border border-slate-300 rounded text-xs text-slate-700 font-medium">
+                          Top {resolveSerpSettings(project).depth}
+                        </span>
+                      </div>
+                      <button
+                        onClick={() => handleEditMarket(project)}
+                        className="text-xs text-indigo-600 hover:text-indigo-700 font-semibold"
+                      >
+                        Change
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Reply Model Editor */}
+                {editingModel === project.id ? (
+                  <div className="mt-4 p-4 bg-slate-50 rounded-xl border border-slate-200">
+                    <label className="block text-sm font-semibold text-slate-700 mb-3">
+                      Reply Model
+                      <span className="text-xs text-slate-500 ml-2 font-normal">(the model and parameters replies for this project are generated with; empty fields use the defaults)</span>
+                    </label>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                      <select
+                        value={modelSettings.provider}
+                        onChange={(e) => setModelSettings({ ...modelSettings, provider: e.target.value, model: '' })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white"
+                      >
+                        <option value="">Deployment default</option>
+                        {LLM_PROVIDERS.map((provider) => (
+                          <option key={provider.name} value={provider.name}>
+                            {provider.label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        list={`llm-models-${project.id}`}
+                        value={modelSettings.model}
+                        onChange={(e) => setModelSettings({ ...modelSettings, model: e.target.value })}
+                        placeholder={LLM_PROVIDERS.find((p) => p.name === modelSettings.provider)?.defaultModel || 'Default model'}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white"
+                      />
+                      <datalist id={`llm-models-${project.id}`}>
+                        {(LLM_PROVIDERS.find((p) => p.name === modelSettings.provider)?.models || []).map((model) => (
+                          <option key={model} value={model} />
+                        ))}
+                      </datalist>
+                      <input
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={modelSettings.temperature}
+                        onChange={(e) => setModelSettings({ ...modelSettings, temperature: e.target.value })}
+                        placeholder="Temperature"
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white"
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={modelSettings.maxTokens}
+                        onChange={(e) => setModelSettings({ ...modelSettings, maxTokens: e.target.value })}
+                        placeholder="Max tokens"
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white"
+                      />
+                    </div>
+                    <textarea
+                      value={modelSettings.systemPrompt}
+                      onChange={(e) => setModelSettings({ ...modelSettings, systemPrompt: e.target.value })}
+                      placeholder={DEFAULT_SYSTEM_PROMPT}
+                      rows={2}
+                      className="mt-3 w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white"
+                    />
+                    <p className="mt-2 text-xs text-slate-500">
+                      Reasoning models such as gpt-5 only accept their default temperature, so none is sent to them. Reply styles can override temperature and max tokens.
+                    </p>
+                    {error && editingModel === project.id && (
+                      <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+                        <p className="text-xs text-red-600">{error}</p>
+                      </div>
+                    )}
+                    <div className="flex gap-2 mt-3">
+                      <button
+                        onClick={() => handleSaveModel(project.id)}
+                        disabled={isSavingModel}
+                        className="px-4 py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all shadow-md shadow-indigo-500/30 hover:shadow-lg hover:shadow-indigo-500/40 disabled:opacity-50 font-semibold"
+                      >
+                        {isSavingModel ? 'Saving...' : 'Save Model'}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditingModel(null)
+                          setError(null)
+                        }}
+                        className="px-4 py-2 text-sm border border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50 transition-all font-semibold"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="mt-4 p-3 bg-slate-50 rounded-lg border border-slate-200">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs font-semibold text-slate-700">Reply Model</span>
+                        <span className="inline-flex items-center px-2 py-1 bg-white border border-slate-300 rounded text-xs text-slate-700 font-medium">
+                          {project.llm_provider ? formatLlmSettings(resolveLlmSettings(project)) : 'Deployment default'}
+                        </span>
+                        {project.llm_temperature !== null && (
+                          <span className="inline-flex items-center px-2 py-1 bg-white border border-slate-300 rounded text-xs text-slate-700 font-medium">
+                            Temperature {project.llm_temperature}
+                          </span>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleEditModel(project)}
+                        className="text-xs text-indigo-600 hover:text-indigo-700 font-semibold"
+                      >
+                        Change
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <ReplyStylesPanel projectId={project.id} llmSettings={resolveLlmSettings(project)} />
+
+                <AlertRulesPanel projectId={project.id} />
+
+                <WebhookEndpointsPanel projectId={project.id} />
+
                 <div className="flex items-center justify-between mt-4 pt-4 border-t border-slate-200">
                   <span className="text-xs text-slate-500">
                     Created {new Date(project.created_at).toLocaleDateString()}
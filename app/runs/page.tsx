@@ -0,0 +1,236 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { RefreshRun, RefreshRunItem, RefreshTrigger } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const TRIGGER_LABELS: Record<RefreshTrigger, string> = {
+  cron: 'Scheduled',
+  manual: 'Manual',
+  bulk: 'Keywords added',
+}
+
+const TRIGGER_STYLES: Record<RefreshTrigger, string> = {
+  cron: 'bg-slate-100 text-slate-700 border-slate-200',
+  manual: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  bulk: 'bg-purple-50 text-purple-700 border-purple-200',
+}
+
+function formatDuration(startedAt: string, finishedAt?: string | null): string {
+  if (!finishedAt) return 'running'
+  const seconds = Math.max(0, Math.round((new Date(finishedAt).getTime() - new Date(startedAt).getTime()) / 1000))
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function formatCost(cost: number | null | undefined): string {
+  return cost ? `$${Number(cost).toFixed(4)}` : '–'
+}
+
+export default function RunsPage() {
+  const router = useRouter()
+  const supabase = createClient()
+  const [runs, setRuns] = useState<RefreshRun[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAuthChecked, setIsAuthChecked] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [keywordFilter, setKeywordFilter] = useState('')
+  const [expandedRuns, setExpandedRuns] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    const checkAuthAndFetchRuns = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        // Ensure authenticated; redirect to login if not
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+        if (authError || !user) {
+          router.replace('/auth/login')
+          return
+        }
+
+        setIsAuthChecked(true)
+
+        const response = await fetch('/api/refresh-runs')
+        const { data, error: apiError } = await response.json()
+
+        if (!response.ok || apiError) {
+          throw new Error(apiError || 'Failed to fetch refresh runs')
+        }
+
+        setRuns(data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    checkAuthAndFetchRuns()
+  }, [router, supabase])
+
+  const toggleExpand = (runId: string) => {
+    setExpandedRuns(prev => {
+      const next = new Set(prev)
+      if (next.has(runId)) {
+        next.delete(runId)
+      } else {
+        next.add(runId)
+      }
+      return next
+    })
+  }
+
+  if (!isAuthChecked || isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center py-12">
+          <p className="text-gray-500">Loading refresh runs...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Runs only list the items for the user's own keywords, so counts are taken from the visible items
+  const filter = keywordFilter.trim().toLowerCase()
+  const visibleRuns = runs
+    .map((run) => ({
+      run,
+      items: (run.refresh_run_items || []).filter((item: RefreshRunItem) => !filter || item.keyword.toLowerCase().includes(filter)),
+    }))
+    .filter(({ items }) => !filter || items.length > 0)
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="container mx-auto px-6 py-8 max-w-7xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 bg-clip-text text-transparent mb-2">Refresh Runs</h1>
+          <p className="text-slate-600 text-lg">
+            Every ranking refresh and what happened to each keyword, to find out why data is stale
+          </p>
+        </div>
+
+        <div className="mb-6">
+          <input
+            type="text"
+            value={keywordFilter}
+            onChange={(e) => setKeywordFilter(e.target.value)}
+            placeholder="Filter by keyword..."
+            className="w-full md:w-96 px-4 py-3 border border-slate-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+          />
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {visibleRuns.length === 0 ? (
+          <div className="card p-12 text-center">
+            <p className="text-slate-500">
+              {filter ? 'No refreshes checked a matching keyword' : 'No ranking refreshes yet'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {visibleRuns.map(({ run, items }) => {
+              const isExpanded = expandedRuns.has(run.id)
+              const failedItems = items.filter((item) => !item.success)
+              const postsCount = items.reduce((sum, item) => sum + (item.posts_count || 0), 0)
+              const cost = items.reduce((sum, item) => sum + Number(item.api_cost || 0), 0)
+
+              return (
+                <div key={run.id} className="card overflow-hidden">
+                  <button
+                    onClick={() => toggleExpand(run.id)}
+                    className="w-full p-5 text-left hover:bg-slate-50 transition-colors"
+                  >
+                    <div className="flex items-center gap-3 flex-wrap">
+                      <span className="font-semibold text-gray-900">
+                        {new Date(run.started_at).toLocaleString()}
+                      </span>
+                      <span className={`px-2.5 py-1 text-xs font-semibold rounded-full border ${TRIGGER_STYLES[run.trigger]}`}>
+                        {TRIGGER_LABELS[run.trigger]}
+                      </span>
+                      {run.status === 'running' && (
+                        <span className="px-2.5 py-1 text-xs bg-indigo-50 text-indigo-600 font-semibold rounded-full border border-indigo-200">
+                          Running
+                        </span>
+                      )}
+                      {run.status === 'failed' && (
+                        <span className="px-2.5 py-1 text-xs bg-red-50 text-red-600 font-semibold rounded-full border border-red-200" title={run.error || undefined}>
+                          Run failed
+                        </span>
+                      )}
+                      <span className="text-sm text-slate-500">
+                        {formatDuration(run.started_at, run.finished_at)}
+                      </span>
+                      <div className="ml-auto flex items-center gap-2 text-xs font-medium">
+                        <span className="px-2.5 py-1 rounded-full bg-emerald-50 text-emerald-700 border border-emerald-200">
+                          {items.length - failedItems.length} ok
+                        </span>
+                        {failedItems.length > 0 && (
+                          <span className="px-2.5 py-1 rounded-full bg-red-50 text-red-600 border border-red-200">
+                            {failedItems.length} failed
+                          </span>
+                        )}
+                        <span className="px-2.5 py-1 rounded-full bg-slate-100 text-slate-700 border border-slate-200">
+                          {postsCount} post{postsCount !== 1 ? 's' : ''}
+                        </span>
+                        <span className="px-2.5 py-1 rounded-full bg-slate-100 text-slate-700 border border-slate-200" title="API cost">
+                          {formatCost(cost)}
+                        </span>
+                      </div>
+                    </div>
+                    {run.error && (
+                      <p className="mt-2 text-sm text-red-600">{run.error}</p>
+                    )}
+                  </button>
+
+                  {isExpanded && (
+                    <div className="border-t border-slate-200 overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead className="bg-slate-50 text-slate-600">
+                          <tr>
+                            <th className="text-left font-semibold px-5 py-2">Keyword</th>
+                            <th className="text-left font-semibold px-5 py-2">Result</th>
+                            <th className="text-right font-semibold px-5 py-2">Posts</th>
+                            <th className="text-right font-semibold px-5 py-2">Cost</th>
+                            <th className="text-right font-semibold px-5 py-2">Duration</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {items.map((item) => (
+                            <tr key={item.id} className="border-t border-slate-100 align-top">
+                              <td className="px-5 py-2 text-gray-900">{item.keyword}</td>
+                              <td className="px-5 py-2">
+                                {item.success ? (
+                                  <span className="text-emerald-700 font-medium">Checked</span>
+                                ) : (
+                                  <span className="text-red-600">{item.error || 'Failed'}</span>
+                                )}
+                              </td>
+                              <td className="px-5 py-2 text-right">{item.posts_count ?? '–'}</td>
+                              <td className="px-5 py-2 text-right">{formatCost(item.api_cost)}</td>
+                              <td className="px-5 py-2 text-right text-slate-500">{formatDuration(item.started_at, item.finished_at)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
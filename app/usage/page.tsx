@@ -0,0 +1,273 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { Project, UsageSummary, UsageTotals } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const PROVIDER_LABELS: Record<string, string> = {
+  dataforseo: 'DataForSEO',
+  serpapi: 'SerpAPI',
+  apify: 'Apify',
+  'reddit-json': 'Reddit',
+  openai: 'OpenAI',
+  fixture: 'Fixtures',
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`
+}
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' })
+}
+
+// Calls the provider didn't price are counted but not in the cost, so totals can be understated
+function UnpricedNote({ totals }: { totals: UsageTotals }) {
+  if (totals.unpricedCalls === 0) return null
+  return (
+    <span className="ml-1 text-xs text-amber-600" title="Calls without a known cost are not included in the total">
+      +{totals.unpricedCalls} unpriced
+    </span>
+  )
+}
+
+export default function UsagePage() {
+  const router = useRouter()
+  const supabase = createClient()
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+  const [projects, setProjects] = useState<Project[]>([])
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7))
+  const [projectId, setProjectId] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAuthChecked, setIsAuthChecked] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const checkAuthAndFetchProjects = async () => {
+      // Ensure authenticated; redirect to login if not
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+      if (authError || !user) {
+        router.replace('/auth/login')
+        return
+      }
+
+      setIsAuthChecked(true)
+
+      const response = await fetch('/api/projects')
+      const { data } = await response.json()
+      setProjects(data || [])
+    }
+
+    checkAuthAndFetchProjects()
+  }, [router, supabase])
+
+  useEffect(() => {
+    if (!isAuthChecked) return
+
+    const fetchUsage = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const params = new URLSearchParams({ month })
+        if (projectId) params.set('project_id', projectId)
+
+        const response = await fetch(`/api/usage?${params.toString()}`)
+        const { data, error: apiError } = await response.json()
+
+        if (!response.ok || apiError) {
+          throw new Error(apiError || 'Failed to fetch usage')
+        }
+
+        setSummary(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchUsage()
+  }, [isAuthChecked, month, projectId])
+
+  if (!isAuthChecked) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="text-center py-12">
+          <p className="text-gray-500">Loading usage...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const maxMonthlyCost = Math.max(...(summary?.monthly || []).map((m) => m.cost), 0)
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="container mx-auto px-6 py-8 max-w-7xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-indigo-900 via-purple-900 to-indigo-900 bg-clip-text text-transparent mb-2">API Usage</h1>
+          <p className="text-slate-600 text-lg">
+            What SERP checks, thread scrapes and reply generation cost, per project and keyword
+          </p>
+        </div>
+
+        <div className="mb-6 flex flex-wrap gap-3">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="px-4 py-3 border border-slate-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+          />
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="px-4 py-3 border border-slate-300 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+          >
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {isLoading || !summary ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading usage...</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="card p-5">
+                <p className="text-sm text-slate-500 mb-1">Spend in {formatMonth(summary.month)}</p>
+                <p className="text-3xl font-bold text-gray-900">
+                  {formatCost(summary.totals.cost)}
+                  <UnpricedNote totals={summary.totals} />
+                </p>
+              </div>
+              <div className="card p-5">
+                <p className="text-sm text-slate-500 mb-1">API calls</p>
+                <p className="text-3xl font-bold text-gray-900">{summary.totals.calls}</p>
+              </div>
+              <div className="card p-5">
+                <p className="text-sm text-slate-500 mb-1">LLM tokens (in / out)</p>
+                <p className="text-3xl font-bold text-gray-900">
+                  {summary.totals.inputTokens.toLocaleString()} / {summary.totals.outputTokens.toLocaleString()}
+                </p>
+              </div>
+            </div>
+
+            <div className="card p-5">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Monthly spend</h2>
+              <div className="flex items-end gap-2 h-40">
+                {summary.monthly.map((m) => (
+                  <button
+                    key={m.month}
+                    onClick={() => setMonth(m.month)}
+                    className="flex-1 flex flex-col items-center justify-end h-full group"
+                    title={`${formatMonth(m.month)}: ${formatCost(m.cost)}, ${m.calls} calls`}
+                  >
+                    <div
+                      className={`w-full rounded-t-md transition-colors ${m.month === summary.month ? 'bg-indigo-600' : 'bg-indigo-200 group-hover:bg-indigo-300'}`}
+                      style={{ height: `${maxMonthlyCost > 0 ? Math.max(2, (m.cost / maxMonthlyCost) * 100) : 2}%` }}
+                    />
+                    <span className="mt-1 text-[10px] text-slate-500 whitespace-nowrap">{formatMonth(m.month)}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="card overflow-hidden">
+                <h2 className="text-lg font-semibold text-gray-900 px-5 pt-5 pb-3">By project</h2>
+                {summary.byProject.length === 0 ? (
+                  <p className="px-5 pb-5 text-sm text-slate-500">No API calls this month</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {summary.byProject.map((row) => (
+                        <tr key={row.projectId || 'none'} className="border-t border-slate-100">
+                          <td className="px-5 py-2 text-gray-900">
+                            {row.name || (row.projectId ? 'Deleted project' : 'No project')}
+                          </td>
+                          <td className="px-5 py-2 text-right text-slate-500">{row.calls} calls</td>
+                          <td className="px-5 py-2 text-right font-medium">
+                            {formatCost(row.cost)}
+                            <UnpricedNote totals={row} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div className="card overflow-hidden">
+                <h2 className="text-lg font-semibold text-gray-900 px-5 pt-5 pb-3">By provider</h2>
+                {summary.byProvider.length === 0 ? (
+                  <p className="px-5 pb-5 text-sm text-slate-500">No API calls this month</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {summary.byProvider.map((row) => (
+                        <tr key={row.provider} className="border-t border-slate-100">
+                          <td className="px-5 py-2 text-gray-900">{PROVIDER_LABELS[row.provider] || row.provider}</td>
+                          <td className="px-5 py-2 text-right text-slate-500">{row.calls} calls</td>
+                          <td className="px-5 py-2 text-right font-medium">
+                            {formatCost(row.cost)}
+                            <UnpricedNote totals={row} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+
+            <div className="card overflow-hidden">
+              <h2 className="text-lg font-semibold text-gray-900 px-5 pt-5 pb-1">Most expensive keywords</h2>
+              <p className="px-5 pb-3 text-sm text-slate-500">SERP checks and thread scrapes made for each keyword</p>
+              {summary.byKeyword.length === 0 ? (
+                <p className="px-5 pb-5 text-sm text-slate-500">No ranking checks this month</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-600">
+                    <tr>
+                      <th className="text-left font-semibold px-5 py-2">Keyword</th>
+                      <th className="text-right font-semibold px-5 py-2">Calls</th>
+                      <th className="text-right font-semibold px-5 py-2">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.byKeyword.map((row) => (
+                      <tr key={row.keywordId} className="border-t border-slate-100">
+                        <td className="px-5 py-2 text-gray-900">{row.keyword || 'Deleted keyword'}</td>
+                        <td className="px-5 py-2 text-right text-slate-500">{row.calls}</td>
+                        <td className="px-5 py-2 text-right font-medium">
+                          {formatCost(row.cost)}
+                          <UnpricedNote totals={row} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
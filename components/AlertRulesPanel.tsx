@@ -0,0 +1,297 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ALERT_RULE_TYPES, AlertRule, AlertRuleType, NotificationChannel } from '@/lib/types'
+
+interface AlertRulesPanelProps {
+  projectId: string
+}
+
+const CHANNELS: Array<{ value: NotificationChannel; label: string }> = [
+  { value: 'in_app', label: 'In-app' },
+  { value: 'email', label: 'Email' },
+  { value: 'webhook', label: 'Webhook' },
+]
+
+const EMPTY_RULE = {
+  name: '',
+  type: 'enters_top_n' as AlertRuleType,
+  threshold: '3',
+  channels: ['in_app'] as NotificationChannel[],
+  email_to: '',
+  webhook_url: '',
+}
+
+function describeRule(rule: AlertRule): string {
+  switch (rule.type) {
+    case 'enters_top_n':
+      return `New thread enters the top ${rule.threshold}`
+    case 'drops_out':
+      return rule.threshold ? `Thread drops out of the top ${rule.threshold}` : 'Thread drops out of the results'
+    case 'moves_by':
+      return `Thread moves by more than ${rule.threshold} positions`
+    case 'excluded_subreddit':
+      return `Thread from an excluded subreddit appears${rule.threshold ? ` in the top ${rule.threshold}` : ''}`
+  }
+}
+
+/**
+ * Lists and edits a project's alert rules, checked after every ranking check of its keywords
+ */
+export default function AlertRulesPanel({ projectId }: AlertRulesPanelProps) {
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(EMPTY_RULE)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchRules = async () => {
+      try {
+        const response = await fetch(`/api/alert-rules?project_id=${projectId}`)
+        const { data, error: apiError } = await response.json()
+
+        if (!response.ok || apiError) {
+          throw new Error(apiError || 'Failed to fetch alert rules')
+        }
+
+        setRules(data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchRules()
+  }, [projectId])
+
+  const selectedType = ALERT_RULE_TYPES.find((t) => t.value === form.type) || ALERT_RULE_TYPES[0]
+
+  const toggleChannel = (channel: NotificationChannel) => {
+    setForm({
+      ...form,
+      channels: form.channels.includes(channel)
+        ? form.channels.filter((c) => c !== channel)
+        : [...form.channels, channel],
+    })
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/alert-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          project_id: projectId,
+          name: form.name || selectedType.label,
+          type: form.type,
+          threshold: form.threshold || null,
+          channels: form.channels,
+          email_to: form.channels.includes('email') ? form.email_to : null,
+          webhook_url: form.channels.includes('webhook') ? form.webhook_url : null,
+        }),
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to create alert rule')
+      }
+
+      setRules([...rules, data])
+      setForm(EMPTY_RULE)
+      setShowForm(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggle = async (rule: AlertRule) => {
+    setError(null)
+    try {
+      const response = await fetch('/api/alert-rules', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: rule.id, enabled: !rule.enabled }),
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to update alert rule')
+      }
+
+      setRules(rules.map((r) => (r.id === rule.id ? data : r)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/alert-rules?id=${id}`, { method: 'DELETE' })
+      const { error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to delete alert rule')
+      }
+
+      setRules(rules.filter((r) => r.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white'
+
+  return (
+    <div className="mt-4 p-3 bg-slate-50 rounded-lg border border-slate-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-semibold text-slate-700">Alert Rules</span>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="text-xs text-indigo-600 hover:text-indigo-700 font-semibold"
+          >
+            Add rule
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-slate-500 italic">Loading rules...</p>
+      ) : rules.length === 0 && !showForm ? (
+        <p className="text-xs text-slate-500 italic">No alert rules set.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center justify-between gap-2 px-2 py-1.5 bg-white border border-slate-300 rounded text-xs">
+              <div className={`min-w-0 ${rule.enabled ? 'text-slate-700' : 'text-slate-400'}`}>
+                <span className="font-medium">{rule.name}</span>
+                <span className="ml-2">{describeRule(rule)}</span>
+                <span className="ml-2 text-slate-500">
+                  via {rule.channels.map((c) => CHANNELS.find((ch) => ch.value === c)?.label || c).join(', ')}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleToggle(rule)}
+                  className="text-indigo-600 hover:text-indigo-700 font-semibold"
+                >
+                  {rule.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  onClick={() => handleDelete(rule.id)}
+                  className="text-red-600 hover:text-red-700 font-semibold"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mt-3 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Rule name (optional)"
+              className={inputClass}
+            />
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as AlertRuleType })}
+              className={inputClass}
+            >
+              {ALERT_RULE_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={form.threshold}
+              onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+              placeholder={selectedType.thresholdLabel}
+              title={selectedType.thresholdLabel}
+              required={selectedType.thresholdRequired}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            {CHANNELS.map((channel) => (
+              <label key={channel.value} className="flex items-center gap-1.5 text-xs text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={form.channels.includes(channel.value)}
+                  onChange={() => toggleChannel(channel.value)}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                {channel.label}
+              </label>
+            ))}
+          </div>
+          {form.channels.includes('email') && (
+            <input
+              type="text"
+              value={form.email_to}
+              onChange={(e) => setForm({ ...form, email_to: e.target.value })}
+              placeholder="Email addresses, comma-separated"
+              required
+              className={inputClass}
+            />
+          )}
+          {form.channels.includes('webhook') && (
+            <input
+              type="url"
+              value={form.webhook_url}
+              onChange={(e) => setForm({ ...form, webhook_url: e.target.value })}
+              placeholder="https://example.com/webhook"
+              required
+              className={inputClass}
+            />
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving || form.channels.length === 0}
+              className="px-4 py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all shadow-md shadow-indigo-500/30 hover:shadow-lg hover:shadow-indigo-500/40 disabled:opacity-50 font-semibold"
+            >
+              {isSaving ? 'Saving...' : 'Add Rule'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false)
+                setForm(EMPTY_RULE)
+                setError(null)
+              }}
+              className="px-4 py-2 text-sm border border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50 transition-all font-semibold"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-xs text-red-600">{error}</p>
+        </div>
+      )}
+    </div>
+  )
+}
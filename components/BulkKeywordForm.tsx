@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, FormEvent, KeyboardEvent, ClipboardEvent, useRef, useEffect } from 'react'
+import type { RankingJobSummary } from '@/lib/ranking-jobs'
 
 interface BulkKeywordFormProps {
   projectId: string
@@ -14,6 +15,8 @@ export default function BulkKeywordForm({ projectId, onKeywordsAdded }: BulkKeyw
   const [error, setError] = useState<string | null>(null)
   const [duplicateError, setDuplicateError] = useState<string | null>(null)
   const [success, setSuccess] = useState<{ added: number; skipped?: number } | null>(null)
+  const [checkKeywordIds, setCheckKeywordIds] = useState<string[]>([])
+  const [checkProgress, setCheckProgress] = useState<RankingJobSummary | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
   // Normalize keyword for comparison (trimmed, lowercase)
@@ -172,6 +175,11 @@ export default function BulkKeywordForm({ projectId, onKeywordsAdded }: BulkKeyw
         added: result.added || (Array.isArray(result.data) ? result.data.length : 1),
         skipped: result.skipped,
       })
+      // Rankings are checked in the background, follow their progress
+      if (Array.isArray(result.data) && result.data.length > 0) {
+        setCheckProgress(null)
+        setCheckKeywordIds(result.data.map((k: { id: string }) => k.id))
+      }
       onKeywordsAdded()
 
       // Clear success message after 5 seconds
@@ -183,6 +191,35 @@ export default function BulkKeywordForm({ projectId, onKeywordsAdded }: BulkKeyw
     }
   }
 
+  // Poll ranking check progress for the keywords just added until every check has finished
+  useEffect(() => {
+    if (checkKeywordIds.length === 0) return
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout>
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/ranking-jobs?keyword_ids=${encodeURIComponent(checkKeywordIds.join(','))}`)
+        const { data, error: apiError } = await response.json()
+        if (cancelled) return
+
+        if (response.ok && !apiError && data?.summary) {
+          setCheckProgress(data.summary)
+          if (data.summary.pending + data.summary.running === 0) return
+        }
+      } catch (err) {
+        console.error('Failed to fetch ranking check progress:', err)
+      }
+      if (!cancelled) timer = setTimeout(poll, 3000)
+    }
+
+    poll()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [checkKeywordIds])
+
   // Focus input when component mounts or keywords change
   useEffect(() => {
     if (inputRef.current && !isLoading) {
@@ -321,6 +358,31 @@ export default function BulkKeywordForm({ projectId, onKeywordsAdded }: BulkKeyw
             </p>
           </div>
         )}
+        {checkProgress && checkProgress.total > 0 && (() => {
+          const finished = checkProgress.completed + checkProgress.failed
+          const isDone = checkProgress.pending + checkProgress.running === 0
+          return (
+            <div className="mt-3 p-3 bg-indigo-50 border border-indigo-200 rounded-xl">
+              <div className="flex items-center justify-between text-sm text-indigo-800 mb-2">
+                <span className="font-medium">
+                  {isDone ? 'Ranking checks finished' : 'Checking rankings in the background...'}
+                </span>
+                <span>
+                  {finished} / {checkProgress.total}
+                  {checkProgress.failed > 0 && (
+                    <span className="ml-2 text-amber-700">({checkProgress.failed} failed)</span>
+                  )}
+                </span>
+              </div>
+              <div className="w-full bg-indigo-100 rounded-full h-2">
+                <div
+                  className="bg-gradient-to-r from-indigo-600 to-purple-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${(finished / checkProgress.total) * 100}%` }}
+                />
+              </div>
+            </div>
+          )
+        })()}
       </div>
     </form>
   )
@@ -0,0 +1,30 @@
+'use client'
+
+import { REPLY_DRAFT_STATUSES, ReplyDraftStatus } from '@/lib/types'
+
+const STATUS_STYLES: Record<ReplyDraftStatus, string> = {
+  generated: 'bg-amber-50 text-amber-700 border-amber-200',
+  in_review: 'bg-sky-50 text-sky-700 border-sky-200',
+  approved: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  rejected: 'bg-red-50 text-red-600 border-red-200',
+  scheduled: 'bg-violet-50 text-violet-700 border-violet-200',
+  posting: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  posted: 'bg-slate-100 text-slate-700 border-slate-200',
+}
+
+interface DraftStatusBadgeProps {
+  status: ReplyDraftStatus | null
+}
+
+/**
+ * Where a reply draft is in the review workflow
+ */
+export default function DraftStatusBadge({ status }: DraftStatusBadgeProps) {
+  if (!status) return null
+
+  return (
+    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full border whitespace-nowrap ${STATUS_STYLES[status]}`} title="Reply draft status">
+      Draft: {REPLY_DRAFT_STATUSES.find((s) => s.value === status)?.label}
+    </span>
+  )
+}
@@ -1,17 +1,26 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { ReplyStyle, REPLY_STYLES } from '@/lib/types'
+import Link from 'next/link'
+import { RedditAccount, ReplyDraftStatus } from '@/lib/types'
+import { DEFAULT_REPLY_STYLES, ReplyStyleSettings } from '@/lib/reply-styles'
+import DraftStatusBadge from '@/components/DraftStatusBadge'
+
+// Drafts that can be posted right away. The modal shows the user's own draft, which someone
+// else has to approve first.
+const POSTABLE_STATUSES: ReplyDraftStatus[] = ['approved', 'scheduled']
 
 interface GenerateReplyModalProps {
   isOpen: boolean
   postUrl: string | null
+  projectId?: string // Picks the business description of the project's organization
   onClose: () => void
 }
 
-export default function GenerateReplyModal({ isOpen, postUrl, onClose }: GenerateReplyModalProps) {
+export default function GenerateReplyModal({ isOpen, postUrl, projectId, onClose }: GenerateReplyModalProps) {
   const [businessDescription, setBusinessDescription] = useState('')
-  const [style, setStyle] = useState<ReplyStyle>('casual')
+  const [styles, setStyles] = useState<ReplyStyleSettings[]>(DEFAULT_REPLY_STYLES)
+  const [style, setStyle] = useState(DEFAULT_REPLY_STYLES[0].key)
   const [includeComments, setIncludeComments] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -22,7 +31,15 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
   const [isLoadingPostInfo, setIsLoadingPostInfo] = useState(false)
   const [editedReply, setEditedReply] = useState<string>('')
   const [hasDraft, setHasDraft] = useState(false)
+  const [draftId, setDraftId] = useState<string | null>(null)
+  const [draftStatus, setDraftStatus] = useState<ReplyDraftStatus | null>(null)
   const [isLoadingData, setIsLoadingData] = useState(false)
+  const [savedReply, setSavedReply] = useState<string | null>(null)
+  const [postAccounts, setPostAccounts] = useState<Array<{ account: RedditAccount; warnings: string[] }>>([])
+  const [postAccountId, setPostAccountId] = useState('')
+  const [postWarnings, setPostWarnings] = useState<string[]>([])
+  const [isPosting, setIsPosting] = useState(false)
+  const [postedPermalink, setPostedPermalink] = useState<string | null>(null)
 
   // Load saved description, drafts, and check exclusions once
   useEffect(() => {
@@ -30,7 +47,7 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
       setIsLoadingData(true)
 
       // Load business description from Supabase
-      fetch('/api/business-description')
+      fetch(projectId ? `/api/business-description?project_id=${projectId}` : '/api/business-description')
         .then(res => res.json())
         .then(({ data, error }) => {
           if (!error && data?.description && !businessDescription) {
@@ -49,6 +66,9 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
             setEditedReply(data.draft_content)
             setReply(data.draft_content) // Show draft as reply
             setHasDraft(true)
+            setDraftId(data.id)
+            setDraftStatus(data.status)
+            setSavedReply(data.draft_content)
           }
         })
         .catch(() => {
@@ -80,8 +100,52 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
       setConfirmExcluded(false)
       setEditedReply('')
       setHasDraft(false)
+      setDraftId(null)
+      setDraftStatus(null)
+      setSavedReply(null)
+      setPostWarnings([])
+      setPostedPermalink(null)
     }
-  }, [isOpen, postUrl, businessDescription])
+  }, [isOpen, postUrl, projectId, businessDescription])
+
+  // Load the project's reply styles, keeping the picked one when the project has it
+  useEffect(() => {
+    if (!isOpen) return
+
+    fetch(projectId ? `/api/reply-styles?project_id=${projectId}` : '/api/reply-styles')
+      .then(res => res.json())
+      .then(({ data, error }) => {
+        if (error || !Array.isArray(data) || data.length === 0) return
+        setStyles(data)
+        setStyle(current => data.some((s: ReplyStyleSettings) => s.key === current) ? current : data[0].key)
+      })
+      .catch(() => {
+        // Silently fail - the default styles stay
+      })
+  }, [isOpen, projectId])
+
+  // Load the linked accounts the draft could be posted from once it can be posted
+  const canPost = draftStatus !== null && POSTABLE_STATUSES.includes(draftStatus)
+  useEffect(() => {
+    if (!draftId || !canPost) {
+      setPostAccounts([])
+      return
+    }
+
+    fetch(`/api/reply-drafts/${draftId}/accounts`)
+      .then(res => res.json())
+      .then(({ data, error }) => {
+        if (error) return
+        const linked = ((data || []) as Array<{ account: RedditAccount; warnings: string[] }>)
+          .filter(({ account }) => account.oauth_linked_at)
+        setPostAccounts(linked)
+        // Prefer an account that can post without breaking its cadence limits
+        setPostAccountId((linked.find(({ warnings }) => warnings.length === 0) || linked[0])?.account.id || '')
+      })
+      .catch(() => {
+        // Silently fail - posting stays unavailable
+      })
+  }, [draftId, canPost])
 
   // Prevent body scroll when open
   useEffect(() => {
@@ -109,7 +173,7 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
         await fetch('/api/business-description', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ description: businessDescription.trim() }),
+          body: JSON.stringify({ description: businessDescription.trim(), project_id: projectId }),
         }).catch(() => {
           // Silently fail - description save is not critical for reply generation
         })
@@ -150,10 +214,13 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
         }),
       })
 
-      const { error } = await res.json()
+      const { data, error } = await res.json()
       if (error) throw new Error(error)
 
       setHasDraft(true)
+      setDraftId(data.id)
+      setDraftStatus(data.status)
+      setSavedReply(data.draft_content)
     } catch (err) {
       console.error('Failed to save draft:', err)
       setError('Failed to save draft. Please try again.')
@@ -172,6 +239,9 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
       if (error) throw new Error(error)
 
       setHasDraft(false)
+      setDraftId(null)
+      setDraftStatus(null)
+      setSavedReply(null)
       if (editedReply === reply) {
         setEditedReply('')
         setReply(null)
@@ -182,6 +252,56 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
     }
   }
 
+  const handleSubmitForReview = async () => {
+    if (!draftId) return
+
+    try {
+      const res = await fetch(`/api/reply-drafts/${draftId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'in_review' }),
+      })
+
+      const { data, error } = await res.json()
+      if (error) throw new Error(error)
+
+      setDraftStatus(data.status)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit draft for review')
+    }
+  }
+
+  const handlePost = async (ignoreWarnings: boolean) => {
+    if (!draftId || !postAccountId) return
+
+    setIsPosting(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/reply-drafts/${draftId}/post`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reddit_account_id: postAccountId, ignore_warnings: ignoreWarnings }),
+      })
+
+      const { data, error } = await res.json()
+      if (res.status === 409 && data?.warnings) {
+        // Ask before breaking the account's cadence limits
+        setPostWarnings(data.warnings)
+        return
+      }
+      if (error) throw new Error(error)
+
+      setPostWarnings([])
+      setPostedPermalink(data.permalink)
+      setDraftStatus(data.draft_status)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post the reply')
+    } finally {
+      setIsPosting(false)
+    }
+  }
+
   if (!isOpen || !postUrl) return null
 
   return (
@@ -221,12 +341,12 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
               <div className="relative">
                 <select
                   value={style}
-                  onChange={(e) => setStyle(e.target.value as ReplyStyle)}
+                  onChange={(e) => setStyle(e.target.value)}
                   className="w-full px-4 py-3 pr-10 border border-slate-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all bg-white appearance-none cursor-pointer hover:border-indigo-400 hover:shadow-sm font-medium text-slate-900"
                 >
-                  {Object.entries(REPLY_STYLES).map(([key, config]) => (
-                    <option key={key} value={key}>
-                      {key.charAt(0).toUpperCase() + key.slice(1)}
+                  {styles.map((s) => (
+                    <option key={s.key} value={s.key} title={s.tone}>
+                      {s.name}
                     </option>
                   ))}
                 </select>
@@ -299,9 +419,12 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
             <div className="flex items-center justify-between mb-2">
               <label className="block text-sm font-semibold text-slate-700">Suggested reply</label>
               {hasDraft && (
-                <span className="text-xs px-2 py-1 bg-amber-100 text-amber-700 rounded-full font-medium border border-amber-200">
-                  Draft saved
-                </span>
+                <div className="flex items-center gap-2">
+                  <DraftStatusBadge status={draftStatus} />
+                  <Link href="/drafts" className="text-xs text-indigo-600 hover:text-indigo-700 font-semibold">
+                    Review queue
+                  </Link>
+                </div>
               )}
             </div>
             <textarea
@@ -336,6 +459,15 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
                     Clear Draft
                   </button>
                 )}
+                {hasDraft && (draftStatus === 'generated' || draftStatus === 'rejected') && (
+                  <button
+                    type="button"
+                    onClick={handleSubmitForReview}
+                    className="px-3 py-2 text-xs font-semibold text-sky-700 bg-sky-50 hover:bg-sky-100 rounded-lg transition-all"
+                  >
+                    Submit for Review
+                  </button>
+                )}
               </div>
               <button
                 type="button"
@@ -348,6 +480,80 @@ export default function GenerateReplyModal({ isOpen, postUrl, onClose }: Generat
                 Copy to clipboard
               </button>
             </div>
+
+            {hasDraft && canPost && (
+              <div className="mt-4 p-4 bg-slate-50 border border-slate-200 rounded-xl">
+                {postAccounts.length === 0 ? (
+                  <p className="text-xs text-slate-500">
+                    Link a Reddit account on the <Link href="/accounts" className="text-indigo-600 hover:text-indigo-700 font-semibold">accounts page</Link> to post from here.
+                  </p>
+                ) : (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={postAccountId}
+                      onChange={(e) => {
+                        setPostAccountId(e.target.value)
+                        setPostWarnings([])
+                      }}
+                      className="px-3 py-2 text-xs border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {postAccounts.map(({ account, warnings }) => (
+                        <option key={account.id} value={account.id}>
+                          u/{account.username}{warnings.length > 0 ? ` (${warnings.length} warning${warnings.length === 1 ? '' : 's'})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => handlePost(false)}
+                      disabled={isPosting || !postAccountId || editedReply.trim() !== savedReply}
+                      className="px-3 py-2 text-xs font-semibold text-white rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    >
+                      {isPosting ? 'Posting...' : 'Post to Reddit'}
+                    </button>
+                    {editedReply.trim() !== savedReply && (
+                      <span className="text-xs text-slate-500">Save the draft before posting.</span>
+                    )}
+                  </div>
+                )}
+
+                {postWarnings.length > 0 && (
+                  <div className="mt-3 p-3 bg-amber-50 border border-amber-300 rounded-lg">
+                    <ul className="text-xs text-amber-800 space-y-1">
+                      {postWarnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        type="button"
+                        onClick={() => handlePost(true)}
+                        disabled={isPosting}
+                        className="px-3 py-1.5 text-xs font-semibold text-amber-900 bg-amber-200 hover:bg-amber-300 rounded-lg disabled:opacity-50 transition-all"
+                      >
+                        Post anyway
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setPostWarnings([])}
+                        className="px-3 py-1.5 text-xs font-semibold text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-all"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {postedPermalink && (
+              <div className="mt-4 p-3 bg-emerald-50 border border-emerald-200 rounded-xl text-sm text-emerald-800">
+                Posted.{' '}
+                <a href={postedPermalink} target="_blank" rel="noopener noreferrer" className="font-semibold underline">
+                  View the comment
+                </a>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1,19 +1,27 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { Keyword, RedditPost, REPLY_STYLES } from '@/lib/types'
+import { Fragment, useState, useEffect } from 'react'
+import { Keyword, RankingJob, RedditPost, RefreshInterval, REFRESH_INTERVALS, ReplyDraftStatus } from '@/lib/types'
+import { DEFAULT_REPLY_STYLES, ReplyStyleSettings } from '@/lib/reply-styles'
 import { createClient } from '@/lib/supabase/client'
 import ConfirmationModal from '@/components/ConfirmationModal'
 import GenerateReplyModal from '@/components/GenerateReplyModal'
 import Toast from '@/components/Toast'
+import LostThreadsList from '@/components/LostThreadsList'
+import RankMovementBadge from '@/components/RankMovementBadge'
+import DraftStatusBadge from '@/components/DraftStatusBadge'
+import { formatRankingMarket, getRankingSectionLabel } from '@/lib/serp-settings'
+import { getKeywordMovement, getRankMovement, splitDroppedPosts } from '@/lib/ranking-history'
+import { RANKING_WITH_HISTORY_SELECT, toRedditPost } from '@/lib/threads'
 
 interface KeywordListProps {
   projectId: string
-  onKeywordClick?: (keyword: string) => void
+  onKeywordClick?: (keyword: Keyword) => void
 }
 
 interface KeywordWithPosts extends Keyword {
   posts: RedditPost[]
+  droppedPosts: RedditPost[]
   isLoadingPosts?: boolean
   hasChecked?: boolean
 }
@@ -26,23 +34,25 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [expandedKeywords, setExpandedKeywords] = useState<Set<string>>(new Set())
   const [checkingRankings, setCheckingRankings] = useState<Set<string>>(new Set())
+  const [rankingJobs, setRankingJobs] = useState<Map<string, RankingJob>>(new Map())
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [isBulkDeleting, setIsBulkDeleting] = useState(false)
   const [confirmBulkDelete, setConfirmBulkDelete] = useState<number | null>(null)
   const [confirmSingleDelete, setConfirmSingleDelete] = useState<string | null>(null)
   const [generateUrl, setGenerateUrl] = useState<string | null>(null)
-  const [postsWithDrafts, setPostsWithDrafts] = useState<Set<string>>(new Set())
+  const [draftStatuses, setDraftStatuses] = useState<Map<string, ReplyDraftStatus>>(new Map()) // By post URL
   const [selectedPostUrls, setSelectedPostUrls] = useState<Set<string>>(new Set())
   const [showBulkGenerateModal, setShowBulkGenerateModal] = useState(false)
   const [isBulkGenerating, setIsBulkGenerating] = useState(false)
   const [bulkGenerateProgress, setBulkGenerateProgress] = useState<{ current: number; total: number; currentUrl?: string } | null>(null)
   const [bulkBusinessDescription, setBulkBusinessDescription] = useState('')
+  const [replyStyles, setReplyStyles] = useState<ReplyStyleSettings[]>(DEFAULT_REPLY_STYLES)
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null)
 
   // Load business description when modal opens
   useEffect(() => {
     if (showBulkGenerateModal && !bulkBusinessDescription) {
-      fetch('/api/business-description')
+      fetch(`/api/business-description?project_id=${projectId}`)
         .then(res => res.json())
         .then(({ data, error }) => {
           if (!error && data?.description) {
@@ -51,7 +61,66 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
         })
         .catch(() => {})
     }
-  }, [showBulkGenerateModal, bulkBusinessDescription])
+  }, [showBulkGenerateModal, bulkBusinessDescription, projectId])
+
+  // Load the project's reply styles when the modal opens
+  useEffect(() => {
+    if (showBulkGenerateModal) {
+      fetch(`/api/reply-styles?project_id=${projectId}`)
+        .then(res => res.json())
+        .then(({ data, error }) => {
+          if (!error && Array.isArray(data) && data.length > 0) {
+            setReplyStyles(data)
+          }
+        })
+        .catch(() => {})
+    }
+  }, [showBulkGenerateModal, projectId])
+
+  const fetchKeywordPosts = async (keywordId: string) => {
+    const { data: posts } = await supabase
+      .from('keyword_thread_rankings')
+      .select(RANKING_WITH_HISTORY_SELECT)
+      .eq('keyword_id', keywordId)
+      .order('rank_position', { ascending: true })
+      .order('checked_at', { referencedTable: 'rankings_history', ascending: true })
+
+    const { ranking, dropped } = splitDroppedPosts<RedditPost>((posts || []).map(toRedditPost))
+
+    return {
+      posts: ranking,
+      droppedPosts: dropped,
+      hasChecked: !!posts && posts.length > 0,
+    }
+  }
+
+  // Latest queued ranking check of each keyword (checks run in the background after keywords are added)
+  const fetchRankingJobs = async () => {
+    try {
+      const response = await fetch(`/api/ranking-jobs?project_id=${encodeURIComponent(projectId)}`)
+      const { data, error: apiError } = await response.json()
+      if (!response.ok || apiError) return
+
+      const jobs: RankingJob[] = data?.jobs || []
+
+      // Reload posts of keywords whose check finished since the last poll
+      const finished = jobs.filter((job) => {
+        const previous = rankingJobs.get(job.keyword_id)
+        return job.status === 'completed' && previous && (previous.status === 'pending' || previous.status === 'running')
+      })
+      for (const job of finished) {
+        const posts = await fetchKeywordPosts(job.keyword_id)
+        setKeywords(prev => prev.map(k => k.id === job.keyword_id ? { ...k, ...posts } : k))
+        if (posts.posts.length > 0) {
+          setExpandedKeywords(prev => new Set(prev).add(job.keyword_id))
+        }
+      }
+
+      setRankingJobs(new Map(jobs.map((job) => [job.keyword_id, job])))
+    } catch (err) {
+      console.error('Failed to fetch ranking jobs:', err)
+    }
+  }
 
   const fetchKeywords = async () => {
     setIsLoading(true)
@@ -68,19 +137,10 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
       
       // Fetch posts for each keyword
       const keywordsWithPosts = await Promise.all(
-        keywordsData.map(async (keyword: Keyword) => {
-          const { data: posts, error: postsError } = await supabase
-            .from('reddit_posts')
-            .select('*')
-            .eq('keyword_id', keyword.id)
-            .order('rank_position', { ascending: true })
-
-          return {
-            ...keyword,
-            posts: posts || [],
-            hasChecked: posts && posts.length > 0,
-          }
-        })
+        keywordsData.map(async (keyword: Keyword) => ({
+          ...keyword,
+          ...(await fetchKeywordPosts(keyword.id)),
+        }))
       )
 
       setKeywords(keywordsWithPosts)
@@ -103,19 +163,20 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
             try {
               const response = await fetch(`/api/reply-drafts?postUrl=${encodeURIComponent(postUrl)}`)
               const { data, error } = await response.json()
-              return { postUrl, hasDraft: !error && data?.draft_content && data.draft_content.length > 0 }
+              return { postUrl, status: (!error && data?.status) || null }
             } catch {
-              return { postUrl, hasDraft: false }
+              return { postUrl, status: null }
             }
           })
         )
         
-        const draftsSet = new Set(
-          draftChecks.filter(check => check.hasDraft).map(check => check.postUrl)
-        )
-        setPostsWithDrafts(draftsSet)
+        setDraftStatuses(new Map(
+          draftChecks.filter(check => check.status).map(check => [check.postUrl, check.status])
+        ))
       }
       
+      await fetchRankingJobs()
+
       // Clean up selected IDs for keywords that no longer exist
       setSelectedIds(prev => {
         const keywordIds = new Set(keywordsWithPosts.map(k => k.id))
@@ -128,12 +189,38 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
     }
   }
 
+  const updateRefreshInterval = async (keyword: KeywordWithPosts, refreshInterval: RefreshInterval) => {
+    try {
+      const response = await fetch('/api/keywords', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: keyword.id, refresh_interval: refreshInterval }),
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to update refresh interval')
+      }
+
+      setKeywords(prev => prev.map(k =>
+        k.id === keyword.id
+          ? { ...k, refresh_interval: data.refresh_interval, next_check_at: data.next_check_at }
+          : k
+      ))
+    } catch (err) {
+      setToast({
+        message: err instanceof Error ? err.message : 'Failed to update refresh interval',
+        type: 'error'
+      })
+    }
+  }
+
   const checkRankingsForKeyword = async (keyword: KeywordWithPosts) => {
     setCheckingRankings(prev => new Set(prev).add(keyword.id))
     
     try {
       // Use POST to trigger actual ranking check (calls external APIs)
-      const response = await fetch(`/api/check-rankings/${encodeURIComponent(keyword.keyword)}`, {
+      const response = await fetch(`/api/keywords/${keyword.id}/rankings`, {
         method: 'POST',
       })
       const { data, error: apiError } = await response.json()
@@ -142,10 +229,18 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
         throw new Error(apiError || 'Failed to check rankings')
       }
 
+      // A manual check supersedes the keyword's last queued check
+      setRankingJobs(prev => {
+        const next = new Map(prev)
+        next.delete(keyword.id)
+        return next
+      })
+
       // Update the keyword with new posts
+      const { ranking, dropped } = splitDroppedPosts<RedditPost>(data || [])
       setKeywords(prev => prev.map(k => 
         k.id === keyword.id 
-          ? { ...k, posts: data || [], hasChecked: true }
+          ? { ...k, posts: ranking, droppedPosts: dropped, hasChecked: true }
           : k
       ))
 
@@ -187,6 +282,15 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
     fetchKeywords()
   }, [projectId]) // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Poll while ranking checks are queued or running
+  useEffect(() => {
+    const hasActiveJobs = Array.from(rankingJobs.values()).some(job => job.status === 'pending' || job.status === 'running')
+    if (!hasActiveJobs) return
+
+    const timer = setTimeout(fetchRankingJobs, 3000)
+    return () => clearTimeout(timer)
+  }, [rankingJobs]) // eslint-disable-line react-hooks/exhaustive-deps
+
   const toggleSelect = (id: string) => {
     setSelectedIds(prev => {
       const next = new Set(prev)
@@ -448,16 +552,18 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
         .filter((r: any) => r.success)
         .map((r: any) => r.postUrl)
       
-      setPostsWithDrafts(prev => {
-        const next = new Set(prev)
-        successUrls.forEach((url: string) => next.add(url))
+      setDraftStatuses(prev => {
+        const next = new Map(prev)
+        successUrls.forEach((url: string) => next.set(url, 'generated'))
         return next
       })
 
       // Clear selection
       setSelectedPostUrls(new Set())
 
-      const summaryMessage = `Generated ${data.summary.success} replies${data.summary.skipped > 0 ? `, ${data.summary.skipped} skipped` : ''}${data.summary.errors > 0 ? `, ${data.summary.errors} errors` : ''}`
+      // Provider failures (rate limits, timeouts) usually hit every post the same way, show the first one
+      const firstError = data.results.find((r: { success: boolean; skipped?: boolean }) => !r.success && !r.skipped)?.error
+      const summaryMessage = `Generated ${data.summary.success} replies${data.summary.skipped > 0 ? `, ${data.summary.skipped} skipped` : ''}${data.summary.errors > 0 ? `, ${data.summary.errors} errors: ${firstError}` : ''}`
       setToast({
         message: summaryMessage,
         type: data.summary.errors > 0 ? 'info' : 'success'
@@ -574,8 +680,16 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
       <div className="space-y-4">
         {keywords.map((keyword) => {
           const isExpanded = expandedKeywords.has(keyword.id)
+          const job = rankingJobs.get(keyword.id)
+          const isQueued = job?.status === 'pending' || job?.status === 'running'
           const isChecking = checkingRankings.has(keyword.id)
           const hasPosts = keyword.posts && keyword.posts.length > 0
+          const hasDroppedPosts = keyword.droppedPosts && keyword.droppedPosts.length > 0
+          // Change of the keyword's best Reddit position, threads that dropped out count as well
+          const movements = [7, 30].map((days) => ({
+            days,
+            change: getKeywordMovement([...(keyword.posts || []), ...(keyword.droppedPosts || [])], days),
+          }))
 
           return (
             <div
@@ -608,9 +722,46 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
                               {keyword.posts.length} post{keyword.posts.length !== 1 ? 's' : ''}
                             </span>
                           )}
+                          {hasDroppedPosts && (
+                            <span className="px-2.5 py-1 text-xs bg-red-50 text-red-600 font-semibold rounded-full border border-red-200">
+                              {keyword.droppedPosts.length} lost
+                            </span>
+                          )}
+                          {movements.map(({ days, change }) => change !== null && (
+                            <span
+                              key={days}
+                              className={`px-2.5 py-1 text-xs font-semibold rounded-full border ${
+                                change > 0
+                                  ? 'bg-emerald-50 text-emerald-700 border-emerald-200'
+                                  : change < 0
+                                    ? 'bg-red-50 text-red-600 border-red-200'
+                                    : 'bg-slate-100 text-slate-600 border-slate-200'
+                              }`}
+                              title={`Best position change over the last ${days} days`}
+                            >
+                              {days}d {change > 0 ? `▲ ${change}` : change < 0 ? `▼ ${-change}` : '±0'}
+                            </span>
+                          ))}
+                          {isQueued && (
+                            <span className="px-2.5 py-1 text-xs bg-indigo-50 text-indigo-600 font-semibold rounded-full border border-indigo-200 flex items-center gap-1.5">
+                              <svg className="animate-spin h-3 w-3" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                              </svg>
+                              {job?.status === 'running' ? 'Checking rankings' : 'Queued'}
+                            </span>
+                          )}
+                          {job?.status === 'failed' && (
+                            <span
+                              className="px-2.5 py-1 text-xs bg-amber-50 text-amber-700 font-semibold rounded-full border border-amber-200"
+                              title={job.error || undefined}
+                            >
+                              Check failed
+                            </span>
+                          )}
                         </div>
                       </button>
-                      {hasPosts && (
+                      {(hasPosts || hasDroppedPosts) && (
                         <button
                           onClick={() => toggleExpand(keyword.id)}
                           className="text-gray-400 hover:text-gray-600 transition-colors flex-shrink-0"
@@ -628,9 +779,19 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
                     </div>
                   </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
+                    <select
+                      value={keyword.refresh_interval}
+                      onChange={(e) => updateRefreshInterval(keyword, e.target.value as RefreshInterval)}
+                      title={keyword.next_check_at ? `Next check ${new Date(keyword.next_check_at).toLocaleString()}` : 'Automatic checks paused'}
+                      className="px-3 py-2 text-sm border border-slate-300 rounded-xl bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    >
+                      {REFRESH_INTERVALS.map((interval) => (
+                        <option key={interval.value} value={interval.value}>{interval.label}</option>
+                      ))}
+                    </select>
                     <button
                       onClick={() => checkRankingsForKeyword(keyword)}
-                      disabled={isChecking}
+                      disabled={isChecking || isQueued}
                       className="px-4 py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all shadow-md shadow-indigo-500/30 hover:shadow-lg hover:shadow-indigo-500/40 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed font-semibold flex items-center gap-2"
                     >
                       {isChecking ? (
@@ -681,102 +842,107 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
                 <div className="border-t border-gray-200 px-5 py-4 bg-gray-50">
                   {hasPosts ? (
                     <div className="space-y-3">
-                      {keyword.posts.map((post) => (
-                        <div
-                          key={post.id}
-                          className="p-4 bg-white rounded-xl border border-gray-200 hover:border-blue-300 hover:shadow-md transition-all"
-                        >
-                          <div className="flex items-start gap-4">
-                            <input
-                              type="checkbox"
-                              checked={selectedPostUrls.has(post.post_url)}
-                              onChange={(e) => {
-                                const newSet = new Set(selectedPostUrls)
-                                if (e.target.checked) {
-                                  newSet.add(post.post_url)
-                                } else {
-                                  newSet.delete(post.post_url)
-                                }
-                                setSelectedPostUrls(newSet)
-                              }}
-                              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 flex-shrink-0 mt-1"
-                            />
-                            <div className="flex-shrink-0">
-                              <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center shadow-md shadow-indigo-500/20">
-                                <span className="text-lg font-bold text-white">#{post.rank_position}</span>
+                      {keyword.posts.map((post, index) => (
+                        <Fragment key={post.id}>
+                          {getRankingSectionLabel(keyword.posts, index) && (
+                            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide pt-1">
+                              {getRankingSectionLabel(keyword.posts, index)}
+                            </p>
+                          )}
+                          <div
+                            className="p-4 bg-white rounded-xl border border-gray-200 hover:border-blue-300 hover:shadow-md transition-all"
+                          >
+                            <div className="flex items-start gap-4">
+                              <input
+                                type="checkbox"
+                                checked={selectedPostUrls.has(post.post_url)}
+                                onChange={(e) => {
+                                  const newSet = new Set(selectedPostUrls)
+                                  if (e.target.checked) {
+                                    newSet.add(post.post_url)
+                                  } else {
+                                    newSet.delete(post.post_url)
+                                  }
+                                  setSelectedPostUrls(newSet)
+                                }}
+                                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 flex-shrink-0 mt-1"
+                              />
+                              <div className="flex-shrink-0">
+                                <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center shadow-md shadow-indigo-500/20">
+                                  <span className="text-lg font-bold text-white">#{post.rank_position}</span>
+                                </div>
                               </div>
-                            </div>
-                            <div className="flex-1 min-w-0">
-                              <div className="flex items-center gap-2 mb-2 flex-wrap">
-                                <span className="text-xs font-semibold text-gray-700">r/{post.subreddit}</span>
-                                <span className="text-xs text-gray-500">•</span>
-                                <span className="text-xs text-gray-500">
-                                  {new Date(post.last_checked_at).toLocaleDateString()}
-                                </span>
-                                {postsWithDrafts.has(post.post_url) && (
-                                  <span className="text-xs text-amber-600 flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-50 border border-amber-200" title="Draft saved">
-                                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                                    </svg>
-                                    Draft
+                              <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2 mb-2 flex-wrap">
+                                  <span className="text-xs font-semibold text-gray-700">r/{post.subreddit}</span>
+                                  <RankMovementBadge movement={getRankMovement(post.rankings_history)} />
+                                  <span className="text-xs text-gray-500">•</span>
+                                  <span className="text-xs text-gray-500">
+                                    {new Date(post.last_checked_at).toLocaleDateString()}
                                   </span>
-                                )}
-                                {(post as any).apify_scraped_data && (() => {
-                                  const apifyData = (post as any).apify_scraped_data
-                                  const upvotes = apifyData?.upVotes || apifyData?.score || apifyData?.upvotes || apifyData?.upvoteCount || null
-                                  const comments = apifyData?.numberOfComments || apifyData?.numComments || apifyData?.commentsCount || (Array.isArray(apifyData?.comments) ? apifyData.comments.length : null) || null
-                                  return (
-                                    <>
-                                      {upvotes !== null && (
-                                        <span className="text-xs text-slate-700 flex items-center gap-1 px-2.5 py-1 rounded-full bg-slate-100 font-medium border border-slate-200">
-                                          <svg className="w-3.5 h-3.5 text-orange-500" fill="currentColor" viewBox="0 0 20 20">
-                                            <path fillRule="evenodd" d="M3.293 9.707a1 1 0 010-1.414l6-6a1 1 0 011.414 0l6 6a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L4.707 9.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
-                                          </svg>
-                                          {upvotes}
-                                        </span>
-                                      )}
-                                      {comments !== null && (
-                                        <span className="text-xs text-slate-700 flex items-center gap-1 px-2.5 py-1 rounded-full bg-slate-100 font-medium border border-slate-200">
-                                          <svg className="w-3.5 h-3.5 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-                                          </svg>
-                                          {comments}
-                                        </span>
-                                      )}
-                                    </>
-                                  )
-                                })()}
-                              </div>
-                              <a
-                                href={post.post_url}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-sm font-semibold text-blue-600 hover:text-blue-800 hover:underline block line-clamp-2 mb-2"
-                              >
-                                {post.post_title}
-                              </a>
-                              <a
-                                href={post.post_url}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-xs text-gray-500 hover:text-gray-700 break-all block truncate"
-                              >
-                                {post.post_url}
-                              </a>
-                              <div className="mt-3">
-                                <button
-                                  onClick={() => setGenerateUrl(post.post_url)}
-                                  className="inline-flex items-center gap-2 text-xs px-3 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white hover:from-indigo-700 hover:to-purple-700 shadow-md shadow-indigo-500/30"
+                                  {formatRankingMarket(post) && (
+                                    <span className="text-xs text-slate-600 px-2 py-0.5 rounded-full bg-slate-100 border border-slate-200 font-medium" title="Search market (location · language · device)">
+                                      {formatRankingMarket(post)}
+                                    </span>
+                                  )}
+                                  <DraftStatusBadge status={draftStatuses.get(post.post_url) || null} />
+                                  {(post as any).scraped_data && (() => {
+                                    const apifyData = (post as any).scraped_data
+                                    const upvotes = apifyData?.upVotes || apifyData?.score || apifyData?.upvotes || apifyData?.upvoteCount || null
+                                    const comments = apifyData?.numberOfComments || apifyData?.numComments || apifyData?.commentsCount || (Array.isArray(apifyData?.comments) ? apifyData.comments.length : null) || null
+                                    return (
+                                      <>
+                                        {upvotes !== null && (
+                                          <span className="text-xs text-slate-700 flex items-center gap-1 px-2.5 py-1 rounded-full bg-slate-100 font-medium border border-slate-200">
+                                            <svg className="w-3.5 h-3.5 text-orange-500" fill="currentColor" viewBox="0 0 20 20">
+                                              <path fillRule="evenodd" d="M3.293 9.707a1 1 0 010-1.414l6-6a1 1 0 011.414 0l6 6a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L4.707 9.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                                            </svg>
+                                            {upvotes}
+                                          </span>
+                                        )}
+                                        {comments !== null && (
+                                          <span className="text-xs text-slate-700 flex items-center gap-1 px-2.5 py-1 rounded-full bg-slate-100 font-medium border border-slate-200">
+                                            <svg className="w-3.5 h-3.5 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+                                            </svg>
+                                            {comments}
+                                          </span>
+                                        )}
+                                      </>
+                                    )
+                                  })()}
+                                </div>
+                                <a
+                                  href={post.post_url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-sm font-semibold text-blue-600 hover:text-blue-800 hover:underline block line-clamp-2 mb-2"
+                                >
+                                  {post.post_title}
+                                </a>
+                                <a
+                                  href={post.post_url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs text-gray-500 hover:text-gray-700 break-all block truncate"
                                 >
-                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6M8 6h8" />
-                                  </svg>
-                                  Generate AI Reply
-                                </button>
+                                  {post.post_url}
+                                </a>
+                                <div className="mt-3">
+                                  <button
+                                    onClick={() => setGenerateUrl(post.post_url)}
+                                    className="inline-flex items-center gap-2 text-xs px-3 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white hover:from-indigo-700 hover:to-purple-700 shadow-md shadow-indigo-500/30"
+                                  >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6M8 6h8" />
+                                    </svg>
+                                    Generate AI Reply
+                                  </button>
+                                </div>
                               </div>
                             </div>
                           </div>
-                        </div>
+                        </Fragment>
                       ))}
                     </div>
                   ) : keyword.hasChecked ? (
@@ -786,7 +952,7 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                         </svg>
                       </div>
-                      <p className="text-gray-500 text-sm font-medium">No Reddit posts found ranking on the first page</p>
+                      <p className="text-gray-500 text-sm font-medium">No Reddit posts found ranking within the tracking depth</p>
                     </div>
                   ) : (
                     <div className="text-center py-8">
@@ -798,6 +964,11 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
                       <p className="text-gray-500 text-sm font-medium">Click &quot;Check Rankings&quot; to find Reddit posts</p>
                     </div>
                   )}
+                  {hasDroppedPosts && (
+                    <div className="mt-4">
+                      <LostThreadsList posts={keyword.droppedPosts} compact />
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -878,13 +1049,14 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
                       <label className="block text-sm font-semibold text-slate-700 mb-2">Style</label>
                       <div className="relative">
                         <select
+                          key={replyStyles.map((s) => s.key).join()}
                           name="style"
-                          defaultValue="casual"
+                          defaultValue={replyStyles[0].key}
                           className="w-full px-4 py-3 pr-10 border border-slate-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all bg-white appearance-none cursor-pointer hover:border-indigo-400 font-medium text-slate-900"
                         >
-                          {Object.entries(REPLY_STYLES).map(([key]) => (
-                            <option key={key} value={key}>
-                              {key.charAt(0).toUpperCase() + key.slice(1)}
+                          {replyStyles.map((s) => (
+                            <option key={s.key} value={s.key} title={s.tone}>
+                              {s.name}
                             </option>
                           ))}
                         </select>
@@ -971,6 +1143,7 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
       <GenerateReplyModal 
         isOpen={!!generateUrl} 
         postUrl={generateUrl} 
+        projectId={projectId}
         onClose={() => {
           setGenerateUrl(null)
           // Refresh draft status when modal closes
@@ -978,11 +1151,11 @@ export default function KeywordList({ projectId, onKeywordClick }: KeywordListPr
             fetch(`/api/reply-drafts?postUrl=${encodeURIComponent(generateUrl)}`)
               .then(res => res.json())
               .then(({ data, error }) => {
-                const hasDraft = !error && data?.draft_content && data.draft_content.length > 0
-                setPostsWithDrafts(prev => {
-                  const next = new Set(prev)
-                  if (hasDraft) {
-                    next.add(generateUrl)
+                const status = !error && data?.status
+                setDraftStatuses(prev => {
+                  const next = new Map(prev)
+                  if (status) {
+                    next.set(generateUrl, status)
                   } else {
                     next.delete(generateUrl)
                   }
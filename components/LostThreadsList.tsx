@@ -0,0 +1,69 @@
+'use client'
+
+import { RedditPost } from '@/lib/types'
+import { getBestPosition, sortHistory } from '@/lib/ranking-history'
+
+interface LostThreadsListProps {
+  posts: RedditPost[]
+  compact?: boolean
+}
+
+export default function LostThreadsList({ posts, compact = false }: LostThreadsListProps) {
+  if (posts.length === 0) return null
+
+  return (
+    <div className={compact ? 'space-y-2' : 'space-y-3'}>
+      <h3 className={`${compact ? 'text-xs pt-1' : 'text-sm pt-2'} font-semibold text-slate-600 uppercase tracking-wide`}>
+        Lost threads ({posts.length})
+      </h3>
+      {posts.map((post) => {
+        const history = sortHistory(post.rankings_history)
+        const bestPosition = getBestPosition(history)
+
+        return (
+          <div
+            key={post.id}
+            className={`${compact ? 'p-3 rounded-xl' : 'p-4 rounded-2xl'} bg-white border border-dashed border-slate-300`}
+          >
+            <div className="flex items-center gap-2 mb-2 flex-wrap">
+              <span className="text-xs font-semibold text-gray-700">r/{post.subreddit}</span>
+              <span className="text-xs text-gray-500">•</span>
+              <span className="text-xs text-red-600 px-2 py-0.5 rounded-full bg-red-50 border border-red-200 font-medium">
+                Dropped {new Date(post.dropped_at as string).toLocaleDateString()}
+              </span>
+              <span className="text-xs text-gray-500">
+                Last rank #{post.rank_position}
+                {bestPosition !== null && ` · best #${bestPosition}`}
+              </span>
+            </div>
+            <a
+              href={post.post_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm font-semibold text-slate-600 hover:text-blue-800 hover:underline block line-clamp-2 mb-2"
+            >
+              {post.post_title}
+            </a>
+            {history.length > 0 && (
+              <div className="flex items-center gap-1 flex-wrap">
+                {history.map((entry, index) => (
+                  <span
+                    key={`${entry.checked_at}-${index}`}
+                    title={new Date(entry.checked_at).toLocaleString()}
+                    className={`text-xs px-2 py-0.5 rounded font-medium border ${
+                      entry.rank_position === null
+                        ? 'bg-red-50 text-red-600 border-red-200'
+                        : 'bg-slate-100 text-slate-700 border-slate-200'
+                    }`}
+                  >
+                    {entry.rank_position === null ? 'not ranking' : `#${entry.rank_position}`}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -10,6 +10,7 @@ export default function Navigation() {
   const router = useRouter()
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [unreadCount, setUnreadCount] = useState(0)
 
   useEffect(() => {
     const supabase = createClient()
@@ -33,6 +34,16 @@ export default function Navigation() {
     }
   }, [router])
 
+  // Unread in-app alerts, shown as a badge on the Alerts link
+  useEffect(() => {
+    if (!user) return
+
+    fetch('/api/notifications?unread=true&limit=1')
+      .then((response) => response.json())
+      .then(({ unreadCount }) => setUnreadCount(unreadCount || 0))
+      .catch(() => setUnreadCount(0))
+  }, [user])
+
   const handleSignOut = async () => {
     const supabase = createClient()
     await supabase.auth.signOut()
@@ -68,6 +79,45 @@ export default function Navigation() {
                 >
                   Keywords
                 </Link>
+                <Link
+                  href="/drafts"
+                  className="text-slate-600 hover:text-indigo-600 transition-colors font-semibold px-4 py-2 rounded-xl hover:bg-gradient-to-r hover:from-indigo-50 hover:to-purple-50"
+                >
+                  Drafts
+                </Link>
+                <Link
+                  href="/performance"
+                  className="text-slate-600 hover:text-indigo-600 transition-colors font-semibold px-4 py-2 rounded-xl hover:bg-gradient-to-r hover:from-indigo-50 hover:to-purple-50"
+                >
+                  Performance
+                </Link>
+                <Link
+                  href="/accounts"
+                  className="text-slate-600 hover:text-indigo-600 transition-colors font-semibold px-4 py-2 rounded-xl hover:bg-gradient-to-r hover:from-indigo-50 hover:to-purple-50"
+                >
+                  Accounts
+                </Link>
+                <Link
+                  href="/runs"
+                  className="text-slate-600 hover:text-indigo-600 transition-colors font-semibold px-4 py-2 rounded-xl hover:bg-gradient-to-r hover:from-indigo-50 hover:to-purple-50"
+                >
+                  Runs
+                </Link>
+                <Link
+                  href="/usage"
+                  className="text-slate-600 hover:text-indigo-600 transition-colors font-semibold px-4 py-2 rounded-xl hover:bg-gradient-to-r hover:from-indigo-50 hover:to-purple-50"
+                >
+                  Usage
+                </Link>
+                <Link
+                  href="/notifications"
+                  className="text-slate-600 hover:text-indigo-600 transition-colors font-semibold px-4 py-2 rounded-xl hover:bg-gradient-to-r hover:from-indigo-50 hover:to-purple-50"
+                >
+                  Alerts
+                  {unreadCount > 0 && (
+                    <span className="ml-1.5 px-1.5 py-0.5 text-xs bg-red-500 text-white rounded-full">{unreadCount}</span>
+                  )}
+                </Link>
                 <div className="flex items-center gap-3 pl-6 border-l border-slate-200">
                   {user.email === process.env.NEXT_PUBLIC_ADMIN_EMAIL && (
                     <Link
@@ -77,6 +127,18 @@ export default function Navigation() {
                       Admin
                     </Link>
                   )}
+                  <Link
+                    href="/organizations"
+                    className="text-sm text-slate-600 hover:text-indigo-600 transition-colors font-semibold px-4 py-2 rounded-xl hover:bg-gradient-to-r hover:from-indigo-50 hover:to-purple-50"
+                  >
+                    Team
+                  </Link>
+                  <Link
+                    href="/api-keys"
+                    className="text-sm text-slate-600 hover:text-indigo-600 transition-colors font-semibold px-4 py-2 rounded-xl hover:bg-gradient-to-r hover:from-indigo-50 hover:to-purple-50"
+                  >
+                    API Keys
+                  </Link>
                   <span className="text-sm text-slate-600">{user.email}</span>
                   <button
                     onClick={handleSignOut}
@@ -0,0 +1,157 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { RankingSeries } from '@/lib/types'
+
+interface RankHistoryChartProps {
+  keywordId: string
+  refreshKey?: string // Changes after a ranking check, to reload the history
+}
+
+const RANGES = [7, 30, 90]
+
+const COLORS = ['#4f46e5', '#db2777', '#059669', '#d97706', '#0891b2', '#7c3aed', '#dc2626', '#65a30d', '#475569', '#c026d3']
+
+const WIDTH = 640
+const HEIGHT = 240
+const PADDING = { top: 12, right: 16, bottom: 28, left: 36 }
+
+/**
+ * Line chart of each thread's position for a keyword over time. Position 1 is at the top;
+ * checks where a thread wasn't ranking leave a gap in its line.
+ */
+export default function RankHistoryChart({ keywordId, refreshKey }: RankHistoryChartProps) {
+  const [series, setSeries] = useState<RankingSeries[]>([])
+  const [days, setDays] = useState(30)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [highlighted, setHighlighted] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/ranking-history?keyword_id=${keywordId}&days=${days}`)
+        const { data, error: apiError } = await response.json()
+
+        if (!response.ok || apiError) {
+          throw new Error(apiError || 'Failed to fetch rank history')
+        }
+
+        setSeries(data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [keywordId, days, refreshKey])
+
+  const charted = series.filter((s) => s.history.some((entry) => entry.rank_position !== null))
+  const points = charted.flatMap((s) => s.history)
+  const maxPosition = Math.max(10, ...points.map((entry) => entry.rank_position || 0))
+  const end = Date.now()
+  const start = end - days * 24 * 60 * 60 * 1000
+
+  const x = (checkedAt: string) =>
+    PADDING.left + ((new Date(checkedAt).getTime() - start) / (end - start)) * (WIDTH - PADDING.left - PADDING.right)
+  const y = (position: number) =>
+    PADDING.top + ((position - 1) / Math.max(1, maxPosition - 1)) * (HEIGHT - PADDING.top - PADDING.bottom)
+
+  // One path per run of consecutive ranked checks
+  const toPath = (history: RankingSeries['history']) => {
+    let path = ''
+    let penDown = false
+    for (const entry of history) {
+      if (entry.rank_position === null) {
+        penDown = false
+        continue
+      }
+      path += `${penDown ? 'L' : 'M'}${x(entry.checked_at).toFixed(1)},${y(entry.rank_position).toFixed(1)} `
+      penDown = true
+    }
+    return path.trim()
+  }
+
+  const yTicks = [1, ...[10, 20, 50, 100].filter((tick) => tick <= maxPosition)]
+  const xTicks = [0, 0.25, 0.5, 0.75, 1].map((fraction) => new Date(start + fraction * (end - start)).toISOString())
+
+  return (
+    <div className="card p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Position history</h3>
+        <div className="flex gap-1">
+          {RANGES.map((range) => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-3 py-1 text-xs font-semibold rounded-lg border transition-colors ${
+                days === range
+                  ? 'bg-indigo-600 text-white border-indigo-600'
+                  : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              {range}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-slate-500 py-8 text-center">Loading history...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600 py-8 text-center">{error}</p>
+      ) : charted.length === 0 ? (
+        <p className="text-sm text-slate-500 py-8 text-center">No ranking checks in the last {days} days</p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Thread positions over time">
+            {yTicks.map((tick) => (
+              <g key={tick}>
+                <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e2e8f0" strokeDasharray={tick === 1 ? undefined : '4 4'} />
+                <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#64748b">#{tick}</text>
+              </g>
+            ))}
+            {xTicks.map((tick) => (
+              <text key={tick} x={x(tick)} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#64748b">
+                {new Date(tick).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+              </text>
+            ))}
+            {charted.map((s, index) => {
+              const color = COLORS[index % COLORS.length]
+              const isDimmed = highlighted !== null && highlighted !== s.ranking_id
+              return (
+                <g key={s.ranking_id} opacity={isDimmed ? 0.15 : 1}>
+                  <path d={toPath(s.history)} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+                  {s.history.map((entry, i) => entry.rank_position !== null && (
+                    <circle key={i} cx={x(entry.checked_at)} cy={y(entry.rank_position)} r={2.5} fill={color}>
+                      <title>{`#${entry.rank_position} · ${new Date(entry.checked_at).toLocaleString()}\n${s.post_title}`}</title>
+                    </circle>
+                  ))}
+                </g>
+              )
+            })}
+          </svg>
+
+          <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1">
+            {charted.map((s, index) => (
+              <button
+                key={s.ranking_id}
+                onMouseEnter={() => setHighlighted(s.ranking_id)}
+                onMouseLeave={() => setHighlighted(null)}
+                className="flex items-center gap-1.5 text-xs text-slate-600 max-w-xs"
+                title={s.post_title}
+              >
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+                <span className="truncate">{s.post_title || `r/${s.subreddit}`}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
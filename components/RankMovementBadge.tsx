@@ -0,0 +1,32 @@
+'use client'
+
+import { RankMovement } from '@/lib/ranking-history'
+
+interface RankMovementBadgeProps {
+  movement: RankMovement | null
+}
+
+/**
+ * Up/down/new indicator for a thread, compared with its previous check
+ */
+export default function RankMovementBadge({ movement }: RankMovementBadgeProps) {
+  if (!movement || movement.kind === 'same') return null
+
+  if (movement.kind === 'new') {
+    return (
+      <span className="px-2 py-0.5 text-xs bg-sky-50 text-sky-700 font-semibold rounded-full border border-sky-200" title="Not ranking at the previous check">
+        New
+      </span>
+    )
+  }
+
+  const isUp = movement.kind === 'up'
+  return (
+    <span
+      className={`px-2 py-0.5 text-xs font-semibold rounded-full border ${isUp ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-red-50 text-red-600 border-red-200'}`}
+      title={`${isUp ? 'Up' : 'Down'} ${movement.change} position${movement.change !== 1 ? 's' : ''} since the previous check`}
+    >
+      {isUp ? '▲' : '▼'} {movement.change}
+    </span>
+  )
+}
@@ -1,26 +1,34 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { RedditPost } from '@/lib/types'
+import { Fragment, useState, useEffect } from 'react'
+import { RedditPost, ReplyDraftStatus } from '@/lib/types'
 import GenerateReplyModal from '@/components/GenerateReplyModal'
+import LostThreadsList from '@/components/LostThreadsList'
+import RankHistoryChart from '@/components/RankHistoryChart'
+import RankMovementBadge from '@/components/RankMovementBadge'
+import DraftStatusBadge from '@/components/DraftStatusBadge'
+import { formatRankingMarket, getRankingSectionLabel } from '@/lib/serp-settings'
+import { getRankMovement, splitDroppedPosts } from '@/lib/ranking-history'
 
 interface RankingsListProps {
+  keywordId: string
   keyword: string
+  projectId?: string
 }
 
-export default function RankingsList({ keyword }: RankingsListProps) {
+export default function RankingsList({ keywordId, keyword, projectId }: RankingsListProps) {
   const [posts, setPosts] = useState<RedditPost[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [generateUrl, setGenerateUrl] = useState<string | null>(null)
-  const [postsWithDrafts, setPostsWithDrafts] = useState<Set<string>>(new Set())
+  const [draftStatuses, setDraftStatuses] = useState<Map<string, ReplyDraftStatus>>(new Map()) // By post URL
 
   const fetchRankings = async () => {
     setIsLoading(true)
     setError(null)
     try {
-      const response = await fetch(`/api/check-rankings/${encodeURIComponent(keyword)}`)
+      const response = await fetch(`/api/keywords/${keywordId}/rankings`)
       const { data, error: apiError } = await response.json()
 
       if (!response.ok || apiError) {
@@ -37,17 +45,16 @@ export default function RankingsList({ keyword }: RankingsListProps) {
             try {
               const response = await fetch(`/api/reply-drafts?postUrl=${encodeURIComponent(post.post_url)}`)
               const { data: draftData, error: draftError } = await response.json()
-              return { postUrl: post.post_url, hasDraft: !draftError && draftData?.draft_content && draftData.draft_content.length > 0 }
+              return { postUrl: post.post_url, status: (!draftError && draftData?.status) || null }
             } catch {
-              return { postUrl: post.post_url, hasDraft: false }
+              return { postUrl: post.post_url, status: null }
             }
           })
         )
         
-        const draftsSet = new Set(
-          draftChecks.filter(check => check.hasDraft).map(check => check.postUrl)
-        )
-        setPostsWithDrafts(draftsSet)
+        setDraftStatuses(new Map(
+          draftChecks.filter(check => check.status).map(check => [check.postUrl, check.status])
+        ))
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
@@ -62,7 +69,7 @@ export default function RankingsList({ keyword }: RankingsListProps) {
     setError(null)
     try {
       // Use POST to trigger the refresh (calls external APIs)
-      const response = await fetch(`/api/check-rankings/${encodeURIComponent(keyword)}`, {
+      const response = await fetch(`/api/keywords/${keywordId}/rankings`, {
         method: 'POST',
       })
       const { data, error: apiError } = await response.json()
@@ -81,17 +88,16 @@ export default function RankingsList({ keyword }: RankingsListProps) {
             try {
               const response = await fetch(`/api/reply-drafts?postUrl=${encodeURIComponent(post.post_url)}`)
               const { data: draftData, error: draftError } = await response.json()
-              return { postUrl: post.post_url, hasDraft: !draftError && draftData?.draft_content && draftData.draft_content.length > 0 }
+              return { postUrl: post.post_url, status: (!draftError && draftData?.status) || null }
             } catch {
-              return { postUrl: post.post_url, hasDraft: false }
+              return { postUrl: post.post_url, status: null }
             }
           })
         )
         
-        const draftsSet = new Set(
-          draftChecks.filter(check => check.hasDraft).map(check => check.postUrl)
-        )
-        setPostsWithDrafts(draftsSet)
+        setDraftStatuses(new Map(
+          draftChecks.filter(check => check.status).map(check => [check.postUrl, check.status])
+        ))
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to refresh rankings')
@@ -102,7 +108,7 @@ export default function RankingsList({ keyword }: RankingsListProps) {
 
   useEffect(() => {
     fetchRankings()
-  }, [keyword]) // eslint-disable-line react-hooks/exhaustive-deps
+  }, [keywordId]) // eslint-disable-line react-hooks/exhaustive-deps
 
   if (isLoading) {
     return (
@@ -136,7 +142,7 @@ export default function RankingsList({ keyword }: RankingsListProps) {
     return (
       <div className="text-center py-8">
         <p className="text-gray-500 mb-4">
-          No Reddit posts found ranking on the first page for this keyword.
+          No Reddit posts found ranking within the tracking depth for this keyword.
         </p>
         <button
           onClick={handleRefresh}
@@ -149,6 +155,8 @@ export default function RankingsList({ keyword }: RankingsListProps) {
     )
   }
 
+  const { ranking: rankingPosts, dropped: droppedPosts } = splitDroppedPosts(posts)
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -157,7 +165,7 @@ export default function RankingsList({ keyword }: RankingsListProps) {
             Reddit Posts Ranking for &quot;{keyword}&quot;
           </h2>
           <p className="text-sm text-gray-500 mt-1">
-            Posts ranking on Google&apos;s first page for this keyword
+            Posts ranking on Google for this keyword, page one first
           </p>
         </div>
         <button
@@ -184,96 +192,111 @@ export default function RankingsList({ keyword }: RankingsListProps) {
         </button>
       </div>
 
+      <RankHistoryChart keywordId={keywordId} refreshKey={posts[0].last_checked_at} />
+
       <div className="space-y-4">
-        {posts.map((post) => (
-          <div
-            key={post.id}
-            className="card p-5"
-          >
-            <div className="flex items-start gap-4">
-              <div className="flex-shrink-0">
-                <div className="w-14 h-14 rounded-xl bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center shadow-md shadow-indigo-500/20">
-                  <span className="text-xl font-bold text-white">#{post.rank_position}</span>
+        {rankingPosts.length === 0 && (
+          <p className="text-gray-500">
+            None of the tracked threads are ranking right now.
+          </p>
+        )}
+        {rankingPosts.map((post, index) => (
+          <Fragment key={post.id}>
+            {getRankingSectionLabel(rankingPosts, index) && (
+              <h3 className="text-sm font-semibold text-slate-600 uppercase tracking-wide pt-2">
+                {getRankingSectionLabel(rankingPosts, index)}
+              </h3>
+            )}
+            <div
+              className="card p-5"
+            >
+              <div className="flex items-start gap-4">
+                <div className="flex-shrink-0">
+                  <div className="w-14 h-14 rounded-xl bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center shadow-md shadow-indigo-500/20">
+                    <span className="text-xl font-bold text-white">#{post.rank_position}</span>
+                  </div>
                 </div>
-              </div>
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2 mb-3 flex-wrap">
-                  <span className="text-sm font-semibold text-gray-900">r/{post.subreddit}</span>
-                  <span className="text-xs text-gray-500">•</span>
-                  <span className="text-xs text-gray-500">
-                    Last checked {new Date(post.last_checked_at).toLocaleDateString()}
-                  </span>
-                  {postsWithDrafts.has(post.post_url) && (
-                    <span className="text-xs text-amber-600 flex items-center gap-1 px-2 py-1 rounded-full bg-amber-50 border border-amber-200" title="Draft saved">
-                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                      </svg>
-                      Draft
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-3 flex-wrap">
+                    <span className="text-sm font-semibold text-gray-900">r/{post.subreddit}</span>
+                    <RankMovementBadge movement={getRankMovement(post.rankings_history)} />
+                    <span className="text-xs text-gray-500">•</span>
+                    <span className="text-xs text-gray-500">
+                      Last checked {new Date(post.last_checked_at).toLocaleDateString()}
                     </span>
-                  )}
-                  {(post as any).apify_scraped_data && (() => {
-                    const apifyData = (post as any).apify_scraped_data
-                    const upvotes = apifyData?.upVotes || apifyData?.score || apifyData?.upvotes || apifyData?.upvoteCount || null
-                    const comments = apifyData?.numberOfComments || apifyData?.numComments || apifyData?.commentsCount || (Array.isArray(apifyData?.comments) ? apifyData.comments.length : null) || null
-                    return (
-                      <>
-                        <span className="px-2.5 py-1 text-xs bg-gradient-to-r from-emerald-100 to-teal-100 text-emerald-700 font-semibold rounded-full border border-emerald-200/50">Scraped</span>
-                        {upvotes !== null && (
-                          <span className="text-xs text-slate-700 flex items-center gap-1 px-2.5 py-1 rounded-full bg-slate-100 font-medium border border-slate-200">
-                            <svg className="w-3.5 h-3.5 text-orange-500" fill="currentColor" viewBox="0 0 20 20">
-                              <path fillRule="evenodd" d="M3.293 9.707a1 1 0 010-1.414l6-6a1 1 0 011.414 0l6 6a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L4.707 9.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
-                            </svg>
-                            {upvotes}
-                          </span>
-                        )}
-                        {comments !== null && (
-                          <span className="text-xs text-slate-700 flex items-center gap-1 px-2.5 py-1 rounded-full bg-slate-100 font-medium border border-slate-200">
-                            <svg className="w-3.5 h-3.5 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-                            </svg>
-                            {comments}
-                          </span>
-                        )}
-                      </>
-                    )
-                  })()}
-                </div>
-                <a
-                  href={post.post_url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-lg font-semibold text-blue-600 hover:text-blue-800 hover:underline block mb-2"
-                >
-                  {post.post_title}
-                </a>
-                <a
-                  href={post.post_url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-sm text-gray-500 hover:text-gray-700 break-all"
-                >
-                  {post.post_url}
-                </a>
-                <div className="mt-3">
-                  <button
-                    onClick={() => setGenerateUrl(post.post_url)}
-                    className="inline-flex items-center gap-2 text-xs px-3 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white hover:from-indigo-700 hover:to-purple-700 shadow-md shadow-indigo-500/30"
+                    {formatRankingMarket(post) && (
+                      <span className="text-xs text-slate-600 px-2 py-1 rounded-full bg-slate-100 border border-slate-200 font-medium" title="Search market (location · language · device)">
+                        {formatRankingMarket(post)}
+                      </span>
+                    )}
+                    <DraftStatusBadge status={draftStatuses.get(post.post_url) || null} />
+                    {(post as any).scraped_data && (() => {
+                      const apifyData = (post as any).scraped_data
+                      const upvotes = apifyData?.upVotes || apifyData?.score || apifyData?.upvotes || apifyData?.upvoteCount || null
+                      const comments = apifyData?.numberOfComments || apifyData?.numComments || apifyData?.commentsCount || (Array.isArray(apifyData?.comments) ? apifyData.comments.length : null) || null
+                      return (
+                        <>
+                          <span className="px-2.5 py-1 text-xs bg-gradient-to-r from-emerald-100 to-teal-100 text-emerald-700 font-semibold rounded-full border border-emerald-200/50">Scraped</span>
+                          {upvotes !== null && (
+                            <span className="text-xs text-slate-700 flex items-center gap-1 px-2.5 py-1 rounded-full bg-slate-100 font-medium border border-slate-200">
+                              <svg className="w-3.5 h-3.5 text-orange-500" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M3.293 9.707a1 1 0 010-1.414l6-6a1 1 0 011.414 0l6 6a1 1 0 01-1.414 1.414L11 5.414V17a1 1 0 11-2 0V5.414L4.707 9.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                              </svg>
+                              {upvotes}
+                            </span>
+                          )}
+                          {comments !== null && (
+                            <span className="text-xs text-slate-700 flex items-center gap-1 px-2.5 py-1 rounded-full bg-slate-100 font-medium border border-slate-200">
+                              <svg className="w-3.5 h-3.5 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+                              </svg>
+                              {comments}
+                            </span>
+                          )}
+                        </>
+                      )
+                    })()}
+                  </div>
+                  <a
+                    href={post.post_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-lg font-semibold text-blue-600 hover:text-blue-800 hover:underline block mb-2"
+                  >
+                    {post.post_title}
+                  </a>
+                  <a
+                    href={post.post_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-gray-500 hover:text-gray-700 break-all"
                   >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6M8 6h8" />
-                    </svg>
-                    Generate AI Reply
-                  </button>
+                    {post.post_url}
+                  </a>
+                  <div className="mt-3">
+                    <button
+                      onClick={() => setGenerateUrl(post.post_url)}
+                      className="inline-flex items-center gap-2 text-xs px-3 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 text-white hover:from-indigo-700 hover:to-purple-700 shadow-md shadow-indigo-500/30"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6M8 6h8" />
+                      </svg>
+                      Generate AI Reply
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
+          </Fragment>
         ))}
       </div>
 
+      <LostThreadsList posts={droppedPosts} />
+
       <GenerateReplyModal 
         isOpen={!!generateUrl} 
         postUrl={generateUrl} 
+        projectId={projectId}
         onClose={() => {
           const currentUrl = generateUrl
           setGenerateUrl(null)
@@ -282,11 +305,11 @@ export default function RankingsList({ keyword }: RankingsListProps) {
             fetch(`/api/reply-drafts?postUrl=${encodeURIComponent(currentUrl)}`)
               .then(res => res.json())
               .then(({ data, error }) => {
-                const hasDraft = !error && data?.draft_content && data.draft_content.length > 0
-                setPostsWithDrafts(prev => {
-                  const next = new Set(prev)
-                  if (hasDraft) {
-                    next.add(currentUrl)
+                const status = !error && data?.status
+                setDraftStatuses(prev => {
+                  const next = new Map(prev)
+                  if (status) {
+                    next.set(currentUrl, status)
                   } else {
                     next.delete(currentUrl)
                   }
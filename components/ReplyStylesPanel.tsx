@@ -0,0 +1,283 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { LlmSettings, ReplyStyle } from '@/lib/types'
+import { isReasoningModel, supportsTemperature } from '@/lib/llm-settings'
+
+interface ReplyStylesPanelProps {
+  projectId: string
+  llmSettings: LlmSettings // The project's model, to flag parameters it ignores
+}
+
+const EMPTY_STYLE = {
+  key: '',
+  name: '',
+  tone: '',
+  temperature: '',
+  max_tokens: '',
+  target_words: '',
+}
+
+function describeStyle(style: ReplyStyle, llmSettings: LlmSettings): string {
+  const ignored = supportsTemperature(llmSettings) ? '' : ` (ignored by ${llmSettings.model})`
+  const parts = [
+    style.target_words ? `~${style.target_words} words` : null,
+    style.temperature !== null ? `temperature ${style.temperature}${ignored}` : null,
+    style.max_tokens ? `max ${style.max_tokens} tokens` : null,
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(', ') : 'Project model settings'
+}
+
+/**
+ * Lists and edits a project's reply styles, offered when generating its replies
+ */
+export default function ReplyStylesPanel({ projectId, llmSettings }: ReplyStylesPanelProps) {
+  const [styles, setStyles] = useState<ReplyStyle[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_STYLE)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchStyles = async () => {
+      try {
+        const response = await fetch(`/api/reply-styles?project_id=${projectId}&stored=true`)
+        const { data, error: apiError } = await response.json()
+
+        if (!response.ok || apiError) {
+          throw new Error(apiError || 'Failed to fetch reply styles')
+        }
+
+        setStyles(data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchStyles()
+  }, [projectId])
+
+  const closeForm = () => {
+    setShowForm(false)
+    setEditingId(null)
+    setForm(EMPTY_STYLE)
+  }
+
+  const handleEdit = (style: ReplyStyle) => {
+    setEditingId(style.id)
+    setForm({
+      key: style.key,
+      name: style.name,
+      tone: style.tone,
+      temperature: style.temperature === null ? '' : String(style.temperature),
+      max_tokens: style.max_tokens ? String(style.max_tokens) : '',
+      target_words: style.target_words ? String(style.target_words) : '',
+    })
+    setShowForm(true)
+    setError(null)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const name = form.name.trim()
+      const response = await fetch('/api/reply-styles', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(editingId
+            ? { id: editingId }
+            : { project_id: projectId, position: styles.reduce((max, s) => Math.max(max, s.position + 1), 0) }),
+          key: form.key.trim() || name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, ''),
+          name,
+          tone: form.tone,
+          temperature: form.temperature || null,
+          max_tokens: form.max_tokens || null,
+          target_words: form.target_words || null,
+        }),
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to save reply style')
+      }
+
+      setStyles(editingId ? styles.map((s) => (s.id === editingId ? data : s)) : [...styles, data])
+      closeForm()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/reply-styles?id=${id}`, { method: 'DELETE' })
+      const { error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to delete reply style')
+      }
+
+      setStyles(styles.filter((s) => s.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white'
+
+  return (
+    <div className="mt-4 p-3 bg-slate-50 rounded-lg border border-slate-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-semibold text-slate-700">Reply Styles</span>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="text-xs text-indigo-600 hover:text-indigo-700 font-semibold"
+          >
+            Add style
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-slate-500 italic">Loading styles...</p>
+      ) : styles.length === 0 && !showForm ? (
+        <p className="text-xs text-slate-500 italic">No styles set. Replies use the default casual and laconic styles.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {styles.map((style) => (
+            <li key={style.id} className="flex items-center justify-between gap-2 px-2 py-1.5 bg-white border border-slate-300 rounded text-xs">
+              <div className="min-w-0 text-slate-700" title={style.tone}>
+                <span className="font-medium">{style.name}</span>
+                <span className="ml-2 font-mono text-slate-500">{style.key}</span>
+                <span className="ml-2 text-slate-500">{describeStyle(style, llmSettings)}</span>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleEdit(style)}
+                  className="text-indigo-600 hover:text-indigo-700 font-semibold"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(style.id)}
+                  className="text-red-600 hover:text-red-700 font-semibold"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="mt-3 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Style name, e.g. Expert"
+              required
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={form.key}
+              onChange={(e) => setForm({ ...form, key: e.target.value })}
+              placeholder="Key (optional, from the name)"
+              title="Sent as style to the generate-reply API"
+              className={inputClass}
+            />
+          </div>
+          <textarea
+            value={form.tone}
+            onChange={(e) => setForm({ ...form, tone: e.target.value })}
+            placeholder="Tone, written into the prompt as {{tone}}"
+            rows={2}
+            required
+            className={inputClass}
+          />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.05}
+              value={form.temperature}
+              onChange={(e) => setForm({ ...form, temperature: e.target.value })}
+              placeholder="Temperature (project's)"
+              title="Empty uses the project's model settings"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min={1}
+              value={form.max_tokens}
+              onChange={(e) => setForm({ ...form, max_tokens: e.target.value })}
+              placeholder="Max tokens (project's)"
+              title="Empty uses the project's model settings"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min={1}
+              value={form.target_words}
+              onChange={(e) => setForm({ ...form, target_words: e.target.value })}
+              placeholder="Target words (none)"
+              title="Asked for in the prompt, after the tone"
+              className={inputClass}
+            />
+          </div>
+          {!supportsTemperature(llmSettings) && (
+            <p className="text-xs text-amber-700">
+              {llmSettings.model} only accepts its default temperature, so the style&apos;s temperature isn&apos;t sent to it.
+            </p>
+          )}
+          {llmSettings.provider === 'openai' && isReasoningModel(llmSettings.model) && (
+            <p className="text-xs text-slate-500">
+              {llmSettings.model} counts its reasoning against max tokens; leave room for it (the default styles use 1200-2000).
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all shadow-md shadow-indigo-500/30 hover:shadow-lg hover:shadow-indigo-500/40 disabled:opacity-50 font-semibold"
+            >
+              {isSaving ? 'Saving...' : editingId ? 'Save Style' : 'Add Style'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                closeForm()
+                setError(null)
+              }}
+              className="px-4 py-2 text-sm border border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50 transition-all font-semibold"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-xs text-red-600">{error}</p>
+        </div>
+      )}
+    </div>
+  )
+}
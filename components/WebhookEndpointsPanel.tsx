@@ -0,0 +1,338 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { WEBHOOK_EVENTS, WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint, WebhookEvent } from '@/lib/types'
+
+interface WebhookEndpointsPanelProps {
+  projectId: string
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-amber-50 text-amber-700 border-amber-200',
+  sending: 'bg-sky-50 text-sky-700 border-sky-200',
+  succeeded: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  failed: 'bg-red-50 text-red-600 border-red-200',
+}
+
+const ALL_EVENTS = WEBHOOK_EVENTS.map((e) => e.value)
+
+/**
+ * Webhook endpoints of a project, with their signing secret, a test send and the delivery log
+ */
+export default function WebhookEndpointsPanel({ projectId }: WebhookEndpointsPanelProps) {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [url, setUrl] = useState('')
+  const [events, setEvents] = useState<WebhookEvent[]>(ALL_EVENTS)
+  const [isSaving, setIsSaving] = useState(false)
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null)
+  const [testingId, setTestingId] = useState<string | null>(null)
+  const [logEndpointId, setLogEndpointId] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchEndpoints = async () => {
+      try {
+        const response = await fetch(`/api/webhooks?project_id=${projectId}`)
+        const { data, error: apiError } = await response.json()
+
+        if (!response.ok || apiError) {
+          throw new Error(apiError || 'Failed to fetch webhooks')
+        }
+
+        setEndpoints(data || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchEndpoints()
+  }, [projectId])
+
+  const fetchDeliveries = async (endpointId: string) => {
+    try {
+      const response = await fetch(`/api/webhooks/${endpointId}/deliveries`)
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to fetch deliveries')
+      }
+
+      setDeliveries(data || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const toggleLog = (endpointId: string) => {
+    if (logEndpointId === endpointId) {
+      setLogEndpointId(null)
+      return
+    }
+    setLogEndpointId(endpointId)
+    setDeliveries([])
+    fetchDeliveries(endpointId)
+  }
+
+  const updateEndpoint = async (id: string, changes: Record<string, unknown>) => {
+    setError(null)
+    try {
+      const response = await fetch('/api/webhooks', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, ...changes }),
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to update webhook')
+      }
+
+      setEndpoints(endpoints.map((e) => (e.id === id ? data : e)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ project_id: projectId, url, events }),
+      })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to create webhook')
+      }
+
+      setEndpoints([...endpoints, data])
+      setRevealedSecret(data.id)
+      setUrl('')
+      setEvents(ALL_EVENTS)
+      setShowForm(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleTest = async (endpointId: string) => {
+    setTestingId(endpointId)
+    setError(null)
+    try {
+      const response = await fetch(`/api/webhooks/${endpointId}/test`, { method: 'POST' })
+      const { data, error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to send test event')
+      }
+
+      if (data.status !== 'succeeded') {
+        setError(`Test delivery failed: ${data.error}`)
+      }
+      if (logEndpointId === endpointId) {
+        setDeliveries([data, ...deliveries])
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setTestingId(null)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/webhooks?id=${id}`, { method: 'DELETE' })
+      const { error: apiError } = await response.json()
+
+      if (!response.ok || apiError) {
+        throw new Error(apiError || 'Failed to delete webhook')
+      }
+
+      setEndpoints(endpoints.filter((e) => e.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  return (
+    <div className="mt-4 p-3 bg-slate-50 rounded-lg border border-slate-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-semibold text-slate-700">Webhooks</span>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="text-xs text-indigo-600 hover:text-indigo-700 font-semibold"
+          >
+            Add endpoint
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-slate-500 italic">Loading webhooks...</p>
+      ) : endpoints.length === 0 && !showForm ? (
+        <p className="text-xs text-slate-500 italic">No webhook endpoints.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {endpoints.map((endpoint) => (
+            <li key={endpoint.id} className="px-2 py-1.5 bg-white border border-slate-300 rounded text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <div className={`min-w-0 ${endpoint.enabled ? 'text-slate-700' : 'text-slate-400'}`}>
+                  <span className="font-mono truncate block" title={endpoint.url}>{endpoint.url}</span>
+                  <span className="text-slate-500">
+                    {endpoint.events.length === ALL_EVENTS.length ? 'All events' : endpoint.events.join(', ')}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleTest(endpoint.id)}
+                    disabled={testingId === endpoint.id}
+                    className="text-indigo-600 hover:text-indigo-700 font-semibold disabled:opacity-50"
+                  >
+                    {testingId === endpoint.id ? 'Sending...' : 'Send test'}
+                  </button>
+                  <button
+                    onClick={() => toggleLog(endpoint.id)}
+                    className="text-indigo-600 hover:text-indigo-700 font-semibold"
+                  >
+                    {logEndpointId === endpoint.id ? 'Hide log' : 'Log'}
+                  </button>
+                  <button
+                    onClick={() => setRevealedSecret(revealedSecret === endpoint.id ? null : endpoint.id)}
+                    className="text-indigo-600 hover:text-indigo-700 font-semibold"
+                  >
+                    {revealedSecret === endpoint.id ? 'Hide secret' : 'Secret'}
+                  </button>
+                  <button
+                    onClick={() => updateEndpoint(endpoint.id, { enabled: !endpoint.enabled })}
+                    className="text-indigo-600 hover:text-indigo-700 font-semibold"
+                  >
+                    {endpoint.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(endpoint.id)}
+                    className="text-red-600 hover:text-red-700 font-semibold"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {revealedSecret === endpoint.id && (
+                <div className="mt-2 flex items-center gap-2">
+                  <code className="px-2 py-1 bg-slate-100 rounded font-mono break-all">{endpoint.secret}</code>
+                  <button
+                    onClick={() => updateEndpoint(endpoint.id, { rotate_secret: true })}
+                    className="text-indigo-600 hover:text-indigo-700 font-semibold flex-shrink-0"
+                  >
+                    Rotate
+                  </button>
+                </div>
+              )}
+
+              {logEndpointId === endpoint.id && (
+                <div className="mt-2 border-t border-slate-200 pt-2">
+                  {deliveries.length === 0 ? (
+                    <p className="text-slate-500 italic">No deliveries yet.</p>
+                  ) : (
+                    <table className="w-full">
+                      <tbody>
+                        {deliveries.map((delivery) => (
+                          <tr key={delivery.id} className="border-t border-slate-100 first:border-t-0">
+                            <td className="py-1 pr-2 font-mono">{delivery.event}</td>
+                            <td className="py-1 pr-2">
+                              <span className={`px-2 py-0.5 font-semibold rounded-full border ${STATUS_STYLES[delivery.status]}`}>
+                                {delivery.status}
+                              </span>
+                            </td>
+                            <td className="py-1 pr-2 text-slate-500">
+                              {delivery.response_status ? `HTTP ${delivery.response_status}` : ''}
+                              {delivery.attempts > 1 ? ` · ${delivery.attempts} attempts` : ''}
+                            </td>
+                            <td className="py-1 pr-2 text-red-600 truncate max-w-xs" title={delivery.error || undefined}>
+                              {delivery.status !== 'succeeded' ? delivery.error : ''}
+                            </td>
+                            <td className="py-1 text-right text-slate-500 whitespace-nowrap">
+                              {new Date(delivery.created_at).toLocaleString()}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mt-3 space-y-3">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/webhooks/reddit-seo"
+            required
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all text-sm bg-white"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-1.5">
+            {WEBHOOK_EVENTS.map((event) => (
+              <label key={event.value} className="flex items-center gap-1.5 text-xs text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={events.includes(event.value)}
+                  onChange={() => setEvents(events.includes(event.value) ? events.filter((e) => e !== event.value) : [...events, event.value])}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="font-mono">{event.value}</span>
+                <span className="text-slate-500">{event.label}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving || events.length === 0}
+              className="px-4 py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all shadow-md shadow-indigo-500/30 hover:shadow-lg hover:shadow-indigo-500/40 disabled:opacity-50 font-semibold"
+            >
+              {isSaving ? 'Saving...' : 'Add Endpoint'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false)
+                setUrl('')
+                setEvents(ALL_EVENTS)
+                setError(null)
+              }}
+              className="px-4 py-2 text-sm border border-slate-300 text-slate-700 rounded-xl hover:bg-slate-50 transition-all font-semibold"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-xs text-red-600">{error}</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,285 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ALERT_RULE_TYPES, AlertNotification, AlertRule, NotificationChannel } from './types'
+import { parseOutboundUrl } from './http'
+import { deliverNotifications } from './notifications'
+
+/**
+ * How one thread's position for a keyword changed in a check
+ */
+export interface RankingChange {
+  threadId: string
+  redditThreadId: string
+  postTitle: string
+  postUrl: string
+  subreddit: string
+  previousPosition: number | null // null = not ranking before this check
+  position: number | null // null = dropped out in this check
+}
+
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'webhook']
+
+export type AlertRuleInput = Partial<Pick<AlertRule, 'name' | 'type' | 'threshold' | 'channels' | 'email_to' | 'webhook_url' | 'enabled'>>
+
+/**
+ * Validates alert rule fields from a request body. New rules need a name and type, a threshold
+ * for types that require one, and a target for the email and webhook channels. Updates only
+ * validate the fields they contain, the table constraints check the combination.
+ */
+export function parseAlertRuleInput(body: Record<string, unknown>, isNew: boolean): { data: AlertRuleInput; error: string | null } {
+  const data: AlertRuleInput = {}
+
+  if (body.name !== undefined || isNew) {
+    if (typeof body.name !== 'string' || body.name.trim().length === 0) {
+      return { data, error: 'Rule name is required' }
+    }
+    data.name = body.name.trim()
+  }
+
+  if (body.type !== undefined || isNew) {
+    const type = ALERT_RULE_TYPES.find((t) => t.value === body.type)
+    if (!type) {
+      return { data, error: `type must be one of: ${ALERT_RULE_TYPES.map((t) => t.value).join(', ')}` }
+    }
+    data.type = type.value
+  }
+
+  if (body.threshold !== undefined && body.threshold !== null && body.threshold !== '') {
+    const threshold = Number(body.threshold)
+    if (!Number.isInteger(threshold) || threshold <= 0) {
+      return { data, error: 'threshold must be a positive integer' }
+    }
+    data.threshold = threshold
+  } else if (body.threshold !== undefined || isNew) {
+    data.threshold = null
+  }
+
+  if (isNew && data.threshold === null && ALERT_RULE_TYPES.find((t) => t.value === data.type)?.thresholdRequired) {
+    return { data, error: `A threshold is required for ${data.type} rules` }
+  }
+
+  if (body.channels !== undefined || isNew) {
+    const channels = body.channels === undefined ? ['in_app'] : body.channels
+    if (!Array.isArray(channels) || channels.length === 0 || !channels.every((c) => NOTIFICATION_CHANNELS.includes(c))) {
+      return { data, error: `channels must be a non-empty list of: ${NOTIFICATION_CHANNELS.join(', ')}` }
+    }
+    data.channels = [...new Set(channels as NotificationChannel[])]
+  }
+
+  if (body.email_to !== undefined) {
+    const emails = typeof body.email_to === 'string' ? body.email_to.split(',').map((e) => e.trim()).filter(Boolean) : []
+    if (body.email_to !== null && body.email_to !== '' && (emails.length === 0 || !emails.every((e) => /^[^\s@]+@[^\s@]+$/.test(e)))) {
+      return { data, error: 'email_to must be a comma-separated list of email addresses' }
+    }
+    data.email_to = emails.length > 0 ? emails.join(', ') : null
+  }
+
+  if (body.webhook_url !== undefined) {
+    if (body.webhook_url === null || body.webhook_url === '') {
+      data.webhook_url = null
+    } else {
+      // Same checks as project webhook endpoints
+      const { url, error } = parseOutboundUrl(body.webhook_url, 'webhook_url')
+      if (error !== null) {
+        return { data, error }
+      }
+      data.webhook_url = url
+    }
+  }
+
+  if (isNew && data.channels?.includes('email') && !data.email_to) {
+    return { data, error: 'An email address is required for the email channel' }
+  }
+  if (isNew && data.channels?.includes('webhook') && !data.webhook_url) {
+    return { data, error: 'A webhook URL is required for the webhook channel' }
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      return { data, error: 'enabled must be a boolean' }
+    }
+    data.enabled = body.enabled
+  }
+
+  return { data, error: null }
+}
+
+// Whether the thread is in the top `threshold` now and wasn't before (any position without a threshold)
+function entered(change: RankingChange, threshold: number | null): boolean {
+  const { previousPosition: previous, position } = change
+  if (position === null || (threshold !== null && position > threshold)) return false
+  return previous === null || (threshold !== null && previous > threshold)
+}
+
+/**
+ * Whether a rule matches a thread's change. `exclusions` are the project's excluded subreddits, lowercase.
+ */
+export function matchesAlertRule(rule: AlertRule, change: RankingChange, exclusions: string[] = []): boolean {
+  const { previousPosition: previous, position } = change
+
+  switch (rule.type) {
+    case 'enters_top_n':
+      return rule.threshold !== null && entered(change, rule.threshold)
+    case 'drops_out':
+      if (previous === null) return false
+      if (rule.threshold === null) return position === null
+      return previous <= rule.threshold && (position === null || position > rule.threshold)
+    case 'moves_by':
+      return rule.threshold !== null && previous !== null && position !== null && Math.abs(position - previous) > rule.threshold
+    case 'excluded_subreddit':
+      return exclusions.includes(change.subreddit.toLowerCase()) && entered(change, rule.threshold)
+    default:
+      return false
+  }
+}
+
+/**
+ * Notification title and body for a rule match
+ */
+export function describeAlert(rule: AlertRule, change: RankingChange, keyword: string): { title: string; body: string } {
+  const { previousPosition: previous, position } = change
+  const thread = `"${change.postTitle}" (r/${change.subreddit})`
+  const was = previous === null ? 'not ranking' : `#${previous}`
+  const now = position === null ? 'not ranking' : `#${position}`
+  const footer = `\n\n${change.postUrl}`
+
+  switch (rule.type) {
+    case 'enters_top_n':
+      return {
+        title: `New thread in the top ${rule.threshold} for "${keyword}"`,
+        body: `${thread} is now ${now} (was ${was}).${footer}`,
+      }
+    case 'drops_out':
+      return {
+        title: `Thread dropped out of ${rule.threshold ? `the top ${rule.threshold}` : 'the results'} for "${keyword}"`,
+        body: `${thread} is now ${now} (was ${was}).${footer}`,
+      }
+    case 'moves_by': {
+      const moved = (previous || 0) - (position || 0)
+      return {
+        title: `Thread moved ${moved > 0 ? 'up' : 'down'} ${Math.abs(moved)} positions for "${keyword}"`,
+        body: `${thread} went from ${was} to ${now}.${footer}`,
+      }
+    }
+    case 'excluded_subreddit':
+      return {
+        title: `Thread from excluded r/${change.subreddit} is ranking for "${keyword}"`,
+        body: `${thread} is now ${now} (was ${was}).${footer}`,
+      }
+  }
+}
+
+/**
+ * Who a project's alerts are addressed to: the members of its organization, its creator first.
+ * Falls back to the creator for projects without an organization or members.
+ */
+async function getAlertRecipients(
+  supabase: SupabaseClient,
+  project: { user_id: string; organization_id: string | null }
+): Promise<string[]> {
+  if (!project.organization_id) return [project.user_id]
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('organization_id', project.organization_id)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+
+  const members = (data || []).map((m) => m.user_id as string)
+  if (members.length === 0) return [project.user_id]
+  return members.includes(project.user_id) ? [project.user_id, ...members.filter((id) => id !== project.user_id)] : members
+}
+
+/**
+ * Spreads a match's notification over its recipients. Everyone gets it in-app; only the first row
+ * carries the email and webhook deliveries, so they're sent once. Without the in-app channel a
+ * single row holds the deliveries.
+ */
+function addressNotification<T extends { in_app: boolean; email_status: string | null; email_to: string | null; webhook_status: string | null; webhook_url: string | null }>(
+  row: T,
+  recipients: string[]
+): Array<T & { user_id: string }> {
+  const addressed = row.in_app ? recipients : recipients.slice(0, 1)
+  return addressed.map((userId, i) =>
+    i === 0
+      ? { ...row, user_id: userId }
+      : { ...row, user_id: userId, email_to: null, email_status: null, webhook_url: null, webhook_status: null }
+  )
+}
+
+/**
+ * Checks a keyword's ranking changes against the enabled alert rules of its project, stores a
+ * notification per match for each member of the project's organization and sends its email and
+ * webhook deliveries. Alerting never fails a ranking check: errors are logged and the matches are skipped.
+ */
+export async function checkAlertRules(
+  supabase: SupabaseClient,
+  keywordId: string,
+  keywordText: string,
+  changes: RankingChange[]
+): Promise<AlertNotification[]> {
+  if (changes.length === 0) return []
+
+  try {
+    const { data: keyword, error: keywordError } = await supabase
+      .from('keywords')
+      .select('project_id, projects(user_id, organization_id, subreddit_exclusions, alert_rules(*))')
+      .eq('id', keywordId)
+      .single()
+
+    if (keywordError) throw keywordError
+
+    const project = Array.isArray(keyword.projects) ? keyword.projects[0] : keyword.projects
+    const rules = ((project?.alert_rules || []) as AlertRule[]).filter((rule) => rule.enabled)
+    if (!project || rules.length === 0) return []
+
+    const exclusions: string[] = project.subreddit_exclusions || []
+    const recipients = await getAlertRecipients(supabase, project)
+    const rows = rules.flatMap((rule) =>
+      changes
+        .filter((change) => matchesAlertRule(rule, change, exclusions))
+        .map((change) => ({
+          project_id: keyword.project_id,
+          keyword_id: keywordId,
+          thread_id: change.threadId,
+          rule_id: rule.id,
+          type: rule.type,
+          ...describeAlert(rule, change, keywordText),
+          data: {
+            keyword: keywordText,
+            reddit_thread_id: change.redditThreadId,
+            post_title: change.postTitle,
+            post_url: change.postUrl,
+            subreddit: change.subreddit,
+            previous_position: change.previousPosition,
+            position: change.position,
+            threshold: rule.threshold,
+          },
+          in_app: rule.channels.includes('in_app'),
+          email_to: rule.channels.includes('email') ? rule.email_to : null,
+          email_status: rule.channels.includes('email') && rule.email_to ? 'pending' : null,
+          webhook_url: rule.channels.includes('webhook') ? rule.webhook_url : null,
+          webhook_status: rule.channels.includes('webhook') && rule.webhook_url ? 'pending' : null,
+        }))
+        .flatMap((row) => addressNotification(row, recipients))
+    )
+
+    if (rows.length === 0) return []
+
+    console.log(`${rows.length} alert rule match(es) for keyword: ${keywordText}`)
+
+    const { data: notifications, error: insertError } = await supabase
+      .from('notifications')
+      .insert(rows)
+      .select('*')
+
+    if (insertError) throw insertError
+
+    await deliverNotifications(supabase, (notifications || []) as AlertNotification[])
+    return (notifications || []) as AlertNotification[]
+  } catch (error) {
+    console.error(`Error checking alert rules for keyword ${keywordText}:`, error)
+    return []
+  }
+}
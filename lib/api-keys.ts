@@ -0,0 +1,151 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createHash, createHmac, randomBytes } from 'node:crypto'
+import { API_KEY_SCOPES, ApiKey, ApiKeyScope } from './types'
+
+export const API_KEY_PREFIX = 'rsk_'
+
+// Set by proxy.ts on requests authenticated with an API key: a short-lived Supabase access token
+// for the key's owner. Incoming values are always dropped, so only the proxy can set it.
+export const API_KEY_SESSION_HEADER = 'x-api-key-session'
+
+// Routes that manage credentials or other users need a browser session
+const SESSION_ONLY_PATHS = ['/api/api-keys', '/api/admin', '/api/organizations', '/api/invitations']
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+// Long enough for a slow bulk generation; the token never leaves the server
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * New random key with the prefix shown in listings and the hash stored in api_keys
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 6), hash: hashApiKey(key) }
+}
+
+/**
+ * The API key in an `Authorization: Bearer` header, if there is one. Other Bearer tokens, like
+ * CRON_SECRET, are not API keys.
+ */
+export function getBearerApiKey(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+  return match && match[1].startsWith(API_KEY_PREFIX) ? match[1] : null
+}
+
+/**
+ * Validates the fields of an API key from a request body. Only fields present are validated.
+ */
+export function parseApiKeyInput(
+  body: Record<string, unknown>,
+  isNew: boolean
+): { data: Partial<Pick<ApiKey, 'name' | 'scope' | 'project_ids'>>; error: string | null } {
+  const data: Partial<Pick<ApiKey, 'name' | 'scope' | 'project_ids'>> = {}
+
+  if (body.name !== undefined || isNew) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { data, error: 'name is required' }
+    }
+    data.name = body.name.trim()
+  }
+
+  if (body.scope !== undefined || isNew) {
+    const scope = body.scope === undefined ? 'read' : body.scope
+    if (!API_KEY_SCOPES.some((s) => s.value === scope)) {
+      return { data, error: `scope must be one of: ${API_KEY_SCOPES.map((s) => s.value).join(', ')}` }
+    }
+    data.scope = scope as ApiKeyScope
+  }
+
+  if (body.project_ids !== undefined) {
+    if (body.project_ids === null) {
+      data.project_ids = null
+    } else if (
+      !Array.isArray(body.project_ids) ||
+      body.project_ids.length === 0 ||
+      !body.project_ids.every((id) => typeof id === 'string' && id)
+    ) {
+      return { data, error: 'project_ids must be a non-empty list of project IDs, or null for all projects' }
+    } else {
+      data.project_ids = [...new Set(body.project_ids as string[])]
+    }
+  }
+
+  return { data, error: null }
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url')
+}
+
+/**
+ * HS256 Supabase access token for the key's owner, signed with the project's JWT secret. RLS sees
+ * the owner as auth.uid(); project-scoped keys add the `api_key_project_ids` claim that the
+ * restrictive policies of migration 020 check.
+ */
+function signAccessToken(key: Pick<ApiKey, 'id' | 'user_id' | 'scope' | 'project_ids'>): string {
+  const secret = process.env.SUPABASE_JWT_SECRET
+  if (!secret) {
+    throw new Error('SUPABASE_JWT_SECRET is required for API key authentication')
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+  const payload = base64url(JSON.stringify({
+    sub: key.user_id,
+    aud: 'authenticated',
+    role: 'authenticated',
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL_SECONDS,
+    api_key_id: key.id,
+    api_key_scope: key.scope,
+    ...(key.project_ids ? { api_key_project_ids: key.project_ids } : {}),
+  }))
+  const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url')
+  return `${header}.${payload}.${signature}`
+}
+
+/**
+ * Checks an API key for a request and records its use. Returns an access token for the key's
+ * owner, or the error and status to answer with.
+ */
+export async function authenticateApiKey(
+  adminClient: SupabaseClient,
+  key: string,
+  request: { method: string; pathname: string }
+): Promise<{ accessToken: string; error: null; status: 200 } | { accessToken: null; error: string; status: 401 | 403 }> {
+  const { data: apiKey, error } = await adminClient
+    .from('api_keys')
+    .select('id, user_id, scope, project_ids, revoked_at')
+    .eq('key_hash', hashApiKey(key))
+    .maybeSingle()
+
+  if (error) throw error
+
+  if (!apiKey || apiKey.revoked_at) {
+    return { accessToken: null, error: 'Invalid or revoked API key', status: 401 }
+  }
+
+  if (SESSION_ONLY_PATHS.some((path) => request.pathname.startsWith(path))) {
+    return { accessToken: null, error: 'This endpoint is not available to API keys', status: 403 }
+  }
+
+  if (apiKey.scope === 'read' && !READ_METHODS.includes(request.method)) {
+    return { accessToken: null, error: 'This API key is read-only', status: 403 }
+  }
+
+  const { error: updateError } = await adminClient
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', apiKey.id)
+
+  if (updateError) {
+    console.error(`Error recording use of API key ${apiKey.id}:`, updateError)
+  }
+
+  return { accessToken: signAccessToken(apiKey), error: null, status: 200 }
+}
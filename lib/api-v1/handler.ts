@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import { describeError } from '@/lib/http'
+import { createClient } from '@/lib/supabase/server'
+
+/**
+ * Error answered with the v1 envelope: `{ error: { code, message, details? } }`
+ */
+export class ApiV1Error extends Error {
+  readonly status: number
+  readonly code: string
+  readonly details?: Record<string, unknown>
+
+  constructor(status: number, code: string, message: string, details?: Record<string, unknown>) {
+    super(message)
+    this.name = 'ApiV1Error'
+    this.status = status
+    this.code = code
+    this.details = details
+  }
+}
+
+export function validationError(message: string, details?: Record<string, unknown>): ApiV1Error {
+  return new ApiV1Error(400, 'validation_error', message, details)
+}
+
+export function notFound(resource: string): ApiV1Error {
+  return new ApiV1Error(404, 'not_found', `${resource} not found`)
+}
+
+// Postgres and PostgREST errors that are the caller's fault
+const DATABASE_ERRORS: Record<string, { status: number; code: string; message?: string }> = {
+  '23505': { status: 409, code: 'conflict', message: 'Already exists' },
+  '23503': { status: 400, code: 'validation_error', message: 'Referenced resource does not exist' },
+  '23514': { status: 400, code: 'validation_error' },
+  '42501': { status: 403, code: 'forbidden', message: 'Your organization role does not allow this' },
+  '22P02': { status: 400, code: 'validation_error', message: 'Invalid ID' },
+  PGRST116: { status: 404, code: 'not_found', message: 'Not found' },
+}
+
+function toApiV1Error(error: unknown): ApiV1Error {
+  if (error instanceof ApiV1Error) return error
+
+  const databaseCode = (error as { code?: unknown } | null)?.code
+  if (typeof databaseCode === 'string' && DATABASE_ERRORS[databaseCode]) {
+    const { status, code, message } = DATABASE_ERRORS[databaseCode]
+    return new ApiV1Error(status, code, message || (error as { message?: string }).message || 'Invalid request')
+  }
+
+  // Third-party failures keep their status and code (timeout, rate_limited, ...)
+  const { status, message, code } = describeError(error)
+  return new ApiV1Error(status, code, message)
+}
+
+export function apiV1ErrorResponse(error: unknown): NextResponse {
+  const { status, code, message, details } = toApiV1Error(error)
+  if (status >= 500) {
+    console.error('API v1 error:', error)
+  }
+  return NextResponse.json(
+    { error: { code, message, ...(details ? { details } : {}) } },
+    { status }
+  )
+}
+
+export function apiV1Data(data: unknown, status = 200): NextResponse {
+  return NextResponse.json({ data }, { status })
+}
+
+export function apiV1List(data: unknown[], nextCursor: string | null): NextResponse {
+  return NextResponse.json({ data, next_cursor: nextCursor })
+}
+
+/**
+ * JSON object body of a request, or a validation error
+ */
+export async function readJsonBody(request: NextRequest): Promise<Record<string, unknown>> {
+  const body = await request.json().catch(() => undefined)
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw validationError('Request body must be a JSON object')
+  }
+  return body
+}
+
+export interface ApiV1Context<P> {
+  request: NextRequest
+  params: P
+  supabase: SupabaseClient
+  user: User
+}
+
+/**
+ * Wraps a v1 route handler: authenticates the caller (session or API key), and turns thrown
+ * errors into the error envelope
+ */
+export function apiV1Route<P = Record<string, string>>(
+  handler: (context: ApiV1Context<P>) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, { params }: { params: Promise<P> }): Promise<NextResponse> => {
+    try {
+      const supabase = await createClient()
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+      if (authError || !user) {
+        throw new ApiV1Error(401, 'unauthorized', 'Unauthorized')
+      }
+
+      return await handler({ request, params: await params, supabase, user })
+    } catch (error) {
+      return apiV1ErrorResponse(error)
+    }
+  }
+}
@@ -0,0 +1,473 @@
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './pagination'
+import { LLM_PROVIDERS } from '@/lib/llm-settings'
+import { REFRESH_INTERVALS, REPLY_DRAFT_STATUSES, TRACKING_DEPTHS } from '@/lib/types'
+
+type Schema = Record<string, unknown>
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` })
+const nullable = (schema: Schema): Schema => ({ ...schema, nullable: true })
+
+const id: Schema = { type: 'string', format: 'uuid' }
+const timestamp: Schema = { type: 'string', format: 'date-time' }
+const text: Schema = { type: 'string' }
+const integer: Schema = { type: 'integer' }
+
+const serpSettings: Record<string, Schema> = {
+  serp_location_code: { type: 'integer', description: 'DataForSEO location code, e.g. 2840 for the United States' },
+  serp_language_code: { type: 'string', description: 'Language code, e.g. en' },
+  serp_device: { type: 'string', enum: ['desktop', 'mobile'] },
+}
+
+const keywordSettings: Record<string, Schema> = {
+  serp_location_code: nullable(serpSettings.serp_location_code),
+  serp_language_code: nullable(serpSettings.serp_language_code),
+  serp_device: nullable(serpSettings.serp_device),
+  refresh_interval: { type: 'string', enum: REFRESH_INTERVALS.map((interval) => interval.value) },
+}
+
+const projectInput: Record<string, Schema> = {
+  name: text,
+  description: nullable(text),
+  prompt_template: nullable({ type: 'string', description: 'Reply prompt with {{thread}} and {{business}} placeholders' }),
+  subreddit_exclusions: { type: 'array', items: text, description: 'Subreddits never tracked, without the r/ prefix' },
+  ...serpSettings,
+  tracking_depth: { type: 'integer', enum: TRACKING_DEPTHS },
+  llm_provider: nullable({ type: 'string', enum: LLM_PROVIDERS.map((p) => p.name), description: 'Null uses the deployment default' }),
+  llm_model: nullable({ type: 'string', description: "Null uses the provider's default model" }),
+  llm_temperature: nullable({ type: 'number', minimum: 0, maximum: 2 }),
+  llm_max_tokens: nullable({ type: 'integer', minimum: 1 }),
+  llm_system_prompt: nullable(text),
+}
+
+const schemas: Record<string, Schema> = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: {
+          code: { type: 'string', description: 'Stable machine-readable code, e.g. validation_error, not_found, conflict' },
+          message: text,
+          details: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+  },
+  Deleted: {
+    type: 'object',
+    properties: { id, deleted: { type: 'boolean', enum: [true] } },
+  },
+  Project: {
+    type: 'object',
+    properties: { id, organization_id: id, ...projectInput, created_at: timestamp, updated_at: timestamp },
+  },
+  ProjectInput: {
+    type: 'object',
+    properties: projectInput,
+  },
+  Keyword: {
+    type: 'object',
+    properties: {
+      id,
+      project_id: id,
+      keyword: text,
+      ...keywordSettings,
+      last_checked_at: nullable(timestamp),
+      next_check_at: nullable({ ...timestamp, description: 'Null while paused' }),
+      created_at: timestamp,
+      updated_at: timestamp,
+    },
+  },
+  KeywordInput: {
+    type: 'object',
+    required: ['project_id', 'keyword'],
+    properties: { project_id: id, keyword: text, ...keywordSettings },
+  },
+  KeywordSettingsInput: {
+    type: 'object',
+    description: 'Null market settings fall back to the project',
+    properties: keywordSettings,
+  },
+  KeywordRanking: {
+    type: 'object',
+    properties: {
+      ranking_id: id,
+      thread_id: id,
+      reddit_thread_id: text,
+      post_url: text,
+      post_title: text,
+      subreddit: text,
+      rank_position: integer,
+      first_seen_at: timestamp,
+      last_checked_at: timestamp,
+      dropped_at: nullable({ ...timestamp, description: 'When the thread dropped out of the results' }),
+      location_code: nullable(integer),
+      language_code: nullable(text),
+      device: nullable(text),
+    },
+  },
+  Thread: {
+    type: 'object',
+    properties: {
+      id,
+      reddit_thread_id: text,
+      post_url: text,
+      post_title: text,
+      subreddit: text,
+      scraped_at: nullable(timestamp),
+      created_at: timestamp,
+      updated_at: timestamp,
+      rankings: {
+        type: 'array',
+        description: "The thread's positions for the caller's keywords",
+        items: {
+          type: 'object',
+          properties: {
+            keyword_id: id,
+            project_id: id,
+            rank_position: integer,
+            first_seen_at: timestamp,
+            last_checked_at: timestamp,
+            dropped_at: nullable(timestamp),
+          },
+        },
+      },
+    },
+  },
+  RankingSeries: {
+    type: 'object',
+    properties: {
+      ranking_id: id,
+      keyword_id: id,
+      keyword: text,
+      thread_id: id,
+      reddit_thread_id: text,
+      post_title: text,
+      post_url: text,
+      subreddit: text,
+      rank_position: { type: 'integer', description: 'Latest known position' },
+      dropped_at: nullable(timestamp),
+      history: {
+        type: 'array',
+        description: 'Oldest first. A null position means the thread was not ranking at that check.',
+        items: {
+          type: 'object',
+          properties: { rank_position: nullable(integer), checked_at: timestamp },
+        },
+      },
+    },
+  },
+  Draft: {
+    type: 'object',
+    properties: {
+      id,
+      user_id: id,
+      thread_id: id,
+      post_url: text,
+      draft_content: text,
+      status: { type: 'string', enum: REPLY_DRAFT_STATUSES.map((status) => status.value) },
+      assignee_id: nullable(id),
+      reviewer_id: nullable(id),
+      reddit_account_id: nullable(id),
+      scheduled_for: nullable(timestamp),
+      status_changed_at: timestamp,
+      created_at: timestamp,
+      updated_at: timestamp,
+    },
+  },
+  DraftInput: {
+    type: 'object',
+    required: ['content'],
+    description: 'Give either thread_id or post_url',
+    properties: {
+      thread_id: id,
+      post_url: { type: 'string', description: 'Reddit thread URL; the thread is created if untracked' },
+      content: text,
+    },
+  },
+  RankingJob: {
+    type: 'object',
+    properties: {
+      id,
+      keyword_id: id,
+      status: { type: 'string', enum: ['pending', 'running', 'completed', 'failed'] },
+      attempts: integer,
+      max_attempts: integer,
+      run_after: timestamp,
+      started_at: nullable(timestamp),
+      completed_at: nullable(timestamp),
+      posts_count: nullable(integer),
+      error: nullable(text),
+      created_at: timestamp,
+      updated_at: timestamp,
+    },
+  },
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+})
+
+const errorResponses = {
+  400: errorResponse('Invalid request'),
+  401: errorResponse('Missing or invalid session or API key'),
+  403: errorResponse('API key not allowed for this request'),
+}
+
+const itemResponse = (description: string, schema: Schema) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: { type: 'object', required: ['data'], properties: { data: schema } },
+    },
+  },
+})
+
+const listResponse = (description: string, schema: Schema) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        required: ['data', 'next_cursor'],
+        properties: {
+          data: { type: 'array', items: schema },
+          next_cursor: nullable({ type: 'string', description: 'Pass as `cursor` to get the next page; null on the last page' }),
+        },
+      },
+    },
+  },
+})
+
+const jsonBody = (schema: Schema) => ({
+  required: true,
+  content: { 'application/json': { schema } },
+})
+
+const pathId = (description: string) => ({ name: 'id', in: 'path', required: true, description, schema: id })
+const queryParam = (name: string, schema: Schema, description: string) => ({ name, in: 'query', description, schema })
+
+const pageParams = [
+  queryParam('limit', { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE }, 'Page size'),
+  queryParam('cursor', text, '`next_cursor` of the previous page'),
+]
+
+const withErrors = (responses: Record<string, unknown>, notFound?: string) => ({
+  ...responses,
+  ...errorResponses,
+  ...(notFound ? { 404: errorResponse(`${notFound} not found`) } : {}),
+})
+
+const paths = {
+  '/projects': {
+    get: {
+      tags: ['Projects'],
+      summary: 'List projects',
+      parameters: pageParams,
+      responses: withErrors({ 200: listResponse('Projects, newest first', ref('Project')) }),
+    },
+    post: {
+      tags: ['Projects'],
+      summary: 'Create a project',
+      requestBody: jsonBody({
+        allOf: [
+          ref('ProjectInput'),
+          {
+            type: 'object',
+            properties: { organization_id: { ...id, description: 'Defaults to your personal organization. Needs the owner or editor role.' } },
+          },
+        ],
+        required: ['name'],
+      }),
+      responses: withErrors({ 201: itemResponse('Created project', ref('Project')) }),
+    },
+  },
+  '/projects/{id}': {
+    parameters: [pathId('Project ID')],
+    get: {
+      tags: ['Projects'],
+      summary: 'Get a project',
+      responses: withErrors({ 200: itemResponse('Project', ref('Project')) }, 'Project'),
+    },
+    patch: {
+      tags: ['Projects'],
+      summary: 'Update a project',
+      requestBody: jsonBody(ref('ProjectInput')),
+      responses: withErrors({ 200: itemResponse('Updated project', ref('Project')) }, 'Project'),
+    },
+    delete: {
+      tags: ['Projects'],
+      summary: 'Delete a project with its keywords and rankings',
+      responses: withErrors({ 200: itemResponse('Deleted', ref('Deleted')) }, 'Project'),
+    },
+  },
+  '/projects/{id}/refresh': {
+    parameters: [pathId('Project ID')],
+    post: {
+      tags: ['Projects'],
+      summary: 'Queue a ranking check for every keyword of a project',
+      responses: withErrors({ 202: itemResponse('Queued jobs', { type: 'array', items: ref('RankingJob') }) }, 'Project'),
+    },
+  },
+  '/keywords': {
+    get: {
+      tags: ['Keywords'],
+      summary: 'List keywords',
+      parameters: [queryParam('project_id', id, 'Only keywords of this project'), ...pageParams],
+      responses: withErrors({ 200: listResponse('Keywords, newest first', ref('Keyword')) }),
+    },
+    post: {
+      tags: ['Keywords'],
+      summary: 'Add a keyword to a project and queue its first check',
+      requestBody: jsonBody(ref('KeywordInput')),
+      responses: withErrors({
+        201: itemResponse('Created keyword', ref('Keyword')),
+        409: errorResponse('The project already tracks this keyword'),
+      }),
+    },
+  },
+  '/keywords/{id}': {
+    parameters: [pathId('Keyword ID')],
+    get: {
+      tags: ['Keywords'],
+      summary: 'Get a keyword',
+      responses: withErrors({ 200: itemResponse('Keyword', ref('Keyword')) }, 'Keyword'),
+    },
+    patch: {
+      tags: ['Keywords'],
+      summary: 'Update market overrides and refresh interval',
+      requestBody: jsonBody(ref('KeywordSettingsInput')),
+      responses: withErrors({ 200: itemResponse('Updated keyword', ref('Keyword')) }, 'Keyword'),
+    },
+    delete: {
+      tags: ['Keywords'],
+      summary: 'Delete a keyword with its rankings',
+      responses: withErrors({ 200: itemResponse('Deleted', ref('Deleted')) }, 'Keyword'),
+    },
+  },
+  '/keywords/{id}/refresh': {
+    parameters: [pathId('Keyword ID')],
+    post: {
+      tags: ['Keywords'],
+      summary: 'Queue a ranking check for a keyword',
+      description: 'Returns the already queued job if there is one',
+      responses: withErrors({ 202: itemResponse('Queued job', ref('RankingJob')) }, 'Keyword'),
+    },
+  },
+  '/keywords/{id}/rankings': {
+    parameters: [pathId('Keyword ID')],
+    get: {
+      tags: ['Rankings'],
+      summary: 'Threads ranking for a keyword, best position first',
+      parameters: [queryParam('include_dropped', { type: 'boolean', default: false }, 'Include threads that dropped out')],
+      responses: withErrors({ 200: itemResponse('Rankings', { type: 'array', items: ref('KeywordRanking') }) }, 'Keyword'),
+    },
+  },
+  '/rankings/history': {
+    get: {
+      tags: ['Rankings'],
+      summary: 'Rank history of a keyword or a thread',
+      description: 'One series per thread of the keyword, or per keyword the thread ranks for. Give keyword_id or thread_id.',
+      parameters: [
+        queryParam('keyword_id', id, 'Keyword ID'),
+        queryParam('thread_id', id, 'Thread ID'),
+        queryParam('days', { type: 'integer', minimum: 1, maximum: 365, default: 30 }, 'Days of history'),
+      ],
+      responses: withErrors({ 200: itemResponse('Series', { type: 'array', items: ref('RankingSeries') }) }),
+    },
+  },
+  '/threads': {
+    get: {
+      tags: ['Threads'],
+      summary: "List threads ranking for the caller's keywords",
+      parameters: [
+        queryParam('keyword_id', id, 'Only threads of this keyword'),
+        queryParam('project_id', id, 'Only threads of this project'),
+        ...pageParams,
+      ],
+      responses: withErrors({ 200: listResponse('Threads, newest first', ref('Thread')) }),
+    },
+  },
+  '/threads/{id}': {
+    parameters: [pathId('Thread ID')],
+    get: {
+      tags: ['Threads'],
+      summary: 'Get a thread',
+      responses: withErrors({ 200: itemResponse('Thread', ref('Thread')) }, 'Thread'),
+    },
+  },
+  '/drafts': {
+    get: {
+      tags: ['Drafts'],
+      summary: 'List reply drafts',
+      parameters: [queryParam('thread_id', id, 'Only the draft of this thread'), ...pageParams],
+      responses: withErrors({ 200: listResponse('Drafts, newest first', ref('Draft')) }),
+    },
+    post: {
+      tags: ['Drafts'],
+      summary: 'Save the draft for a thread',
+      description: 'A thread has one draft per user: saving again replaces its content',
+      requestBody: jsonBody(ref('DraftInput')),
+      responses: withErrors({
+        200: itemResponse('Updated draft', ref('Draft')),
+        201: itemResponse('Created draft', ref('Draft')),
+      }, 'Thread'),
+    },
+  },
+  '/drafts/{id}': {
+    parameters: [pathId('Draft ID')],
+    get: {
+      tags: ['Drafts'],
+      summary: 'Get a draft',
+      responses: withErrors({ 200: itemResponse('Draft', ref('Draft')) }, 'Draft'),
+    },
+    patch: {
+      tags: ['Drafts'],
+      summary: 'Replace the content of a draft',
+      requestBody: jsonBody({ type: 'object', required: ['content'], properties: { content: text } }),
+      responses: withErrors({ 200: itemResponse('Updated draft', ref('Draft')) }, 'Draft'),
+    },
+    delete: {
+      tags: ['Drafts'],
+      summary: 'Delete a draft',
+      responses: withErrors({ 200: itemResponse('Deleted', ref('Deleted')) }, 'Draft'),
+    },
+  },
+  '/ranking-jobs/{id}': {
+    parameters: [pathId('Ranking job ID')],
+    get: {
+      tags: ['Rankings'],
+      summary: 'Status of a queued ranking check',
+      responses: withErrors({ 200: itemResponse('Ranking job', ref('RankingJob')) }, 'Ranking job'),
+    },
+  },
+}
+
+/**
+ * OpenAPI 3.0 document of /api/v1, served at /api/v1/openapi.json
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Reddit SEO Keyword Tracker API',
+      version: '1.0.0',
+      description:
+        'Lists are paginated newest first: pass `next_cursor` back as `cursor` until it is null. ' +
+        'Errors are returned as `{ "error": { "code", "message" } }`.',
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ apiKey: [] }, { session: [] }],
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: 'Personal API key (rsk_...), created on the API Keys page' },
+        session: { type: 'apiKey', in: 'cookie', name: 'sb-<project-ref>-auth-token', description: 'Signed-in browser session (Supabase auth cookie)' },
+      },
+      schemas,
+    },
+    paths,
+  }
+}
@@ -0,0 +1,77 @@
+import { validationError } from './handler'
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 100
+
+/**
+ * Position after the last row of a page. Lists are ordered newest first by (created_at, id).
+ */
+export interface PageCursor {
+  createdAt: string
+  id: string
+}
+
+export interface PageParams {
+  limit: number
+  cursor: PageCursor | null
+}
+
+const TIMESTAMP_PATTERN = /^[0-9T:.+\- Z]+$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function encodeCursor(row: { created_at: string; id: string }): string {
+  return Buffer.from(JSON.stringify([row.created_at, row.id])).toString('base64url')
+}
+
+function decodeCursor(value: string): PageCursor | null {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    // Both end up in a PostgREST filter, so only timestamps and UUIDs get through
+    if (
+      typeof createdAt !== 'string' || !TIMESTAMP_PATTERN.test(createdAt) || Number.isNaN(Date.parse(createdAt)) ||
+      typeof id !== 'string' || !UUID_PATTERN.test(id)
+    ) {
+      return null
+    }
+    return { createdAt, id }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * `limit` (default 50, at most 100) and `cursor` (the `next_cursor` of the previous page)
+ */
+export function parsePageParams(searchParams: URLSearchParams): PageParams {
+  const limitParam = searchParams.get('limit')
+  const limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw validationError(`limit must be an integer from 1 to ${MAX_PAGE_SIZE}`)
+  }
+
+  const cursorParam = searchParams.get('cursor')
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null
+  if (cursorParam && !cursor) {
+    throw validationError('Invalid cursor')
+  }
+
+  return { limit, cursor }
+}
+
+/**
+ * PostgREST `or` filter for the rows after a cursor
+ */
+export function cursorFilter(cursor: PageCursor): string {
+  return `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+}
+
+/**
+ * Splits the `limit + 1` rows fetched for a page into the page and the cursor of the next one
+ */
+export function toPage<T extends { created_at: string; id: string }>(rows: T[], limit: number): { items: T[]; nextCursor: string | null } {
+  const items = rows.slice(0, limit)
+  return {
+    items,
+    nextCursor: rows.length > limit ? encodeCursor(items[items.length - 1]) : null,
+  }
+}
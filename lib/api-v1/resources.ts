@@ -0,0 +1,67 @@
+import { KeywordThreadRanking, ReplyDraft, Thread } from '@/lib/types'
+
+// Threads are shared between users, so v1 only lists those ranking for one of the caller's
+// keywords: the inner join goes through keyword RLS
+export const THREAD_SELECT =
+  'id, reddit_thread_id, post_url, post_title, subreddit, scraped_at, created_at, updated_at, keyword_thread_rankings!inner(keyword_id, rank_position, first_seen_at, last_checked_at, dropped_at, keywords!inner(project_id))'
+
+type ThreadRankingRow = Pick<KeywordThreadRanking, 'keyword_id' | 'rank_position' | 'first_seen_at' | 'last_checked_at' | 'dropped_at'> & {
+  keywords: { project_id: string } | { project_id: string }[] | null
+}
+
+type ThreadRow = Pick<Thread, 'id' | 'reddit_thread_id' | 'post_url' | 'post_title' | 'subreddit' | 'scraped_at' | 'created_at' | 'updated_at'> & {
+  keyword_thread_rankings: ThreadRankingRow[] | null
+}
+
+/**
+ * A thread with its position for each of the caller's keywords it ranks for
+ */
+export function toApiThread(row: ThreadRow) {
+  const { keyword_thread_rankings: rankings, ...thread } = row
+  return {
+    ...thread,
+    rankings: (rankings || []).map(({ keywords, ...ranking }) => ({
+      ...ranking,
+      // Supabase may return an embedded many-to-one relation as an array
+      project_id: (Array.isArray(keywords) ? keywords[0] : keywords)?.project_id ?? null,
+    })),
+  }
+}
+
+// Current results of a keyword, best position first
+export const KEYWORD_RANKING_SELECT =
+  'id, thread_id, rank_position, first_seen_at, last_checked_at, dropped_at, location_code, language_code, device, threads(reddit_thread_id, post_url, post_title, subreddit)'
+
+type KeywordRankingRow = Pick<
+  KeywordThreadRanking,
+  'id' | 'thread_id' | 'rank_position' | 'first_seen_at' | 'last_checked_at' | 'dropped_at' | 'location_code' | 'language_code' | 'device'
+> & {
+  threads: Pick<Thread, 'reddit_thread_id' | 'post_url' | 'post_title' | 'subreddit'> | Pick<Thread, 'reddit_thread_id' | 'post_url' | 'post_title' | 'subreddit'>[] | null
+}
+
+export function toApiKeywordRanking(row: KeywordRankingRow) {
+  const { id, threads, ...ranking } = row
+  const thread = Array.isArray(threads) ? threads[0] : threads
+  return {
+    ranking_id: id,
+    ...ranking,
+    reddit_thread_id: thread?.reddit_thread_id || '',
+    post_url: thread?.post_url || '',
+    post_title: thread?.post_title || '',
+    subreddit: thread?.subreddit || '',
+  }
+}
+
+// Drafts carry the URL of their thread so clients don't need a second request
+export const DRAFT_SELECT =
+  'id, user_id, thread_id, draft_content, status, assignee_id, reviewer_id, reddit_account_id, scheduled_for, status_changed_at, created_at, updated_at, threads(post_url)'
+
+type DraftRow = ReplyDraft & {
+  threads: { post_url: string } | { post_url: string }[] | null
+}
+
+export function toApiDraft(row: DraftRow) {
+  const { threads, ...draft } = row
+  const thread = Array.isArray(threads) ? threads[0] : threads
+  return { ...draft, post_url: thread?.post_url || '' }
+}
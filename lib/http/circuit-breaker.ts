@@ -0,0 +1,55 @@
+import { CircuitOpenError, HttpProvider } from './errors'
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number // Consecutive failed calls that open the circuit
+  cooldownMs: number // How long calls are rejected before one trial call is let through
+}
+
+interface CircuitState {
+  failures: number
+  openedAt: number | null
+}
+
+// Per-process state. Each server instance trips its own breaker, which is enough to stop hammering a failing API.
+const circuits = new Map<HttpProvider, CircuitState>()
+
+function getState(provider: HttpProvider): CircuitState {
+  let state = circuits.get(provider)
+  if (!state) {
+    state = { failures: 0, openedAt: null }
+    circuits.set(provider, state)
+  }
+  return state
+}
+
+/**
+ * Throws CircuitOpenError while the provider's circuit is open. After the cooldown
+ * the circuit is half-open: calls go through and the next result closes or re-opens it.
+ */
+export function assertCircuitClosed(provider: HttpProvider, options: CircuitBreakerOptions): void {
+  const state = getState(provider)
+  if (state.openedAt === null) return
+
+  const elapsed = Date.now() - state.openedAt
+  if (elapsed < options.cooldownMs) {
+    throw new CircuitOpenError(provider, options.cooldownMs - elapsed)
+  }
+}
+
+export function recordSuccess(provider: HttpProvider): void {
+  const state = getState(provider)
+  state.failures = 0
+  state.openedAt = null
+}
+
+export function recordFailure(provider: HttpProvider, options: CircuitBreakerOptions): void {
+  const state = getState(provider)
+  state.failures++
+  if (state.failures >= options.failureThreshold) {
+    state.openedAt = Date.now()
+  }
+}
+
+export function resetCircuit(provider: HttpProvider): void {
+  circuits.delete(provider)
+}
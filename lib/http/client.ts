@@ -0,0 +1,128 @@
+import { assertCircuitClosed, CircuitBreakerOptions, recordFailure, recordSuccess } from './circuit-breaker'
+import {
+  ApiNetworkError,
+  ApiRateLimitError,
+  ApiResponseError,
+  ApiTimeoutError,
+  ExternalApiError,
+  HttpProvider,
+} from './errors'
+
+export interface HttpPolicy extends CircuitBreakerOptions {
+  timeoutMs: number // Per attempt, until the response headers arrive
+  maxRetries: number // Attempts after the first one, for 429, 5xx, timeouts and network errors
+  baseDelayMs: number // Backoff before the first retry, doubled on every retry
+  maxDelayMs: number
+}
+
+const DEFAULT_POLICY: HttpPolicy = {
+  timeoutMs: 30_000,
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  failureThreshold: 5,
+  cooldownMs: 60_000,
+}
+
+const PROVIDER_POLICIES: Record<HttpProvider, Partial<HttpPolicy>> = {
+  dataforseo: { timeoutMs: 60_000, maxRetries: 3 },
+  serpapi: { timeoutMs: 30_000, maxRetries: 3 },
+  // run-sync-get-dataset-items waits for the whole actor run, and every retry starts a new (paid) run
+  apify: { timeoutMs: 120_000, maxRetries: 1, baseDelayMs: 5000 },
+  reddit: { timeoutMs: 15_000, maxRetries: 2, baseDelayMs: 2000 },
+  openai: { timeoutMs: 60_000, maxRetries: 2 },
+  anthropic: { timeoutMs: 60_000, maxRetries: 2 },
+  // Models on local hardware answer slowly, and a busy server doesn't get less busy by retrying
+  local_llm: { timeoutMs: 180_000, maxRetries: 0 },
+}
+
+function readNumberEnv(name: string): number | undefined {
+  const raw = process.env[name]
+  if (raw === undefined || raw === '') return undefined
+  const value = Number(raw)
+  return Number.isFinite(value) && value >= 0 ? value : undefined
+}
+
+/**
+ * Effective policy for a provider: defaults, then provider defaults, then
+ * `<PROVIDER>_TIMEOUT_MS` / `<PROVIDER>_MAX_RETRIES` env overrides (e.g. APIFY_TIMEOUT_MS).
+ */
+export function getHttpPolicy(provider: HttpProvider): HttpPolicy {
+  const prefix = provider.toUpperCase()
+  const policy = { ...DEFAULT_POLICY, ...PROVIDER_POLICIES[provider] }
+  return {
+    ...policy,
+    timeoutMs: readNumberEnv(`${prefix}_TIMEOUT_MS`) ?? policy.timeoutMs,
+    maxRetries: readNumberEnv(`${prefix}_MAX_RETRIES`) ?? policy.maxRetries,
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+async function attempt(provider: HttpProvider, url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+  let response: Response
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal })
+  } catch (error) {
+    if (controller.signal.aborted) throw new ApiTimeoutError(provider, timeoutMs)
+    throw new ApiNetworkError(provider, error)
+  } finally {
+    clearTimeout(timer)
+  }
+
+  if (response.ok) return response
+
+  if (response.status === 429) {
+    throw new ApiRateLimitError(provider, parseRetryAfter(response.headers.get('retry-after')))
+  }
+
+  const body = await response.text().catch(() => '')
+  throw new ApiResponseError(provider, response.status, body)
+}
+
+/**
+ * fetch() for third-party APIs: per-attempt timeout, exponential backoff with jitter on 429/5xx,
+ * timeouts and network errors, and a per-provider circuit breaker. Resolves with a 2xx response
+ * or throws an ExternalApiError.
+ */
+export async function fetchWithPolicy(
+  provider: HttpProvider,
+  url: string,
+  init: RequestInit = {},
+  overrides: Partial<HttpPolicy> = {}
+): Promise<Response> {
+  const policy = { ...getHttpPolicy(provider), ...overrides }
+
+  for (let retry = 0; ; retry++) {
+    assertCircuitClosed(provider, policy)
+
+    try {
+      const response = await attempt(provider, url, init, policy.timeoutMs)
+      recordSuccess(provider)
+      return response
+    } catch (error) {
+      const apiError = error as ExternalApiError
+      // Only provider-side trouble counts towards the breaker, not our own bad requests
+      if (apiError.retryable) {
+        recordFailure(provider, policy)
+      }
+      if (!apiError.retryable || retry >= policy.maxRetries) throw apiError
+
+      const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry)
+      const retryAfter = apiError instanceof ApiRateLimitError ? apiError.retryAfterMs : undefined
+      const delay = Math.min(policy.maxDelayMs, retryAfter ?? backoff * (0.5 + Math.random() / 2))
+      console.warn(`${apiError.message}, retrying in ${Math.round(delay)}ms (retry ${retry + 1}/${policy.maxRetries})`)
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+}
@@ -0,0 +1,117 @@
+export type HttpProvider = 'dataforseo' | 'serpapi' | 'apify' | 'reddit' | 'openai' | 'anthropic' | 'local_llm'
+
+export type ExternalApiErrorCode =
+  | 'timeout'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'network_error'
+  | 'circuit_open'
+
+export const PROVIDER_LABELS: Record<HttpProvider, string> = {
+  dataforseo: 'DataForSEO',
+  serpapi: 'SerpAPI',
+  apify: 'Apify',
+  reddit: 'Reddit',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  local_llm: 'Local LLM',
+}
+
+/**
+ * Base class for failed calls to a third-party API. `retryable` tells callers
+ * (and the job queue) whether trying again later can succeed.
+ */
+export class ExternalApiError extends Error {
+  readonly provider: HttpProvider
+  readonly code: ExternalApiErrorCode
+  readonly retryable: boolean
+  readonly status?: number
+
+  constructor(provider: HttpProvider, code: ExternalApiErrorCode, message: string, options: { retryable: boolean; status?: number; cause?: unknown }) {
+    super(message, { cause: options.cause })
+    this.name = 'ExternalApiError'
+    this.provider = provider
+    this.code = code
+    this.retryable = options.retryable
+    this.status = options.status
+  }
+}
+
+export class ApiTimeoutError extends ExternalApiError {
+  constructor(provider: HttpProvider, timeoutMs: number) {
+    super(provider, 'timeout', `${PROVIDER_LABELS[provider]} did not respond within ${Math.round(timeoutMs / 1000)}s`, { retryable: true })
+    this.name = 'ApiTimeoutError'
+  }
+}
+
+export class ApiRateLimitError extends ExternalApiError {
+  readonly retryAfterMs?: number
+
+  constructor(provider: HttpProvider, retryAfterMs?: number) {
+    super(provider, 'rate_limited', `${PROVIDER_LABELS[provider]} rate limit reached, try again later`, { retryable: true, status: 429 })
+    this.name = 'ApiRateLimitError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * Non-2xx response. 5xx responses are retryable, 4xx responses (bad credentials, bad request) are not.
+ */
+export class ApiResponseError extends ExternalApiError {
+  readonly body: string
+
+  constructor(provider: HttpProvider, status: number, body: string) {
+    super(provider, 'upstream_error', `${PROVIDER_LABELS[provider]} API error: ${status}${body ? ` - ${body.slice(0, 300)}` : ''}`, {
+      retryable: status >= 500,
+      status,
+    })
+    this.name = 'ApiResponseError'
+    this.body = body
+  }
+}
+
+export class ApiNetworkError extends ExternalApiError {
+  constructor(provider: HttpProvider, cause: unknown) {
+    super(provider, 'network_error', `Could not reach ${PROVIDER_LABELS[provider]}: ${cause instanceof Error ? cause.message : 'network error'}`, {
+      retryable: true,
+      cause,
+    })
+    this.name = 'ApiNetworkError'
+  }
+}
+
+export class CircuitOpenError extends ExternalApiError {
+  constructor(provider: HttpProvider, retryInMs: number) {
+    super(provider, 'circuit_open', `${PROVIDER_LABELS[provider]} is failing repeatedly, calls are paused for ${Math.ceil(retryInMs / 1000)}s`, {
+      retryable: true,
+    })
+    this.name = 'CircuitOpenError'
+  }
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ExternalApiError ? error.retryable : true
+}
+
+/**
+ * Maps an error to the HTTP status, message and code API routes return, so every route
+ * reports third-party failures the same way: `{ data: null, error, code }`.
+ */
+export function describeError(error: unknown): { status: number; message: string; code: string } {
+  if (error instanceof ExternalApiError) {
+    const status = {
+      timeout: 504,
+      rate_limited: 429,
+      circuit_open: 503,
+      upstream_error: 502,
+      network_error: 502,
+    }[error.code]
+    return { status, message: error.message, code: error.code }
+  }
+
+  return {
+    status: 500,
+    message: error instanceof Error ? error.message : 'Unknown error',
+    code: 'internal_error',
+  }
+}
@@ -0,0 +1,16 @@
+export { fetchWithPolicy, getHttpPolicy } from './client'
+export type { HttpPolicy } from './client'
+export { resetCircuit } from './circuit-breaker'
+export { isPublicAddress, parseOutboundUrl, postToOutboundUrl } from './outbound'
+export {
+  ApiNetworkError,
+  ApiRateLimitError,
+  ApiResponseError,
+  ApiTimeoutError,
+  CircuitOpenError,
+  describeError,
+  ExternalApiError,
+  isRetryableError,
+  PROVIDER_LABELS,
+} from './errors'
+export type { ExternalApiErrorCode, HttpProvider } from './errors'
@@ -0,0 +1,117 @@
+import { lookup } from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import { BlockList, isIP, LookupFunction } from 'node:net'
+
+// Addresses user-configured URLs may not reach: loopback, private networks, link-local (which
+// includes the 169.254.169.254 cloud metadata service) and other ranges that aren't the internet.
+// IPv4 has its own list, since an IPv6 list with the IPv4-mapped range matches every IPv4 address.
+const BLOCKED_IPV4 = new BlockList()
+const BLOCKED_IPV6 = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_IPV4.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified and loopback
+  ['::ffff:0:0', 96], // IPv4-mapped
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_IPV6.addSubnet(network, prefix, 'ipv6')
+}
+
+// Names that only resolve inside a network
+const INTERNAL_HOSTNAME = /(^|\.)(localhost|local|internal|lan|home\.arpa)$/i
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 4) return !BLOCKED_IPV4.check(address, 'ipv4')
+  return family === 6 && !BLOCKED_IPV6.check(address, 'ipv6')
+}
+
+/**
+ * Validates a user-configured http(s) URL that the server will call (webhooks). Hosts must be
+ * public: IP literals are checked here, and names again when they're resolved at send time.
+ */
+export function parseOutboundUrl(value: unknown, field: string): { url: string; error: null } | { url: null; error: string } {
+  const invalid = { url: null, error: `${field} must be an http(s) URL on a public host` }
+  if (typeof value !== 'string') return invalid
+
+  let url: URL
+  try {
+    url = new URL(value.trim())
+  } catch {
+    return invalid
+  }
+
+  if (!['http:', 'https:'].includes(url.protocol) || url.username || url.password) return invalid
+
+  // IPv6 hosts keep their brackets in `hostname`
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  const isPublicHost = isIP(host) ? isPublicAddress(host) : host.includes('.') && !INTERNAL_HOSTNAME.test(host)
+  return isPublicHost ? { url: value.trim(), error: null } : invalid
+}
+
+// Resolves like the default lookup, but fails when the name resolves to any non-public address.
+// The connection uses the addresses checked here, so DNS can't change them in between.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0)
+
+    const blocked = addresses.find((a) => !isPublicAddress(a.address))
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`${hostname} does not resolve to a public address`), '', 0)
+    }
+
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+/**
+ * POSTs a body to a user-configured URL and resolves with the response status. The host is
+ * checked again on every call, redirects aren't followed, and the response body is never read,
+ * so a URL pointing at an internal service can neither be reached nor read back.
+ */
+export function postToOutboundUrl(
+  value: string,
+  init: { headers: Record<string, string>; body: string; timeoutMs: number }
+): Promise<number> {
+  const { url, error } = parseOutboundUrl(value, 'The URL')
+  if (error !== null) return Promise.reject(new Error(error))
+
+  const target = new URL(url)
+  const request = target.protocol === 'https:' ? https.request : http.request
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...init.headers, 'Content-Length': Buffer.byteLength(init.body) },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(init.timeoutMs),
+      },
+      (response) => {
+        response.resume()
+        resolve(response.statusCode ?? 0)
+      }
+    )
+    req.on('error', reject)
+    req.end(init.body)
+  })
+}
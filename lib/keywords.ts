@@ -0,0 +1,62 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseSerpSettingsInput } from './serp-settings'
+import { Keyword, REFRESH_INTERVALS } from './types'
+
+/**
+ * Page of a keyword's rankings. Keyword text is only unique per project, so pages go by ID.
+ */
+export function keywordPath(keyword: Pick<Keyword, 'id' | 'project_id'>): string {
+  return `/projects/${keyword.project_id}/keywords/${keyword.id}`
+}
+
+/**
+ * The user's keywords with this text, one per project (optionally only in one project), with
+ * the project name. Resolves old links that named a keyword by its text.
+ */
+export async function findKeywordsByText(
+  supabase: SupabaseClient,
+  keyword: string,
+  projectId?: string | null
+): Promise<Array<Pick<Keyword, 'id' | 'keyword' | 'project_id'> & { project_name: string }>> {
+  let query = supabase
+    .from('keywords')
+    .select('id, keyword, project_id, projects(name)')
+    .eq('keyword', keyword)
+    .order('created_at', { ascending: true })
+
+  if (projectId) {
+    query = query.eq('project_id', projectId)
+  }
+
+  const { data, error } = await query
+
+  if (error) throw error
+
+  return (data || []).map(({ projects, ...match }) => {
+    // Supabase may return an embedded many-to-one relation as an array
+    const project = Array.isArray(projects) ? projects[0] : projects
+    return { ...match, project_name: project?.name || '' }
+  })
+}
+
+/**
+ * Validates a keyword's market overrides and refresh interval from a request body. Null clears an
+ * override so the project setting applies; next_check_at follows the interval in the database.
+ */
+export function parseKeywordSettingsInput(body: Record<string, unknown>): { data: Record<string, unknown>; error: string | null } {
+  const serpSettings = parseSerpSettingsInput(body, true)
+  if (serpSettings.error) {
+    return { data: {}, error: serpSettings.error }
+  }
+
+  const data: Record<string, unknown> = { ...serpSettings.data }
+
+  if (body.refresh_interval !== undefined) {
+    if (!REFRESH_INTERVALS.some((interval) => interval.value === body.refresh_interval)) {
+      return { data, error: `Invalid refresh_interval. Must be one of: ${REFRESH_INTERVALS.map((interval) => interval.value).join(', ')}` }
+    }
+    data.refresh_interval = body.refresh_interval
+  }
+
+  return { data, error: null }
+}
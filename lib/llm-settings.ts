@@ -0,0 +1,131 @@
+import { LlmProviderName, LlmSettings } from './types'
+
+export const DEFAULT_SYSTEM_PROMPT = 'You are an expert Reddit community marketer.'
+
+/**
+ * Providers a project can generate replies with. The suggested models only drive the pickers,
+ * any model the provider serves can be stored.
+ */
+export const LLM_PROVIDERS: Array<{ name: LlmProviderName; label: string; defaultModel: string; models: string[] }> = [
+  { name: 'openai', label: 'OpenAI', defaultModel: 'gpt-5-mini', models: ['gpt-5-mini', 'gpt-5', 'gpt-4o-mini', 'gpt-4o'] },
+  { name: 'anthropic', label: 'Anthropic', defaultModel: 'claude-sonnet-4-5', models: ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-opus-4-1'] },
+  { name: 'local', label: 'Local (OpenAI-compatible)', defaultModel: 'llama3.1', models: ['llama3.1', 'qwen2.5', 'mistral'] },
+  { name: 'fake', label: 'Fake (tests)', defaultModel: 'fake-1', models: ['fake-1'] },
+]
+
+interface LlmSettingsColumns {
+  llm_provider?: string | null
+  llm_model?: string | null
+  llm_temperature?: number | string | null
+  llm_max_tokens?: number | null
+  llm_system_prompt?: string | null
+}
+
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return LLM_PROVIDERS.some((p) => p.name === value)
+}
+
+/**
+ * Resolves the model and parameters a project generates replies with. Project settings win over
+ * the deployment default (LLM_PROVIDER and LLM_MODEL), which wins over OpenAI's gpt-5-mini.
+ * Without a project, the deployment default applies.
+ */
+export function resolveLlmSettings(project?: LlmSettingsColumns | null): LlmSettings {
+  const envProvider = process.env.LLM_PROVIDER
+  const provider = isLlmProviderName(project?.llm_provider)
+    ? project.llm_provider
+    : isLlmProviderName(envProvider) ? envProvider : 'openai'
+
+  // LLM_MODEL belongs to the deployment's provider, so a project picking another provider gets that one's default
+  const envModel = provider === envProvider || (!envProvider && provider === 'openai') ? process.env.LLM_MODEL : undefined
+  const defaultModel = LLM_PROVIDERS.find((p) => p.name === provider)?.defaultModel || 'gpt-5-mini'
+  const temperature = project?.llm_temperature === null || project?.llm_temperature === undefined ? null : Number(project.llm_temperature)
+
+  return {
+    provider,
+    model: project?.llm_model || envModel || defaultModel,
+    temperature: temperature !== null && Number.isFinite(temperature) ? temperature : null,
+    maxTokens: project?.llm_max_tokens || null,
+    systemPrompt: project?.llm_system_prompt?.trim() || DEFAULT_SYSTEM_PROMPT,
+  }
+}
+
+/**
+ * Whether a model honours a temperature. OpenAI's reasoning models (o-series, and gpt-5 except its
+ * chat variants) only accept their default, so none is sent to them.
+ */
+export function supportsTemperature(settings: Pick<LlmSettings, 'provider' | 'model'>): boolean {
+  return !(settings.provider === 'openai' && isReasoningModel(settings.model))
+}
+
+/**
+ * OpenAI models that spend output tokens on reasoning before the reply. Their token limit
+ * (max_completion_tokens) covers both.
+ */
+export function isReasoningModel(model: string): boolean {
+  return /^(o\d|gpt-5(?!-chat))/.test(model)
+}
+
+/**
+ * Short label of a project's model, e.g. "Anthropic claude-haiku-4-5"
+ */
+export function formatLlmSettings(settings: LlmSettings): string {
+  const provider = LLM_PROVIDERS.find((p) => p.name === settings.provider)?.label || settings.provider
+  return `${provider} ${settings.model}`
+}
+
+/**
+ * Validates LLM settings coming from a request body and maps them to database columns.
+ * `null` clears a setting back to its default.
+ */
+export function parseLlmSettingsInput(body: {
+  llm_provider?: unknown
+  llm_model?: unknown
+  llm_temperature?: unknown
+  llm_max_tokens?: unknown
+  llm_system_prompt?: unknown
+}): { data: LlmSettingsColumns; error: string | null } {
+  const data: LlmSettingsColumns = {}
+
+  if (body.llm_provider !== undefined) {
+    if (body.llm_provider !== null && !isLlmProviderName(body.llm_provider)) {
+      return { data, error: `llm_provider must be one of: ${LLM_PROVIDERS.map((p) => p.name).join(', ')}` }
+    }
+    data.llm_provider = body.llm_provider
+  }
+
+  if (body.llm_model !== undefined) {
+    if (body.llm_model !== null && typeof body.llm_model !== 'string') {
+      return { data, error: 'llm_model must be a string' }
+    }
+    data.llm_model = body.llm_model?.trim() || null
+  }
+
+  if (body.llm_temperature !== undefined) {
+    if (body.llm_temperature === null) {
+      data.llm_temperature = null
+    } else {
+      const temperature = Number(body.llm_temperature)
+      if (typeof body.llm_temperature === 'boolean' || !Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+        return { data, error: 'llm_temperature must be a number from 0 to 2' }
+      }
+      data.llm_temperature = Math.round(temperature * 100) / 100
+    }
+  }
+
+  if (body.llm_max_tokens !== undefined) {
+    if (body.llm_max_tokens !== null && (!Number.isInteger(body.llm_max_tokens) || (body.llm_max_tokens as number) < 1)) {
+      return { data, error: 'llm_max_tokens must be a positive whole number' }
+    }
+    data.llm_max_tokens = body.llm_max_tokens as number | null
+  }
+
+  if (body.llm_system_prompt !== undefined) {
+    if (body.llm_system_prompt !== null && typeof body.llm_system_prompt !== 'string') {
+      return { data, error: 'llm_system_prompt must be a string' }
+    }
+    data.llm_system_prompt = body.llm_system_prompt?.trim() || null
+  }
+
+  return { data, error: null }
+}
@@ -0,0 +1,58 @@
+import { fetchWithPolicy } from '../http'
+import { getAnthropicCost } from '../usage'
+import { LlmCompletion, LlmCompletionRequest, LlmProvider } from './types'
+
+// The Messages API requires max_tokens; a Reddit comment never gets near it
+const DEFAULT_MAX_TOKENS = 2048
+
+interface MessagesResponse {
+  model?: string
+  content?: Array<{ type: string; text?: string }>
+  usage?: { input_tokens?: number; output_tokens?: number }
+}
+
+/**
+ * Anthropic's Messages API (`POST /v1/messages`)
+ */
+export function createAnthropicProvider(): LlmProvider {
+  const apiKey = process.env.ANTHROPIC_API_KEY
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY not configured')
+  }
+
+  return {
+    name: 'anthropic',
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+      const response = await fetchWithPolicy('anthropic', 'https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model: request.model,
+          system: request.system,
+          messages: request.messages,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          // Anthropic accepts 0 to 1 only
+          ...(request.temperature !== null ? { temperature: Math.min(request.temperature, 1) } : {}),
+        }),
+      })
+
+      const result: MessagesResponse = await response.json()
+      const model = result.model || request.model
+      return {
+        text: (result.content || [])
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text || '')
+          .join('')
+          .trim(),
+        model,
+        inputTokens: result.usage?.input_tokens ?? null,
+        outputTokens: result.usage?.output_tokens ?? null,
+        cost: getAnthropicCost(model, result.usage),
+      }
+    },
+  }
+}
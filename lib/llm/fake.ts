@@ -0,0 +1,41 @@
+import { createHash } from 'node:crypto'
+import { LlmCompletion, LlmCompletionRequest, LlmProvider } from './types'
+
+const OPENINGS = [
+  'Been in a similar spot, and what helped me most was keeping it simple.',
+  'I went back and forth on this for a while before it clicked.',
+  'Short answer: it depends on what you need day to day.',
+]
+
+function countTokens(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * Deterministic stand-in for a model, for tests and offline development. The same request always
+ * gets the same reply, picked from the prompt's hash, and nothing is billed. FAKE_LLM_REPLY
+ * replaces the reply with a fixed text.
+ */
+export function createFakeProvider(): LlmProvider {
+  return {
+    name: 'fake',
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+      const prompt = request.messages.map((m) => m.content).join('\n')
+      const hash = createHash('sha256').update(`${request.model}\n${request.system}\n${prompt}`).digest('hex')
+
+      let text = process.env.FAKE_LLM_REPLY ||
+        `${OPENINGS[parseInt(hash.slice(0, 8), 16) % OPENINGS.length]} Try a couple of options side by side for a week and keep the one you actually open without thinking. (fake reply ${hash.slice(0, 8)})`
+      if (request.maxTokens !== null) {
+        text = text.split(/\s+/).slice(0, request.maxTokens).join(' ')
+      }
+
+      return {
+        text,
+        model: request.model,
+        inputTokens: countTokens(request.system) + countTokens(prompt),
+        outputTokens: countTokens(text),
+        cost: 0,
+      }
+    },
+  }
+}
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isLlmProviderName, LLM_PROVIDERS, resolveLlmSettings } from '../llm-settings'
+import { LlmSettings } from '../types'
+import { UsageRecorder } from '../usage'
+import { createAnthropicProvider } from './anthropic'
+import { createFakeProvider } from './fake'
+import { createLocalProvider, createOpenAIProvider } from './openai'
+import { LlmCompletion, LlmProvider } from './types'
+
+export type { LlmCompletion, LlmCompletionRequest, LlmMessage, LlmProvider } from './types'
+
+/**
+ * Returns the client of an LLM provider. Throws when the provider's API key isn't configured.
+ */
+export function getLlmProvider(name: string): LlmProvider {
+  if (!isLlmProviderName(name)) {
+    throw new Error(`Unknown LLM provider "${name}". Expected one of: ${LLM_PROVIDERS.map((p) => p.name).join(', ')}`)
+  }
+
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider()
+    case 'anthropic':
+      return createAnthropicProvider()
+    case 'local':
+      return createLocalProvider()
+    case 'fake':
+      return createFakeProvider()
+  }
+}
+
+/**
+ * The model and parameters replies for a project are generated with, or the deployment default
+ * without a project
+ */
+export async function getProjectLlmSettings(supabase: SupabaseClient, projectId: string | null): Promise<LlmSettings> {
+  if (!projectId) return resolveLlmSettings(null)
+
+  const { data, error } = await supabase
+    .from('projects')
+    .select('llm_provider, llm_model, llm_temperature, llm_max_tokens, llm_system_prompt')
+    .eq('id', projectId)
+    .maybeSingle()
+
+  if (error) throw error
+  return resolveLlmSettings(data)
+}
+
+/**
+ * Generates a reply to a prompt with a project's model and parameters, and records the call in the
+ * usage ledger as a reply generation
+ */
+export async function generateReply(
+  settings: LlmSettings,
+  prompt: string,
+  usage: UsageRecorder,
+  provider: LlmProvider = getLlmProvider(settings.provider)
+): Promise<LlmCompletion> {
+  const completion = await provider.complete({
+    model: settings.model,
+    system: settings.systemPrompt,
+    messages: [{ role: 'user', content: prompt }],
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+  })
+
+  await usage.record({
+    provider: provider.name,
+    operation: 'reply_generation',
+    model: completion.model,
+    inputTokens: completion.inputTokens,
+    outputTokens: completion.outputTokens,
+    cost: completion.cost,
+  })
+
+  return completion
+}
@@ -0,0 +1,92 @@
+import { fetchWithPolicy, HttpProvider } from '../http'
+import { supportsTemperature } from '../llm-settings'
+import { getOpenAICost } from '../usage'
+import { LlmCompletion, LlmCompletionRequest, LlmProvider } from './types'
+
+interface ChatCompletionResponse {
+  model?: string
+  choices?: Array<{ message?: { content?: string | null } }>
+  usage?: { prompt_tokens?: number; completion_tokens?: number }
+}
+
+interface ChatCompletionsConfig {
+  name: string
+  httpProvider: HttpProvider
+  baseUrl: string // Up to and including /v1
+  apiKey: string | null
+  maxTokensParam: 'max_completion_tokens' | 'max_tokens'
+  acceptsTemperature: (model: string) => boolean
+  getCost: (model: string, usage: ChatCompletionResponse['usage']) => number | null
+}
+
+/**
+ * Chat Completions API (`POST /v1/chat/completions`), as served by OpenAI and by local servers
+ * that mimic it
+ */
+function createChatCompletionsProvider(config: ChatCompletionsConfig): LlmProvider {
+  return {
+    name: config.name,
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+      const response = await fetchWithPolicy(config.httpProvider, `${config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: [{ role: 'system', content: request.system }, ...request.messages],
+          ...(request.temperature !== null && config.acceptsTemperature(request.model) ? { temperature: request.temperature } : {}),
+          ...(request.maxTokens !== null ? { [config.maxTokensParam]: request.maxTokens } : {}),
+        }),
+      })
+
+      const result: ChatCompletionResponse = await response.json()
+      const model = result.model || request.model
+      return {
+        text: result.choices?.[0]?.message?.content?.trim() || '',
+        model,
+        inputTokens: result.usage?.prompt_tokens ?? null,
+        outputTokens: result.usage?.completion_tokens ?? null,
+        cost: config.getCost(model, result.usage),
+      }
+    },
+  }
+}
+
+export function createOpenAIProvider(): LlmProvider {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY not configured')
+  }
+
+  return createChatCompletionsProvider({
+    name: 'openai',
+    httpProvider: 'openai',
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey,
+    // Reasoning models (gpt-5, o-series) reject max_tokens
+    maxTokensParam: 'max_completion_tokens',
+    // They also reject any temperature but their default; the Projects page says so next to the setting
+    acceptsTemperature: (model) => supportsTemperature({ provider: 'openai', model }),
+    getCost: getOpenAICost,
+  })
+}
+
+/**
+ * A model served on your own hardware by an OpenAI-compatible server such as Ollama
+ * (`http://localhost:11434/v1`, the default) or llama.cpp's llama-server (`http://localhost:8080/v1`),
+ * set with LOCAL_LLM_BASE_URL. LOCAL_LLM_API_KEY is sent when the server expects one.
+ */
+export function createLocalProvider(): LlmProvider {
+  return createChatCompletionsProvider({
+    name: 'local',
+    httpProvider: 'local_llm',
+    baseUrl: (process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+    apiKey: process.env.LOCAL_LLM_API_KEY || null,
+    maxTokensParam: 'max_tokens',
+    acceptsTemperature: () => true,
+    // Nothing is billed per token
+    getCost: () => 0,
+  })
+}
@@ -0,0 +1,28 @@
+export interface LlmMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface LlmCompletionRequest {
+  model: string
+  system: string
+  messages: LlmMessage[]
+  temperature: number | null // Null leaves it to the model
+  maxTokens: number | null // Null leaves it to the provider (Anthropic requires one, see anthropic.ts)
+}
+
+export interface LlmCompletion {
+  text: string
+  model: string // As reported by the provider, e.g. a dated model name
+  inputTokens: number | null
+  outputTokens: number | null
+  cost: number | null // USD, null when the model has no known price
+}
+
+export interface LlmProvider {
+  name: string // Recorded as the usage ledger's provider
+  /**
+   * Returns the model's reply to a conversation
+   */
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>
+}
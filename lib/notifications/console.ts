@@ -0,0 +1,14 @@
+import { EmailTransport } from './types'
+
+/**
+ * Logs emails instead of sending them, for local development
+ */
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+
+    async send(message) {
+      console.log(`[email] To: ${message.to.join(', ')}\n[email] Subject: ${message.subject}\n${message.text}`)
+    },
+  }
+}
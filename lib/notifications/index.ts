@@ -0,0 +1,142 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createConsoleTransport } from './console'
+import { createSmtpTransport } from './smtp'
+import { EmailMessage, EmailTransport } from './types'
+import { sendWebhook } from './webhook'
+import { AlertNotification, DeliveryStatus } from '../types'
+
+export type { EmailMessage, EmailTransport } from './types'
+export { sendWebhook } from './webhook'
+
+export const EMAIL_TRANSPORTS = ['smtp', 'console'] as const
+
+// Email and webhook deliveries are retried by the delivery worker until this many attempts,
+// waiting RETRY_BASE_DELAY_MS after the first failure and twice as long after each next one
+export const MAX_DELIVERY_ATTEMPTS = 5
+const RETRY_BASE_DELAY_MS = 5 * 60_000
+
+/**
+ * Returns the email transport configured via EMAIL_TRANSPORT (defaults to SMTP when SMTP_HOST is set, else console)
+ */
+export function getEmailTransport(name: string = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')): EmailTransport {
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport()
+    case 'console':
+      return createConsoleTransport()
+    default:
+      throw new Error(`Unknown email transport "${name}". Expected one of: ${EMAIL_TRANSPORTS.join(', ')}`)
+  }
+}
+
+function formatNotificationEmail(notification: AlertNotification): EmailMessage {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  return {
+    to: (notification.email_to || '').split(',').map((address) => address.trim()).filter(Boolean),
+    subject: notification.title,
+    text: `${notification.body || notification.title}\n\nAll notifications: ${siteUrl}/notifications\n`,
+  }
+}
+
+/**
+ * Payload POSTed to alert rule webhooks
+ */
+export function toWebhookPayload(notification: AlertNotification) {
+  return {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    project_id: notification.project_id,
+    keyword_id: notification.keyword_id,
+    thread_id: notification.thread_id,
+    rule_id: notification.rule_id,
+    data: notification.data,
+    created_at: notification.created_at,
+  }
+}
+
+/**
+ * Sends the pending email and webhook deliveries of notifications and records the outcome.
+ * Failed channels stay pending for a retry with exponential backoff until MAX_DELIVERY_ATTEMPTS,
+ * then are marked failed.
+ */
+export async function deliverNotifications(
+  supabase: SupabaseClient,
+  notifications: AlertNotification[],
+  transport?: EmailTransport
+): Promise<{ sent: number; failed: number }> {
+  let sent = 0
+  let failed = 0
+
+  for (const notification of notifications) {
+    if (notification.email_status !== 'pending' && notification.webhook_status !== 'pending') continue
+
+    const attempts = notification.delivery_attempts + 1
+    const failedStatus: DeliveryStatus = attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending'
+    const errors: string[] = []
+    const update: Partial<AlertNotification> = { delivery_attempts: attempts }
+
+    if (notification.email_status === 'pending') {
+      try {
+        await (transport || getEmailTransport()).send(formatNotificationEmail(notification))
+        update.email_status = 'sent'
+      } catch (error) {
+        errors.push(`Email: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        update.email_status = failedStatus
+      }
+    }
+
+    if (notification.webhook_status === 'pending' && notification.webhook_url) {
+      try {
+        await sendWebhook(notification.webhook_url, toWebhookPayload(notification))
+        update.webhook_status = 'sent'
+      } catch (error) {
+        errors.push(`Webhook: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        update.webhook_status = failedStatus
+      }
+    }
+
+    update.delivery_error = errors.length > 0 ? errors.join('; ') : null
+    update.next_attempt_at = update.email_status === 'pending' || update.webhook_status === 'pending'
+      ? new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)).toISOString()
+      : null
+    if (errors.length > 0) {
+      failed++
+      console.error(`Error delivering notification ${notification.id}: ${update.delivery_error}`)
+    } else {
+      sent++
+    }
+
+    const { error } = await supabase
+      .from('notifications')
+      .update(update)
+      .eq('id', notification.id)
+
+    if (error) {
+      console.error(`Error recording delivery of notification ${notification.id}:`, error)
+    }
+  }
+
+  return { sent, failed }
+}
+
+/**
+ * Delivers notifications whose email or webhook delivery is due, oldest first.
+ * Covers notifications created by the edge function and retries of failed deliveries.
+ */
+export async function deliverPendingNotifications(supabase: SupabaseClient, limit = 50) {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .or('email_status.eq.pending,webhook_status.eq.pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit)
+
+  if (error) throw error
+
+  const notifications = (data || []) as AlertNotification[]
+  const result = await deliverNotifications(supabase, notifications)
+  return { processed: notifications.length, ...result }
+}
@@ -0,0 +1,192 @@
+import net from 'node:net'
+import os from 'node:os'
+import tls from 'node:tls'
+import { randomUUID } from 'node:crypto'
+import { EmailMessage, EmailTransport } from './types'
+
+const SMTP_TIMEOUT_MS = 30_000
+
+interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean // Implicit TLS (port 465). Otherwise STARTTLS is used when the server offers it.
+  user?: string
+  password?: string
+  from: string // "Name <address>" or a bare address
+}
+
+interface SmtpReply {
+  code: number
+  message: string
+}
+
+interface ReplyReader {
+  read(): Promise<SmtpReply>
+  detach(): void
+}
+
+// Collects replies from the socket. Multiline replies continue with "250-", the last line is "250 ".
+function createReplyReader(socket: net.Socket): ReplyReader {
+  let buffer = ''
+  let lines: string[] = []
+  let failure: Error | null = null
+  const replies: SmtpReply[] = []
+  const waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = []
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8')
+    let index
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index)
+      buffer = buffer.slice(index + 2)
+      lines.push(line.slice(4))
+      if (line[3] === '-') continue
+
+      const reply = { code: Number(line.slice(0, 3)), message: lines.join('\n') }
+      lines = []
+      const waiter = waiters.shift()
+      if (waiter) {
+        waiter.resolve(reply)
+      } else {
+        replies.push(reply)
+      }
+    }
+  }
+  const onError = (error: Error) => {
+    failure = error
+    waiters.splice(0).forEach((waiter) => waiter.reject(error))
+  }
+  const onClose = () => onError(failure || new Error('SMTP connection closed'))
+
+  socket.on('data', onData)
+  socket.on('error', onError)
+  socket.on('close', onClose)
+
+  return {
+    read() {
+      const reply = replies.shift()
+      if (reply) return Promise.resolve(reply)
+      if (failure) return Promise.reject(failure)
+      return new Promise((resolve, reject) => waiters.push({ resolve, reject }))
+    },
+    detach() {
+      socket.off('data', onData)
+      socket.off('error', onError)
+      socket.off('close', onClose)
+    },
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket))
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error(`SMTP server ${config.host} timed out`)))
+    socket.once('error', reject)
+  })
+}
+
+function upgradeToTls(socket: net.Socket, config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: config.host }, () => resolve(secureSocket))
+    secureSocket.setTimeout(SMTP_TIMEOUT_MS, () => secureSocket.destroy(new Error(`SMTP server ${config.host} timed out`)))
+    secureSocket.once('error', reject)
+  })
+}
+
+function addressOf(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] || mailbox.trim()
+}
+
+// RFC 2047 encoded-word for non-ASCII headers
+function encodeHeader(value: string): string {
+  return /^[\x00-\x7f]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+}
+
+// The body is base64 encoded, so no line can start with "." and no dot-stuffing is needed
+function formatMessage(from: string, message: EmailMessage): string {
+  const body = Buffer.from(message.text).toString('base64').match(/.{1,76}/g) || []
+  return [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${addressOf(from).split('@')[1] || 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...body,
+  ].join('\r\n')
+}
+
+/**
+ * Sends email through an SMTP server configured by SMTP_HOST, SMTP_PORT, SMTP_SECURE,
+ * SMTP_USER, SMTP_PASSWORD and SMTP_FROM. Authenticates with AUTH PLAIN when a user is set.
+ */
+export function createSmtpTransport(): EmailTransport {
+  return {
+    name: 'smtp',
+
+    async send(message) {
+      const secure = process.env.SMTP_SECURE === 'true'
+      const config: SmtpConfig = {
+        host: process.env.SMTP_HOST || '',
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: process.env.SMTP_FROM || '',
+      }
+
+      if (!config.host || !config.from) {
+        throw new Error('SMTP not configured (SMTP_HOST and SMTP_FROM are required)')
+      }
+
+      let socket = await connect(config)
+      let reader = createReplyReader(socket)
+
+      const expect = async (codes: number[], step: string) => {
+        const reply = await reader.read()
+        if (!codes.includes(reply.code)) {
+          throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.message}`)
+        }
+        return reply
+      }
+      const command = (line: string, codes: number[], step = line.split(' ')[0]) => {
+        socket.write(`${line}\r\n`)
+        return expect(codes, step)
+      }
+
+      try {
+        await expect([220], 'greeting')
+        const hello = await command(`EHLO ${os.hostname()}`, [250])
+
+        if (!config.secure && /^STARTTLS\b/im.test(hello.message)) {
+          await command('STARTTLS', [220])
+          reader.detach()
+          socket = await upgradeToTls(socket, config)
+          reader = createReplyReader(socket)
+          await command(`EHLO ${os.hostname()}`, [250])
+        }
+
+        if (config.user) {
+          const credentials = Buffer.from(`\0${config.user}\0${config.password || ''}`).toString('base64')
+          await command(`AUTH PLAIN ${credentials}`, [235], 'AUTH')
+        }
+
+        await command(`MAIL FROM:<${addressOf(config.from)}>`, [250], 'MAIL FROM')
+        for (const recipient of message.to) {
+          await command(`RCPT TO:<${addressOf(recipient)}>`, [250, 251], 'RCPT TO')
+        }
+        await command('DATA', [354])
+        await command(`${formatMessage(config.from, message)}\r\n.`, [250], 'message')
+        await command('QUIT', [221]).catch(() => undefined)
+      } finally {
+        reader.detach()
+        socket.destroy()
+      }
+    },
+  }
+}
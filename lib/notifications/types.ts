@@ -0,0 +1,13 @@
+export interface EmailMessage {
+  to: string[]
+  subject: string
+  text: string
+}
+
+export interface EmailTransport {
+  name: string
+  /**
+   * Sends a plain-text email. Throws when the message is not accepted.
+   */
+  send(message: EmailMessage): Promise<void>
+}
@@ -0,0 +1,22 @@
+import { postToOutboundUrl } from '../http'
+
+const WEBHOOK_TIMEOUT_MS = 10_000
+
+/**
+ * POSTs a JSON payload to an outbound webhook, through the same public-host checks as project
+ * webhooks (lib/webhooks.ts). Throws on timeouts, non-public hosts and non-2xx responses.
+ */
+export async function sendWebhook(url: string, payload: unknown): Promise<void> {
+  const status = await postToOutboundUrl(url, {
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'reddit-seo/0.1',
+    },
+    body: JSON.stringify(payload),
+    timeoutMs: WEBHOOK_TIMEOUT_MS,
+  })
+
+  if (status < 200 || status >= 300) {
+    throw new Error(`Webhook responded with HTTP ${status}`)
+  }
+}
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getEmailTransport } from './notifications'
+import { ORGANIZATION_ROLES, OrganizationInvitation, OrganizationRole } from './types'
+
+// Roles that can change projects and their keywords, alert rules and webhooks
+export const PROJECT_EDITOR_ROLES: OrganizationRole[] = ['owner', 'editor']
+
+export function canEditProjects(role: OrganizationRole | null | undefined): boolean {
+  return !!role && PROJECT_EDITOR_ROLES.includes(role)
+}
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return ORGANIZATION_ROLES.some((role) => role.value === value)
+}
+
+/**
+ * Organization that new projects go to when none is given: the user's oldest one they can
+ * edit projects in, which is their personal organization unless they left it
+ */
+export async function getDefaultOrganizationId(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('organization_id')
+    .eq('user_id', userId)
+    .in('role', PROJECT_EDITOR_ROLES)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.organization_id || null
+}
+
+/**
+ * Organization a new project goes to: the requested one if the user may create projects in it,
+ * else the default. Null when the user can't create projects anywhere (or in the requested one).
+ */
+export async function resolveProjectOrganizationId(
+  supabase: SupabaseClient,
+  userId: string,
+  requestedId: unknown
+): Promise<string | null> {
+  if (typeof requestedId !== 'string') {
+    return getDefaultOrganizationId(supabase, userId)
+  }
+  return canEditProjects(await getOrganizationRole(supabase, requestedId, userId)) ? requestedId : null
+}
+
+/**
+ * The signed-in user's role in an organization, or null when not a member
+ */
+export async function getOrganizationRole(
+  supabase: SupabaseClient,
+  organizationId: string,
+  userId: string
+): Promise<OrganizationRole | null> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.role || null
+}
+
+/**
+ * Whether a user is in one of the signed-in user's organizations (RLS only shows co-members)
+ */
+export async function isCoMember(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('user_id', userId)
+    .limit(1)
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+/**
+ * Organizations always keep an owner: the last one can't leave, be removed or change role
+ */
+export async function isLastOwner(supabase: SupabaseClient, organizationId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('organization_id', organizationId)
+    .eq('role', 'owner')
+
+  if (error) throw error
+  return (data || []).length === 1 && data[0].user_id === userId
+}
+
+/**
+ * Validates an invitation from a request body
+ */
+export function parseInvitationInput(body: Record<string, unknown>): { data: { email: string; role: OrganizationRole } | null; error: string | null } {
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : ''
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { data: null, error: 'A valid email is required' }
+  }
+
+  const role = body.role === undefined ? 'editor' : body.role
+  if (!isOrganizationRole(role)) {
+    return { data: null, error: `role must be one of: ${ORGANIZATION_ROLES.map((r) => r.value).join(', ')}` }
+  }
+
+  return { data: { email, role }, error: null }
+}
+
+/**
+ * Emails an invitation. The invitee accepts it on /organizations after signing in with that
+ * email. A failed email is logged; the invitation stays valid and visible there.
+ */
+export async function sendInvitationEmail(
+  invitation: Pick<OrganizationInvitation, 'email' | 'role'>,
+  organizationName: string,
+  inviterEmail: string | undefined
+): Promise<void> {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  const role = ORGANIZATION_ROLES.find((r) => r.value === invitation.role)?.label || invitation.role
+
+  try {
+    await getEmailTransport().send({
+      to: [invitation.email],
+      subject: `You're invited to ${organizationName}`,
+      text: `${inviterEmail || 'A team member'} invited you to join ${organizationName} as ${role}.\n\n` +
+        `Sign in with ${invitation.email} to accept: ${siteUrl}/organizations\n`,
+    })
+  } catch (error) {
+    console.error(`Error sending invitation email to ${invitation.email}:`, error)
+  }
+}
@@ -0,0 +1,271 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseRedditUrl } from './reddit-url'
+import { setReplyDraftStatus, validateStatusChange } from './reply-drafts'
+import { getThreadScraper, scrapeCommentStatus, ThreadScraper } from './scrapers'
+import { findThreadProjectId } from './threads'
+import {
+  PostedComment,
+  PostedCommentGroupBy,
+  PostedCommentStatus,
+  PostedCommentSummary,
+  ReplyDraft,
+  ReplyDraftWithThread,
+} from './types'
+import { createUsageRecorder, getScrapeCost } from './usage'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Comments gain most of their votes and replies in the first days, so they're checked every
+// 6 hours for 2 days, then daily, and no longer after 30 days
+const FREQUENT_CHECKS_FOR_MS = 2 * DAY_MS
+const TRACK_FOR_MS = 30 * DAY_MS
+
+export const POSTED_COMMENT_GROUP_BYS: PostedCommentGroupBy[] = ['thread', 'subreddit', 'keyword']
+
+export interface CheckPostedCommentsResult {
+  checked: number
+  live: number
+  removed: number
+  deleted: number
+  failed: number
+}
+
+/**
+ * Validates a comment permalink for a draft's thread and returns it in canonical form
+ * (`https://www.reddit.com/r/<subreddit>/comments/<id>/comment/<comment-id>/`)
+ */
+export function parseCommentPermalink(
+  permalink: unknown,
+  postUrl: string
+): { data: { commentId: string; permalink: string } | null; error: string | null } {
+  const ref = typeof permalink === 'string' ? parseRedditUrl(permalink) : null
+  if (!ref?.commentId) {
+    return { data: null, error: 'permalink must be a Reddit comment link' }
+  }
+  if (ref.threadId !== parseRedditUrl(postUrl)?.threadId) {
+    return { data: null, error: "The comment isn't in this draft's thread" }
+  }
+  return {
+    data: { commentId: ref.commentId, permalink: `${ref.canonicalUrl}comment/${ref.commentId}/` },
+    error: null,
+  }
+}
+
+/**
+ * When a live comment is due for its next check, or null once it's no longer tracked
+ */
+export function getNextCheckAt(postedAt: string, now: Date = new Date()): string | null {
+  const age = now.getTime() - new Date(postedAt).getTime()
+  if (age >= TRACK_FOR_MS) return null
+  return new Date(now.getTime() + (age < FREQUENT_CHECKS_FOR_MS ? 6 * HOUR_MS : DAY_MS)).toISOString()
+}
+
+export async function findPostedComment(supabase: SupabaseClient, draftId: string): Promise<PostedComment | null> {
+  const { data, error } = await supabase
+    .from('posted_comments')
+    .select('*')
+    .eq('draft_id', draftId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Attaches the live comment to a draft and marks the draft posted. Posting follows the review
+ * workflow, so only approved and scheduled drafts can be marked posted. Replacing the permalink
+ * of a posted draft starts tracking over. `postedVia` is 'api' when the app posted the comment itself.
+ */
+export async function recordPostedComment(
+  supabase: SupabaseClient,
+  draft: ReplyDraftWithThread,
+  input: { permalink: unknown; userId: string; postedVia?: PostedComment['posted_via'] }
+): Promise<{ data: { postedComment: PostedComment; draft: ReplyDraft } | null; error: string | null }> {
+  const { data: comment, error: permalinkError } = parseCommentPermalink(input.permalink, draft.post_url)
+  if (!comment) return { data: null, error: permalinkError }
+
+  if (draft.status !== 'posted') {
+    const { error: statusError } = validateStatusChange(draft.status, 'posted', null)
+    if (statusError) return { data: null, error: statusError }
+  }
+
+  const now = new Date().toISOString()
+  const { data: postedComment, error } = await supabase
+    .from('posted_comments')
+    .upsert({
+      draft_id: draft.id,
+      thread_id: draft.thread_id,
+      posted_by: input.userId,
+      reddit_comment_id: comment.commentId,
+      permalink: comment.permalink,
+      posted_at: now,
+      posted_via: input.postedVia || 'manual',
+      status: 'live',
+      score: null,
+      reply_count: null,
+      last_checked_at: null,
+      next_check_at: now,
+      check_error: null,
+    }, { onConflict: 'draft_id' })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  const updatedDraft = draft.status === 'posted'
+    ? draft
+    : await setReplyDraftStatus(supabase, draft, draft.post_url, { status: 'posted', scheduledFor: null, userId: input.userId })
+
+  return { data: { postedComment, draft: updatedDraft }, error: null }
+}
+
+function toPostedCommentStatus(result: { isRemoved: boolean; isDeleted: boolean }): PostedCommentStatus {
+  if (result.isDeleted) return 'deleted'
+  return result.isRemoved ? 'removed' : 'live'
+}
+
+/**
+ * Re-scrapes live comments that are due and stores their score, reply count and status.
+ * Removed and deleted comments aren't checked again. Comments are checked one at a time to
+ * stay under Reddit's rate limits. Needs a service role client, since comments of every user
+ * are checked.
+ */
+export async function checkPostedComments(
+  supabase: SupabaseClient,
+  options: { limit?: number; scraper?: ThreadScraper } = {}
+): Promise<CheckPostedCommentsResult> {
+  const scraper = options.scraper || getThreadScraper()
+  const result: CheckPostedCommentsResult = { checked: 0, live: 0, removed: 0, deleted: 0, failed: 0 }
+
+  const { data: due, error } = await supabase
+    .from('posted_comments')
+    .select('*')
+    .eq('status', 'live')
+    .lte('next_check_at', new Date().toISOString())
+    .order('next_check_at', { ascending: true })
+    .limit(options.limit ?? 25)
+
+  if (error) throw error
+
+  for (const comment of (due || []) as PostedComment[]) {
+    const { data: scraped, error: scrapeError } = await scrapeCommentStatus(comment.permalink, scraper)
+    const checkedAt = new Date()
+    result.checked++
+
+    if (!scraped) {
+      result.failed++
+      // Try again at the next regular check
+      await supabase
+        .from('posted_comments')
+        .update({
+          last_checked_at: checkedAt.toISOString(),
+          next_check_at: getNextCheckAt(comment.posted_at, checkedAt),
+          check_error: scrapeError,
+        })
+        .eq('id', comment.id)
+      continue
+    }
+
+    // Bill the check to whoever posted the comment, in the thread's project
+    const projectId = await findThreadProjectId(supabase, comment.thread_id).catch(() => null)
+    await createUsageRecorder(supabase, { userId: comment.posted_by, projectId })
+      .record({ provider: scraped.source, operation: 'thread_scrape', cost: getScrapeCost(scraped.source) })
+
+    const status = toPostedCommentStatus(scraped)
+    result[status]++
+
+    const { error: updateError } = await supabase
+      .from('posted_comments')
+      .update({
+        status,
+        // Removed and deleted comments may read as score 1 with no replies, so keep the last live numbers
+        ...(status === 'live' ? { score: scraped.score, reply_count: scraped.replyCount } : {}),
+        last_checked_at: checkedAt.toISOString(),
+        next_check_at: status === 'live' ? getNextCheckAt(comment.posted_at, checkedAt) : null,
+        check_error: null,
+      })
+      .eq('id', comment.id)
+
+    if (updateError) {
+      console.error(`Error saving the check of posted comment ${comment.id}:`, updateError)
+    }
+  }
+
+  return result
+}
+
+interface KeywordRef {
+  keyword: string
+  project_id: string
+}
+
+interface ReportRow {
+  status: PostedCommentStatus
+  score: number | null
+  reply_count: number | null
+  thread_id: string
+  threads: ReportThread | ReportThread[] | null
+}
+
+interface ReportThread {
+  post_url: string
+  post_title: string
+  subreddit: string
+  keyword_thread_rankings: Array<{ keyword_id: string; keywords: KeywordRef | KeywordRef[] | null }>
+}
+
+/**
+ * Survival and engagement of the user's visible posted comments per thread, subreddit or keyword,
+ * optionally limited to the threads of one project. A thread ranking for several keywords counts
+ * towards each of them.
+ */
+export async function summarizePostedComments(
+  supabase: SupabaseClient,
+  groupBy: PostedCommentGroupBy,
+  projectId: string | null = null
+): Promise<PostedCommentSummary[]> {
+  const { data, error } = await supabase
+    .from('posted_comments')
+    .select('status, score, reply_count, thread_id, threads(post_url, post_title, subreddit, keyword_thread_rankings(keyword_id, keywords(keyword, project_id)))')
+    .order('posted_at', { ascending: false })
+    .limit(1000)
+
+  if (error) throw error
+
+  const groups = new Map<string, PostedCommentSummary>()
+  const add = (key: string, label: string, url: string | null, row: ReportRow) => {
+    const group = groups.get(key) || {
+      key, label, url, posted: 0, live: 0, removed: 0, deleted: 0, total_score: 0, total_replies: 0, engaged: 0,
+    }
+    group.posted++
+    group[row.status]++
+    group.total_score += row.score || 0
+    group.total_replies += row.reply_count || 0
+    if (row.status === 'live' && ((row.reply_count || 0) > 0 || (row.score || 0) > 1)) group.engaged++
+    groups.set(key, group)
+  }
+
+  for (const row of (data || []) as ReportRow[]) {
+    // Supabase may return an embedded many-to-one relation as an array
+    const thread = Array.isArray(row.threads) ? row.threads[0] : row.threads
+    if (!thread) continue
+
+    const keywords = new Map<string, KeywordRef>()
+    for (const ranking of thread.keyword_thread_rankings || []) {
+      const keyword = Array.isArray(ranking.keywords) ? ranking.keywords[0] : ranking.keywords
+      if (keyword && (!projectId || keyword.project_id === projectId)) keywords.set(ranking.keyword_id, keyword)
+    }
+    if (projectId && keywords.size === 0) continue
+
+    if (groupBy === 'thread') {
+      add(row.thread_id, thread.post_title || thread.post_url, thread.post_url, row)
+    } else if (groupBy === 'subreddit') {
+      add(thread.subreddit.toLowerCase(), `r/${thread.subreddit}`, null, row)
+    } else {
+      keywords.forEach((keyword, keywordId) => add(keywordId, keyword.keyword, null, row))
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.posted - a.posted || b.total_score - a.total_score)
+}
@@ -0,0 +1,66 @@
+import { parseLlmSettingsInput } from './llm-settings'
+import { parseSerpSettingsInput } from './serp-settings'
+
+/**
+ * Subreddit exclusions as stored: lowercase, without the r/ prefix, no empty entries
+ */
+export function normalizeSubredditExclusions(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value
+        .filter((s): s is string => typeof s === 'string')
+        .map((s) => s.trim().toLowerCase().replace(/^r\//, ''))
+        .filter((s) => s.length > 0)
+    : []
+}
+
+/**
+ * Validates the fields of a project from a request body. Only fields present are validated.
+ */
+export function parseProjectInput(
+  body: Record<string, unknown>,
+  isNew: boolean
+): { data: Record<string, unknown>; error: string | null } {
+  const data: Record<string, unknown> = {}
+
+  if (body.name !== undefined || isNew) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { data, error: 'Project name is required' }
+    }
+    data.name = body.name.trim()
+  }
+
+  // Projects stay in the organization they were created in
+  if (isNew && body.organization_id !== undefined && body.organization_id !== null) {
+    if (typeof body.organization_id !== 'string') {
+      return { data, error: 'organization_id must be a string' }
+    }
+    data.organization_id = body.organization_id
+  }
+
+  if (body.description !== undefined) {
+    data.description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null
+  }
+
+  if (body.prompt_template !== undefined) {
+    if (body.prompt_template !== null && typeof body.prompt_template !== 'string') {
+      return { data, error: 'prompt_template must be a string' }
+    }
+    data.prompt_template = body.prompt_template
+  }
+
+  if (body.subreddit_exclusions !== undefined) {
+    data.subreddit_exclusions = normalizeSubredditExclusions(body.subreddit_exclusions)
+  }
+
+  const serpSettings = parseSerpSettingsInput(body, false)
+  if (serpSettings.error) {
+    return { data, error: serpSettings.error }
+  }
+
+  const llmSettings = parseLlmSettingsInput(body)
+  if (llmSettings.error) {
+    return { data, error: llmSettings.error }
+  }
+
+  return { data: { ...data, ...serpSettings.data, ...llmSettings.data }, error: null }
+}
@@ -0,0 +1,137 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { RankingHistory, RankingSeries, RedditPost } from './types'
+
+// Supabase may return an embedded many-to-one relation as an array
+type Embedded<T> = T | T[] | null
+
+interface RankingHistoryRow {
+  id: string
+  keyword_id: string
+  thread_id: string
+  rank_position: number
+  dropped_at: string | null
+  keywords: Embedded<{ keyword: string }>
+  threads: Embedded<{ reddit_thread_id: string; post_title: string; post_url: string; subreddit: string }>
+  rankings_history: { rank_position: number | null; checked_at: string }[] | null
+}
+
+/**
+ * Splits posts into those currently ranking and those that dropped out of the SERP
+ */
+export function splitDroppedPosts<T extends Pick<RedditPost, 'dropped_at'>>(posts: T[]): { ranking: T[]; dropped: T[] } {
+  return {
+    ranking: posts.filter((post) => !post.dropped_at),
+    dropped: posts.filter((post) => !!post.dropped_at),
+  }
+}
+
+/**
+ * History entries oldest first. A null rank position means the thread was not ranking at that check.
+ */
+export function sortHistory(history: Pick<RankingHistory, 'rank_position' | 'checked_at'>[] | undefined) {
+  return [...(history || [])].sort(
+    (a, b) => new Date(a.checked_at).getTime() - new Date(b.checked_at).getTime()
+  )
+}
+
+/**
+ * Best (lowest) position a thread ever reached, or null if it has no ranked checks
+ */
+export function getBestPosition(history: Pick<RankingHistory, 'rank_position'>[] | undefined): number | null {
+  const positions = (history || [])
+    .map((entry) => entry.rank_position)
+    .filter((position): position is number => position !== null)
+  return positions.length > 0 ? Math.min(...positions) : null
+}
+
+export type RankMovement =
+  | { kind: 'new' } // Ranking now, not ranking (or not tracked) at the previous check
+  | { kind: 'up' | 'down'; change: number } // Positions gained or lost
+  | { kind: 'same' }
+
+/**
+ * Movement of a thread between its last two checks, or null when it isn't ranking now
+ */
+export function getRankMovement(history: Pick<RankingHistory, 'rank_position' | 'checked_at'>[] | undefined): RankMovement | null {
+  const sorted = sortHistory(history)
+  const current = sorted[sorted.length - 1]?.rank_position ?? null
+  if (current === null) return null
+
+  const previous = sorted[sorted.length - 2]?.rank_position ?? null
+  if (previous === null) return { kind: 'new' }
+  if (previous === current) return { kind: 'same' }
+  return previous > current
+    ? { kind: 'up', change: previous - current }
+    : { kind: 'down', change: current - previous }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Best position among a keyword's threads as of a point in time, from each thread's
+ * last check at or before it. Null when nothing was ranking (or checked) by then.
+ */
+export function getBestPositionAt(posts: Pick<RedditPost, 'rankings_history'>[], time: number): number | null {
+  const positions = posts
+    .map((post) => {
+      const checked = sortHistory(post.rankings_history).filter((entry) => new Date(entry.checked_at).getTime() <= time)
+      return checked[checked.length - 1]?.rank_position ?? null
+    })
+    .filter((position): position is number => position !== null)
+  return positions.length > 0 ? Math.min(...positions) : null
+}
+
+/**
+ * Change of a keyword's best Reddit position over the last `days` days, positive when it improved.
+ * Pass ranking and dropped threads alike. Null when it wasn't ranking at either end.
+ */
+export function getKeywordMovement(posts: Pick<RedditPost, 'rankings_history'>[], days: number, now: number = Date.now()): number | null {
+  const current = getBestPositionAt(posts, now)
+  const past = getBestPositionAt(posts, now - days * DAY_MS)
+  if (current === null || past === null) return null
+  return past - current
+}
+
+/**
+ * Rank history over the last `days` days, one series per keyword ranking: every thread of a keyword
+ * (keywordId) or every keyword a thread ranks for (threadId). RLS limits both to the user's keywords.
+ */
+export async function loadRankingSeries(
+  supabase: SupabaseClient,
+  filter: { keywordId?: string | null; threadId?: string | null },
+  days: number
+): Promise<RankingSeries[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+  let query = supabase
+    .from('keyword_thread_rankings')
+    .select('id, keyword_id, thread_id, rank_position, dropped_at, keywords(keyword), threads(reddit_thread_id, post_title, post_url, subreddit), rankings_history(rank_position, checked_at)')
+    .gte('rankings_history.checked_at', since)
+    .order('rank_position', { ascending: true })
+    .order('checked_at', { referencedTable: 'rankings_history', ascending: true })
+
+  query = filter.keywordId ? query.eq('keyword_id', filter.keywordId) : query.eq('thread_id', filter.threadId)
+
+  const { data, error } = await query
+
+  if (error) throw error
+
+  return ((data || []) as RankingHistoryRow[]).map((row) => {
+    const keyword = Array.isArray(row.keywords) ? row.keywords[0] : row.keywords
+    const thread = Array.isArray(row.threads) ? row.threads[0] : row.threads
+
+    return {
+      ranking_id: row.id,
+      keyword_id: row.keyword_id,
+      keyword: keyword?.keyword || '',
+      thread_id: row.thread_id,
+      reddit_thread_id: thread?.reddit_thread_id || '',
+      post_title: thread?.post_title || '',
+      post_url: thread?.post_url || '',
+      subreddit: thread?.subreddit || '',
+      rank_position: row.rank_position,
+      dropped_at: row.dropped_at,
+      history: sortHistory(row.rankings_history || []),
+    }
+  })
+}
@@ -0,0 +1,257 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { after } from 'next/server'
+import { RankingJob, RankingJobStatus } from './types'
+import { isRetryableError } from './http'
+import { runRankingCheck } from './rankings'
+import { RefreshRunRecorder, startRefreshRun } from './refresh-runs'
+import { createAdminClient } from './supabase/admin'
+
+export interface RankingJobSummary {
+  total: number
+  pending: number
+  running: number
+  completed: number
+  failed: number
+}
+
+export interface ProcessRankingJobsOptions {
+  concurrency?: number // Jobs checked in parallel
+  minIntervalMs?: number // Minimum gap between two job starts, across all worker slots
+  timeBudgetMs?: number // Stop claiming new jobs after this long, so the worker fits in a request
+}
+
+export interface ProcessRankingJobsResult {
+  processed: number
+  completed: number
+  retried: number
+  failed: number
+}
+
+const DEFAULT_CONCURRENCY = 1 // Sequential by default to avoid parallel Apify calls
+const DEFAULT_MIN_INTERVAL_MS = 2000
+const DEFAULT_TIME_BUDGET_MS = 50_000
+const RETRY_BASE_DELAY_MS = 30_000
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+/**
+ * Worker settings from RANKING_JOB_CONCURRENCY, RANKING_JOB_MIN_INTERVAL_MS and RANKING_JOB_TIME_BUDGET_MS
+ */
+export function getRankingJobOptions(): Required<ProcessRankingJobsOptions> {
+  return {
+    concurrency: Math.floor(readNumberEnv('RANKING_JOB_CONCURRENCY', DEFAULT_CONCURRENCY)),
+    minIntervalMs: readNumberEnv('RANKING_JOB_MIN_INTERVAL_MS', DEFAULT_MIN_INTERVAL_MS),
+    timeBudgetMs: readNumberEnv('RANKING_JOB_TIME_BUDGET_MS', DEFAULT_TIME_BUDGET_MS),
+  }
+}
+
+/**
+ * Queues a ranking check for each keyword. Keywords that already have a pending or running
+ * check keep it. Returns the active job of every keyword.
+ */
+export async function enqueueRankingChecks(
+  supabase: SupabaseClient,
+  keywordIds: string[]
+): Promise<RankingJob[]> {
+  if (keywordIds.length === 0) return []
+
+  const { data: active, error: activeError } = await supabase
+    .from('ranking_jobs')
+    .select('*')
+    .in('keyword_id', keywordIds)
+    .in('status', ['pending', 'running'])
+
+  if (activeError) throw activeError
+
+  const queuedIds = new Set((active || []).map((job: RankingJob) => job.keyword_id))
+  const toQueue = keywordIds.filter((id) => !queuedIds.has(id))
+
+  if (toQueue.length === 0) return active || []
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('ranking_jobs')
+    .insert(toQueue.map((keyword_id) => ({ keyword_id })))
+    .select()
+
+  if (insertError) {
+    // Another request queued some of these keywords in the meantime
+    if (insertError.code === '23505') {
+      return enqueueRankingChecks(supabase, keywordIds)
+    }
+    throw insertError
+  }
+
+  return [...(active || []), ...(inserted || [])]
+}
+
+/**
+ * Latest job of each keyword, with counts per status for progress bars
+ */
+export async function getRankingJobProgress(
+  supabase: SupabaseClient,
+  keywordIds: string[]
+): Promise<{ jobs: RankingJob[]; summary: RankingJobSummary }> {
+  const summary: RankingJobSummary = { total: 0, pending: 0, running: 0, completed: 0, failed: 0 }
+  if (keywordIds.length === 0) return { jobs: [], summary }
+
+  const { data, error } = await supabase
+    .from('ranking_jobs')
+    .select('*')
+    .in('keyword_id', keywordIds)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  const latest = new Map<string, RankingJob>()
+  for (const job of (data || []) as RankingJob[]) {
+    if (!latest.has(job.keyword_id)) latest.set(job.keyword_id, job)
+  }
+
+  const jobs = Array.from(latest.values())
+  for (const job of jobs) {
+    summary.total++
+    summary[job.status]++
+  }
+
+  return { jobs, summary }
+}
+
+async function runRankingJob(
+  supabase: SupabaseClient,
+  job: RankingJob,
+  run: RefreshRunRecorder
+): Promise<RankingJobStatus> {
+  const startedAt = new Date().toISOString()
+  let keywordText = ''
+
+  try {
+    const { data: keyword, error: keywordError } = await supabase
+      .from('keywords')
+      .select('id, keyword')
+      .eq('id', job.keyword_id)
+      .single()
+
+    if (keywordError || !keyword) {
+      throw new Error(keywordError?.message || 'Keyword not found')
+    }
+
+    keywordText = keyword.keyword
+    const { postsCount, cost } = await runRankingCheck(keyword.id, keyword.keyword, supabase)
+    await run.record({ keywordId: keyword.id, keyword: keyword.keyword, startedAt, postsCount, cost })
+
+    await supabase
+      .from('ranking_jobs')
+      .update({
+        status: 'completed',
+        posts_count: postsCount,
+        completed_at: new Date().toISOString(),
+        locked_at: null,
+        error: null,
+      })
+      .eq('id', job.id)
+
+    return 'completed'
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`Ranking job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, message)
+
+    if (keywordText) {
+      await run.record({ keywordId: job.keyword_id, keyword: keywordText, startedAt, error: message })
+    }
+
+    // Retry with exponential backoff until the job runs out of attempts. Errors a retry
+    // can't fix (bad credentials, 4xx responses) fail the job right away.
+    const willRetry = job.attempts < job.max_attempts && isRetryableError(error)
+    const retryDelay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)
+
+    await supabase
+      .from('ranking_jobs')
+      .update(willRetry ? {
+        status: 'pending',
+        run_after: new Date(Date.now() + retryDelay).toISOString(),
+        locked_at: null,
+        error: message,
+      } : {
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        locked_at: null,
+        error: message,
+      })
+      .eq('id', job.id)
+
+    return willRetry ? 'pending' : 'failed'
+  }
+}
+
+/**
+ * Claims and runs queued ranking checks until the queue is empty or the time budget is used up.
+ * Needs a service role client, since jobs from every user are processed.
+ */
+export async function processRankingJobs(
+  supabase: SupabaseClient,
+  options: ProcessRankingJobsOptions = {}
+): Promise<ProcessRankingJobsResult> {
+  const { concurrency, minIntervalMs, timeBudgetMs } = { ...getRankingJobOptions(), ...options }
+  const deadline = Date.now() + timeBudgetMs
+  const result: ProcessRankingJobsResult = { processed: 0, completed: 0, retried: 0, failed: 0 }
+  let nextStartAt = 0
+  // Started with the first claimed job, so an empty queue doesn't log empty runs
+  let run: RefreshRunRecorder | null = null
+
+  // Spaces job starts at least minIntervalMs apart, so parallel slots don't burst the SERP API
+  const waitForSlot = async () => {
+    const startAt = Math.max(Date.now(), nextStartAt)
+    nextStartAt = startAt + minIntervalMs
+    const delay = startAt - Date.now()
+    if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay))
+  }
+
+  try {
+    while (Date.now() < deadline) {
+      // Claim only as many jobs as can run right away, the rest stay available to other workers
+      const { data: jobs, error } = await supabase.rpc('claim_ranking_jobs', { batch_size: concurrency })
+      if (error) throw error
+      if (!jobs || jobs.length === 0) break
+
+      const currentRun = run || (run = await startRefreshRun(supabase, 'bulk', { source: 'job-queue' }))
+      const statuses = await Promise.all((jobs as RankingJob[]).map(async (job) => {
+        await waitForSlot()
+        return runRankingJob(supabase, job, currentRun)
+      }))
+
+      for (const status of statuses) {
+        result.processed++
+        if (status === 'completed') result.completed++
+        else if (status === 'pending') result.retried++
+        else result.failed++
+      }
+    }
+  } catch (error) {
+    await run?.finish(error instanceof Error ? error.message : 'Unknown error')
+    throw error
+  }
+
+  await run?.finish()
+  return result
+}
+
+/**
+ * Queues ranking checks and starts the worker after the response is sent. Anything the worker
+ * doesn't get to is picked up by the /api/cron/process-ranking-jobs schedule.
+ */
+export async function startRankingChecks(supabase: SupabaseClient, keywordIds: string[]): Promise<RankingJob[]> {
+  const jobs = await enqueueRankingChecks(supabase, keywordIds)
+
+  after(async () => {
+    try {
+      await processRankingJobs(createAdminClient())
+    } catch (error) {
+      console.error('Error processing ranking jobs:', error)
+    }
+  })
+
+  return jobs
+}
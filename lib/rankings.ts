@@ -1,348 +1,369 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
-
-interface DataForSEOResult {
-  location_code: number
-  language_code: string
-  check_url: string
-  datetime: string
-  items_count: number
-  items: Array<{
-    type: string
-    rank_group: number
-    rank_absolute: number
-    position: string
-    xpath: string
-    title?: string
-    domain?: string
-    url?: string
-    breadcrumb?: string
-    website_name?: string
-    is_featured_snippet?: boolean
-    is_paid?: boolean
-    is_malicious?: boolean
-    is_web_story?: boolean
-    description?: string
-  }>
+import { createAdminClient } from '@/lib/supabase/admin'
+import { DEFAULT_SERP_SETTINGS, SerpSettings } from '@/lib/types'
+import { resolveSerpSettings } from '@/lib/serp-settings'
+import { getSerpProvider, SerpProvider } from '@/lib/serp'
+import { scrapeThread } from '@/lib/scrapers'
+import { parseRedditUrl } from '@/lib/reddit-url'
+import { createUsageRecorder, getScrapeCost, loadKeywordUsageContext, UsageRecorder } from '@/lib/usage'
+import { checkAlertRules, RankingChange } from '@/lib/alerts'
+import { emitRankingEvents } from '@/lib/webhooks'
+
+interface ActiveRanking {
+  id: string
+  rank_position: number
+  thread_id: string
+  threads: { reddit_thread_id: string; post_title: string; post_url: string; subreddit: string } | null
 }
 
 interface RedditPostData {
-  post_url: string
+  reddit_thread_id: string
+  post_url: string // Canonical thread URL
   post_title: string
   subreddit: string
   rank_position: number
 }
 
-interface ApifyScrapedData {
-  [key: string]: any
-}
-
-async function scrapeRedditPostWithApify(postUrl: string): Promise<ApifyScrapedData | null> {
-  const apifyToken = process.env.APIFY_API_TOKEN
-  
-  if (!apifyToken) {
-    console.warn('Apify API token not configured, skipping scraping')
-    return null
-  }
-
-  try {
-    // Use the endpoint pattern provided by the user
-    const apiUrl = `https://api.apify.com/v2/acts/trudax~reddit-scraper-lite/run-sync-get-dataset-items?token=${apifyToken}`
-    
-    const requestBody = {
-      debugMode: false,
-      ignoreStartUrls: false,
-      includeNSFW: true,
-      maxComments: 10,
-      maxCommunitiesCount: 2,
-      maxItems: 10,
-      maxPostCount: 10,
-      maxUserCount: 2,
-      proxy: {
-        useApifyProxy: true,
-        apifyProxyGroups: ['RESIDENTIAL']
-      },
-      scrollTimeout: 40,
-      searchComments: false,
-      searchCommunities: false,
-      searchPosts: true,
-      searchUsers: false,
-      skipComments: true,
-      skipCommunity: false,
-      skipUserPosts: false,
-      sort: 'new',
-      startUrls: [
-        {
-          url: postUrl
-        }
-      ]
-    }
-
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error(`Apify API error for ${postUrl}: ${response.status} - ${errorText}`)
-      return null
-    }
-
-    const data = await response.json()
-    
-    // Return the first item if available, or the whole dataset
-    if (Array.isArray(data) && data.length > 0) {
-      return data[0] as ApifyScrapedData
-    }
-    
-    return data as ApifyScrapedData
-  } catch (error) {
-    console.error(`Error scraping Reddit post ${postUrl} with Apify:`, error)
-    return null
-  }
-}
-
-function extractRedditData(url: string, title: string): { subreddit: string; postTitle: string } | null {
-  // Reddit URL format: https://www.reddit.com/r/{subreddit}/comments/{post_id}/{slug}/
-  const redditMatch = url.match(/reddit\.com\/r\/([^\/]+)/)
-  if (!redditMatch) return null
+function extractRedditData(url: string, title: string): { threadId: string; canonicalUrl: string; subreddit: string; postTitle: string } | null {
+  // Only threads can be tracked, subreddit and user pages have no thread ID
+  const thread = parseRedditUrl(url)
+  if (!thread || !thread.subreddit) return null
 
-  const subreddit = redditMatch[1]
   // Clean up title - remove [subreddit] prefix if present
   const postTitle = title.replace(/^\[.*?\]\s*/, '').trim()
 
-  return { subreddit, postTitle }
+  return { threadId: thread.threadId, canonicalUrl: thread.canonicalUrl, subreddit: thread.subreddit, postTitle }
 }
 
-export async function checkRankings(keyword: string): Promise<RedditPostData[]> {
-  const login = process.env.DATAFORSEO_LOGIN
-  const password = process.env.DATAFORSEO_PASSWORD
-
-  if (!login || !password) {
-    throw new Error('DataForSEO credentials not configured')
-  }
-
-  // Use keyword directly without site filter to check first Reddit post in SERP
-  const searchQuery = keyword
-
-  const response = await fetch('https://api.dataforseo.com/v3/serp/google/organic/live/advanced', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Basic ${Buffer.from(`${login}:${password}`).toString('base64')}`,
-    },
-    body: JSON.stringify([
-      {
-        keyword: searchQuery,
-        location_code: 2840, // United States
-        language_code: 'en',
-        depth: 10, // First page only (10 results)
-        device: 'desktop',
-        os: 'windows',
-      },
-    ]),
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`DataForSEO API error: ${response.status} - ${errorText}`)
+/**
+ * Loads the effective SERP settings (keyword override > project > default) for a keyword
+ */
+export async function loadKeywordSerpSettings(keywordId: string, supabaseClient: SupabaseClient): Promise<SerpSettings> {
+  const { data, error } = await supabaseClient
+    .from('keywords')
+    .select('serp_location_code, serp_language_code, serp_device, projects(serp_location_code, serp_language_code, serp_device, tracking_depth)')
+    .eq('id', keywordId)
+    .single()
+
+  if (error || !data) {
+    console.warn(`Could not load SERP settings for keyword ${keywordId}, using defaults`)
+    return DEFAULT_SERP_SETTINGS
   }
 
-  const data = await response.json()
-  
-  if (!data || !data.tasks || data.tasks.length === 0) {
-    throw new Error('No results from DataForSEO API')
-  }
+  return resolveSerpSettings(data.projects, data)
+}
 
-  const task = data.tasks[0]
-  if (task.status_code !== 20000) {
-    throw new Error(`DataForSEO API error: ${task.status_message || 'Unknown error'}`)
-  }
+const DEFAULT_REFRESH_BATCH_SIZE = 50
+
+/**
+ * Keywords whose next check is due, most overdue first, with their market settings.
+ * Paused keywords have no next_check_at and are never due. Capped at REFRESH_BATCH_SIZE
+ * per scheduler run, the rest stay due for the next run.
+ */
+export async function fetchDueKeywords(supabaseClient: SupabaseClient, limit?: number) {
+  const batchSize = limit || Number(process.env.REFRESH_BATCH_SIZE) || DEFAULT_REFRESH_BATCH_SIZE
+
+  return supabaseClient
+    .from('keywords')
+    .select('id, keyword, next_check_at, serp_location_code, serp_language_code, serp_device, projects(serp_location_code, serp_language_code, serp_device, tracking_depth)')
+    .lte('next_check_at', new Date().toISOString())
+    .order('next_check_at', { ascending: true })
+    .limit(batchSize)
+}
 
-  const results: DataForSEOResult[] = task.result || []
-  if (results.length === 0) {
-    return []
-  }
+export interface RankingCheckResult {
+  posts: RedditPostData[]
+  cost: number | null // SERP API cost in USD, when the provider reports it
+  provider: string // SERP provider that served the results
+}
 
-  const result = results[0]
+/**
+ * Fetches the SERP for a keyword from the configured provider and returns the Reddit threads in it
+ */
+export async function checkRankings(
+  keyword: string,
+  serpSettings: SerpSettings = DEFAULT_SERP_SETTINGS,
+  provider: SerpProvider = getSerpProvider()
+): Promise<RankingCheckResult> {
+  // Use keyword directly without site filter to check first Reddit post in SERP
+  const { items, cost } = await provider.search(keyword, serpSettings)
   const redditPosts: RedditPostData[] = []
 
-  // Parse organic results
-  for (const item of result.items || []) {
-    if (item.type === 'organic' && item.url && item.title) {
-      // Check if URL is a Reddit URL
-      if (item.url.includes('reddit.com')) {
-        const redditData = extractRedditData(item.url, item.title)
-        
-        if (redditData) {
-          const rankPosition = item.rank_absolute || parseInt(item.position) || 0
-          
-          // Only include first page results (positions 1-10)
-          if (rankPosition >= 1 && rankPosition <= 10) {
-            redditPosts.push({
-              post_url: item.url,
-              post_title: redditData.postTitle,
-              subreddit: redditData.subreddit,
-              rank_position: rankPosition,
-            })
-          }
-        }
-      }
+  for (const item of items) {
+    const redditData = extractRedditData(item.url, item.title)
+
+    // Only include results within the tracking depth
+    if (!redditData || item.position < 1 || item.position > serpSettings.depth) continue
+
+    // The same thread can appear more than once (e.g. thread and comment permalink), keep the best position
+    const existing = redditPosts.find((p) => p.reddit_thread_id === redditData.threadId)
+    if (existing) {
+      existing.rank_position = Math.min(existing.rank_position, item.position)
+      continue
     }
+
+    redditPosts.push({
+      reddit_thread_id: redditData.threadId,
+      post_url: redditData.canonicalUrl,
+      post_title: redditData.postTitle,
+      subreddit: redditData.subreddit,
+      rank_position: item.position,
+    })
   }
 
-  return redditPosts
+  return { posts: redditPosts, cost, provider: provider.name }
 }
 
-export async function saveRankingsToDatabase(keywordId: string, keywordText: string, redditPosts: RedditPostData[], supabaseClient?: any): Promise<void> {
+/**
+ * Saves the threads found in a check and marks the ones no longer found as dropped, then emits
+ * the project's ranking webhooks. Returns how each saved or dropped thread's position changed.
+ */
+export async function saveRankingsToDatabase(keywordId: string, keywordText: string, redditPosts: RedditPostData[], supabaseClient?: any, serpSettings: SerpSettings = DEFAULT_SERP_SETTINGS, usage?: UsageRecorder): Promise<RankingChange[]> {
   // Use provided client or fallback to default (for Edge Functions)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const supabase = supabaseClient || (await import('@/lib/supabase')).supabase
+  // Threads are shared by every tenant, so only the service role writes them (migration 040)
+  const threadsClient = createAdminClient()
   const now = new Date().toISOString()
-  
-  if (redditPosts.length === 0) {
-    console.log(`No Reddit posts found for keyword: ${keywordText}`)
-    return
+  // Market the rankings were observed in
+  const market = {
+    location_code: serpSettings.locationCode,
+    language_code: serpSettings.languageCode,
+    device: serpSettings.device,
   }
+  const changes: RankingChange[] = []
   
   console.log(`Saving ${redditPosts.length} Reddit posts for keyword: ${keywordText}`)
   
   for (const post of redditPosts) {
-    // Scrape post with Apify if not already scraped
-    let apifyData: ApifyScrapedData | null = null
-    let apifyScrapedAt: string | null = null
-    
-    // Check if post already exists to see if we need to scrape
-    const { data: existingPost, error: checkError } = await supabase
-      .from('reddit_posts')
-      .select('id, first_seen_at, apify_scraped_at')
-      .eq('keyword_id', keywordId)
-      .eq('post_url', post.post_url)
-      .single()
+    // Find or create the shared thread row
+    const { data: existingThread, error: threadError } = await supabase
+      .from('threads')
+      .select('id, scraped_at')
+      .eq('reddit_thread_id', post.reddit_thread_id)
+      .maybeSingle()
+
+    if (threadError) {
+      console.error(`Error checking existing thread: ${threadError.message}`)
+      continue
+    }
 
-    if (checkError && checkError.code !== 'PGRST116') { // PGRST116 = no rows returned
-      console.error(`Error checking existing post: ${checkError.message}`)
+    let threadId: string | null = existingThread?.id || null
+    const threadData = {
+      post_url: post.post_url,
+      post_title: post.post_title,
+      subreddit: post.subreddit,
     }
 
-    // Scrape with Apify if post is new or hasn't been scraped recently (e.g., scraped more than 24 hours ago)
-    const shouldScrape = !existingPost || !existingPost.apify_scraped_at || 
-      (new Date().getTime() - new Date(existingPost.apify_scraped_at).getTime()) > 24 * 60 * 60 * 1000
+    if (existingThread) {
+      await threadsClient
+        .from('threads')
+        .update(threadData)
+        .eq('id', existingThread.id)
+    } else {
+      const { data: newThread, error: insertThreadError } = await threadsClient
+        .from('threads')
+        .insert({ reddit_thread_id: post.reddit_thread_id, ...threadData })
+        .select('id')
+        .single()
+
+      if (insertThreadError) {
+        console.error(`Error inserting thread ${post.post_url}:`, insertThreadError)
+      }
+      threadId = newThread?.id || null
+    }
+
+    if (!threadId) continue
+
+    // Scrape once per thread if it is new or hasn't been scraped recently (e.g., scraped more than 24 hours ago)
+    const shouldScrape = !existingThread || !existingThread.scraped_at || 
+      (new Date().getTime() - new Date(existingThread.scraped_at).getTime()) > 24 * 60 * 60 * 1000
     
     if (shouldScrape) {
-      console.log(`Scraping Reddit post with Apify: ${post.post_url}`)
-      apifyData = await scrapeRedditPostWithApify(post.post_url)
-      if (apifyData) {
-        apifyScrapedAt = now
+      console.log(`Scraping Reddit post: ${post.post_url}`)
+      const { data: scrapedThread } = await scrapeThread(post.post_url, { includeComments: false })
+      if (scrapedThread) {
+        await usage?.record({ provider: scrapedThread.source, operation: 'thread_scrape', cost: getScrapeCost(scrapedThread.source) })
+        await threadsClient
+          .from('threads')
+          .update({ scraped_data: scrapedThread, scraped_at: now })
+          .eq('id', threadId)
         console.log(`✓ Successfully scraped Reddit post: ${post.post_url}`)
       } else {
         console.warn(`⚠ Failed to scrape Reddit post (or no data returned): ${post.post_url}`)
       }
-      // Add delay between Apify calls to avoid rate limiting and parallel execution issues
+      // Add delay between scraper calls to avoid rate limiting and parallel execution issues
       await new Promise(resolve => setTimeout(resolve, 1500)) // 1.5 second delay
     }
 
-    if (existingPost) {
-      // Update existing post
-      const updateData: any = {
-        rank_position: post.rank_position,
-        post_title: post.post_title,
-        subreddit: post.subreddit,
-        last_checked_at: now,
-      }
-      
-      if (apifyData && apifyScrapedAt) {
-        updateData.apify_scraped_data = apifyData
-        updateData.apify_scraped_at = apifyScrapedAt
-      }
-      
+    // Check if the thread already ranks for this keyword
+    const { data: existingRanking, error: checkError } = await supabase
+      .from('keyword_thread_rankings')
+      .select('id, rank_position, dropped_at')
+      .eq('keyword_id', keywordId)
+      .eq('thread_id', threadId)
+      .single()
+
+    if (checkError && checkError.code !== 'PGRST116') { // PGRST116 = no rows returned
+      console.error(`Error checking existing ranking: ${checkError.message}`)
+    }
+
+    let rankingId: string | null = null
+
+    if (existingRanking) {
+      // Update existing ranking
       const { error: updateError } = await supabase
-        .from('reddit_posts')
-        .update(updateData)
-        .eq('id', existingPost.id)
+        .from('keyword_thread_rankings')
+        .update({
+          rank_position: post.rank_position,
+          last_checked_at: now,
+          dropped_at: null, // Revive the thread if it had dropped out
+          ...market,
+        })
+        .eq('id', existingRanking.id)
 
       if (updateError) {
-        console.error(`Error updating post ${post.post_url}:`, updateError)
+        console.error(`Error updating ranking for ${post.post_url}:`, updateError)
       } else {
-        console.log(`✓ Updated post: ${post.post_url}`)
+        console.log(`✓ Updated ranking: ${post.post_url}`)
       }
-
-      // Add to history
-      await supabase
-        .from('rankings_history')
-        .insert({
-          reddit_post_id: existingPost.id,
-          rank_position: post.rank_position,
-          checked_at: now,
-        })
+      rankingId = existingRanking.id
     } else {
-      // Insert new post
-      const insertData: any = {
+      // Insert new ranking
+      const insertData = {
         keyword_id: keywordId,
-        post_url: post.post_url,
-        post_title: post.post_title,
-        subreddit: post.subreddit,
+        thread_id: threadId,
         rank_position: post.rank_position,
         first_seen_at: now,
         last_checked_at: now,
+        ...market,
       }
-      
-      if (apifyData && apifyScrapedAt) {
-        insertData.apify_scraped_data = apifyData
-        insertData.apify_scraped_at = apifyScrapedAt
-      }
-      
-      const { data: newPost, error: insertError } = await supabase
-        .from('reddit_posts')
+
+      const { data: newRanking, error: insertError } = await supabase
+        .from('keyword_thread_rankings')
         .insert(insertData)
-        .select()
+        .select('id')
         .single()
 
       if (insertError) {
-        console.error(`Error inserting post ${post.post_url}:`, insertError)
+        console.error(`Error inserting ranking for ${post.post_url}:`, insertError)
         console.error(`Insert data:`, JSON.stringify(insertData, null, 2))
-      } else if (newPost) {
-        console.log(`✓ Inserted new post: ${post.post_url}`)
-        // Add to history
-        await supabase
-          .from('rankings_history')
-          .insert({
-            reddit_post_id: newPost.id,
-            rank_position: post.rank_position,
-            checked_at: now,
-          })
+      } else if (newRanking) {
+        console.log(`✓ Inserted new ranking: ${post.post_url}`)
+        rankingId = newRanking.id
       }
     }
+
+    if (rankingId) {
+      // Add to history
+      await supabase
+        .from('rankings_history')
+        .insert({
+          ranking_id: rankingId,
+          rank_position: post.rank_position,
+          checked_at: now,
+          ...market,
+        })
+
+      changes.push({
+        threadId,
+        redditThreadId: post.reddit_thread_id,
+        postTitle: post.post_title,
+        postUrl: post.post_url,
+        subreddit: post.subreddit,
+        previousPosition: existingRanking && !existingRanking.dropped_at ? existingRanking.rank_position : null,
+        position: post.rank_position,
+      })
+    }
   }
 
-  // Remove posts that are no longer ranking (not in current results)
-  if (redditPosts.length > 0) {
-    const { data: allPosts } = await supabase
-      .from('reddit_posts')
-      .select('id, post_url')
-      .eq('keyword_id', keywordId)
+  // Mark rankings that are no longer in the current results as dropped
+  const { data: activeRankings } = await supabase
+    .from('keyword_thread_rankings')
+    .select('id, rank_position, thread_id, threads(reddit_thread_id, post_title, post_url, subreddit)')
+    .eq('keyword_id', keywordId)
+    .is('dropped_at', null)
+
+  if (activeRankings) {
+    const currentThreadIds = redditPosts.map((p) => p.reddit_thread_id)
+    const droppedRankings: ActiveRanking[] = activeRankings
+      .filter((ranking: ActiveRanking) => !currentThreadIds.includes(ranking.threads?.reddit_thread_id || ''))
+    const droppedIds = droppedRankings.map((ranking) => ranking.id)
+
+    for (const ranking of droppedRankings) {
+      changes.push({
+        threadId: ranking.thread_id,
+        redditThreadId: ranking.threads?.reddit_thread_id || '',
+        postTitle: ranking.threads?.post_title || '',
+        postUrl: ranking.threads?.post_url || '',
+        subreddit: ranking.threads?.subreddit || '',
+        previousPosition: ranking.rank_position,
+        position: null,
+      })
+    }
 
-    if (allPosts) {
-      const currentUrls = redditPosts.map((p) => p.post_url)
-      const postsToDelete = allPosts
-        .filter((post: { post_url: string }) => !currentUrls.includes(post.post_url))
-        .map((post: { id: string }) => post.id)
-
-      if (postsToDelete.length > 0) {
-        await supabase
-          .from('reddit_posts')
-          .delete()
-          .in('id', postsToDelete)
-      }
+    if (droppedIds.length > 0) {
+      console.log(`Marking ${droppedIds.length} posts as dropped for keyword: ${keywordText}`)
+
+      await supabase
+        .from('keyword_thread_rankings')
+        .update({ dropped_at: now, last_checked_at: now })
+        .in('id', droppedIds)
+
+      // Record the drop-out in history (null rank = not ranking)
+      await supabase
+        .from('rankings_history')
+        .insert(droppedIds.map((id: string) => ({
+          ranking_id: id,
+          rank_position: null,
+          checked_at: now,
+          ...market,
+        })))
     }
-  } else {
-    // If no posts found, remove all existing posts for this keyword
-    await supabase
-      .from('reddit_posts')
-      .delete()
-      .eq('keyword_id', keywordId)
   }
+
+  await emitRankingEvents(supabase, keywordId, keywordText, changes)
+
+  return changes
+}
+
+/**
+ * Checks and saves the rankings of one keyword in its market, then checks the project's
+ * alert rules against the changes. SERP and scrape calls are written to the usage ledger,
+ * billed to the keyword's project.
+ */
+export async function runRankingCheck(
+  keywordId: string,
+  keywordText: string,
+  supabaseClient: SupabaseClient,
+  serpSettings?: SerpSettings
+): Promise<{ postsCount: number; cost: number | null }> {
+  const settings = serpSettings || await loadKeywordSerpSettings(keywordId, supabaseClient)
+  const usage = createUsageRecorder(supabaseClient, await loadKeywordUsageContext(supabaseClient, keywordId))
+  const { posts, cost, provider } = await checkRankings(keywordText, settings)
+  await usage.record({ provider, operation: 'serp_search', cost })
+  const changes = await saveRankingsToDatabase(keywordId, keywordText, posts, supabaseClient, settings, usage)
+  await checkAlertRules(supabaseClient, keywordId, keywordText, changes)
+
+  // Schedules the next check one refresh interval out (set_keyword_next_check_at trigger)
+  const { error } = await supabaseClient
+    .from('keywords')
+    .update({ last_checked_at: new Date().toISOString(), check_failures: 0 })
+    .eq('id', keywordId)
+  if (error) {
+    console.error(`Error updating last check of keyword ${keywordText}:`, error)
+  }
+  return { postsCount: posts.length, cost }
 }
 
+/**
+ * Backs off a keyword whose scheduled check failed, so it doesn't stay the most overdue keyword
+ * and take a batch slot on every run (record_keyword_check_failure). Needs a service role client.
+ */
+export async function recordKeywordCheckFailure(supabaseClient: SupabaseClient, keywordId: string) {
+  const { error } = await supabaseClient.rpc('record_keyword_check_failure', { p_keyword_id: keywordId })
+  if (error) {
+    throw new Error(`Could not back off keyword ${keywordId}: ${error.message}`)
+  }
+}
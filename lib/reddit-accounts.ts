@@ -0,0 +1,290 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { RedditClient, RedditTokens } from './reddit-api'
+import { findThreadOrganizationIds } from './threads'
+import { RedditAccount, RedditAccountActivity, RedditAccountKarma, RedditAccountWithStats, ReplyDraft } from './types'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Drafts that count towards an account's cadence: they're live or about to be
+const POSTING_STATUSES = ['scheduled', 'posting', 'posted']
+
+/**
+ * Validates the fields of a Reddit account from a request body. Only fields present are validated.
+ */
+export function parseRedditAccountInput(
+  body: Record<string, unknown>,
+  isNew: boolean
+): { data: Partial<RedditAccount>; error: string | null } {
+  const data: Partial<RedditAccount> = {}
+
+  if (isNew) {
+    if (typeof body.organization_id !== 'string' || !body.organization_id) {
+      return { data, error: 'organization_id is required' }
+    }
+    data.organization_id = body.organization_id
+  }
+
+  if (body.username !== undefined || isNew) {
+    const username = typeof body.username === 'string' ? body.username.trim().replace(/^\/?u\//i, '') : ''
+    if (!/^[A-Za-z0-9_-]{3,20}$/.test(username)) {
+      return { data, error: 'username must be a Reddit username (3-20 letters, digits, _ or -)' }
+    }
+    data.username = username
+  }
+
+  if (body.notes !== undefined) {
+    data.notes = typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null
+  }
+
+  if (body.max_comments_per_day !== undefined) {
+    if (!Number.isInteger(body.max_comments_per_day) || (body.max_comments_per_day as number) < 1) {
+      return { data, error: 'max_comments_per_day must be a positive whole number' }
+    }
+    data.max_comments_per_day = body.max_comments_per_day as number
+  }
+
+  if (body.min_subreddit_gap_hours !== undefined) {
+    if (!Number.isInteger(body.min_subreddit_gap_hours) || (body.min_subreddit_gap_hours as number) < 0) {
+      return { data, error: 'min_subreddit_gap_hours must be a whole number of hours' }
+    }
+    data.min_subreddit_gap_hours = body.min_subreddit_gap_hours as number
+  }
+
+  if (body.is_active !== undefined) {
+    if (typeof body.is_active !== 'boolean') {
+      return { data, error: 'is_active must be a boolean' }
+    }
+    data.is_active = body.is_active
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Non-rejected drafts assigned to an account, latest activity first
+ */
+export async function getRedditAccountActivity(supabase: SupabaseClient, accountId: string): Promise<RedditAccountActivity[]> {
+  const { data, error } = await supabase.rpc('reddit_account_activity', { p_account_id: accountId })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Where an account has replied: its scheduled and posted replies per subreddit, most recent first
+ */
+export function getSubredditHistory(activity: RedditAccountActivity[]): Array<{ subreddit: string; replies: number; last_at: string }> {
+  const history = new Map<string, { subreddit: string; replies: number; last_at: string }>()
+
+  // Activity comes latest first, so the first reply seen in a subreddit is its last one
+  for (const a of activity.filter((a) => POSTING_STATUSES.includes(a.status))) {
+    const key = a.subreddit.toLowerCase()
+    const entry = history.get(key) || { subreddit: a.subreddit, replies: 0, last_at: a.activity_at }
+    entry.replies++
+    history.set(key, entry)
+  }
+
+  return Array.from(history.values())
+}
+
+/**
+ * Accounts the user can see, optionally of one organization, with their latest karma and recent replies
+ */
+export async function listRedditAccounts(
+  supabase: SupabaseClient,
+  organizationId: string | null = null
+): Promise<RedditAccountWithStats[]> {
+  let query = supabase
+    .from('reddit_accounts')
+    .select('*, reddit_account_karma(*)')
+    .order('username', { ascending: true })
+    .order('recorded_at', { referencedTable: 'reddit_account_karma', ascending: false })
+    .limit(1, { referencedTable: 'reddit_account_karma' })
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const since = Date.now() - DAY_MS
+  return Promise.all(
+    ((data || []) as Array<RedditAccount & { reddit_account_karma: RedditAccountKarma[] | null }>).map(async (row) => {
+      const { reddit_account_karma: karma, ...account } = row
+      const posts = (await getRedditAccountActivity(supabase, account.id)).filter((a) => POSTING_STATUSES.includes(a.status))
+      const lastPosted = posts.find((a) => new Date(a.activity_at).getTime() <= Date.now())
+
+      return {
+        ...account,
+        karma: karma?.[0] || null,
+        replies_last_day: posts.filter((a) => {
+          const time = new Date(a.activity_at).getTime()
+          return time > since && time <= Date.now()
+        }).length,
+        last_posted_at: lastPosted?.activity_at || null,
+      }
+    })
+  )
+}
+
+/**
+ * Why posting a draft from an account would break the account's cadence policy: the account
+ * already has a reply in the thread, too many replies within 24 hours of this one, or another
+ * reply in the subreddit closer than its minimum gap. The draft goes live at `plannedAt`.
+ */
+export function getCadenceWarnings(
+  account: RedditAccount,
+  activity: RedditAccountActivity[],
+  draft: { id: string; thread_id: string; subreddit: string; plannedAt: Date }
+): string[] {
+  const warnings: string[] = []
+  const others = activity.filter((a) => a.draft_id !== draft.id)
+  const planned = draft.plannedAt.getTime()
+  const hoursApart = (a: RedditAccountActivity) => Math.abs(new Date(a.activity_at).getTime() - planned) / HOUR_MS
+
+  if (!account.is_active) {
+    warnings.push(`u/${account.username} is inactive`)
+  }
+
+  const sameThread = others.find((a) => a.thread_id === draft.thread_id)
+  if (sameThread) {
+    warnings.push(`u/${account.username} already has a ${sameThread.status.replace('_', ' ')} reply in this thread`)
+  }
+
+  const posts = others.filter((a) => POSTING_STATUSES.includes(a.status))
+  const nearby = posts.filter((a) => hoursApart(a) < 24).length
+  if (nearby >= account.max_comments_per_day) {
+    warnings.push(
+      `u/${account.username} has ${nearby} other ${nearby === 1 ? 'reply' : 'replies'} within 24 hours of this one (limit ${account.max_comments_per_day} a day)`
+    )
+  }
+
+  const subreddit = draft.subreddit.toLowerCase().replace(/^r\//, '')
+  const closest = posts
+    .filter((a) => a.subreddit.toLowerCase().replace(/^r\//, '') === subreddit)
+    .map(hoursApart)
+    .sort((a, b) => a - b)[0]
+  if (closest !== undefined && closest < account.min_subreddit_gap_hours) {
+    warnings.push(
+      `u/${account.username} has another reply in r/${subreddit} ${Math.round(closest)} hours from this one (minimum gap ${account.min_subreddit_gap_hours} hours)`
+    )
+  }
+
+  return warnings
+}
+
+/**
+ * Accounts a draft could be posted from (those of the organizations tracking its thread, none
+ * when no project tracks it), each with the cadence warnings for the draft.
+ * The draft is expected to go live when it's scheduled, or now.
+ */
+export async function getDraftAccountWarnings(
+  supabase: SupabaseClient,
+  draft: ReplyDraft & { subreddit: string }
+): Promise<Array<{ account: RedditAccount; warnings: string[] }>> {
+  const { data: accounts, error } = await supabase
+    .from('reddit_accounts')
+    .select('*')
+    .in('organization_id', await findThreadOrganizationIds(supabase, draft.thread_id))
+    .order('username', { ascending: true })
+
+  if (error) throw error
+
+  const plannedAt = draft.scheduled_for ? new Date(draft.scheduled_for) : new Date()
+  return Promise.all(
+    ((accounts || []) as RedditAccount[]).map(async (account) => ({
+      account,
+      warnings: getCadenceWarnings(account, await getRedditAccountActivity(supabase, account.id), {
+        id: draft.id,
+        thread_id: draft.thread_id,
+        subreddit: draft.subreddit,
+        plannedAt,
+      }),
+    }))
+  )
+}
+
+// Ties an OAuth callback to the browser that started linking, and the account being linked
+export const REDDIT_OAUTH_STATE_COOKIE = 'reddit_oauth_state'
+
+export function getRedditOAuthRedirectUri(): string {
+  return `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/api/reddit-accounts/oauth/callback`
+}
+
+/**
+ * Stores the refresh token of a linked account and marks it linked. Needs a service role client,
+ * since only the service role can touch credentials.
+ */
+export async function saveRedditAccountCredentials(
+  supabase: SupabaseClient,
+  accountId: string,
+  tokens: RedditTokens,
+  userId: string
+): Promise<RedditAccount> {
+  if (!tokens.refreshToken) {
+    throw new Error('Reddit did not issue a refresh token')
+  }
+
+  const { error: credentialsError } = await supabase
+    .from('reddit_account_credentials')
+    .upsert({ account_id: accountId, refresh_token: tokens.refreshToken, linked_by: userId }, { onConflict: 'account_id' })
+
+  if (credentialsError) throw credentialsError
+
+  const { data, error } = await supabase
+    .from('reddit_accounts')
+    .update({ oauth_linked_at: new Date().toISOString(), oauth_scope: tokens.scope })
+    .eq('id', accountId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Forgets the refresh token of an account. Needs a service role client.
+ */
+export async function deleteRedditAccountCredentials(supabase: SupabaseClient, accountId: string): Promise<RedditAccount> {
+  const { error: credentialsError } = await supabase
+    .from('reddit_account_credentials')
+    .delete()
+    .eq('account_id', accountId)
+
+  if (credentialsError) throw credentialsError
+
+  const { data, error } = await supabase
+    .from('reddit_accounts')
+    .update({ oauth_linked_at: null, oauth_scope: null })
+    .eq('id', accountId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * A fresh access token for a linked account, or null when the account isn't linked. Needs a
+ * service role client to read the refresh token.
+ */
+export async function getRedditAccessToken(
+  supabase: SupabaseClient,
+  client: RedditClient,
+  accountId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('reddit_account_credentials')
+    .select('refresh_token')
+    .eq('account_id', accountId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  // Access tokens last an hour, and posting is rare enough to refresh every time
+  const tokens = await client.refreshAccessToken(data.refresh_token)
+  return tokens.accessToken
+}
@@ -0,0 +1,45 @@
+import { MOCK_REDDIT_CLIENT_ID, MOCK_REDDIT_CLIENT_SECRET } from './mock'
+import { createRedditOAuthClient } from './oauth'
+import { RedditClient } from './types'
+
+export type { RedditClient, RedditTokens, SubmittedComment } from './types'
+export { REDDIT_OAUTH_SCOPES } from './oauth'
+
+export const REDDIT_APIS = ['reddit', 'mock'] as const
+
+/**
+ * Returns the Reddit API client configured via REDDIT_API (defaults to Reddit itself). `mock`
+ * talks to the stand-in server at REDDIT_MOCK_URL, by default the app's own /api/mock-reddit routes.
+ */
+export function getRedditClient(name: string = process.env.REDDIT_API || 'reddit'): RedditClient {
+  switch (name) {
+    case 'reddit': {
+      const clientId = process.env.REDDIT_CLIENT_ID
+      const clientSecret = process.env.REDDIT_CLIENT_SECRET
+      if (!clientId || !clientSecret) {
+        throw new Error('REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET not configured')
+      }
+      return createRedditOAuthClient({
+        name,
+        authBaseUrl: 'https://www.reddit.com',
+        apiBaseUrl: 'https://oauth.reddit.com',
+        webBaseUrl: 'https://www.reddit.com',
+        clientId,
+        clientSecret,
+      })
+    }
+    case 'mock': {
+      const baseUrl = process.env.REDDIT_MOCK_URL || `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/api/mock-reddit`
+      return createRedditOAuthClient({
+        name,
+        authBaseUrl: baseUrl,
+        apiBaseUrl: baseUrl,
+        webBaseUrl: 'https://www.reddit.com',
+        clientId: MOCK_REDDIT_CLIENT_ID,
+        clientSecret: MOCK_REDDIT_CLIENT_SECRET,
+      })
+    }
+    default:
+      throw new Error(`Unknown Reddit API "${name}". Expected one of: ${REDDIT_APIS.join(', ')}`)
+  }
+}
@@ -0,0 +1,59 @@
+import { randomBytes } from 'node:crypto'
+
+// Credentials the stand-in server accepts
+export const MOCK_REDDIT_CLIENT_ID = 'mock-client'
+export const MOCK_REDDIT_CLIENT_SECRET = 'mock-secret'
+
+// The stand-in server is stateless: codes and tokens carry the username they were issued for
+const CODE_PREFIX = 'mock-code.'
+const ACCESS_PREFIX = 'mock-access.'
+const REFRESH_PREFIX = 'mock-refresh.'
+
+/**
+ * The stand-in routes under /api/mock-reddit only answer when the app itself posts through them
+ */
+export function isMockRedditEnabled(): boolean {
+  return process.env.REDDIT_API === 'mock'
+}
+
+export function isMockRedditClient(authorization: string | null): boolean {
+  const expected = Buffer.from(`${MOCK_REDDIT_CLIENT_ID}:${MOCK_REDDIT_CLIENT_SECRET}`).toString('base64')
+  return authorization === `Basic ${expected}`
+}
+
+export function createMockCode(username: string): string {
+  return `${CODE_PREFIX}${username}`
+}
+
+export function createMockTokens(username: string, withRefreshToken: boolean) {
+  return {
+    access_token: `${ACCESS_PREFIX}${username}`,
+    token_type: 'bearer',
+    expires_in: 3600,
+    scope: 'identity submit',
+    ...(withRefreshToken ? { refresh_token: `${REFRESH_PREFIX}${username}` } : {}),
+  }
+}
+
+function readToken(value: string | null, prefix: string): string | null {
+  return value?.startsWith(prefix) && value.length > prefix.length ? value.slice(prefix.length) : null
+}
+
+export function readMockCode(code: string | null): string | null {
+  return readToken(code, CODE_PREFIX)
+}
+
+export function readMockRefreshToken(token: string | null): string | null {
+  return readToken(token, REFRESH_PREFIX)
+}
+
+/**
+ * Username of the account a `Bearer` access token was issued for, or null when it wasn't issued here
+ */
+export function readMockAccessToken(authorization: string | null): string | null {
+  return readToken(authorization?.replace(/^Bearer /, '') || null, ACCESS_PREFIX)
+}
+
+export function createMockCommentId(): string {
+  return parseInt(randomBytes(5).toString('hex'), 16).toString(36)
+}
@@ -0,0 +1,127 @@
+import { fetchWithPolicy } from '../http'
+import { RedditClient, RedditTokens, SubmittedComment } from './types'
+
+// Linking needs the username (identity); posting needs submit
+export const REDDIT_OAUTH_SCOPES = ['identity', 'submit']
+
+export interface RedditOAuthConfig {
+  name: string
+  authBaseUrl: string // Serves /api/v1/authorize and /api/v1/access_token
+  apiBaseUrl: string // Serves the OAuth API (/api/v1/me, /api/comment)
+  webBaseUrl: string // Prefix of the permalinks the API returns
+  clientId: string
+  clientSecret: string
+}
+
+interface TokenResponse {
+  access_token?: string
+  refresh_token?: string
+  scope?: string
+  expires_in?: number
+  error?: string
+}
+
+interface CommentResponse {
+  json?: {
+    errors?: string[][]
+    data?: {
+      things?: Array<{ kind: string; data: { id?: string; permalink?: string } }>
+    }
+  }
+}
+
+function userAgent(): string {
+  return process.env.REDDIT_USER_AGENT || 'reddit-seo/0.1'
+}
+
+/**
+ * Reddit's OAuth2 API for "web app" clients. The same client talks to the local stand-in server
+ * (app/api/mock-reddit) when its base URLs point there.
+ */
+export function createRedditOAuthClient(config: RedditOAuthConfig): RedditClient {
+  const requestToken = async (params: Record<string, string>): Promise<RedditTokens> => {
+    const response = await fetchWithPolicy('reddit', `${config.authBaseUrl}/api/v1/access_token`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${config.clientId}:${config.clientSecret}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'User-Agent': userAgent(),
+      },
+      body: new URLSearchParams(params).toString(),
+    })
+
+    // Reddit answers bad codes and revoked tokens with 200 and an error field
+    const data: TokenResponse = await response.json()
+    if (!data.access_token) {
+      throw new Error(`Reddit did not issue an access token: ${data.error || 'unknown error'}`)
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || null,
+      scope: data.scope || '',
+      expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000,
+    }
+  }
+
+  return {
+    name: config.name,
+
+    getAuthorizeUrl(state: string, redirectUri: string): string {
+      const url = new URL(`${config.authBaseUrl}/api/v1/authorize`)
+      url.searchParams.set('client_id', config.clientId)
+      url.searchParams.set('response_type', 'code')
+      url.searchParams.set('state', state)
+      url.searchParams.set('redirect_uri', redirectUri)
+      url.searchParams.set('duration', 'permanent')
+      url.searchParams.set('scope', REDDIT_OAUTH_SCOPES.join(' '))
+      return url.toString()
+    },
+
+    exchangeCode(code: string, redirectUri: string): Promise<RedditTokens> {
+      return requestToken({ grant_type: 'authorization_code', code, redirect_uri: redirectUri })
+    },
+
+    refreshAccessToken(refreshToken: string): Promise<RedditTokens> {
+      return requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken })
+    },
+
+    async getUsername(accessToken: string): Promise<string> {
+      const response = await fetchWithPolicy('reddit', `${config.apiBaseUrl}/api/v1/me`, {
+        headers: { 'Authorization': `Bearer ${accessToken}`, 'User-Agent': userAgent() },
+      })
+      const data: { name?: string } = await response.json()
+      if (!data.name) {
+        throw new Error('Reddit did not return the account name')
+      }
+      return data.name
+    },
+
+    async submitComment(accessToken: string, parentFullname: string, text: string): Promise<SubmittedComment> {
+      // No retries: a request that timed out may still have posted the comment
+      const response = await fetchWithPolicy('reddit', `${config.apiBaseUrl}/api/comment`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'User-Agent': userAgent(),
+        },
+        body: new URLSearchParams({ api_type: 'json', thing_id: parentFullname, text }).toString(),
+      }, { maxRetries: 0 })
+
+      const data: CommentResponse = await response.json()
+      const errors = data.json?.errors || []
+      if (errors.length > 0) {
+        // Each error is [code, message, field], e.g. ["RATELIMIT", "you are doing that too much...", "ratelimit"]
+        throw new Error(`Reddit rejected the comment: ${errors.map((e) => e[1] || e[0]).join('; ')}`)
+      }
+
+      const comment = data.json?.data?.things?.find((thing) => thing.kind === 't1')?.data
+      if (!comment?.id || !comment.permalink) {
+        throw new Error('Reddit did not return the posted comment')
+      }
+
+      return { id: comment.id, permalink: `${config.webBaseUrl}${comment.permalink}` }
+    },
+  }
+}
@@ -0,0 +1,33 @@
+export interface RedditTokens {
+  accessToken: string
+  refreshToken: string | null // Only returned when authorizing with duration=permanent
+  scope: string
+  expiresAt: number // Epoch milliseconds
+}
+
+export interface SubmittedComment {
+  id: string // Base36 comment ID, without the "t1_" prefix
+  permalink: string // Absolute URL of the comment
+}
+
+/**
+ * Reddit's OAuth API, as used to link accounts and post replies. Implementations throw on
+ * transport errors and on errors Reddit reports in the response body.
+ */
+export interface RedditClient {
+  name: string
+  /**
+   * Where to send the user to grant access; Reddit redirects back to `redirectUri` with a code and the state
+   */
+  getAuthorizeUrl(state: string, redirectUri: string): string
+  exchangeCode(code: string, redirectUri: string): Promise<RedditTokens>
+  refreshAccessToken(refreshToken: string): Promise<RedditTokens>
+  /**
+   * Username of the account an access token belongs to
+   */
+  getUsername(accessToken: string): Promise<string>
+  /**
+   * Posts a comment under a thing (a "t3_" post or "t1_" comment fullname)
+   */
+  submitComment(accessToken: string, parentFullname: string, text: string): Promise<SubmittedComment>
+}
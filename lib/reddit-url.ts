@@ -0,0 +1,60 @@
+export interface RedditThreadRef {
+  threadId: string // Base36 Reddit post ID (the "t3_" fullname without prefix), e.g. "abc123"
+  subreddit: string | null
+  commentId: string | null // Set when the URL is a comment permalink
+  canonicalUrl: string
+}
+
+const REDDIT_HOST = /^(?:[a-z0-9-]+\.)?reddit\.com$/i
+const SHORT_HOST = /^(?:www\.)?redd\.it$/i
+
+/**
+ * Canonical thread URL for a post ID. Always `https://www.reddit.com/r/<subreddit>/comments/<id>/`,
+ * or `https://www.reddit.com/comments/<id>/` when the subreddit is unknown.
+ */
+export function buildCanonicalRedditUrl(threadId: string, subreddit?: string | null): string {
+  const id = threadId.toLowerCase()
+  return subreddit
+    ? `https://www.reddit.com/r/${subreddit}/comments/${id}/`
+    : `https://www.reddit.com/comments/${id}/`
+}
+
+/**
+ * Parses any Reddit thread URL variant (old./www./m./np. hosts, missing slug, trailing slashes,
+ * query strings, comment permalinks, redd.it short links) into the thread ID and canonical URL.
+ * Returns null for URLs that don't point at a thread (subreddit pages, user pages, other sites).
+ */
+export function parseRedditUrl(rawUrl: string): RedditThreadRef | null {
+  let url: URL
+  try {
+    url = new URL(rawUrl.trim().replace(/^(?!https?:\/\/)/i, 'https://'))
+  } catch {
+    return null
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean)
+
+  if (SHORT_HOST.test(url.hostname)) {
+    const threadId = segments[0]
+    if (!threadId || !/^[a-z0-9]+$/i.test(threadId)) return null
+    return { threadId: threadId.toLowerCase(), subreddit: null, commentId: null, canonicalUrl: buildCanonicalRedditUrl(threadId) }
+  }
+
+  if (!REDDIT_HOST.test(url.hostname)) return null
+
+  // /r/<subreddit>/comments/<id>/<slug>/<commentId>/ or /comments/<id>/...
+  const subreddit = segments[0]?.toLowerCase() === 'r' && segments[1] ? segments[1] : null
+  const commentsIndex = segments.findIndex((segment) => segment.toLowerCase() === 'comments')
+  if (commentsIndex === -1) return null
+
+  const threadId = segments[commentsIndex + 1]
+  if (!threadId || !/^[a-z0-9]+$/i.test(threadId)) return null
+
+  const commentId = segments[commentsIndex + 3]
+  return {
+    threadId: threadId.toLowerCase(),
+    subreddit,
+    commentId: commentId && /^[a-z0-9]+$/i.test(commentId) ? commentId.toLowerCase() : null,
+    canonicalUrl: buildCanonicalRedditUrl(threadId, subreddit),
+  }
+}
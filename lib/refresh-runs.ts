@@ -0,0 +1,112 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { RefreshTrigger } from './types'
+import { emitRefreshRunEvents } from './webhooks'
+
+export interface RefreshRunItemInput {
+  keywordId: string
+  keyword: string
+  startedAt: string
+  postsCount?: number
+  cost?: number | null
+  error?: string // Set when the keyword failed
+}
+
+export interface RefreshRunRecorder {
+  runId: string | null
+  record(item: RefreshRunItemInput): Promise<void>
+  finish(error?: string): Promise<void>
+}
+
+/**
+ * Starts a refresh_runs row and returns a recorder for its per-keyword outcomes. Finishing the
+ * run emits refresh_run.completed webhooks to the projects of the keywords it checked.
+ * Logging never fails a refresh: database errors are logged and the run goes unrecorded.
+ */
+export async function startRefreshRun(
+  supabase: SupabaseClient,
+  trigger: RefreshTrigger,
+  options: { source?: string; userId?: string | null; keywordsTotal?: number } = {}
+): Promise<RefreshRunRecorder> {
+  const totals = { succeeded: 0, failed: 0, posts: 0, cost: 0 }
+  const items: RefreshRunItemInput[] = []
+
+  const { data: run, error: runError } = await supabase
+    .from('refresh_runs')
+    .insert({
+      trigger,
+      source: options.source || null,
+      user_id: options.userId || null,
+      keywords_total: options.keywordsTotal || 0,
+    })
+    .select('id')
+    .single()
+
+  if (runError) {
+    console.error('Error starting refresh run log:', runError)
+  }
+  const runId: string | null = run?.id || null
+
+  return {
+    runId,
+
+    async record(item) {
+      items.push(item)
+      if (item.error) {
+        totals.failed++
+      } else {
+        totals.succeeded++
+        totals.posts += item.postsCount || 0
+      }
+      totals.cost += item.cost || 0
+
+      if (!runId) return
+
+      const { error } = await supabase
+        .from('refresh_run_items')
+        .insert({
+          run_id: runId,
+          keyword_id: item.keywordId,
+          keyword: item.keyword,
+          success: !item.error,
+          posts_count: item.error ? null : item.postsCount ?? null,
+          api_cost: item.cost ?? null,
+          error: item.error || null,
+          started_at: item.startedAt,
+          finished_at: new Date().toISOString(),
+        })
+
+      if (error) {
+        console.error(`Error logging refresh of keyword ${item.keyword}:`, error)
+      }
+    },
+
+    async finish(error) {
+      if (runId) {
+        const { error: updateError } = await supabase
+          .from('refresh_runs')
+          .update({
+            status: error ? 'failed' : 'completed',
+            // Runs that process a queue only know their size at the end
+            keywords_total: Math.max(options.keywordsTotal || 0, totals.succeeded + totals.failed),
+            keywords_succeeded: totals.succeeded,
+            keywords_failed: totals.failed,
+            posts_count: totals.posts,
+            api_cost: totals.cost,
+            error: error || null,
+            finished_at: new Date().toISOString(),
+          })
+          .eq('id', runId)
+
+        if (updateError) {
+          console.error('Error finishing refresh run log:', updateError)
+        }
+      }
+
+      await emitRefreshRunEvents(
+        supabase,
+        { runId, trigger, source: options.source, status: error ? 'failed' : 'completed', error },
+        items
+      )
+    },
+  }
+}
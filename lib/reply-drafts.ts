@@ -0,0 +1,281 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from './supabase/admin'
+import { findThreadProjectId } from './threads'
+import { REPLY_DRAFT_STATUSES, REPLY_DRAFT_TRANSITIONS, ReplyDraft, ReplyDraftStatus, ReplyDraftWithThread, Thread, WebhookEvent } from './types'
+import { emitWebhookEvent } from './webhooks'
+
+export const DRAFT_WITH_THREAD_SELECT =
+  'id, user_id, thread_id, draft_content, status, assignee_id, reviewer_id, reddit_account_id, scheduled_for, status_changed_at, created_at, updated_at, threads(post_url, post_title, subreddit)'
+
+type ThreadFields = Pick<Thread, 'post_url' | 'post_title' | 'subreddit'>
+
+export function toReplyDraftWithThread(row: ReplyDraft & { threads: ThreadFields | ThreadFields[] | null }): ReplyDraftWithThread {
+  const { threads, ...draft } = row
+  // Supabase may return an embedded many-to-one relation as an array
+  const thread = Array.isArray(threads) ? threads[0] : threads
+  return {
+    ...draft,
+    post_url: thread?.post_url || '',
+    post_title: thread?.post_title || '',
+    subreddit: thread?.subreddit || '',
+  }
+}
+
+/**
+ * A draft the user can see (their own or a colleague's), with its thread
+ */
+export async function findReplyDraft(supabase: SupabaseClient, id: string): Promise<ReplyDraftWithThread | null> {
+  const { data, error } = await supabase
+    .from('reply_drafts')
+    .select(DRAFT_WITH_THREAD_SELECT)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toReplyDraftWithThread(data) : null
+}
+
+/**
+ * Authors edit their own drafts. Colleagues can too unless they're only clients in the
+ * organizations tracking the thread (see can_review_reply_draft in migration 022).
+ */
+export async function canEditReplyDraft(supabase: SupabaseClient, draft: ReplyDraft, userId: string): Promise<boolean> {
+  if (draft.user_id === userId) return true
+
+  const { data, error } = await supabase.rpc('can_review_reply_draft', {
+    p_thread_id: draft.thread_id,
+    p_author_id: draft.user_id,
+  })
+
+  if (error) throw error
+  return data === true
+}
+
+// Statuses that record a review decision
+const REVIEW_STATUSES: ReplyDraftStatus[] = ['approved', 'rejected']
+
+/**
+ * Approving or rejecting a draft is up to someone other than its author: the reviewer assigned to
+ * it, or an owner or editor of an organization tracking the thread (see can_approve_reply_draft in
+ * migration 028)
+ */
+export async function canReviewReplyDraft(supabase: SupabaseClient, draft: ReplyDraft, userId: string): Promise<boolean> {
+  if (draft.user_id === userId) return false
+  if (draft.reviewer_id === userId) return true
+
+  const { data, error } = await supabase.rpc('can_approve_reply_draft', { p_thread_id: draft.thread_id })
+
+  if (error) throw error
+  return data === true
+}
+
+export function isReviewStatus(status: ReplyDraftStatus): boolean {
+  return REVIEW_STATUSES.includes(status)
+}
+
+// Approved and scheduled drafts go back to review when their text changes
+const REVIEW_AGAIN_ON_EDIT: ReplyDraftStatus[] = ['approved', 'scheduled']
+
+/**
+ * Sends a draft event to the webhooks of the thread's project. Drafts of threads no project
+ * tracks notify nobody. Reviewers can't read webhook endpoints, so the events are queued with
+ * the admin client.
+ */
+async function emitDraftEvent(
+  supabase: SupabaseClient,
+  event: WebhookEvent,
+  draft: ReplyDraft,
+  postUrl: string,
+  extra: Record<string, unknown> = {}
+): Promise<void> {
+  const projectId = await findThreadProjectId(supabase, draft.thread_id).catch(() => null)
+  await emitWebhookEvent(createAdminClient(), projectId, event, {
+    draft_id: draft.id,
+    thread_id: draft.thread_id,
+    post_url: postUrl,
+    draft_content: draft.draft_content,
+    status: draft.status,
+    user_id: draft.user_id,
+    updated_at: draft.updated_at,
+    ...extra,
+  })
+}
+
+function editedStatus(status: ReplyDraftStatus): Partial<ReplyDraft> {
+  return REVIEW_AGAIN_ON_EDIT.includes(status)
+    ? { status: 'in_review', scheduled_for: null, status_changed_at: new Date().toISOString() }
+    : {}
+}
+
+/**
+ * Creates or updates the user's draft for a thread and sends draft.created or draft.updated.
+ */
+export async function saveReplyDraft(
+  supabase: SupabaseClient,
+  draft: { userId: string; threadId: string; postUrl: string; content: string }
+): Promise<{ draft: ReplyDraft; created: boolean }> {
+  const { data: existing, error: existingError } = await supabase
+    .from('reply_drafts')
+    .select('id, status')
+    .eq('user_id', draft.userId)
+    .eq('thread_id', draft.threadId)
+    .maybeSingle()
+
+  if (existingError) throw existingError
+
+  const { data, error } = existing
+    ? await supabase
+        .from('reply_drafts')
+        .update({ draft_content: draft.content, ...editedStatus(existing.status) })
+        .eq('id', existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from('reply_drafts')
+        .insert({ user_id: draft.userId, thread_id: draft.threadId, draft_content: draft.content })
+        .select()
+        .single()
+
+  if (error) throw error
+
+  await emitDraftEvent(supabase, existing ? 'draft.updated' : 'draft.created', data, draft.postUrl)
+
+  return { draft: data, created: !existing }
+}
+
+/**
+ * Replaces the text of any draft the user can edit (their own, or a colleague's they review)
+ */
+export async function updateReplyDraftContent(
+  supabase: SupabaseClient,
+  draft: ReplyDraft,
+  postUrl: string,
+  content: string
+): Promise<ReplyDraft> {
+  const { data, error } = await supabase
+    .from('reply_drafts')
+    .update({ draft_content: content, ...editedStatus(draft.status) })
+    .eq('id', draft.id)
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await emitDraftEvent(supabase, 'draft.updated', data, postUrl)
+  return data
+}
+
+/**
+ * Validates a status change. Scheduling needs a future `scheduledFor`.
+ */
+export function validateStatusChange(
+  from: ReplyDraftStatus,
+  to: unknown,
+  scheduledFor: unknown
+): { data: { status: ReplyDraftStatus; scheduledFor: string | null } | null; error: string | null } {
+  const status = REPLY_DRAFT_STATUSES.find((s) => s.value === to)?.value
+  if (!status) {
+    return { data: null, error: `status must be one of: ${REPLY_DRAFT_STATUSES.map((s) => s.value).join(', ')}` }
+  }
+  if (!REPLY_DRAFT_TRANSITIONS[from].includes(status)) {
+    return { data: null, error: `A draft can't go from ${from} to ${status}` }
+  }
+  if (status === 'posting') {
+    return { data: null, error: 'Drafts are only posting while they are posted through the Reddit API' }
+  }
+
+  if (status !== 'scheduled') {
+    return { data: { status, scheduledFor: null }, error: null }
+  }
+
+  const time = typeof scheduledFor === 'string' ? new Date(scheduledFor) : null
+  if (!time || isNaN(time.getTime()) || time.getTime() <= Date.now()) {
+    return { data: null, error: 'scheduled_for must be a future date' }
+  }
+  return { data: { status, scheduledFor: time.toISOString() }, error: null }
+}
+
+/**
+ * Moves a draft to a validated status and sends draft.status_changed. Whoever approves or
+ * rejects a draft becomes its reviewer.
+ */
+export async function setReplyDraftStatus(
+  supabase: SupabaseClient,
+  draft: ReplyDraft,
+  postUrl: string,
+  change: { status: ReplyDraftStatus; scheduledFor: string | null; userId: string }
+): Promise<ReplyDraft> {
+  const reviewed = change.status === 'approved' || change.status === 'rejected'
+
+  const { data, error } = await supabase
+    .from('reply_drafts')
+    .update({
+      status: change.status,
+      scheduled_for: change.scheduledFor,
+      status_changed_at: new Date().toISOString(),
+      ...(reviewed ? { reviewer_id: change.userId } : {}),
+    })
+    .eq('id', draft.id)
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await emitDraftEvent(supabase, 'draft.status_changed', data, postUrl, {
+    previous_status: draft.status,
+    changed_by: change.userId,
+  })
+  return data
+}
+
+// Statuses a draft can be posted through the Reddit API from
+const POSTABLE_STATUSES: ReplyDraftStatus[] = ['approved', 'scheduled']
+
+/**
+ * Claims an approved or scheduled draft for posting (`posting`) from an account, so only one
+ * request posts it. Null when the draft isn't postable, e.g. because another request claimed it first.
+ */
+export async function claimReplyDraftForPosting(
+  supabase: SupabaseClient,
+  draftId: string,
+  redditAccountId: string
+): Promise<ReplyDraft | null> {
+  const { data, error } = await supabase
+    .from('reply_drafts')
+    .update({ status: 'posting', reddit_account_id: redditAccountId, status_changed_at: new Date().toISOString() })
+    .eq('id', draftId)
+    .in('status', POSTABLE_STATUSES)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Puts a claimed draft back to the status it was posted from after posting failed, or to `status`.
+ * Authors can't approve drafts, so this runs with the service role.
+ */
+export async function releaseReplyDraft(draft: ReplyDraft, status: ReplyDraftStatus = draft.status): Promise<void> {
+  const { error } = await createAdminClient()
+    .from('reply_drafts')
+    .update({
+      status,
+      scheduled_for: status === 'scheduled' ? draft.scheduled_for : null,
+      status_changed_at: new Date().toISOString(),
+    })
+    .eq('id', draft.id)
+    .eq('status', 'posting')
+
+  if (error) {
+    console.error(`Error releasing draft ${draft.id} after a failed post:`, error)
+  }
+}
+
+/**
+ * Whether an approved draft was approved by someone other than its author. Approving records the
+ * approver as the reviewer.
+ */
+export function isApprovedByReviewer(draft: ReplyDraft): boolean {
+  return !!draft.reviewer_id && draft.reviewer_id !== draft.user_id
+}
@@ -0,0 +1,144 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { LlmSettings, ReplyStyle } from './types'
+
+/**
+ * What generating a reply needs from a style
+ */
+export type ReplyStyleSettings = Pick<ReplyStyle, 'key' | 'name' | 'tone' | 'temperature' | 'max_tokens' | 'target_words'>
+
+export type ReplyStyleInput = Partial<Omit<ReplyStyleSettings, 'key'>> & { key?: string; position?: number }
+
+/**
+ * The styles every project starts with (seeded by migration 027), also used for threads no project
+ * tracks and for projects whose styles were all deleted. The token limits leave room for the
+ * reasoning of models like gpt-5-mini, which counts against them.
+ */
+export const DEFAULT_REPLY_STYLES: ReplyStyleSettings[] = [
+  {
+    key: 'casual',
+    name: 'Casual',
+    tone: 'Be friendly, natural, and conversational. Straight on the point.',
+    temperature: 0.3,
+    max_tokens: 2000,
+    target_words: 150,
+  },
+  {
+    key: 'laconic',
+    name: 'Laconic',
+    tone: 'Be short, minimal, helpful, and direct.',
+    temperature: 0.3,
+    max_tokens: 1200,
+    target_words: 60,
+  },
+]
+
+/**
+ * Validates reply style fields from a request body. New styles need a key, name and tone; updates
+ * only validate the fields they contain. Empty parameters clear them.
+ */
+export function parseReplyStyleInput(body: Record<string, unknown>, isNew: boolean): { data: ReplyStyleInput; error: string | null } {
+  const data: ReplyStyleInput = {}
+
+  if (body.key !== undefined || isNew) {
+    const key = typeof body.key === 'string' ? body.key.trim().toLowerCase() : ''
+    if (!/^[a-z0-9][a-z0-9_-]{0,39}$/.test(key)) {
+      return { data, error: 'key must be 1-40 lowercase letters, digits, _ or -' }
+    }
+    data.key = key
+  }
+
+  if (body.name !== undefined || isNew) {
+    if (typeof body.name !== 'string' || body.name.trim().length === 0) {
+      return { data, error: 'Style name is required' }
+    }
+    data.name = body.name.trim()
+  }
+
+  if (body.tone !== undefined || isNew) {
+    if (typeof body.tone !== 'string' || body.tone.trim().length === 0) {
+      return { data, error: 'tone is required' }
+    }
+    data.tone = body.tone.trim()
+  }
+
+  if (body.temperature !== undefined && body.temperature !== null && body.temperature !== '') {
+    const temperature = Number(body.temperature)
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+      return { data, error: 'temperature must be a number from 0 to 2' }
+    }
+    data.temperature = Math.round(temperature * 100) / 100
+  } else if (body.temperature !== undefined) {
+    data.temperature = null
+  }
+
+  for (const field of ['max_tokens', 'target_words'] as const) {
+    const value = body[field]
+    if (value !== undefined && value !== null && value !== '') {
+      const number = Number(value)
+      if (!Number.isInteger(number) || number <= 0) {
+        return { data, error: `${field} must be a positive integer` }
+      }
+      data[field] = number
+    } else if (value !== undefined) {
+      data[field] = null
+    }
+  }
+
+  if (body.position !== undefined) {
+    if (!Number.isInteger(body.position)) {
+      return { data, error: 'position must be an integer' }
+    }
+    data.position = body.position as number
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * The styles replies for a project can be written in, in display order. Falls back to the default
+ * styles without a project or when the project has none.
+ */
+export async function getReplyStyles(supabase: SupabaseClient, projectId: string | null): Promise<ReplyStyleSettings[]> {
+  if (!projectId) return DEFAULT_REPLY_STYLES
+
+  const { data, error } = await supabase
+    .from('reply_styles')
+    .select('key, name, tone, temperature, max_tokens, target_words')
+    .eq('project_id', projectId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  if (!data || data.length === 0) return DEFAULT_REPLY_STYLES
+
+  // NUMERIC columns come back as strings
+  return data.map((style) => ({
+    ...style,
+    temperature: style.temperature === null ? null : Number(style.temperature),
+  }))
+}
+
+/**
+ * The style with a key, or an error listing the valid keys. Without a key, the first style.
+ */
+export function findReplyStyle(
+  styles: ReplyStyleSettings[],
+  key: unknown
+): { style: ReplyStyleSettings; error: null } | { style: null; error: string } {
+  const style = key === undefined || key === null || key === '' ? styles[0] : styles.find((s) => s.key === key)
+  if (!style) {
+    return { style: null, error: `Invalid style. Must be one of: ${styles.map((s) => s.key).join(', ')}` }
+  }
+  return { style, error: null }
+}
+
+/**
+ * The project's model settings with a style's parameters applied over them
+ */
+export function applyReplyStyle(settings: LlmSettings, style: ReplyStyleSettings): LlmSettings {
+  return {
+    ...settings,
+    temperature: style.temperature ?? settings.temperature,
+    maxTokens: style.max_tokens ?? settings.maxTokens,
+  }
+}
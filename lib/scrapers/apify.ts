@@ -0,0 +1,156 @@
+import { fetchWithPolicy } from '../http'
+import { parseRedditUrl } from '../reddit-url'
+import { ScrapedComment, ScrapedCommentStatus, ScrapedThread, ScrapeOptions, ThreadScraper } from './types'
+
+const APIFY_ACTOR = 'trudax~reddit-scraper-lite'
+
+// Fields of the reddit-scraper dataset items we rely on
+interface ApifyItem {
+  dataType?: 'post' | 'comment' | string
+  id?: string
+  url?: string
+  username?: string
+  title?: string
+  body?: string
+  text?: string
+  content?: string
+  communityName?: string
+  parsedCommunityName?: string
+  upVotes?: number
+  score?: number
+  numberOfComments?: number
+  numberOfreplies?: number // Sic, the actor's spelling
+  comments?: ApifyItem[]
+  isLocked?: boolean
+  isArchived?: boolean
+  createdAt?: string
+}
+
+function toNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function normalizeApifyComment(comment: ApifyItem): ScrapedComment {
+  return {
+    id: comment.id,
+    author: comment.username,
+    text: comment.body || comment.text || '',
+    score: toNumber(comment.upVotes) ?? undefined,
+  }
+}
+
+/**
+ * Maps Apify reddit-scraper dataset items (a post, optionally followed by comment items)
+ * to a ScrapedThread. Also used to read legacy rows that stored the raw Apify item.
+ */
+export function normalizeApifyItems(url: string, items: ApifyItem[]): ScrapedThread {
+  const post = items.find((item) => item.dataType === 'post') || items[0] || {}
+  const comments: ApifyItem[] = Array.isArray(post.comments)
+    ? post.comments
+    : items.filter((item) => item.dataType === 'comment')
+
+  return {
+    source: 'apify',
+    url: post.url || url,
+    title: post.title || '',
+    body: post.body || post.text || post.content || '',
+    subreddit: post.parsedCommunityName || String(post.communityName || '').replace(/^r\//, ''),
+    author: post.username,
+    score: toNumber(post.upVotes) ?? toNumber(post.score),
+    numComments: toNumber(post.numberOfComments) ?? (comments.length > 0 ? comments.length : null),
+    comments: comments.map(normalizeApifyComment).filter((c) => c.text),
+    isLocked: !!post.isLocked,
+    isArchived: !!post.isArchived,
+    createdAt: post.createdAt,
+  }
+}
+
+/**
+ * Runs the actor synchronously on one thread URL and returns its dataset items
+ */
+async function runApifyActor(url: string, options: ScrapeOptions): Promise<ApifyItem[]> {
+  const apifyToken = process.env.APIFY_API_TOKEN
+  if (!apifyToken) {
+    throw new Error('APIFY_API_TOKEN not configured')
+  }
+
+  const apiUrl = `https://api.apify.com/v2/acts/${APIFY_ACTOR}/run-sync-get-dataset-items?token=${apifyToken}`
+  const requestBody = {
+    debugMode: false,
+    ignoreStartUrls: false,
+    includeNSFW: true,
+    maxComments: options.maxComments ?? 25,
+    maxCommunitiesCount: 1,
+    maxItems: options.includeComments ? (options.maxComments ?? 25) + 1 : 1,
+    maxPostCount: 1,
+    maxUserCount: 0,
+    proxy: {
+      useApifyProxy: true,
+      apifyProxyGroups: ['RESIDENTIAL']
+    },
+    scrollTimeout: 40,
+    searchComments: false,
+    searchCommunities: false,
+    searchPosts: true,
+    searchUsers: false,
+    skipComments: !options.includeComments,
+    skipCommunity: true,
+    skipUserPosts: true,
+    sort: 'new',
+    startUrls: [{ url }],
+  }
+
+  const response = await fetchWithPolicy('apify', apiUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(requestBody),
+  })
+
+  const data = await response.json()
+  const items: ApifyItem[] = Array.isArray(data) ? data : [data]
+  if (items.length === 0) {
+    throw new Error(`Apify returned no items for ${url}`)
+  }
+
+  return items
+}
+
+/**
+ * Apify `trudax~reddit-scraper-lite` actor (run-sync)
+ */
+export function createApifyScraper(): ThreadScraper {
+  return {
+    name: 'apify',
+    async scrape(url: string, options: ScrapeOptions): Promise<ScrapedThread> {
+      return normalizeApifyItems(url, await runApifyActor(url, options))
+    },
+
+    async scrapeComment(url: string): Promise<ScrapedCommentStatus> {
+      const commentId = parseRedditUrl(url)?.commentId
+      if (!commentId) {
+        throw new Error(`${url} is not a Reddit comment permalink`)
+      }
+
+      const items = await runApifyActor(url, { includeComments: true, maxComments: 100 })
+      const post = items.find((item) => item.dataType === 'post')
+      const comments = Array.isArray(post?.comments) ? post.comments : items.filter((item) => item.dataType === 'comment')
+      const comment = comments.find((item) => item.id?.replace(/^t1_/, '').toLowerCase() === commentId)
+
+      // The actor caps how many comments it returns, so a missing comment may just be further down
+      if (!comment) {
+        throw new Error(`Apify did not return comment ${commentId} for ${url}`)
+      }
+
+      const body = comment.body || comment.text || ''
+      return {
+        source: 'apify',
+        id: commentId,
+        url: comment.url || url,
+        score: toNumber(comment.upVotes) ?? toNumber(comment.score),
+        replyCount: toNumber(comment.numberOfreplies),
+        isRemoved: body === '[removed]',
+        isDeleted: body === '[deleted]',
+      }
+    },
+  }
+}
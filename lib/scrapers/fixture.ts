@@ -0,0 +1,92 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { parseRedditUrl } from '../reddit-url'
+import { ScrapedCommentStatus, ScrapedThread, ScrapeOptions, ThreadScraper } from './types'
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'threads')
+const DEFAULT_COMMENT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'comments')
+
+/**
+ * Reddit post ID from a thread URL, e.g. ".../comments/abc123/slug/" -> "abc123"
+ */
+export function threadFixtureName(url: string): string {
+  const match = url.match(/\/comments\/([a-z0-9]+)/i)
+  return `${match ? match[1].toLowerCase() : 'default'}.json`
+}
+
+async function readFixture<T>(filePath: string): Promise<Partial<T> | null> {
+  try {
+    const contents = await readFile(filePath, 'utf8')
+    return JSON.parse(contents) as Partial<T>
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+/**
+ * Local scraper that serves threads from JSON fixtures, for offline development and tests.
+ * Looks up `<post-id>.json` in THREAD_FIXTURES_DIR (default `fixtures/threads`) and falls back to `default.json`.
+ * Comments are looked up the same way, as `<comment-id>.json` in COMMENT_FIXTURES_DIR (default `fixtures/comments`).
+ */
+export function createFixtureScraper(
+  fixturesDir: string = process.env.THREAD_FIXTURES_DIR || DEFAULT_FIXTURES_DIR,
+  commentFixturesDir: string = process.env.COMMENT_FIXTURES_DIR || DEFAULT_COMMENT_FIXTURES_DIR
+): ThreadScraper {
+  return {
+    name: 'fixture',
+    async scrape(url: string, options: ScrapeOptions): Promise<ScrapedThread> {
+      const fixture =
+        (await readFixture<ScrapedThread>(path.join(fixturesDir, threadFixtureName(url)))) ||
+        (await readFixture<ScrapedThread>(path.join(fixturesDir, 'default.json')))
+
+      if (!fixture) {
+        throw new Error(`No thread fixture found for ${url} in ${fixturesDir}`)
+      }
+
+      const comments = options.includeComments
+        ? (fixture.comments || []).slice(0, options.maxComments ?? 25)
+        : []
+
+      return {
+        source: 'fixture',
+        url,
+        title: fixture.title || '',
+        body: fixture.body || '',
+        subreddit: fixture.subreddit || '',
+        author: fixture.author,
+        score: fixture.score ?? null,
+        numComments: fixture.numComments ?? comments.length,
+        comments,
+        isLocked: !!fixture.isLocked,
+        isArchived: !!fixture.isArchived,
+        createdAt: fixture.createdAt,
+      }
+    },
+
+    async scrapeComment(url: string): Promise<ScrapedCommentStatus> {
+      const commentId = parseRedditUrl(url)?.commentId
+      if (!commentId) {
+        throw new Error(`${url} is not a Reddit comment permalink`)
+      }
+
+      const fixture =
+        (await readFixture<ScrapedCommentStatus>(path.join(commentFixturesDir, `${commentId}.json`))) ||
+        (await readFixture<ScrapedCommentStatus>(path.join(commentFixturesDir, 'default.json')))
+
+      if (!fixture) {
+        throw new Error(`No comment fixture found for ${url} in ${commentFixturesDir}`)
+      }
+
+      return {
+        source: 'fixture',
+        id: commentId,
+        url,
+        score: fixture.score ?? null,
+        replyCount: fixture.replyCount ?? null,
+        isRemoved: !!fixture.isRemoved,
+        isDeleted: !!fixture.isDeleted,
+      }
+    },
+  }
+}
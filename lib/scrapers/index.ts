@@ -0,0 +1,106 @@
+import { createApifyScraper, normalizeApifyItems } from './apify'
+import { createFixtureScraper } from './fixture'
+import { createRedditJsonScraper } from './reddit-json'
+import { ScrapedCommentStatus, ScrapedThread, ScrapeOptions, ThreadScraper } from './types'
+import { getScrapeCost, UsageRecorder } from '../usage'
+
+export type { ScrapedComment, ScrapedCommentStatus, ScrapedThread, ScrapeOptions, ThreadScraper } from './types'
+
+export const THREAD_SCRAPERS = ['apify', 'reddit-json', 'fixture'] as const
+
+/**
+ * Returns the thread scraper configured for this deployment via THREAD_SCRAPER (defaults to Apify)
+ */
+export function getThreadScraper(name: string = process.env.THREAD_SCRAPER || 'apify'): ThreadScraper {
+  switch (name) {
+    case 'apify':
+      return createApifyScraper()
+    case 'reddit-json':
+      return createRedditJsonScraper()
+    case 'fixture':
+      return createFixtureScraper()
+    default:
+      throw new Error(`Unknown thread scraper "${name}". Expected one of: ${THREAD_SCRAPERS.join(', ')}`)
+  }
+}
+
+/**
+ * Scrapes a thread with the configured scraper, returning an error message instead of throwing
+ */
+export async function scrapeThread(
+  url: string,
+  options: ScrapeOptions,
+  scraper: ThreadScraper = getThreadScraper()
+): Promise<{ data: ScrapedThread | null; error: string | null }> {
+  try {
+    return { data: await scraper.scrape(url, options), error: null }
+  } catch (error) {
+    console.error(`Error scraping Reddit thread ${url} with ${scraper.name}:`, error)
+    return { data: null, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+/**
+ * Scrapes a comment permalink with the configured scraper, returning an error message instead of throwing
+ */
+export async function scrapeCommentStatus(
+  url: string,
+  scraper: ThreadScraper = getThreadScraper()
+): Promise<{ data: ScrapedCommentStatus | null; error: string | null }> {
+  try {
+    return { data: await scraper.scrapeComment(url), error: null }
+  } catch (error) {
+    console.error(`Error scraping Reddit comment ${url} with ${scraper.name}:`, error)
+    return { data: null, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+/**
+ * Reads a thread stored in `threads.scraped_data`.
+ * Rows written before the scraper abstraction hold the raw Apify item.
+ */
+export function parseStoredThread(url: string, stored: unknown): ScrapedThread | null {
+  if (!stored || typeof stored !== 'object') return null
+  if ('source' in stored && 'comments' in stored) return stored as ScrapedThread
+  return normalizeApifyItems(url, [stored])
+}
+
+/**
+ * Thread content for reply generation: the stored scrape when available,
+ * topped up with fresh comments when they are requested but were not stored.
+ * Fresh scrapes are written to the usage ledger when a recorder is given.
+ */
+export async function getThreadForReply(
+  url: string,
+  stored: unknown,
+  includeComments: boolean,
+  usage?: UsageRecorder
+): Promise<ScrapedThread | null> {
+  const storedThread = parseStoredThread(url, stored)
+  const scrapeAndRecord = async (options: ScrapeOptions) => {
+    const { data } = await scrapeThread(url, options)
+    if (data) {
+      await usage?.record({ provider: data.source, operation: 'thread_scrape', cost: getScrapeCost(data.source) })
+    }
+    return data
+  }
+
+  if (!storedThread) {
+    return scrapeAndRecord({ includeComments })
+  }
+
+  // Ranking checks scrape without comments, so stored data typically won't have any
+  if (includeComments && storedThread.comments.length === 0) {
+    const data = await scrapeAndRecord({ includeComments: true })
+    if (data) {
+      // Keep stored post content, merge in fresh comments
+      return {
+        ...storedThread,
+        comments: data.comments,
+        numComments: data.numComments ?? storedThread.numComments,
+      }
+    }
+  }
+
+  return storedThread
+}
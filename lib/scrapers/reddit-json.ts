@@ -0,0 +1,131 @@
+import { fetchWithPolicy } from '../http'
+import { parseRedditUrl } from '../reddit-url'
+import { ScrapedComment, ScrapedCommentStatus, ScrapedThread, ScrapeOptions, ThreadScraper } from './types'
+
+// Fields of Reddit's listing "things" (t3 = post, t1 = comment) we rely on
+interface RedditThingData {
+  id?: string
+  permalink?: string
+  title?: string
+  selftext?: string
+  body?: string
+  subreddit?: string
+  author?: string
+  score?: number
+  num_comments?: number
+  locked?: boolean
+  archived?: boolean
+  created_utc?: number
+  removed_by_category?: string | null
+  replies?: RedditListing | '' // Empty string when a comment has no replies
+  count?: number // Replies hidden behind a "more" stub
+}
+
+interface RedditListing {
+  data: {
+    children: Array<{ kind: string; data: RedditThingData }>
+  }
+}
+
+function toJsonUrl(url: string, limit: number): string {
+  const jsonUrl = new URL(url)
+  jsonUrl.search = ''
+  jsonUrl.hash = ''
+  jsonUrl.pathname = `${jsonUrl.pathname.replace(/\/+$/, '')}.json`
+  jsonUrl.searchParams.set('raw_json', '1')
+  jsonUrl.searchParams.set('limit', String(limit))
+  return jsonUrl.toString()
+}
+
+async function fetchListings(url: string, limit: number): Promise<RedditListing[]> {
+  const response = await fetchWithPolicy('reddit', toJsonUrl(url, limit), {
+    headers: {
+      'User-Agent': process.env.REDDIT_USER_AGENT || 'reddit-seo/0.1',
+    },
+  })
+  return response.json()
+}
+
+/**
+ * Replies below a comment, including those Reddit collapses into "load more" stubs
+ */
+function countReplies(replies: RedditThingData['replies']): number {
+  if (!replies) return 0
+  return replies.data.children.reduce((total, child) => {
+    if (child.kind === 'more') return total + (child.data.count || 0)
+    return child.kind === 't1' ? total + 1 + countReplies(child.data.replies) : total
+  }, 0)
+}
+
+/**
+ * Reddit's public `.json` endpoint (append `.json` to any thread URL). No credentials needed,
+ * but Reddit rate limits unauthenticated clients, so keep volumes low.
+ */
+export function createRedditJsonScraper(): ThreadScraper {
+  return {
+    name: 'reddit-json',
+    async scrape(url: string, options: ScrapeOptions): Promise<ScrapedThread> {
+      const maxComments = options.maxComments ?? 25
+      const [postListing, commentListing] = await fetchListings(url, options.includeComments ? maxComments : 1)
+      const post = postListing?.data?.children?.[0]?.data
+      if (!post) {
+        throw new Error(`Reddit JSON returned no post for ${url}`)
+      }
+
+      const comments: ScrapedComment[] = options.includeComments
+        ? (commentListing?.data?.children || [])
+            .filter((child) => child.kind === 't1' && child.data.body)
+            .slice(0, maxComments)
+            .map((child) => ({
+              id: child.data.id,
+              author: child.data.author,
+              text: child.data.body as string,
+              score: child.data.score,
+            }))
+        : []
+
+      return {
+        source: 'reddit-json',
+        url: post.permalink ? `https://www.reddit.com${post.permalink}` : url,
+        title: post.title || '',
+        body: post.selftext || '',
+        subreddit: post.subreddit || '',
+        author: post.author,
+        score: typeof post.score === 'number' ? post.score : null,
+        numComments: typeof post.num_comments === 'number' ? post.num_comments : null,
+        comments,
+        isLocked: !!post.locked,
+        isArchived: !!post.archived,
+        createdAt: post.created_utc ? new Date(post.created_utc * 1000).toISOString() : undefined,
+      }
+    },
+
+    async scrapeComment(url: string): Promise<ScrapedCommentStatus> {
+      const commentId = parseRedditUrl(url)?.commentId
+      if (!commentId) {
+        throw new Error(`${url} is not a Reddit comment permalink`)
+      }
+
+      // A permalink's listing holds just that comment and its replies
+      const [, commentListing] = await fetchListings(url, 100)
+      const comment = (commentListing?.data?.children || [])
+        .find((child) => child.kind === 't1' && child.data.id?.toLowerCase() === commentId)?.data
+
+      // Reddit drops deleted comments without replies from the thread entirely
+      if (!comment) {
+        return { source: 'reddit-json', id: commentId, url, score: null, replyCount: null, isRemoved: false, isDeleted: true }
+      }
+
+      const isDeleted = comment.body === '[deleted]' || comment.removed_by_category === 'deleted'
+      return {
+        source: 'reddit-json',
+        id: commentId,
+        url: comment.permalink ? `https://www.reddit.com${comment.permalink}` : url,
+        score: typeof comment.score === 'number' ? comment.score : null,
+        replyCount: countReplies(comment.replies),
+        isRemoved: !isDeleted && (comment.body === '[removed]' || !!comment.removed_by_category),
+        isDeleted,
+      }
+    },
+  }
+}
@@ -0,0 +1,55 @@
+export interface ScrapedComment {
+  id?: string
+  author?: string
+  text: string
+  score?: number
+}
+
+/**
+ * A Reddit thread, normalized across scraper backends.
+ * Stored as-is in `threads.scraped_data`.
+ */
+export interface ScrapedThread {
+  source: string // Name of the scraper that produced this thread
+  url: string
+  title: string
+  body: string
+  subreddit: string
+  author?: string
+  score: number | null
+  numComments: number | null
+  comments: ScrapedComment[]
+  isLocked: boolean
+  isArchived: boolean
+  createdAt?: string
+}
+
+/**
+ * One comment looked up by its permalink, for tracking how posted replies perform
+ */
+export interface ScrapedCommentStatus {
+  source: string // Name of the scraper that produced this result
+  id: string
+  url: string
+  score: number | null
+  replyCount: number | null
+  isRemoved: boolean // Taken down by moderators or Reddit
+  isDeleted: boolean // Deleted by its author, or no longer in the thread
+}
+
+export interface ScrapeOptions {
+  includeComments: boolean
+  maxComments?: number
+}
+
+export interface ThreadScraper {
+  name: string
+  /**
+   * Scrapes a single thread. Throws on transport or configuration errors.
+   */
+  scrape(url: string, options: ScrapeOptions): Promise<ScrapedThread>
+  /**
+   * Scrapes a single comment from its permalink. Throws on transport or configuration errors.
+   */
+  scrapeComment(url: string): Promise<ScrapedCommentStatus>
+}
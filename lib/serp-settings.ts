@@ -0,0 +1,178 @@
+import { DEFAULT_SERP_SETTINGS, PAGE_ONE_MAX_POSITION, SerpDevice, SerpSettings, TRACKING_DEPTHS, TrackingDepth } from './types'
+
+/**
+ * Common DataForSEO location codes. Any valid location code can be stored,
+ * this list only drives the pickers and the short market labels in the UI.
+ */
+export const SERP_LOCATIONS: Array<{ code: number; name: string; short: string }> = [
+  { code: 2840, name: 'United States', short: 'US' },
+  { code: 2826, name: 'United Kingdom', short: 'UK' },
+  { code: 2276, name: 'Germany', short: 'DE' },
+  { code: 2036, name: 'Australia', short: 'AU' },
+  { code: 2124, name: 'Canada', short: 'CA' },
+  { code: 2372, name: 'Ireland', short: 'IE' },
+  { code: 2554, name: 'New Zealand', short: 'NZ' },
+  { code: 2250, name: 'France', short: 'FR' },
+  { code: 2724, name: 'Spain', short: 'ES' },
+  { code: 2380, name: 'Italy', short: 'IT' },
+  { code: 2528, name: 'Netherlands', short: 'NL' },
+  { code: 2040, name: 'Austria', short: 'AT' },
+  { code: 2756, name: 'Switzerland', short: 'CH' },
+  { code: 2356, name: 'India', short: 'IN' },
+]
+
+export const SERP_LANGUAGES: Array<{ code: string; name: string }> = [
+  { code: 'en', name: 'English' },
+  { code: 'de', name: 'German' },
+  { code: 'fr', name: 'French' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'it', name: 'Italian' },
+  { code: 'nl', name: 'Dutch' },
+]
+
+export const SERP_DEVICES: SerpDevice[] = ['desktop', 'mobile']
+
+interface SerpSettingsColumns {
+  serp_location_code?: number | null
+  serp_language_code?: string | null
+  serp_device?: SerpDevice | string | null
+  tracking_depth?: number | null
+}
+
+/**
+ * Resolves the effective SERP settings for a keyword.
+ * Keyword overrides win over project settings, which win over the defaults.
+ * Tracking depth is a project-level setting only.
+ */
+export function resolveSerpSettings(
+  projectRelation?: SerpSettingsColumns | SerpSettingsColumns[] | null,
+  keyword?: SerpSettingsColumns | null
+): SerpSettings {
+  // Supabase may return an embedded many-to-one relation as an array
+  const project = Array.isArray(projectRelation) ? projectRelation[0] : projectRelation
+  const device = keyword?.serp_device || project?.serp_device || DEFAULT_SERP_SETTINGS.device
+
+  return {
+    locationCode: keyword?.serp_location_code || project?.serp_location_code || DEFAULT_SERP_SETTINGS.locationCode,
+    languageCode: keyword?.serp_language_code || project?.serp_language_code || DEFAULT_SERP_SETTINGS.languageCode,
+    device: isSerpDevice(device) ? device : DEFAULT_SERP_SETTINGS.device,
+    depth: isTrackingDepth(project?.tracking_depth) ? project.tracking_depth : DEFAULT_SERP_SETTINGS.depth,
+  }
+}
+
+export function isTrackingDepth(value: unknown): value is TrackingDepth {
+  return typeof value === 'number' && TRACKING_DEPTHS.includes(value as TrackingDepth)
+}
+
+export function isSerpDevice(value: unknown): value is SerpDevice {
+  return typeof value === 'string' && SERP_DEVICES.includes(value as SerpDevice)
+}
+
+/**
+ * Validates SERP settings coming from a request body and maps them to database columns.
+ * Returns an error message for invalid values. `allowNull` is set for keyword overrides,
+ * where `null` clears the override.
+ */
+export function parseSerpSettingsInput(body: {
+  serp_location_code?: unknown
+  serp_language_code?: unknown
+  serp_device?: unknown
+  tracking_depth?: unknown
+}, allowNull: boolean): { data: SerpSettingsColumns; error: string | null } {
+  const data: SerpSettingsColumns = {}
+
+  if (body.serp_location_code !== undefined) {
+    if (body.serp_location_code === null && allowNull) {
+      data.serp_location_code = null
+    } else {
+      const code = Number(body.serp_location_code)
+      if (!Number.isInteger(code) || code <= 0) {
+        return { data, error: 'serp_location_code must be a positive integer' }
+      }
+      data.serp_location_code = code
+    }
+  }
+
+  if (body.serp_language_code !== undefined) {
+    if (body.serp_language_code === null && allowNull) {
+      data.serp_language_code = null
+    } else if (typeof body.serp_language_code !== 'string' || !/^[a-z]{2}(-[a-z]{2,4})?$/i.test(body.serp_language_code.trim())) {
+      return { data, error: 'serp_language_code must be a language code such as "en" or "de"' }
+    } else {
+      data.serp_language_code = body.serp_language_code.trim().toLowerCase()
+    }
+  }
+
+  if (body.serp_device !== undefined) {
+    if (body.serp_device === null && allowNull) {
+      data.serp_device = null
+    } else if (!isSerpDevice(body.serp_device)) {
+      return { data, error: `serp_device must be one of: ${SERP_DEVICES.join(', ')}` }
+    } else {
+      data.serp_device = body.serp_device
+    }
+  }
+
+  if (body.tracking_depth !== undefined) {
+    if (allowNull) {
+      return { data, error: 'tracking_depth can only be set on a project' }
+    }
+    const depth = Number(body.tracking_depth)
+    if (!isTrackingDepth(depth)) {
+      return { data, error: `tracking_depth must be one of: ${TRACKING_DEPTHS.join(', ')}` }
+    }
+    data.tracking_depth = depth
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * Page one threads rank in the top 10, anything deeper is "striking distance"
+ */
+export function isPageOne(rankPosition: number): boolean {
+  return rankPosition <= PAGE_ONE_MAX_POSITION
+}
+
+/**
+ * Section heading for a ranking list, rendered where the page one / striking distance group changes.
+ * Expects rows ordered by rank position.
+ */
+export function getRankingSectionLabel(
+  rows: Array<{ rank_position: number }>,
+  index: number
+): string | null {
+  const current = isPageOne(rows[index].rank_position)
+  if (index > 0 && isPageOne(rows[index - 1].rank_position) === current) return null
+  return current ? 'Page one' : `Striking distance (positions ${PAGE_ONE_MAX_POSITION + 1}+)`
+}
+
+/**
+ * Short human readable label for a market, e.g. "UK · en · mobile"
+ */
+export function formatSerpMarket(settings: Partial<SerpSettings> | null | undefined): string {
+  const locationCode = settings?.locationCode ?? DEFAULT_SERP_SETTINGS.locationCode
+  const location = SERP_LOCATIONS.find((l) => l.code === locationCode)
+  const parts = [
+    location ? location.short : `loc ${locationCode}`,
+    settings?.languageCode ?? DEFAULT_SERP_SETTINGS.languageCode,
+    settings?.device ?? DEFAULT_SERP_SETTINGS.device,
+  ]
+  return parts.join(' · ')
+}
+
+/**
+ * Market label for a stored ranking row (keyword_thread_rankings / rankings_history)
+ */
+export function formatRankingMarket(row: {
+  location_code?: number | null
+  language_code?: string | null
+  device?: string | null
+}): string | null {
+  if (!row.location_code) return null
+  return formatSerpMarket({
+    locationCode: row.location_code,
+    languageCode: row.language_code || undefined,
+    device: isSerpDevice(row.device) ? row.device : undefined,
+  })
+}
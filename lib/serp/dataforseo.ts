@@ -0,0 +1,95 @@
+import { fetchWithPolicy } from '../http'
+import { SerpSettings } from '../types'
+import { SerpItem, SerpProvider, SerpSearchResult } from './types'
+
+interface DataForSEOResult {
+  location_code: number
+  language_code: string
+  check_url: string
+  datetime: string
+  items_count: number
+  items: Array<{
+    type: string
+    rank_group: number
+    rank_absolute: number
+    position: string
+    xpath: string
+    title?: string
+    domain?: string
+    url?: string
+    breadcrumb?: string
+    website_name?: string
+    is_featured_snippet?: boolean
+    is_paid?: boolean
+    is_malicious?: boolean
+    is_web_story?: boolean
+    description?: string
+  }>
+}
+
+/**
+ * DataForSEO Google organic SERP (live/advanced endpoint)
+ */
+export function createDataForSEOProvider(): SerpProvider {
+  return {
+    name: 'dataforseo',
+    async search(query: string, settings: SerpSettings): Promise<SerpSearchResult> {
+      const login = process.env.DATAFORSEO_LOGIN
+      const password = process.env.DATAFORSEO_PASSWORD
+
+      if (!login || !password) {
+        throw new Error('DataForSEO credentials not configured')
+      }
+
+      const response = await fetchWithPolicy('dataforseo', 'https://api.dataforseo.com/v3/serp/google/organic/live/advanced', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Basic ${Buffer.from(`${login}:${password}`).toString('base64')}`,
+        },
+        body: JSON.stringify([
+          {
+            keyword: query,
+            location_code: settings.locationCode,
+            language_code: settings.languageCode,
+            depth: settings.depth, // Project tracking depth (top 10/20/50/100)
+            device: settings.device,
+            os: settings.device === 'mobile' ? 'android' : 'windows',
+          },
+        ]),
+      })
+
+      const data = await response.json()
+
+      if (!data || !data.tasks || data.tasks.length === 0) {
+        throw new Error('No results from DataForSEO API')
+      }
+
+      const task = data.tasks[0]
+      if (task.status_code !== 20000) {
+        throw new Error(`DataForSEO API error: ${task.status_message || 'Unknown error'}`)
+      }
+
+      // Cost of the task in USD, as billed by DataForSEO
+      const cost = typeof task.cost === 'number' ? task.cost : null
+
+      const results: DataForSEOResult[] = task.result || []
+      if (results.length === 0) {
+        return { items: [], cost }
+      }
+
+      const items: SerpItem[] = []
+      for (const item of results[0].items || []) {
+        if (item.type === 'organic' && item.url && item.title) {
+          items.push({
+            url: item.url,
+            title: item.title,
+            position: item.rank_absolute || parseInt(item.position) || 0,
+          })
+        }
+      }
+
+      return { items, cost }
+    },
+  }
+}
@@ -0,0 +1,53 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { SerpSettings } from '../types'
+import { SerpItem, SerpProvider, SerpSearchResult } from './types'
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'serp')
+
+/**
+ * Maps a keyword to its fixture file name, e.g. "Best CRM tools" -> "best-crm-tools.json"
+ */
+export function fixtureFileName(query: string): string {
+  const slug = query
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${slug || 'default'}.json`
+}
+
+async function readFixture(filePath: string): Promise<SerpItem[] | null> {
+  try {
+    const contents = await readFile(filePath, 'utf8')
+    return JSON.parse(contents) as SerpItem[]
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+/**
+ * Local provider that serves SERP results from JSON fixtures, for offline development and tests.
+ * Looks up `<keyword-slug>.json` in SERP_FIXTURES_DIR (default `fixtures/serp`) and falls back to `default.json`.
+ */
+export function createFixtureProvider(fixturesDir: string = process.env.SERP_FIXTURES_DIR || DEFAULT_FIXTURES_DIR): SerpProvider {
+  return {
+    name: 'fixture',
+    async search(query: string, settings: SerpSettings): Promise<SerpSearchResult> {
+      const items =
+        (await readFixture(path.join(fixturesDir, fixtureFileName(query)))) ||
+        (await readFixture(path.join(fixturesDir, 'default.json')))
+
+      if (!items) {
+        throw new Error(`No SERP fixture found for "${query}" in ${fixturesDir}`)
+      }
+
+      return {
+        items: items
+          .filter((item) => item.position >= 1 && item.position <= settings.depth)
+          .sort((a, b) => a.position - b.position),
+        cost: 0,
+      }
+    },
+  }
+}
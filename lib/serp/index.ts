@@ -0,0 +1,26 @@
+import { createDataForSEOProvider } from './dataforseo'
+import { createFixtureProvider } from './fixture'
+import { createSerpApiProvider } from './serpapi'
+import { SerpProvider } from './types'
+
+export type { SerpItem, SerpProvider, SerpSearchResult } from './types'
+
+export const SERP_PROVIDERS = ['dataforseo', 'serpapi', 'fixture'] as const
+
+export type SerpProviderName = (typeof SERP_PROVIDERS)[number]
+
+/**
+ * Returns the SERP provider configured for this deployment via SERP_PROVIDER (defaults to DataForSEO)
+ */
+export function getSerpProvider(name: string = process.env.SERP_PROVIDER || 'dataforseo'): SerpProvider {
+  switch (name) {
+    case 'dataforseo':
+      return createDataForSEOProvider()
+    case 'serpapi':
+      return createSerpApiProvider()
+    case 'fixture':
+      return createFixtureProvider()
+    default:
+      throw new Error(`Unknown SERP provider "${name}". Expected one of: ${SERP_PROVIDERS.join(', ')}`)
+  }
+}
@@ -0,0 +1,65 @@
+import { fetchWithPolicy } from '../http'
+import { SerpSettings } from '../types'
+import { SERP_LOCATIONS } from '../serp-settings'
+import { SerpProvider, SerpSearchResult } from './types'
+
+interface SerpApiResponse {
+  error?: string
+  organic_results?: Array<{
+    position: number
+    title?: string
+    link?: string
+  }>
+}
+
+/**
+ * SerpAPI-style Google search (`/search.json?engine=google`).
+ * Any vendor exposing the same query parameters and `organic_results` shape
+ * can be used by pointing SERPAPI_BASE_URL at it.
+ */
+export function createSerpApiProvider(): SerpProvider {
+  return {
+    name: 'serpapi',
+    async search(query: string, settings: SerpSettings): Promise<SerpSearchResult> {
+      const apiKey = process.env.SERPAPI_API_KEY
+
+      if (!apiKey) {
+        throw new Error('SerpAPI key not configured')
+      }
+
+      // SerpAPI takes a country code instead of a DataForSEO location code
+      const location = SERP_LOCATIONS.find((l) => l.code === settings.locationCode)
+      const params = new URLSearchParams({
+        engine: 'google',
+        q: query,
+        hl: settings.languageCode,
+        num: String(settings.depth),
+        device: settings.device,
+        api_key: apiKey,
+      })
+      if (location) {
+        params.set('gl', location.short.toLowerCase())
+      }
+
+      const baseUrl = process.env.SERPAPI_BASE_URL || 'https://serpapi.com'
+      const response = await fetchWithPolicy('serpapi', `${baseUrl}/search.json?${params.toString()}`)
+
+      const data: SerpApiResponse = await response.json()
+
+      if (data.error) {
+        throw new Error(`SerpAPI error: ${data.error}`)
+      }
+
+      const items = (data.organic_results || [])
+        .filter((result) => result.link && result.title)
+        .map((result) => ({
+          url: result.link as string,
+          title: result.title as string,
+          position: result.position,
+        }))
+
+      // SerpAPI bills searches against a plan, no per-request cost is reported
+      return { items, cost: null }
+    },
+  }
+}
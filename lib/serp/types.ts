@@ -0,0 +1,23 @@
+import { SerpSettings } from '../types'
+
+/**
+ * A single organic result, normalized across SERP vendors
+ */
+export interface SerpItem {
+  url: string
+  title: string
+  position: number // Absolute position on the results page (1-based)
+}
+
+export interface SerpSearchResult {
+  items: SerpItem[]
+  cost: number | null // USD charged for the request, when the vendor reports it
+}
+
+export interface SerpProvider {
+  name: string
+  /**
+   * Returns the organic results for a query in the given market, up to `settings.depth` positions
+   */
+  search(query: string, settings: SerpSettings): Promise<SerpSearchResult>
+}
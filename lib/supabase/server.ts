@@ -1,8 +1,16 @@
 import { createServerClient } from '@supabase/ssr'
-import { cookies } from 'next/headers'
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+import { cookies, headers } from 'next/headers'
+import { API_KEY_SESSION_HEADER } from '@/lib/api-keys'
 import { Database } from './database.types'
 
 export async function createClient() {
+  // Requests authenticated with an API key act as the key's owner (see proxy.ts)
+  const apiKeySession = (await headers()).get(API_KEY_SESSION_HEADER)
+  if (apiKeySession) {
+    return createAccessTokenClient(apiKeySession)
+  }
+
   const cookieStore = await cookies()
 
   return createServerClient<Database>(
@@ -29,3 +37,28 @@ export async function createClient() {
   )
 }
 
+/**
+ * Client with an in-memory session for an access token, so route handlers keep using
+ * `supabase.auth.getUser()` and RLS as they do with cookie sessions. The token is short-lived
+ * and has no real refresh token, so nothing is refreshed or persisted.
+ */
+async function createAccessTokenClient(accessToken: string) {
+  const supabase = createSupabaseClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+        detectSessionInUrl: false,
+      },
+    }
+  )
+
+  const { error } = await supabase.auth.setSession({ access_token: accessToken, refresh_token: 'api-key' })
+  if (error) {
+    console.error('Error starting API key session:', error)
+  }
+
+  return supabase
+}
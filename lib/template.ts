@@ -1,7 +1,8 @@
-import { ReplyStyle, REPLY_STYLES } from './types'
+import { ReplyStyleSettings } from './reply-styles'
 
 interface TemplateVariables {
   tone: string
+  targetWords?: string
   businessDescription: string
   postUrl: string
   postText?: string
@@ -37,7 +38,7 @@ export function replaceTemplateVariables(
  */
 export function buildTemplateVariables(params: {
   businessDescription: string
-  style: ReplyStyle
+  style: Pick<ReplyStyleSettings, 'tone' | 'target_words'>
   postUrl: string
   scraped?: {
     text?: string
@@ -48,8 +49,8 @@ export function buildTemplateVariables(params: {
   } | null
 }): TemplateVariables {
   const { businessDescription, style, postUrl, scraped } = params
-  const styleConfig = REPLY_STYLES[style]
-  const tone = styleConfig.tone
+  // The length target rides along with the tone, so templates without {{targetWords}} still get it
+  const tone = style.target_words ? `${style.tone} Aim for about ${style.target_words} words.` : style.tone
   const postText = scraped?.text || scraped?.content || ''
   
   const commentsText = scraped?.comments && Array.isArray(scraped.comments)
@@ -58,6 +59,7 @@ export function buildTemplateVariables(params: {
 
   return {
     tone,
+    targetWords: style.target_words ? String(style.target_words) : '',
     businessDescription,
     postUrl,
     postText: postText ? `Original post context: ${postText}` : '',
@@ -0,0 +1,122 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { KeywordThreadRanking, RankingHistory, RedditPost, Thread } from './types'
+import { RedditThreadRef } from './reddit-url'
+
+// keyword_thread_rankings select that embeds the thread (and its history) for toRedditPost
+export const RANKING_WITH_THREAD_SELECT = '*, threads(*)'
+export const RANKING_WITH_HISTORY_SELECT = '*, threads(*), rankings_history(rank_position, checked_at)'
+
+type RankingRow = KeywordThreadRanking & {
+  threads: Thread | Thread[] | null
+  rankings_history?: RankingHistory[]
+}
+
+/**
+ * Flattens a keyword_thread_rankings row with its embedded thread into a RedditPost
+ */
+export function toRedditPost(row: RankingRow): RedditPost {
+  const { threads, ...ranking } = row
+  // Supabase may return an embedded many-to-one relation as an array
+  const thread = Array.isArray(threads) ? threads[0] : threads
+
+  return {
+    ...ranking,
+    reddit_thread_id: thread?.reddit_thread_id || '',
+    post_url: thread?.post_url || '',
+    post_title: thread?.post_title || '',
+    subreddit: thread?.subreddit || '',
+    scraped_data: thread?.scraped_data ?? null,
+    scraped_at: thread?.scraped_at ?? null,
+  }
+}
+
+/**
+ * Looks up a thread by Reddit post ID. Returns null if it has never been tracked.
+ */
+export async function findThread(
+  supabase: SupabaseClient,
+  redditThreadId: string
+): Promise<Pick<Thread, 'id' | 'subreddit' | 'scraped_data' | 'scraped_at'> | null> {
+  const { data, error } = await supabase
+    .from('threads')
+    .select('id, subreddit, scraped_data, scraped_at')
+    .eq('reddit_thread_id', redditThreadId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Returns the thread's row ID, creating the thread if needed (e.g. drafting a reply to an untracked
+ * thread). Users can't write threads directly; find_or_create_thread (migration 040) only adds new ones.
+ */
+export async function findOrCreateThread(
+  supabase: SupabaseClient,
+  ref: RedditThreadRef,
+  details: { post_title?: string; subreddit?: string } = {}
+): Promise<string> {
+  const existing = await findThread(supabase, ref.threadId)
+  if (existing) return existing.id
+
+  const { data, error } = await supabase.rpc('find_or_create_thread', {
+    p_reddit_thread_id: ref.threadId,
+    p_post_url: ref.canonicalUrl,
+    p_post_title: details.post_title || '',
+    p_subreddit: details.subreddit || ref.subreddit || '',
+  })
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Project a thread belongs to, taken from its best still-ranking keyword
+ * (falling back to dropped rankings). RLS limits this to the user's projects.
+ */
+export async function findThreadProjectId(
+  supabase: SupabaseClient,
+  threadId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('keyword_thread_rankings')
+    .select('rank_position, dropped_at, keywords!inner(project_id)')
+    .eq('thread_id', threadId)
+    .order('dropped_at', { ascending: false, nullsFirst: true })
+    .order('rank_position', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  // Supabase may return an embedded many-to-one relation as an array
+  const keyword = Array.isArray(data.keywords) ? data.keywords[0] : data.keywords
+  return keyword?.project_id || null
+}
+
+/**
+ * Organizations whose projects track a thread, among the projects the user can see
+ */
+export async function findThreadOrganizationIds(
+  supabase: SupabaseClient,
+  threadId: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('keyword_thread_rankings')
+    .select('keywords!inner(projects!inner(organization_id))')
+    .eq('thread_id', threadId)
+
+  if (error) throw error
+
+  const organizationIds = new Set<string>()
+  for (const row of data || []) {
+    // Supabase may return an embedded many-to-one relation as an array
+    for (const keyword of [row.keywords].flat()) {
+      for (const project of [keyword?.projects].flat()) {
+        if (project?.organization_id) organizationIds.add(project.organization_id)
+      }
+    }
+  }
+  return [...organizationIds]
+}
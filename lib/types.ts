@@ -1,9 +1,21 @@
+import type { ScrapedThread } from './scrapers/types'
+
 export interface Project {
   id: string
+  organization_id: string
   name: string
   description?: string
   prompt_template?: string
   subreddit_exclusions?: string[]
+  serp_location_code: number
+  serp_language_code: string
+  serp_device: SerpDevice
+  tracking_depth: TrackingDepth
+  llm_provider: LlmProviderName | null // Null uses the deployment default (LLM_PROVIDER)
+  llm_model: string | null // Null uses the provider's default model
+  llm_temperature: number | null
+  llm_max_tokens: number | null
+  llm_system_prompt: string | null
   created_at: string
   updated_at: string
 }
@@ -12,52 +24,562 @@ export interface Keyword {
   id: string
   keyword: string
   project_id: string
+  serp_location_code?: number | null
+  serp_language_code?: string | null
+  serp_device?: SerpDevice | null
+  refresh_interval: RefreshInterval
+  last_checked_at?: string | null
+  next_check_at?: string | null // null while paused
+  check_failures?: number // Consecutive failed scheduled checks
   created_at: string
   updated_at: string
 }
 
-export interface RedditPost {
+export type RefreshInterval = 'hourly' | 'daily' | 'weekly' | 'paused'
+
+export const REFRESH_INTERVALS: Array<{ value: RefreshInterval; label: string }> = [
+  { value: 'hourly', label: 'Hourly' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'paused', label: 'Paused' },
+]
+
+/**
+ * A Reddit thread, stored once and shared by every keyword it ranks for
+ */
+export interface Thread {
   id: string
-  keyword_id: string
-  post_url: string
+  reddit_thread_id: string // Reddit post ID, the stable identity of a thread
+  post_url: string // Canonical thread URL
   post_title: string
   subreddit: string
+  scraped_data?: ScrapedThread | null
+  scraped_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Position of a thread for one keyword (keyword_thread_rankings row)
+ */
+export interface KeywordThreadRanking {
+  id: string
+  keyword_id: string
+  thread_id: string
   rank_position: number
   first_seen_at: string
   last_checked_at: string
-  apify_scraped_data?: any
-  apify_scraped_at?: string
+  location_code?: number | null
+  language_code?: string | null
+  device?: SerpDevice | null
+  dropped_at?: string | null
+}
+
+/**
+ * A keyword ranking flattened with its thread, the shape the UI works with
+ */
+export interface RedditPost extends KeywordThreadRanking {
+  reddit_thread_id: string
+  post_url: string
+  post_title: string
+  subreddit: string
+  scraped_data?: ScrapedThread | null
+  scraped_at?: string | null
+  rankings_history?: RankingHistory[]
 }
 
 export interface RankingHistory {
   id: string
-  reddit_post_id: string
-  rank_position: number
+  ranking_id: string
+  rank_position: number | null // null = not ranking at this check
   checked_at: string
+  location_code?: number | null
+  language_code?: string | null
+  device?: SerpDevice | null
+}
+
+/**
+ * Rank history of one thread for one keyword, as returned by GET /api/ranking-history
+ */
+export interface RankingSeries {
+  ranking_id: string
+  keyword_id: string
+  keyword: string
+  thread_id: string
+  reddit_thread_id: string
+  post_title: string
+  post_url: string
+  subreddit: string
+  rank_position: number // Latest known position
+  dropped_at?: string | null
+  history: Pick<RankingHistory, 'rank_position' | 'checked_at'>[] // Oldest first
 }
 
 export interface RedditPostWithKeyword extends RedditPost {
   keyword: string
 }
 
-export type ReplyStyle = 'casual' | 'laconic'
+export type RankingJobStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+/**
+ * A queued ranking check for one keyword (ranking_jobs row)
+ */
+export interface RankingJob {
+  id: string
+  keyword_id: string
+  status: RankingJobStatus
+  attempts: number
+  max_attempts: number
+  run_after: string
+  locked_at?: string | null
+  started_at?: string | null
+  completed_at?: string | null
+  posts_count?: number | null
+  error?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type RefreshTrigger = 'cron' | 'manual' | 'bulk'
+
+export type RefreshRunStatus = 'running' | 'completed' | 'failed'
+
+/**
+ * One ranking refresh (refresh_runs row)
+ */
+export interface RefreshRun {
+  id: string
+  trigger: RefreshTrigger
+  source?: string | null
+  user_id?: string | null
+  status: RefreshRunStatus
+  keywords_total: number
+  keywords_succeeded: number
+  keywords_failed: number
+  posts_count: number
+  api_cost: number
+  error?: string | null
+  started_at: string
+  finished_at?: string | null
+  refresh_run_items?: RefreshRunItem[]
+}
+
+/**
+ * Outcome of one keyword in a refresh run
+ */
+export interface RefreshRunItem {
+  id: string
+  run_id: string
+  keyword_id?: string | null
+  keyword: string
+  success: boolean
+  posts_count?: number | null
+  api_cost?: number | null
+  error?: string | null
+  started_at: string
+  finished_at: string
+}
+
+export type ApiUsageOperation = 'serp_search' | 'thread_scrape' | 'reply_generation'
+
+/**
+ * Monthly API usage for one user, project, keyword, provider and operation (api_usage_monthly row)
+ */
+export interface ApiUsageMonthly {
+  month: string // First day of the month, YYYY-MM-DD
+  user_id: string | null
+  project_id: string | null
+  keyword_id: string | null
+  provider: string
+  operation: ApiUsageOperation
+  calls: number
+  input_tokens: number
+  output_tokens: number
+  cost: number
+  unpriced_calls: number // Calls without a known cost, not included in `cost`
+}
+
+export interface UsageTotals {
+  calls: number
+  cost: number
+  unpricedCalls: number
+  inputTokens: number
+  outputTokens: number
+}
+
+/**
+ * Spend for a month, as returned by GET /api/usage
+ */
+export interface UsageSummary {
+  month: string // YYYY-MM
+  totals: UsageTotals
+  byProvider: Array<UsageTotals & { provider: string }>
+  byProject: Array<UsageTotals & { projectId: string | null; name: string | null }>
+  byKeyword: Array<UsageTotals & { keywordId: string; keyword: string | null; projectId: string | null }>
+  monthly: Array<UsageTotals & { month: string }> // Last 12 months, oldest first
+}
+
+export type AlertRuleType = 'enters_top_n' | 'drops_out' | 'moves_by' | 'excluded_subreddit'
+
+export const ALERT_RULE_TYPES: Array<{ value: AlertRuleType; label: string; thresholdLabel: string; thresholdRequired: boolean }> = [
+  { value: 'enters_top_n', label: 'New thread enters top N', thresholdLabel: 'Top N', thresholdRequired: true },
+  { value: 'drops_out', label: 'Thread drops out', thresholdLabel: 'Of top N (optional)', thresholdRequired: false },
+  { value: 'moves_by', label: 'Thread moves by more than X positions', thresholdLabel: 'X positions', thresholdRequired: true },
+  { value: 'excluded_subreddit', label: 'Thread from an excluded subreddit appears', thresholdLabel: 'In top N (optional)', thresholdRequired: false },
+]
+
+export type NotificationChannel = 'in_app' | 'email' | 'webhook'
+
+export interface AlertRule {
+  id: string
+  project_id: string
+  name: string
+  type: AlertRuleType
+  threshold: number | null
+  channels: NotificationChannel[]
+  email_to: string | null
+  webhook_url: string | null
+  enabled: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed'
+
+/**
+ * A matched alert rule (notifications row)
+ */
+export interface AlertNotification {
+  id: string
+  user_id: string
+  project_id: string | null
+  keyword_id: string | null
+  thread_id: string | null
+  rule_id: string | null
+  type: AlertRuleType
+  title: string
+  body: string | null
+  data: Record<string, unknown>
+  in_app: boolean
+  email_to: string | null
+  email_status: DeliveryStatus | null // null = not sent by email
+  webhook_url: string | null
+  webhook_status: DeliveryStatus | null // null = not sent to a webhook
+  delivery_attempts: number
+  delivery_error: string | null
+  next_attempt_at: string | null // When pending deliveries are due
+  read_at: string | null
+  created_at: string
+}
+
+export type WebhookEvent =
+  | 'ranking.changed'
+  | 'thread.new'
+  | 'thread.dropped'
+  | 'draft.created'
+  | 'draft.updated'
+  | 'draft.status_changed'
+  | 'refresh_run.completed'
+
+export const WEBHOOK_EVENTS: Array<{ value: WebhookEvent; label: string }> = [
+  { value: 'ranking.changed', label: 'Positions of a keyword changed' },
+  { value: 'thread.new', label: 'A thread started ranking' },
+  { value: 'thread.dropped', label: 'A thread dropped out' },
+  { value: 'draft.created', label: 'Reply draft created' },
+  { value: 'draft.updated', label: 'Reply draft updated' },
+  { value: 'draft.status_changed', label: 'Reply draft status changed' },
+  { value: 'refresh_run.completed', label: 'Refresh run finished' },
+]
+
+export interface WebhookEndpoint {
+  id: string
+  project_id: string
+  url: string
+  description: string | null
+  secret: string
+  events: WebhookEvent[]
+  enabled: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'succeeded' | 'failed'
+
+/**
+ * Body POSTed to webhook endpoints
+ */
+export interface WebhookPayload {
+  id: string // Delivery ID
+  event: WebhookEvent | 'webhook.test'
+  project_id: string
+  created_at: string
+  data: Record<string, unknown>
+}
+
+export interface WebhookDelivery {
+  id: string
+  endpoint_id: string
+  event: WebhookPayload['event']
+  payload: WebhookPayload
+  status: WebhookDeliveryStatus
+  attempts: number
+  next_attempt_at: string | null
+  locked_at: string | null // Set while a sender has claimed it
+  response_status: number | null
+  error: string | null
+  created_at: string
+  delivered_at: string | null
+}
+
+/**
+ * A user's reply draft for a thread (reply_drafts row)
+ */
+export type ReplyDraftStatus = 'generated' | 'in_review' | 'approved' | 'rejected' | 'scheduled' | 'posting' | 'posted'
+
+export const REPLY_DRAFT_STATUSES: Array<{ value: ReplyDraftStatus; label: string }> = [
+  { value: 'generated', label: 'Generated' },
+  { value: 'in_review', label: 'In review' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'posting', label: 'Posting' },
+  { value: 'posted', label: 'Posted' },
+]
+
+// Statuses a draft can move to from each status (enforced for signed-in users by reply_draft_transition_allowed, migrations 033 and 034)
+export const REPLY_DRAFT_TRANSITIONS: Record<ReplyDraftStatus, ReplyDraftStatus[]> = {
+  generated: ['in_review'],
+  in_review: ['approved', 'rejected', 'generated'],
+  approved: ['scheduled', 'posting', 'posted', 'in_review'],
+  rejected: ['in_review', 'generated'],
+  scheduled: ['posting', 'posted', 'approved'],
+  posting: ['posted', 'approved'], // Claimed while posting through the Reddit API
+  posted: [],
+}
+
+export interface ReplyDraft {
+  id: string
+  user_id: string
+  thread_id: string
+  draft_content: string
+  status: ReplyDraftStatus
+  assignee_id: string | null
+  reviewer_id: string | null
+  reddit_account_id: string | null // Account the reply is posted from
+  scheduled_for: string | null
+  status_changed_at: string
+  created_at: string
+  updated_at: string
+}
+
+// A draft with its thread, as listed in the review queue
+export interface ReplyDraftWithThread extends ReplyDraft {
+  post_url: string
+  post_title: string
+  subreddit: string
+}
+
+export interface ReplyDraftComment {
+  id: string
+  draft_id: string
+  user_id: string
+  author_email: string | null
+  body: string
+  created_at: string
+}
+
+export interface RedditAccount {
+  id: string
+  organization_id: string
+  username: string // Without the u/ prefix
+  notes: string | null
+  max_comments_per_day: number
+  min_subreddit_gap_hours: number
+  is_active: boolean
+  oauth_linked_at: string | null // Set once the account is linked for posting
+  oauth_scope: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface RedditAccountKarma {
+  id: string
+  account_id: string
+  link_karma: number
+  comment_karma: number
+  recorded_by: string | null
+  recorded_at: string
+}
+
+/**
+ * A draft assigned to an account (see reddit_account_activity in migration 024)
+ */
+export interface RedditAccountActivity {
+  draft_id: string
+  thread_id: string
+  subreddit: string
+  status: ReplyDraftStatus
+  activity_at: string
+}
+
+// An account as listed on /accounts
+export interface RedditAccountWithStats extends RedditAccount {
+  karma: RedditAccountKarma | null // Latest snapshot
+  replies_last_day: number // Scheduled or posted within the last 24 hours
+  last_posted_at: string | null
+}
+
+export type PostedCommentStatus = 'live' | 'removed' | 'deleted'
+
+export interface PostedComment {
+  id: string
+  draft_id: string
+  thread_id: string
+  posted_by: string | null
+  reddit_comment_id: string
+  permalink: string
+  posted_at: string
+  status: PostedCommentStatus
+  score: number | null // Null until the first check
+  reply_count: number | null
+  last_checked_at: string | null
+  next_check_at: string | null // Null once checks have stopped
+  check_error: string | null
+  posted_via: 'manual' | 'api'
+  created_at: string
+  updated_at: string
+}
+
+export type PostedCommentGroupBy = 'thread' | 'subreddit' | 'keyword'
+
+/**
+ * Posted comments of one thread, subreddit or keyword
+ */
+export interface PostedCommentSummary {
+  key: string // Thread ID, subreddit name or keyword ID
+  label: string
+  url: string | null // Thread URL, for thread groups
+  posted: number
+  live: number
+  removed: number
+  deleted: number
+  total_score: number
+  total_replies: number
+  engaged: number // Live comments with a reply or a score above 1
+}
+
+export type ApiKeyScope = 'read' | 'write'
+
+export const API_KEY_SCOPES: { value: ApiKeyScope; label: string }[] = [
+  { value: 'read', label: 'Read-only' },
+  { value: 'write', label: 'Read and write' },
+]
+
+/**
+ * Personal API key as listed to its owner. The key itself is only returned once, on creation.
+ */
+export interface ApiKey {
+  id: string
+  user_id: string
+  name: string
+  key_prefix: string
+  scope: ApiKeyScope
+  project_ids: string[] | null // null = all projects
+  last_used_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export type OrganizationRole = 'owner' | 'editor' | 'reviewer' | 'client'
+
+export const ORGANIZATION_ROLES: { value: OrganizationRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Everything, including members and invitations' },
+  { value: 'editor', label: 'Editor', description: 'Manages projects, keywords, alerts and webhooks' },
+  { value: 'reviewer', label: 'Reviewer', description: 'Sees everything and writes reply drafts' },
+  { value: 'client', label: 'Client (read-only)', description: 'Sees projects, rankings and drafts' },
+]
+
+/**
+ * Organizations own projects and the business description. `role` is the signed-in user's.
+ */
+export interface Organization {
+  id: string
+  name: string
+  created_by: string | null
+  role: OrganizationRole
+  created_at: string
+  updated_at: string
+}
+
+export interface OrganizationMember {
+  organization_id: string
+  user_id: string
+  email: string | null
+  role: OrganizationRole
+  created_at: string
+}
 
-export interface ReplyStyleConfig {
+export interface OrganizationInvitation {
+  id: string
+  organization_id: string
+  organization_name?: string // Included in the invitee's list
+  email: string
+  role: OrganizationRole
+  invited_by: string | null
+  expires_at: string
+  accepted_at: string | null
+  created_at: string
+}
+
+export type SerpDevice = 'desktop' | 'mobile'
+
+export type TrackingDepth = 10 | 20 | 50 | 100
+
+export const TRACKING_DEPTHS: TrackingDepth[] = [10, 20, 50, 100]
+
+// Positions up to this value are on Google's first page, the rest are "striking distance"
+export const PAGE_ONE_MAX_POSITION = 10
+
+export interface SerpSettings {
+  locationCode: number
+  languageCode: string
+  device: SerpDevice
+  depth: TrackingDepth
+}
+
+export const DEFAULT_SERP_SETTINGS: SerpSettings = {
+  locationCode: 2840, // United States
+  languageCode: 'en',
+  device: 'desktop',
+  depth: 10, // First page only
+}
+
+export type LlmProviderName = 'openai' | 'anthropic' | 'local' | 'fake'
+
+export interface LlmSettings {
+  provider: LlmProviderName
+  model: string
+  temperature: number | null // Null leaves it to the model (reasoning models only accept their default)
+  maxTokens: number | null
+  systemPrompt: string
+}
+
+/**
+ * A project's reply style: the tone written into the prompt as {{tone}}, the model parameters
+ * replies in the style are generated with (null = the project's model settings) and a length target
+ */
+export interface ReplyStyle {
+  id: string
+  project_id: string
+  key: string // Sent as `style` to the generate-reply routes
+  name: string
   tone: string
-  temperature: number
-  maxTokens: number
-}
-
-export const REPLY_STYLES: Record<ReplyStyle, ReplyStyleConfig> = {
-  casual: {
-    tone: 'Be friendly, natural, and conversational. Straight on the point.',
-    temperature: 0.3,
-    maxTokens: 400,
-  },
-  laconic: {
-    tone: 'Be short, minimal, helpful, and direct.',
-    temperature: 0.3,
-    maxTokens: 400,
-  },
+  temperature: number | null
+  max_tokens: number | null
+  target_words: number | null
+  position: number
+  created_at: string
+  updated_at: string
 }
 
@@ -0,0 +1,176 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ApiUsageMonthly, ApiUsageOperation, UsageTotals } from './types'
+
+/**
+ * Who a provider call is billed to. Ranking checks bill the keyword's project owner,
+ * reply generation bills the user who asked for the reply.
+ */
+export interface UsageContext {
+  userId: string | null
+  projectId?: string | null
+  keywordId?: string | null
+}
+
+export interface ApiUsageInput {
+  provider: string
+  operation: ApiUsageOperation
+  cost: number | null
+  model?: string | null
+  inputTokens?: number | null
+  outputTokens?: number | null
+}
+
+export interface UsageRecorder {
+  context: UsageContext
+  record(input: ApiUsageInput): Promise<void>
+}
+
+// USD per 1M tokens, from the vendors' pricing pages. Dated model names (gpt-4o-mini-2024-07-18,
+// claude-haiku-4-5-20251001) match by prefix.
+const OPENAI_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+}
+
+const ANTHROPIC_PRICES: Record<string, { input: number; output: number }> = {
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+}
+
+function getTokenCost(
+  prices: Record<string, { input: number; output: number }>,
+  model: string,
+  inputTokens: number | null | undefined,
+  outputTokens: number | null | undefined
+): number | null {
+  // Longest prefix first, so gpt-4o-mini isn't priced as gpt-4o
+  const key = Object.keys(prices)
+    .sort((a, b) => b.length - a.length)
+    .find((name) => model === name || model.startsWith(`${name}-`))
+  if (!key) return null
+
+  const price = prices[key]
+  return ((inputTokens || 0) * price.input + (outputTokens || 0) * price.output) / 1_000_000
+}
+
+/**
+ * Cost of a chat completion from its token `usage`, or null for models without a known price
+ */
+export function getOpenAICost(model: string, usage?: { prompt_tokens?: number; completion_tokens?: number } | null): number | null {
+  if (!usage) return null
+  return getTokenCost(OPENAI_PRICES, model, usage.prompt_tokens, usage.completion_tokens)
+}
+
+/**
+ * Cost of a Messages API call from its token `usage`, or null for models without a known price
+ */
+export function getAnthropicCost(model: string, usage?: { input_tokens?: number; output_tokens?: number } | null): number | null {
+  if (!usage) return null
+  return getTokenCost(ANTHROPIC_PRICES, model, usage.input_tokens, usage.output_tokens)
+}
+
+/**
+ * Cost of one thread scrape. Apify's sync endpoint doesn't report the run cost,
+ * so it is taken from APIFY_COST_PER_SCRAPE (USD) when set.
+ */
+export function getScrapeCost(source: string): number | null {
+  if (source !== 'apify') return 0
+  const cost = Number(process.env.APIFY_COST_PER_SCRAPE)
+  return process.env.APIFY_COST_PER_SCRAPE && Number.isFinite(cost) ? cost : null
+}
+
+/**
+ * Bills calls for a keyword to the owner of its project
+ */
+export async function loadKeywordUsageContext(supabase: SupabaseClient, keywordId: string): Promise<UsageContext> {
+  const { data, error } = await supabase
+    .from('keywords')
+    .select('project_id, projects(user_id)')
+    .eq('id', keywordId)
+    .single()
+
+  if (error || !data) {
+    console.warn(`Could not load the project of keyword ${keywordId} for usage accounting`)
+    return { userId: null, keywordId }
+  }
+
+  const project = Array.isArray(data.projects) ? data.projects[0] : data.projects
+  return { userId: project?.user_id || null, projectId: data.project_id, keywordId }
+}
+
+/**
+ * Returns a recorder that writes provider calls to the api_usage ledger for a context.
+ * Like refresh run logging, a failed write is logged and never fails the call it accounts for.
+ */
+export function createUsageRecorder(supabase: SupabaseClient, context: UsageContext): UsageRecorder {
+  return {
+    context,
+
+    async record(input) {
+      const { error } = await supabase
+        .from('api_usage')
+        .insert({
+          provider: input.provider,
+          operation: input.operation,
+          user_id: context.userId,
+          project_id: context.projectId || null,
+          keyword_id: context.keywordId || null,
+          model: input.model || null,
+          input_tokens: input.inputTokens ?? null,
+          output_tokens: input.outputTokens ?? null,
+          cost: input.cost,
+        })
+
+      if (error) {
+        console.error(`Error logging ${input.provider} ${input.operation} usage:`, error)
+      }
+    },
+  }
+}
+
+/**
+ * Validates a YYYY-MM month, defaulting to the current (UTC) month
+ */
+export function parseUsageMonth(value: string | null): string | null {
+  if (!value) return new Date().toISOString().slice(0, 7)
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(value) ? value : null
+}
+
+/**
+ * First day (YYYY-MM-DD) of the month `offset` months after a YYYY-MM month
+ */
+export function shiftMonth(month: string, offset: number): string {
+  const [year, monthIndex] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, monthIndex - 1 + offset, 1)).toISOString().slice(0, 10)
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return { calls: 0, cost: 0, unpricedCalls: 0, inputTokens: 0, outputTokens: 0 }
+}
+
+/**
+ * Sums api_usage_monthly rows per group. Rows whose key is undefined are skipped.
+ */
+export function groupUsage(rows: ApiUsageMonthly[], keyOf: (row: ApiUsageMonthly) => string | null | undefined): Map<string | null, UsageTotals> {
+  const groups = new Map<string | null, UsageTotals>()
+
+  for (const row of rows) {
+    const key = keyOf(row)
+    if (key === undefined) continue
+
+    const totals = groups.get(key) || emptyUsageTotals()
+    totals.calls += row.calls
+    totals.cost += Number(row.cost) // NUMERIC columns come back as strings
+    totals.unpricedCalls += row.unpriced_calls
+    totals.inputTokens += row.input_tokens
+    totals.outputTokens += row.output_tokens
+    groups.set(key, totals)
+  }
+
+  return groups
+}
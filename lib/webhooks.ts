@@ -0,0 +1,361 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createHmac, randomBytes, randomUUID } from 'node:crypto'
+import { RankingChange } from './alerts'
+import { parseOutboundUrl, postToOutboundUrl } from './http'
+import { RefreshTrigger, WEBHOOK_EVENTS, WebhookDelivery, WebhookEndpoint, WebhookEvent, WebhookPayload } from './types'
+
+const WEBHOOK_TIMEOUT_MS = 10_000
+
+// Wait before each retry: 1 min, 5 min, 30 min, 2 h. Deliveries fail after MAX_WEBHOOK_ATTEMPTS.
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000]
+export const MAX_WEBHOOK_ATTEMPTS = RETRY_DELAYS_MS.length + 1
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
+
+/**
+ * X-Webhook-Signature header: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">` keyed with
+ * the endpoint secret. Receivers recompute it over the raw body and reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${signature}`
+}
+
+/**
+ * Validates the fields of a webhook endpoint from a request body. Only fields present are validated.
+ */
+export function parseWebhookEndpointInput(
+  body: Record<string, unknown>,
+  isNew: boolean
+): { data: Partial<Pick<WebhookEndpoint, 'url' | 'description' | 'events' | 'enabled'>>; error: string | null } {
+  const data: Partial<Pick<WebhookEndpoint, 'url' | 'description' | 'events' | 'enabled'>> = {}
+
+  if (body.url !== undefined || isNew) {
+    const { url, error } = parseOutboundUrl(body.url, 'url')
+    if (error !== null) {
+      return { data, error }
+    }
+    data.url = url
+  }
+
+  if (body.description !== undefined) {
+    data.description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null
+  }
+
+  if (body.events !== undefined || isNew) {
+    const events = body.events === undefined ? WEBHOOK_EVENTS.map((e) => e.value) : body.events
+    if (!Array.isArray(events) || events.length === 0 || !events.every((e) => WEBHOOK_EVENTS.some((w) => w.value === e))) {
+      return { data, error: `events must be a non-empty list of: ${WEBHOOK_EVENTS.map((e) => e.value).join(', ')}` }
+    }
+    data.events = [...new Set(events as WebhookEvent[])]
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      return { data, error: 'enabled must be a boolean' }
+    }
+    data.enabled = body.enabled
+  }
+
+  return { data, error: null }
+}
+
+/**
+ * POSTs a delivery its sender has claimed (status `sending`) to its endpoint and records the attempt,
+ * releasing the claim. Only the response status is kept, and endpoints on non-public hosts fail
+ * (see postToOutboundUrl). Failed deliveries are scheduled for a retry until MAX_WEBHOOK_ATTEMPTS, or
+ * marked failed straight away when `retry` is false.
+ */
+export async function attemptWebhookDelivery(
+  supabase: SupabaseClient,
+  endpoint: Pick<WebhookEndpoint, 'url' | 'secret'>,
+  delivery: WebhookDelivery,
+  retry = true
+): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1
+  const body = JSON.stringify(delivery.payload)
+  let responseStatus: number | null = null
+  let error: string | null = null
+
+  try {
+    responseStatus = await postToOutboundUrl(endpoint.url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'reddit-seo/0.1',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Signature': signWebhookPayload(endpoint.secret, body),
+      },
+      body,
+      timeoutMs: WEBHOOK_TIMEOUT_MS,
+    })
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `Endpoint responded with HTTP ${responseStatus}`
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Unknown error'
+  }
+
+  const now = new Date()
+  const givenUp = !retry || attempts >= MAX_WEBHOOK_ATTEMPTS
+  const update: Partial<WebhookDelivery> = {
+    attempts,
+    locked_at: null,
+    response_status: responseStatus,
+    error,
+    ...(error === null
+      ? { status: 'succeeded', next_attempt_at: null, delivered_at: now.toISOString() }
+      : givenUp
+        ? { status: 'failed', next_attempt_at: null }
+        : { status: 'pending', next_attempt_at: new Date(now.getTime() + RETRY_DELAYS_MS[attempts - 1]).toISOString() }),
+  }
+
+  if (error) {
+    console.error(`Webhook delivery ${delivery.id} (${delivery.event}) to ${endpoint.url} failed: ${error}`)
+  }
+
+  const { error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', delivery.id)
+
+  if (updateError) {
+    console.error(`Error recording webhook delivery ${delivery.id}:`, updateError)
+  }
+
+  return { ...delivery, ...update }
+}
+
+/**
+ * Queues events for every enabled endpoint of the project subscribed to them and delivers them
+ * right away; failures are retried by the /api/cron/deliver-webhooks worker. Webhooks never fail
+ * the action that emitted them: errors are logged.
+ */
+export async function emitWebhookEvents(
+  supabase: SupabaseClient,
+  projectId: string | null,
+  events: Array<{ event: WebhookEvent; data: Record<string, unknown> }>
+): Promise<void> {
+  if (!projectId || events.length === 0) return
+
+  try {
+    const { data: endpoints, error: endpointsError } = await supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('enabled', true)
+
+    if (endpointsError) throw endpointsError
+
+    const createdAt = new Date().toISOString()
+    const rows = ((endpoints || []) as WebhookEndpoint[]).flatMap((endpoint) =>
+      events
+        .filter(({ event }) => endpoint.events.includes(event))
+        .map(({ event, data }) => {
+          const id = randomUUID()
+          const payload: WebhookPayload = { id, event, project_id: projectId, created_at: createdAt, data }
+          // Claimed from the start: the cron worker only picks it up if this send dies
+          return { id, endpoint_id: endpoint.id, event, payload, status: 'sending', locked_at: createdAt }
+        })
+    )
+
+    if (rows.length === 0) return
+
+    const { data: deliveries, error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert(rows)
+      .select('*')
+
+    if (insertError) throw insertError
+
+    for (const delivery of (deliveries || []) as WebhookDelivery[]) {
+      const endpoint = (endpoints as WebhookEndpoint[]).find((e) => e.id === delivery.endpoint_id)
+      if (endpoint) {
+        await attemptWebhookDelivery(supabase, endpoint, delivery)
+      }
+    }
+  } catch (error) {
+    console.error(`Error emitting webhook events (${events.map((e) => e.event).join(', ')}) for project ${projectId}:`, error)
+  }
+}
+
+export function emitWebhookEvent(
+  supabase: SupabaseClient,
+  projectId: string | null,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  return emitWebhookEvents(supabase, projectId, [{ event, data }])
+}
+
+function toThreadData(change: RankingChange) {
+  return {
+    thread_id: change.threadId,
+    reddit_thread_id: change.redditThreadId,
+    post_title: change.postTitle,
+    post_url: change.postUrl,
+    subreddit: change.subreddit,
+    previous_position: change.previousPosition,
+    position: change.position,
+  }
+}
+
+/**
+ * Events for the changes of one keyword check: thread.new and thread.dropped per thread, and one
+ * ranking.changed listing every thread whose position changed
+ */
+export async function emitRankingEvents(
+  supabase: SupabaseClient,
+  keywordId: string,
+  keywordText: string,
+  changes: RankingChange[]
+): Promise<void> {
+  const moved = changes.filter((change) => change.previousPosition !== change.position)
+  if (moved.length === 0) return
+
+  const { data: keyword, error } = await supabase
+    .from('keywords')
+    .select('project_id')
+    .eq('id', keywordId)
+    .single()
+
+  if (error) {
+    console.error(`Error loading the project of keyword ${keywordText} for webhooks:`, error)
+    return
+  }
+
+  const keywordData = { keyword_id: keywordId, keyword: keywordText }
+  const events: Array<{ event: WebhookEvent; data: Record<string, unknown> }> = [
+    ...moved
+      .filter((change) => change.previousPosition === null)
+      .map((change) => ({ event: 'thread.new' as const, data: { ...keywordData, thread: toThreadData(change) } })),
+    ...moved
+      .filter((change) => change.position === null)
+      .map((change) => ({ event: 'thread.dropped' as const, data: { ...keywordData, thread: toThreadData(change) } })),
+    { event: 'ranking.changed', data: { ...keywordData, changes: moved.map(toThreadData) } },
+  ]
+
+  await emitWebhookEvents(supabase, keyword.project_id, events)
+}
+
+/**
+ * refresh_run.completed for each project with keywords in the run, listing that project's outcomes
+ */
+export async function emitRefreshRunEvents(
+  supabase: SupabaseClient,
+  run: { runId: string | null; trigger: RefreshTrigger; source?: string; status: 'completed' | 'failed'; error?: string },
+  items: Array<{ keywordId: string; keyword: string; postsCount?: number; cost?: number | null; error?: string }>
+): Promise<void> {
+  if (items.length === 0) return
+
+  const { data: keywords, error } = await supabase
+    .from('keywords')
+    .select('id, project_id')
+    .in('id', [...new Set(items.map((item) => item.keywordId))])
+
+  if (error) {
+    console.error('Error loading keyword projects for refresh run webhooks:', error)
+    return
+  }
+
+  const projectOf = new Map((keywords || []).map((k) => [k.id as string, k.project_id as string]))
+  const byProject = new Map<string, typeof items>()
+  for (const item of items) {
+    const projectId = projectOf.get(item.keywordId)
+    if (!projectId) continue
+    byProject.set(projectId, [...(byProject.get(projectId) || []), item])
+  }
+
+  for (const [projectId, projectItems] of byProject) {
+    await emitWebhookEvent(supabase, projectId, 'refresh_run.completed', {
+      run_id: run.runId,
+      trigger: run.trigger,
+      source: run.source || null,
+      status: run.status,
+      error: run.error || null,
+      keywords_succeeded: projectItems.filter((item) => !item.error).length,
+      keywords_failed: projectItems.filter((item) => item.error).length,
+      keywords: projectItems.map((item) => ({
+        keyword_id: item.keywordId,
+        keyword: item.keyword,
+        success: !item.error,
+        posts_count: item.error ? null : item.postsCount ?? null,
+        error: item.error || null,
+      })),
+    })
+  }
+}
+
+/**
+ * Sends a `webhook.test` event to an endpoint once, without retries, and returns the logged delivery
+ */
+export async function sendTestWebhook(supabase: SupabaseClient, endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const id = randomUUID()
+  const payload: WebhookPayload = {
+    id,
+    event: 'webhook.test',
+    project_id: endpoint.project_id,
+    created_at: new Date().toISOString(),
+    data: { message: 'Test event from Reddit SEO Tracker' },
+  }
+
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({ id, endpoint_id: endpoint.id, event: payload.event, payload, status: 'sending', locked_at: payload.created_at })
+    .select('*')
+    .single()
+
+  if (error) throw error
+
+  return attemptWebhookDelivery(supabase, endpoint, delivery as WebhookDelivery, false)
+}
+
+/**
+ * Sends deliveries whose next attempt is due, oldest first: retries and those queued by the edge
+ * function. Each batch is claimed first (claim_webhook_deliveries in migration 030), so overlapping
+ * runs never send the same delivery. Needs the service role.
+ */
+export async function deliverPendingWebhooks(supabase: SupabaseClient, limit = 50) {
+  const { data: claimed, error } = await supabase.rpc('claim_webhook_deliveries', { batch_size: limit })
+
+  if (error) throw error
+
+  const deliveries = (claimed || []) as WebhookDelivery[]
+  if (deliveries.length === 0) {
+    return { processed: 0, succeeded: 0, failed: 0 }
+  }
+
+  const { data: endpoints, error: endpointsError } = await supabase
+    .from('webhook_endpoints')
+    .select('id, url, secret, enabled')
+    .in('id', [...new Set(deliveries.map((d) => d.endpoint_id))])
+
+  if (endpointsError) throw endpointsError
+
+  let succeeded = 0
+  let failed = 0
+
+  for (const delivery of deliveries) {
+    const endpoint = (endpoints || []).find((e) => e.id === delivery.endpoint_id)
+
+    if (!endpoint?.enabled) {
+      await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'failed', next_attempt_at: null, locked_at: null, error: 'Endpoint disabled' })
+        .eq('id', delivery.id)
+      failed++
+      continue
+    }
+
+    const result = await attemptWebhookDelivery(supabase, endpoint, delivery)
+    if (result.status === 'succeeded') {
+      succeeded++
+    } else {
+      failed++
+    }
+  }
+
+  return { processed: deliveries.length, succeeded, failed }
+}
@@ -1,7 +1,23 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { API_KEY_SESSION_HEADER, authenticateApiKey, getBearerApiKey } from '@/lib/api-keys'
+import { createAdminClient } from '@/lib/supabase/admin'
 
 export async function proxy(request: NextRequest) {
+  // Only the proxy sets the API key session header
+  request.headers.delete(API_KEY_SESSION_HEADER)
+
+  // The API description is public
+  if (request.nextUrl.pathname === '/api/v1/openapi.json') {
+    return NextResponse.next()
+  }
+
+  // API keys authenticate as their owner instead of a session
+  const apiKey = getBearerApiKey(request.headers.get('authorization'))
+  if (apiKey && request.nextUrl.pathname.startsWith('/api') && !request.nextUrl.pathname.startsWith('/api/cron')) {
+    return authenticateApiRequest(request, apiKey)
+  }
+
   let supabaseResponse = NextResponse.next({
     request,
   })
@@ -33,6 +49,16 @@ export async function proxy(request: NextRequest) {
     return supabaseResponse
   }
 
+  // Cron routes authenticate with CRON_SECRET instead of a session
+  if (request.nextUrl.pathname.startsWith('/api/cron')) {
+    return supabaseResponse
+  }
+
+  // The stand-in Reddit API is called by the app's server with Reddit OAuth tokens
+  if (request.nextUrl.pathname.startsWith('/api/mock-reddit')) {
+    return supabaseResponse
+  }
+
   // Refresh session if expired - required for Server Components
   // Only do this for non-auth pages to avoid unnecessary calls
   const {
@@ -43,10 +69,7 @@ export async function proxy(request: NextRequest) {
   if (request.nextUrl.pathname.startsWith('/api') && 
       !request.nextUrl.pathname.startsWith('/api/auth')) {
     if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
+      return apiErrorResponse(request, 'Unauthorized', 401)
     }
   }
 
@@ -59,6 +82,42 @@ export async function proxy(request: NextRequest) {
   return supabaseResponse
 }
 
+async function authenticateApiRequest(request: NextRequest, apiKey: string) {
+  try {
+    const result = await authenticateApiKey(createAdminClient(), apiKey, {
+      method: request.method,
+      pathname: request.nextUrl.pathname,
+    })
+
+    if (result.accessToken === null) {
+      return apiErrorResponse(request, result.error, result.status)
+    }
+
+    const requestHeaders = new Headers(request.headers)
+    requestHeaders.set(API_KEY_SESSION_HEADER, result.accessToken)
+    return NextResponse.next({
+      request: { headers: requestHeaders },
+    })
+  } catch (error) {
+    console.error('Error authenticating API key:', error)
+    return apiErrorResponse(request, 'Could not authenticate API key', 500)
+  }
+}
+
+const API_V1_ERROR_CODES: Record<number, string> = {
+  401: 'unauthorized',
+  403: 'forbidden',
+  500: 'internal_error',
+}
+
+// /api/v1 answers with its error envelope (see lib/api-v1/handler.ts)
+function apiErrorResponse(request: NextRequest, message: string, status: number) {
+  const body = request.nextUrl.pathname.startsWith('/api/v1/')
+    ? { error: { code: API_V1_ERROR_CODES[status], message } }
+    : { error: message }
+  return NextResponse.json(body, { status })
+}
+
 export const config = {
   matcher: [
     /*
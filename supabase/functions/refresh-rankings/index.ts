@@ -27,17 +27,175 @@ interface DataForSEOResult {
 }
 
 interface RedditPostData {
-  post_url: string;
+  reddit_thread_id: string;
+  post_url: string; // Canonical thread URL
   post_title: string;
   subreddit: string;
   rank_position: number;
 }
 
+interface SerpSettings {
+  locationCode: number;
+  languageCode: string;
+  device: "desktop" | "mobile";
+  depth: number;
+}
+
+const DEFAULT_SERP_SETTINGS: SerpSettings = {
+  locationCode: 2840, // United States
+  languageCode: "en",
+  device: "desktop",
+  depth: 10, // First page only
+};
+
+const TRACKING_DEPTHS = [10, 20, 50, 100];
+
+// Keywords checked per run at most, the rest stay due for the next hourly run
+const DEFAULT_REFRESH_BATCH_SIZE = 50;
+
+interface SerpSettingsColumns {
+  serp_location_code?: number | null;
+  serp_language_code?: string | null;
+  serp_device?: string | null;
+  tracking_depth?: number | null;
+}
+
+// Keyword overrides win over project settings, which win over the defaults
+function resolveSerpSettings(
+  keyword: SerpSettingsColumns & { projects?: SerpSettingsColumns | SerpSettingsColumns[] | null }
+): SerpSettings {
+  const project = Array.isArray(keyword.projects) ? keyword.projects[0] : keyword.projects;
+  const device = keyword.serp_device || project?.serp_device || DEFAULT_SERP_SETTINGS.device;
+
+  return {
+    locationCode: keyword.serp_location_code || project?.serp_location_code || DEFAULT_SERP_SETTINGS.locationCode,
+    languageCode: keyword.serp_language_code || project?.serp_language_code || DEFAULT_SERP_SETTINGS.languageCode,
+    device: device === "mobile" ? "mobile" : "desktop",
+    depth: project?.tracking_depth && TRACKING_DEPTHS.includes(project.tracking_depth)
+      ? project.tracking_depth
+      : DEFAULT_SERP_SETTINGS.depth,
+  };
+}
+
+// Same policy as lib/http/client.ts: per-attempt timeout, exponential backoff with jitter on
+// 429/5xx, timeouts and network errors, and a per-provider circuit breaker
+interface HttpPolicy {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+}
+
+const HTTP_POLICIES: Record<string, HttpPolicy> = {
+  DataForSEO: { timeoutMs: 60_000, maxRetries: 3, baseDelayMs: 1000 },
+  SerpAPI: { timeoutMs: 30_000, maxRetries: 3, baseDelayMs: 1000 },
+  Apify: { timeoutMs: 120_000, maxRetries: 1, baseDelayMs: 5000 },
+};
+
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+const circuits = new Map<string, { failures: number; openedAt: number | null }>();
+
+class ExternalApiError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "ExternalApiError";
+  }
+}
+
+async function fetchWithPolicy(provider: string, url: string, init: RequestInit = {}): Promise<Response> {
+  const policy = HTTP_POLICIES[provider];
+  const circuit = circuits.get(provider) || { failures: 0, openedAt: null };
+  circuits.set(provider, circuit);
+
+  for (let retry = 0; ; retry++) {
+    if (circuit.openedAt !== null && Date.now() - circuit.openedAt < CIRCUIT_COOLDOWN_MS) {
+      throw new ExternalApiError(`${provider} is failing repeatedly, calls are paused`, true);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+    let error: ExternalApiError;
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      if (response.ok) {
+        circuit.failures = 0;
+        circuit.openedAt = null;
+        return response;
+      }
+
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get("retry-after"));
+        error = new ExternalApiError(
+          `${provider} rate limit reached, try again later`,
+          true,
+          Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+        );
+      } else {
+        const errorText = await response.text().catch(() => "");
+        error = new ExternalApiError(`${provider} API error: ${response.status} - ${errorText.slice(0, 300)}`, response.status >= 500);
+      }
+    } catch (fetchError) {
+      error = controller.signal.aborted
+        ? new ExternalApiError(`${provider} did not respond within ${Math.round(policy.timeoutMs / 1000)}s`, true)
+        : new ExternalApiError(`Could not reach ${provider}: ${fetchError instanceof Error ? fetchError.message : "network error"}`, true);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (error.retryable) {
+      circuit.failures++;
+      if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) circuit.openedAt = Date.now();
+    }
+    if (!error.retryable || retry >= policy.maxRetries) throw error;
+
+    const backoff = Math.min(MAX_RETRY_DELAY_MS, policy.baseDelayMs * 2 ** retry);
+    const delay = Math.min(MAX_RETRY_DELAY_MS, error.retryAfterMs ?? backoff * (0.5 + Math.random() / 2));
+    console.warn(`[fetchWithPolicy] ${error.message}, retrying in ${Math.round(delay)}ms`);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
 interface ApifyScrapedData {
   [key: string]: any;
 }
 
-async function scrapeRedditPostWithApify(postUrl: string): Promise<ApifyScrapedData | null> {
+// Same shape as ScrapedThread in lib/scrapers/types.ts, stored in threads.scraped_data
+interface ScrapedThread {
+  source: string;
+  url: string;
+  title: string;
+  body: string;
+  subreddit: string;
+  author?: string;
+  score: number | null;
+  numComments: number | null;
+  comments: Array<{ id?: string; author?: string; text: string; score?: number }>;
+  isLocked: boolean;
+  isArchived: boolean;
+  createdAt?: string;
+}
+
+function normalizeApifyItem(postUrl: string, item: ApifyScrapedData): ScrapedThread {
+  return {
+    source: "apify",
+    url: item.url || postUrl,
+    title: item.title || "",
+    body: item.body || item.text || item.content || "",
+    subreddit: item.parsedCommunityName || String(item.communityName || "").replace(/^r\//, ""),
+    author: item.username,
+    score: typeof item.upVotes === "number" ? item.upVotes : null,
+    numComments: typeof item.numberOfComments === "number" ? item.numberOfComments : null,
+    comments: [], // Ranking checks scrape without comments
+    isLocked: !!item.isLocked,
+    isArchived: !!item.isArchived,
+    createdAt: item.createdAt,
+  };
+}
+
+async function scrapeRedditPostWithApify(postUrl: string): Promise<ScrapedThread | null> {
   const apifyToken = Deno.env.get("APIFY_API_TOKEN");
   
   if (!apifyToken) {
@@ -80,7 +238,7 @@ async function scrapeRedditPostWithApify(postUrl: string): Promise<ApifyScrapedD
 
     console.log(`[scrapeRedditPostWithApify] Scraping: ${postUrl}`);
     
-    const response = await fetch(apiUrl, {
+    const response = await fetchWithPolicy("Apify", apiUrl, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -88,234 +246,785 @@ async function scrapeRedditPostWithApify(postUrl: string): Promise<ApifyScrapedD
       body: JSON.stringify(requestBody),
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[scrapeRedditPostWithApify] API error for ${postUrl}: ${response.status} - ${errorText}`);
-      return null;
-    }
-
     const data = await response.json();
     
     // Return the first item if available, or the whole dataset
     if (Array.isArray(data) && data.length > 0) {
       console.log(`[scrapeRedditPostWithApify] Successfully scraped ${postUrl}, got ${data.length} items`);
-      return data[0] as ApifyScrapedData;
+      return normalizeApifyItem(postUrl, data[0]);
     }
     
     console.log(`[scrapeRedditPostWithApify] Successfully scraped ${postUrl}`);
-    return data as ApifyScrapedData;
+    return normalizeApifyItem(postUrl, data);
   } catch (error) {
     console.error(`[scrapeRedditPostWithApify] Error scraping Reddit post ${postUrl} with Apify:`, error);
     return null;
   }
 }
 
-function extractRedditData(url: string, title: string): { subreddit: string; postTitle: string } | null {
-  const redditMatch = url.match(/reddit\.com\/r\/([^\/]+)/);
-  if (!redditMatch) return null;
+// Same rules as parseRedditUrl in lib/reddit-url.ts: the Reddit post ID is the thread identity
+function extractRedditData(
+  url: string,
+  title: string
+): { threadId: string; canonicalUrl: string; subreddit: string; postTitle: string } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (!/^(?:[a-z0-9-]+\.)?reddit\.com$/i.test(parsed.hostname)) return null;
+
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  const subreddit = segments[0]?.toLowerCase() === "r" && segments[1] ? segments[1] : null;
+  const commentsIndex = segments.findIndex((segment) => segment.toLowerCase() === "comments");
+  const threadId = commentsIndex === -1 ? undefined : segments[commentsIndex + 1];
+  if (!subreddit || !threadId || !/^[a-z0-9]+$/i.test(threadId)) return null;
 
-  const subreddit = redditMatch[1];
+  const id = threadId.toLowerCase();
   const postTitle = title.replace(/^\[.*?\]\s*/, "").trim();
 
-  return { subreddit, postTitle };
+  return {
+    threadId: id,
+    canonicalUrl: `https://www.reddit.com/r/${subreddit}/comments/${id}/`,
+    subreddit,
+    postTitle,
+  };
 }
 
-async function checkRankings(keyword: string): Promise<RedditPostData[]> {
-  const login = Deno.env.get("DATAFORSEO_LOGIN");
-  const password = Deno.env.get("DATAFORSEO_PASSWORD");
+// Normalized organic result, shared by all SERP providers
+interface SerpItem {
+  url: string;
+  title: string;
+  position: number;
+}
 
-  if (!login || !password) {
-    console.error("[checkRankings] Missing DataForSEO credentials");
-    throw new Error("DataForSEO credentials not configured");
-  }
+interface SerpSearchResult {
+  items: SerpItem[];
+  cost: number | null; // USD charged for the request, when the vendor reports it
+}
 
-  const searchQuery = keyword;
-  console.log(`[checkRankings] Checking rankings for: "${searchQuery}"`);
+interface SerpProvider {
+  name: string;
+  search(query: string, settings: SerpSettings): Promise<SerpSearchResult>;
+}
 
-  const response = await fetch(
-    "https://api.dataforseo.com/v3/serp/google/organic/live/advanced",
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Basic ${btoa(`${login}:${password}`)}`,
-      },
-      body: JSON.stringify([
-        {
-          keyword: searchQuery,
-          location_code: 2840,
-          language_code: "en",
-          depth: 10,
-          device: "desktop",
-          os: "windows",
+const dataForSEOProvider: SerpProvider = {
+  name: "dataforseo",
+  async search(query, settings) {
+    const login = Deno.env.get("DATAFORSEO_LOGIN");
+    const password = Deno.env.get("DATAFORSEO_PASSWORD");
+
+    if (!login || !password) {
+      console.error("[checkRankings] Missing DataForSEO credentials");
+      throw new Error("DataForSEO credentials not configured");
+    }
+
+    const response = await fetchWithPolicy(
+      "DataForSEO",
+      "https://api.dataforseo.com/v3/serp/google/organic/live/advanced",
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Basic ${btoa(`${login}:${password}`)}`,
         },
-      ]),
+        body: JSON.stringify([
+          {
+            keyword: query,
+            location_code: settings.locationCode,
+            language_code: settings.languageCode,
+            depth: settings.depth,
+            device: settings.device,
+            os: settings.device === "mobile" ? "android" : "windows",
+          },
+        ]),
+      }
+    );
+
+    const data = await response.json();
+
+    if (!data || !data.tasks || data.tasks.length === 0) {
+      throw new Error("No results from DataForSEO API");
     }
-  );
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`DataForSEO API error: ${response.status} - ${errorText}`);
-  }
+    const task = data.tasks[0];
+    if (task.status_code !== 20000) {
+      throw new Error(
+        `DataForSEO API error: ${task.status_message || "Unknown error"}`
+      );
+    }
 
-  const data = await response.json();
+    const cost = typeof task.cost === "number" ? task.cost : null;
 
-  if (!data || !data.tasks || data.tasks.length === 0) {
-    throw new Error("No results from DataForSEO API");
-  }
+    const results: DataForSEOResult[] = task.result || [];
+    if (results.length === 0) {
+      return { items: [], cost };
+    }
 
-  const task = data.tasks[0];
-  if (task.status_code !== 20000) {
-    throw new Error(
-      `DataForSEO API error: ${task.status_message || "Unknown error"}`
-    );
-  }
+    const items: SerpItem[] = [];
+    for (const item of results[0].items || []) {
+      if (item.type === "organic" && item.url && item.title) {
+        items.push({
+          url: item.url,
+          title: item.title,
+          position: item.rank_absolute || parseInt(item.position) || 0,
+        });
+      }
+    }
+
+    return { items, cost };
+  },
+};
 
-  const results: DataForSEOResult[] = task.result || [];
-  if (results.length === 0) {
-    return [];
+// SerpAPI takes a country code instead of a DataForSEO location code
+const SERPAPI_COUNTRY_CODES: Record<number, string> = {
+  2840: "us",
+  2826: "uk",
+  2276: "de",
+  2036: "au",
+  2124: "ca",
+  2372: "ie",
+  2554: "nz",
+  2250: "fr",
+  2724: "es",
+  2380: "it",
+  2528: "nl",
+  2040: "at",
+  2756: "ch",
+  2356: "in",
+};
+
+const serpApiProvider: SerpProvider = {
+  name: "serpapi",
+  async search(query, settings) {
+    const apiKey = Deno.env.get("SERPAPI_API_KEY");
+
+    if (!apiKey) {
+      console.error("[checkRankings] Missing SerpAPI key");
+      throw new Error("SerpAPI key not configured");
+    }
+
+    const params = new URLSearchParams({
+      engine: "google",
+      q: query,
+      hl: settings.languageCode,
+      num: String(settings.depth),
+      device: settings.device,
+      api_key: apiKey,
+    });
+    const countryCode = SERPAPI_COUNTRY_CODES[settings.locationCode];
+    if (countryCode) {
+      params.set("gl", countryCode);
+    }
+
+    const baseUrl = Deno.env.get("SERPAPI_BASE_URL") || "https://serpapi.com";
+    const response = await fetchWithPolicy("SerpAPI", `${baseUrl}/search.json?${params.toString()}`);
+
+    const data: {
+      error?: string;
+      organic_results?: Array<{ position: number; title?: string; link?: string }>;
+    } = await response.json();
+
+    if (data.error) {
+      throw new Error(`SerpAPI error: ${data.error}`);
+    }
+
+    const items = (data.organic_results || [])
+      .filter((result) => result.link && result.title)
+      .map((result) => ({
+        url: result.link as string,
+        title: result.title as string,
+        position: result.position,
+      }));
+
+    // SerpAPI bills searches against a plan, no per-request cost is reported
+    return { items, cost: null };
+  },
+};
+
+// The fixture provider reads from the local filesystem and is only available in the Next.js app
+function getSerpProvider(): SerpProvider {
+  const name = Deno.env.get("SERP_PROVIDER") || "dataforseo";
+  switch (name) {
+    case "dataforseo":
+      return dataForSEOProvider;
+    case "serpapi":
+      return serpApiProvider;
+    default:
+      throw new Error(`Unsupported SERP provider for edge function: "${name}"`);
   }
+}
+
+async function checkRankings(
+  keyword: string,
+  serpSettings: SerpSettings,
+  provider: SerpProvider
+): Promise<{ posts: RedditPostData[]; cost: number | null }> {
+  console.log(`[checkRankings] Checking rankings for: "${keyword}" via ${provider.name} (location ${serpSettings.locationCode}, ${serpSettings.languageCode}, ${serpSettings.device}, top ${serpSettings.depth})`);
 
-  const result = results[0];
+  const { items, cost } = await provider.search(keyword, serpSettings);
   const redditPosts: RedditPostData[] = [];
 
-  for (const item of result.items || []) {
-    if (item.type === "organic" && item.url && item.title) {
-      if (item.url.includes("reddit.com")) {
-        const redditData = extractRedditData(item.url, item.title);
-
-        if (redditData) {
-          const rankPosition = item.rank_absolute || parseInt(item.position) || 0;
-
-          if (rankPosition >= 1 && rankPosition <= 10) {
-            redditPosts.push({
-              post_url: item.url,
-              post_title: redditData.postTitle,
-              subreddit: redditData.subreddit,
-              rank_position: rankPosition,
-            });
-          }
-        }
-      }
+  for (const item of items) {
+    const redditData = extractRedditData(item.url, item.title);
+    if (!redditData || item.position < 1 || item.position > serpSettings.depth) continue;
+
+    // Keep the best position when a thread appears more than once
+    const existing = redditPosts.find((p) => p.reddit_thread_id === redditData.threadId);
+    if (existing) {
+      existing.rank_position = Math.min(existing.rank_position, item.position);
+      continue;
     }
+
+    redditPosts.push({
+      reddit_thread_id: redditData.threadId,
+      post_url: redditData.canonicalUrl,
+      post_title: redditData.postTitle,
+      subreddit: redditData.subreddit,
+      rank_position: item.position,
+    });
   }
 
-  return redditPosts;
+  return { posts: redditPosts, cost };
 }
 
 async function saveRankingsToDatabase(
   supabase: any,
   keywordId: string,
   keywordText: string,
-  redditPosts: RedditPostData[]
-): Promise<void> {
+  redditPosts: RedditPostData[],
+  serpSettings: SerpSettings,
+  usage: UsageContext
+): Promise<RankingChange[]> {
   const now = new Date().toISOString();
+  // Market the rankings were observed in
+  const market = {
+    location_code: serpSettings.locationCode,
+    language_code: serpSettings.languageCode,
+    device: serpSettings.device,
+  };
+  const changes: RankingChange[] = [];
 
   for (const post of redditPosts) {
-    // Scrape post with Apify if not already scraped
-    let apifyData: ApifyScrapedData | null = null;
-    let apifyScrapedAt: string | null = null;
-    
-    // Check if post already exists to see if we need to scrape
-    const { data: existingPost } = await supabase
-      .from("reddit_posts")
-      .select("id, first_seen_at, apify_scraped_at")
-      .eq("keyword_id", keywordId)
-      .eq("post_url", post.post_url)
-      .single();
+    // Find or create the shared thread row
+    const { data: existingThread } = await supabase
+      .from("threads")
+      .select("id, scraped_at")
+      .eq("reddit_thread_id", post.reddit_thread_id)
+      .maybeSingle();
+
+    const threadData = {
+      post_url: post.post_url,
+      post_title: post.post_title,
+      subreddit: post.subreddit,
+    };
+    let threadId: string | null = existingThread?.id ?? null;
+
+    if (existingThread) {
+      await supabase.from("threads").update(threadData).eq("id", existingThread.id);
+    } else {
+      const { data: newThread } = await supabase
+        .from("threads")
+        .insert({ reddit_thread_id: post.reddit_thread_id, ...threadData })
+        .select("id")
+        .single();
+      threadId = newThread?.id ?? null;
+    }
 
-    // Scrape with Apify if post is new or hasn't been scraped recently (e.g., scraped more than 24 hours ago)
-    const shouldScrape = !existingPost || !existingPost.apify_scraped_at || 
-      (new Date().getTime() - new Date(existingPost.apify_scraped_at).getTime()) > 24 * 60 * 60 * 1000;
+    if (!threadId) continue;
+
+    // Scrape once per thread if it is new or hasn't been scraped recently (e.g., scraped more than 24 hours ago)
+    const shouldScrape = !existingThread || !existingThread.scraped_at || 
+      (new Date().getTime() - new Date(existingThread.scraped_at).getTime()) > 24 * 60 * 60 * 1000;
     
     if (shouldScrape) {
       console.log(`[saveRankingsToDatabase] Scraping Reddit post with Apify: ${post.post_url}`);
-      apifyData = await scrapeRedditPostWithApify(post.post_url);
-      if (apifyData) {
-        apifyScrapedAt = now;
+      const scrapedData: ScrapedThread | null = await scrapeRedditPostWithApify(post.post_url);
+      if (scrapedData) {
+        await recordApiUsage(supabase, usage, { provider: "apify", operation: "thread_scrape", cost: getApifyScrapeCost() });
+        await supabase
+          .from("threads")
+          .update({ scraped_data: scrapedData, scraped_at: now })
+          .eq("id", threadId);
       }
       // Add delay between Apify calls to avoid rate limiting and parallel execution issues
       await new Promise(resolve => setTimeout(resolve, 1500)); // 1.5 second delay
     }
 
-    if (existingPost) {
-      // Update existing post
-      const updateData: any = {
-        rank_position: post.rank_position,
-        post_title: post.post_title,
-        subreddit: post.subreddit,
-        last_checked_at: now,
-      };
-      
-      if (apifyData && apifyScrapedAt) {
-        updateData.apify_scraped_data = apifyData;
-        updateData.apify_scraped_at = apifyScrapedAt;
-      }
-      
+    // Check if the thread already ranks for this keyword
+    const { data: existingRanking } = await supabase
+      .from("keyword_thread_rankings")
+      .select("id, rank_position, dropped_at")
+      .eq("keyword_id", keywordId)
+      .eq("thread_id", threadId)
+      .single();
+
+    const change: RankingChange = {
+      threadId,
+      redditThreadId: post.reddit_thread_id,
+      postTitle: post.post_title,
+      postUrl: post.post_url,
+      subreddit: post.subreddit,
+      previousPosition: existingRanking && !existingRanking.dropped_at ? existingRanking.rank_position : null,
+      position: post.rank_position,
+    };
+
+    if (existingRanking) {
+      // Update existing ranking
       await supabase
-        .from("reddit_posts")
-        .update(updateData)
-        .eq("id", existingPost.id);
+        .from("keyword_thread_rankings")
+        .update({
+          rank_position: post.rank_position,
+          last_checked_at: now,
+          dropped_at: null, // Revive the thread if it had dropped out
+          ...market,
+        })
+        .eq("id", existingRanking.id);
 
       await supabase.from("rankings_history").insert({
-        reddit_post_id: existingPost.id,
+        ranking_id: existingRanking.id,
         rank_position: post.rank_position,
         checked_at: now,
+        ...market,
       });
+      changes.push(change);
     } else {
-      // Insert new post
-      const insertData: any = {
-        keyword_id: keywordId,
-        post_url: post.post_url,
-        post_title: post.post_title,
-        subreddit: post.subreddit,
-        rank_position: post.rank_position,
-        first_seen_at: now,
-        last_checked_at: now,
-      };
-      
-      if (apifyData && apifyScrapedAt) {
-        insertData.apify_scraped_data = apifyData;
-        insertData.apify_scraped_at = apifyScrapedAt;
-      }
-      
-      const { data: newPost } = await supabase
-        .from("reddit_posts")
-        .insert(insertData)
+      // Insert new ranking
+      const { data: newRanking } = await supabase
+        .from("keyword_thread_rankings")
+        .insert({
+          keyword_id: keywordId,
+          thread_id: threadId,
+          rank_position: post.rank_position,
+          first_seen_at: now,
+          last_checked_at: now,
+          ...market,
+        })
         .select()
         .single();
 
-      if (newPost) {
+      if (newRanking) {
         await supabase.from("rankings_history").insert({
-          reddit_post_id: newPost.id,
+          ranking_id: newRanking.id,
           rank_position: post.rank_position,
           checked_at: now,
+          ...market,
         });
+        changes.push(change);
       }
     }
   }
 
-  if (redditPosts.length > 0) {
-    const { data: allPosts } = await supabase
-      .from("reddit_posts")
-      .select("id, post_url")
-      .eq("keyword_id", keywordId);
+  // Mark rankings that are no longer in the results as dropped instead of deleting them
+  const { data: activeRankings } = await supabase
+    .from("keyword_thread_rankings")
+    .select("id, rank_position, thread_id, threads(reddit_thread_id, post_title, post_url, subreddit)")
+    .eq("keyword_id", keywordId)
+    .is("dropped_at", null);
 
-    if (allPosts) {
-      const currentUrls = redditPosts.map((p) => p.post_url);
-      const postsToDelete = allPosts
-        .filter((post) => !currentUrls.includes(post.post_url))
-        .map((post) => post.id);
+  if (activeRankings) {
+    const currentThreadIds = redditPosts.map((p) => p.reddit_thread_id);
+    const droppedRankings = activeRankings
+      .filter((ranking) => !currentThreadIds.includes(ranking.threads?.reddit_thread_id));
+    const droppedIds = droppedRankings.map((ranking) => ranking.id);
 
-      if (postsToDelete.length > 0) {
-        await supabase.from("reddit_posts").delete().in("id", postsToDelete);
-      }
+    for (const ranking of droppedRankings) {
+      changes.push({
+        threadId: ranking.thread_id,
+        redditThreadId: ranking.threads?.reddit_thread_id ?? "",
+        postTitle: ranking.threads?.post_title ?? "",
+        postUrl: ranking.threads?.post_url ?? "",
+        subreddit: ranking.threads?.subreddit ?? "",
+        previousPosition: ranking.rank_position,
+        position: null,
+      });
+    }
+
+    if (droppedIds.length > 0) {
+      console.log(`[saveRankingsToDatabase] Marking ${droppedIds.length} posts as dropped`);
+      await supabase
+        .from("keyword_thread_rankings")
+        .update({ dropped_at: now, last_checked_at: now })
+        .in("id", droppedIds);
+
+      // Null rank = not ranking at this check
+      await supabase.from("rankings_history").insert(
+        droppedIds.map((id) => ({
+          ranking_id: id,
+          rank_position: null,
+          checked_at: now,
+          ...market,
+        }))
+      );
+    }
+  }
+
+  return changes;
+}
+
+// Refresh run log, same tables as lib/refresh-runs.ts. Logging errors never fail the refresh.
+type SupabaseClient = ReturnType<typeof createClient>;
+
+async function startRefreshRun(supabase: SupabaseClient, keywordsTotal: number): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("refresh_runs")
+    .insert({ trigger: "cron", source: "edge-function", keywords_total: keywordsTotal })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("[refresh-rankings] Error starting refresh run log:", error);
+    return null;
+  }
+  return data.id;
+}
+
+async function recordRefreshRunItem(
+  supabase: SupabaseClient,
+  runId: string | null,
+  item: {
+    keywordId: string;
+    keyword: string;
+    startedAt: string;
+    postsCount?: number;
+    cost?: number | null;
+    error?: string;
+  }
+): Promise<void> {
+  if (!runId) return;
+
+  const { error } = await supabase.from("refresh_run_items").insert({
+    run_id: runId,
+    keyword_id: item.keywordId,
+    keyword: item.keyword,
+    success: !item.error,
+    posts_count: item.error ? null : item.postsCount ?? null,
+    api_cost: item.cost ?? null,
+    error: item.error || null,
+    started_at: item.startedAt,
+    finished_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error(`[refresh-rankings] Error logging refresh of "${item.keyword}":`, error);
+  }
+}
+
+async function finishRefreshRun(
+  supabase: SupabaseClient,
+  runId: string | null,
+  totals: { succeeded: number; failed: number; posts: number; cost: number },
+  runError?: string
+): Promise<void> {
+  if (!runId) return;
+
+  const { error } = await supabase
+    .from("refresh_runs")
+    .update({
+      status: runError ? "failed" : "completed",
+      keywords_succeeded: totals.succeeded,
+      keywords_failed: totals.failed,
+      posts_count: totals.posts,
+      api_cost: totals.cost,
+      error: runError || null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", runId);
+
+  if (error) {
+    console.error("[refresh-rankings] Error finishing refresh run log:", error);
+  }
+}
+
+// API usage ledger, same table as lib/usage.ts. Calls are billed to the keyword's project owner.
+interface UsageContext {
+  userId: string | null;
+  projectId: string | null;
+  keywordId: string;
+}
+
+function getApifyScrapeCost(): number | null {
+  const cost = Number(Deno.env.get("APIFY_COST_PER_SCRAPE"));
+  return Deno.env.get("APIFY_COST_PER_SCRAPE") && Number.isFinite(cost) ? cost : null;
+}
+
+async function recordApiUsage(
+  supabase: SupabaseClient,
+  context: UsageContext,
+  usage: { provider: string; operation: "serp_search" | "thread_scrape"; cost: number | null }
+): Promise<void> {
+  const { error } = await supabase.from("api_usage").insert({
+    provider: usage.provider,
+    operation: usage.operation,
+    user_id: context.userId,
+    project_id: context.projectId,
+    keyword_id: context.keywordId,
+    cost: usage.cost,
+  });
+
+  if (error) {
+    console.error(`[refresh-rankings] Error logging ${usage.provider} usage:`, error);
+  }
+}
+
+// Alert rules, same matching as lib/alerts.ts. Notifications are stored here; their email and
+// webhook deliveries stay pending for the /api/cron/deliver-notifications worker. This function
+// never calls webhook URLs itself: the app sends them all through lib/http/outbound.ts, which
+// checks the host is public.
+interface RankingChange {
+  threadId: string;
+  redditThreadId: string;
+  postTitle: string;
+  postUrl: string;
+  subreddit: string;
+  previousPosition: number | null; // null = not ranking before this check
+  position: number | null; // null = dropped out in this check
+}
+
+interface AlertRule {
+  id: string;
+  type: "enters_top_n" | "drops_out" | "moves_by" | "excluded_subreddit";
+  threshold: number | null;
+  channels: string[];
+  email_to: string | null;
+  webhook_url: string | null;
+  enabled: boolean;
+}
+
+// In the top `threshold` now and not before (any position without a threshold)
+function enteredTop(change: RankingChange, threshold: number | null): boolean {
+  const { previousPosition: previous, position } = change;
+  if (position === null || (threshold !== null && position > threshold)) return false;
+  return previous === null || (threshold !== null && previous > threshold);
+}
+
+function matchesAlertRule(rule: AlertRule, change: RankingChange, exclusions: string[]): boolean {
+  const { previousPosition: previous, position } = change;
+
+  switch (rule.type) {
+    case "enters_top_n":
+      return rule.threshold !== null && enteredTop(change, rule.threshold);
+    case "drops_out":
+      if (previous === null) return false;
+      if (rule.threshold === null) return position === null;
+      return previous <= rule.threshold && (position === null || position > rule.threshold);
+    case "moves_by":
+      return rule.threshold !== null && previous !== null && position !== null && Math.abs(position - previous) > rule.threshold;
+    case "excluded_subreddit":
+      return exclusions.includes(change.subreddit.toLowerCase()) && enteredTop(change, rule.threshold);
+    default:
+      return false;
+  }
+}
+
+function describeAlert(rule: AlertRule, change: RankingChange, keyword: string): { title: string; body: string } {
+  const { previousPosition: previous, position } = change;
+  const thread = `"${change.postTitle}" (r/${change.subreddit})`;
+  const was = previous === null ? "not ranking" : `#${previous}`;
+  const now = position === null ? "not ranking" : `#${position}`;
+  const footer = `\n\n${change.postUrl}`;
+
+  switch (rule.type) {
+    case "enters_top_n":
+      return {
+        title: `New thread in the top ${rule.threshold} for "${keyword}"`,
+        body: `${thread} is now ${now} (was ${was}).${footer}`,
+      };
+    case "drops_out":
+      return {
+        title: `Thread dropped out of ${rule.threshold ? `the top ${rule.threshold}` : "the results"} for "${keyword}"`,
+        body: `${thread} is now ${now} (was ${was}).${footer}`,
+      };
+    case "moves_by": {
+      const moved = (previous || 0) - (position || 0);
+      return {
+        title: `Thread moved ${moved > 0 ? "up" : "down"} ${Math.abs(moved)} positions for "${keyword}"`,
+        body: `${thread} went from ${was} to ${now}.${footer}`,
+      };
+    }
+    case "excluded_subreddit":
+      return {
+        title: `Thread from excluded r/${change.subreddit} is ranking for "${keyword}"`,
+        body: `${thread} is now ${now} (was ${was}).${footer}`,
+      };
+  }
+}
+
+// Alerting never fails a ranking check
+async function checkAlertRules(
+  supabase: SupabaseClient,
+  keywordId: string,
+  keywordText: string,
+  changes: RankingChange[]
+): Promise<void> {
+  if (changes.length === 0) return;
+
+  const { data: keyword, error: keywordError } = await supabase
+    .from("keywords")
+    .select("project_id, projects(user_id, organization_id, subreddit_exclusions, alert_rules(*))")
+    .eq("id", keywordId)
+    .single();
+
+  if (keywordError) {
+    console.error(`[refresh-rankings] Error loading alert rules for "${keywordText}":`, keywordError);
+    return;
+  }
+
+  const project = Array.isArray(keyword.projects) ? keyword.projects[0] : keyword.projects;
+  const rules = ((project?.alert_rules || []) as AlertRule[]).filter((rule) => rule.enabled);
+  if (!project || rules.length === 0) return;
+
+  // Addressed to the members of the project's organization, its creator first
+  let recipients: string[] = [project.user_id];
+  if (project.organization_id) {
+    const { data: members, error: membersError } = await supabase
+      .from("organization_members")
+      .select("user_id")
+      .eq("organization_id", project.organization_id)
+      .order("created_at", { ascending: true });
+
+    if (membersError) {
+      console.error(`[refresh-rankings] Error loading alert recipients for "${keywordText}":`, membersError);
+    } else if (members && members.length > 0) {
+      const ids = members.map((m: { user_id: string }) => m.user_id);
+      recipients = ids.includes(project.user_id) ? [project.user_id, ...ids.filter((id: string) => id !== project.user_id)] : ids;
     }
-  } else {
-    await supabase.from("reddit_posts").delete().eq("keyword_id", keywordId);
+  }
+
+  const exclusions: string[] = project.subreddit_exclusions || [];
+  const rows = rules.flatMap((rule) =>
+    changes
+      .filter((change) => matchesAlertRule(rule, change, exclusions))
+      .map((change) => ({
+        project_id: keyword.project_id,
+        keyword_id: keywordId,
+        thread_id: change.threadId,
+        rule_id: rule.id,
+        type: rule.type,
+        ...describeAlert(rule, change, keywordText),
+        data: {
+          keyword: keywordText,
+          reddit_thread_id: change.redditThreadId,
+          post_title: change.postTitle,
+          post_url: change.postUrl,
+          subreddit: change.subreddit,
+          previous_position: change.previousPosition,
+          position: change.position,
+          threshold: rule.threshold,
+        },
+        in_app: rule.channels.includes("in_app"),
+        email_to: rule.channels.includes("email") ? rule.email_to : null,
+        email_status: rule.channels.includes("email") && rule.email_to ? "pending" : null,
+        webhook_url: rule.channels.includes("webhook") ? rule.webhook_url : null,
+        webhook_status: rule.channels.includes("webhook") && rule.webhook_url ? "pending" : null,
+      }))
+      // Everyone gets it in-app; only the first row carries the email and webhook deliveries
+      .flatMap((row) =>
+        (row.in_app ? recipients : recipients.slice(0, 1)).map((userId, i) =>
+          i === 0
+            ? { ...row, user_id: userId }
+            : { ...row, user_id: userId, email_to: null, email_status: null, webhook_url: null, webhook_status: null }
+        )
+      )
+  );
+
+  if (rows.length === 0) return;
+
+  console.log(`[refresh-rankings] ${rows.length} alert rule match(es) for "${keywordText}"`);
+  const { error } = await supabase.from("notifications").insert(rows);
+
+  if (error) {
+    console.error(`[refresh-rankings] Error creating notifications for "${keywordText}":`, error);
   }
 }
 
+// Outbound webhooks, same tables and payloads as lib/webhooks.ts. Deliveries are queued as pending and
+// sent (signed, to public hosts only) by the /api/cron/deliver-webhooks worker. Queueing errors never fail the refresh.
+type WebhookEvent =
+  | "ranking.changed"
+  | "thread.new"
+  | "thread.dropped"
+  | "draft.created"
+  | "draft.updated"
+  | "draft.status_changed"
+  | "refresh_run.completed";
+
+async function queueWebhookEvents(
+  supabase: SupabaseClient,
+  projectId: string | null,
+  events: Array<{ event: WebhookEvent; data: Record<string, unknown> }>
+): Promise<void> {
+  if (!projectId || events.length === 0) return;
+
+  const { data: endpoints, error: endpointsError } = await supabase
+    .from("webhook_endpoints")
+    .select("id, events")
+    .eq("project_id", projectId)
+    .eq("enabled", true);
+
+  if (endpointsError) {
+    console.error(`[refresh-rankings] Error loading webhook endpoints of project ${projectId}:`, endpointsError);
+    return;
+  }
+
+  const createdAt = new Date().toISOString();
+  const rows = (endpoints || []).flatMap((endpoint: { id: string; events: string[] }) =>
+    events
+      .filter(({ event }) => endpoint.events.includes(event))
+      .map(({ event, data }) => {
+        const id = crypto.randomUUID();
+        return {
+          id,
+          endpoint_id: endpoint.id,
+          event,
+          payload: { id, event, project_id: projectId, created_at: createdAt, data },
+        };
+      })
+  );
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from("webhook_deliveries").insert(rows);
+  if (error) {
+    console.error(`[refresh-rankings] Error queueing webhook deliveries for project ${projectId}:`, error);
+  }
+}
+
+function toThreadData(change: RankingChange) {
+  return {
+    thread_id: change.threadId,
+    reddit_thread_id: change.redditThreadId,
+    post_title: change.postTitle,
+    post_url: change.postUrl,
+    subreddit: change.subreddit,
+    previous_position: change.previousPosition,
+    position: change.position,
+  };
+}
+
+async function queueRankingEvents(
+  supabase: SupabaseClient,
+  projectId: string,
+  keywordId: string,
+  keywordText: string,
+  changes: RankingChange[]
+): Promise<void> {
+  const moved = changes.filter((change) => change.previousPosition !== change.position);
+  if (moved.length === 0) return;
+
+  const keywordData = { keyword_id: keywordId, keyword: keywordText };
+  await queueWebhookEvents(supabase, projectId, [
+    ...moved
+      .filter((change) => change.previousPosition === null)
+      .map((change) => ({ event: "thread.new" as const, data: { ...keywordData, thread: toThreadData(change) } })),
+    ...moved
+      .filter((change) => change.position === null)
+      .map((change) => ({ event: "thread.dropped" as const, data: { ...keywordData, thread: toThreadData(change) } })),
+    { event: "ranking.changed", data: { ...keywordData, changes: moved.map(toThreadData) } },
+  ]);
+}
+
 Deno.serve(async (req) => {
   const startTime = Date.now();
   console.log("[refresh-rankings] Function started");
@@ -338,11 +1047,18 @@ Deno.serve(async (req) => {
     }
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const serpProvider = getSerpProvider();
+    console.log(`[refresh-rankings] Using SERP provider: ${serpProvider.name}`);
 
-    console.log("[refresh-rankings] Fetching keywords...");
+    // Only keywords due by their refresh interval, most overdue first. Paused keywords have no next_check_at.
+    const batchSize = Number(Deno.env.get("REFRESH_BATCH_SIZE")) || DEFAULT_REFRESH_BATCH_SIZE;
+    console.log("[refresh-rankings] Fetching due keywords...");
     const { data: keywords, error: keywordsError } = await supabase
       .from("keywords")
-      .select("id, keyword");
+      .select("id, keyword, project_id, next_check_at, serp_location_code, serp_language_code, serp_device, projects(user_id, serp_location_code, serp_language_code, serp_device, tracking_depth)")
+      .lte("next_check_at", new Date().toISOString())
+      .order("next_check_at", { ascending: true })
+      .limit(batchSize);
 
     if (keywordsError) {
       console.error("[refresh-rankings] Error fetching keywords:", keywordsError);
@@ -354,7 +1070,7 @@ Deno.serve(async (req) => {
     if (!keywords || keywords.length === 0) {
       return new Response(
         JSON.stringify({
-          message: "No keywords to check",
+          message: "No keywords due for a check",
           checked: 0,
         }),
         {
@@ -366,24 +1082,63 @@ Deno.serve(async (req) => {
 
     const results = [];
     let processedCount = 0;
+    const runId = await startRefreshRun(supabase, keywords.length);
+    const runTotals = { succeeded: 0, failed: 0, posts: 0, cost: 0 };
+    // refresh_run.completed outcomes, grouped by project
+    const projectOutcomes = new Map<string, Array<Record<string, unknown>>>();
+    const recordOutcome = (projectId: string, outcome: Record<string, unknown>) =>
+      projectOutcomes.set(projectId, [...(projectOutcomes.get(projectId) || []), outcome]);
 
     for (const keyword of keywords) {
+      const startedAt = new Date().toISOString();
       try {
         console.log(`[refresh-rankings] Processing keyword ${processedCount + 1}/${keywords.length}: "${keyword.keyword}"`);
         const keywordStartTime = Date.now();
         
-        const redditPosts = await checkRankings(keyword.keyword);
+        const serpSettings = resolveSerpSettings(keyword);
+        const project = Array.isArray(keyword.projects) ? keyword.projects[0] : keyword.projects;
+        const usage: UsageContext = { userId: project?.user_id ?? null, projectId: keyword.project_id, keywordId: keyword.id };
+        const { posts: redditPosts, cost } = await checkRankings(keyword.keyword, serpSettings, serpProvider);
+        await recordApiUsage(supabase, usage, { provider: serpProvider.name, operation: "serp_search", cost });
         console.log(`[refresh-rankings] Found ${redditPosts.length} Reddit posts for "${keyword.keyword}"`);
         
-        await saveRankingsToDatabase(
+        const changes = await saveRankingsToDatabase(
           supabase,
           keyword.id,
           keyword.keyword,
-          redditPosts
+          redditPosts,
+          serpSettings,
+          usage
         );
+        await checkAlertRules(supabase, keyword.id, keyword.keyword, changes);
+        await queueRankingEvents(supabase, keyword.project_id, keyword.id, keyword.keyword, changes);
+
+        // Schedules the next check one refresh interval out (set_keyword_next_check_at trigger)
+        await supabase
+          .from("keywords")
+          .update({ last_checked_at: new Date().toISOString(), check_failures: 0 })
+          .eq("id", keyword.id);
         
         const keywordDuration = Date.now() - keywordStartTime;
         console.log(`[refresh-rankings] Completed "${keyword.keyword}" in ${keywordDuration}ms`);
+
+        runTotals.succeeded++;
+        runTotals.posts += redditPosts.length;
+        runTotals.cost += cost || 0;
+        await recordRefreshRunItem(supabase, runId, {
+          keywordId: keyword.id,
+          keyword: keyword.keyword,
+          startedAt,
+          postsCount: redditPosts.length,
+          cost,
+        });
+        recordOutcome(keyword.project_id, {
+          keyword_id: keyword.id,
+          keyword: keyword.keyword,
+          success: true,
+          posts_count: redditPosts.length,
+          error: null,
+        });
         
         results.push({
           keyword: keyword.keyword,
@@ -393,18 +1148,56 @@ Deno.serve(async (req) => {
         });
       } catch (error) {
         console.error(`[refresh-rankings] Error processing keyword "${keyword.keyword}":`, error);
+        runTotals.failed++;
+        // Backs off the keyword so it doesn't take a batch slot on every run while it keeps failing
+        const { error: backoffError } = await supabase.rpc("record_keyword_check_failure", { p_keyword_id: keyword.id });
+        if (backoffError) {
+          console.error(`[refresh-rankings] Error backing off keyword "${keyword.keyword}":`, backoffError);
+        }
+        await recordRefreshRunItem(supabase, runId, {
+          keywordId: keyword.id,
+          keyword: keyword.keyword,
+          startedAt,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        recordOutcome(keyword.project_id, {
+          keyword_id: keyword.id,
+          keyword: keyword.keyword,
+          success: false,
+          posts_count: null,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
         results.push({
           keyword: keyword.keyword,
           success: false,
           error: error instanceof Error ? error.message : "Unknown error",
           errorStack: error instanceof Error ? error.stack : undefined,
+          backoffError: backoffError?.message ?? null,
         });
       }
       processedCount++;
     }
 
+    await finishRefreshRun(supabase, runId, runTotals);
+    for (const [projectId, outcomes] of projectOutcomes) {
+      await queueWebhookEvents(supabase, projectId, [{
+        event: "refresh_run.completed",
+        data: {
+          run_id: runId,
+          trigger: "cron",
+          source: "edge-function",
+          status: "completed",
+          error: null,
+          keywords_succeeded: outcomes.filter((outcome) => outcome.success).length,
+          keywords_failed: outcomes.filter((outcome) => !outcome.success).length,
+          keywords: outcomes,
+        },
+      }]);
+    }
+
     const successCount = results.filter((r) => r.success).length;
     const failureCount = results.filter((r) => !r.success).length;
+    const backoffFailureCount = results.filter((r) => r.backoffError).length;
     const totalDuration = Date.now() - startTime;
 
     console.log(`[refresh-rankings] Completed in ${totalDuration}ms. Success: ${successCount}, Failed: ${failureCount}`);
@@ -412,9 +1205,11 @@ Deno.serve(async (req) => {
     return new Response(
       JSON.stringify({
         message: "Cron job completed",
+        runId,
         checked: keywords.length,
         successful: successCount,
         failed: failureCount,
+        backoffFailed: backoffFailureCount,
         totalDurationMs: totalDuration,
         results,
       }),
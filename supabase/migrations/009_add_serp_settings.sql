@@ -0,0 +1,31 @@
+-- Add SERP market settings to projects (defaults match the previous hardcoded values)
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS serp_location_code INTEGER NOT NULL DEFAULT 2840,
+ADD COLUMN IF NOT EXISTS serp_language_code TEXT NOT NULL DEFAULT 'en',
+ADD COLUMN IF NOT EXISTS serp_device TEXT NOT NULL DEFAULT 'desktop' CHECK (serp_device IN ('desktop', 'mobile'));
+
+-- Optional per-keyword overrides (NULL = inherit from project)
+ALTER TABLE keywords
+ADD COLUMN IF NOT EXISTS serp_location_code INTEGER,
+ADD COLUMN IF NOT EXISTS serp_language_code TEXT,
+ADD COLUMN IF NOT EXISTS serp_device TEXT CHECK (serp_device IS NULL OR serp_device IN ('desktop', 'mobile'));
+
+-- Record which market each ranking was observed in
+ALTER TABLE reddit_posts
+ADD COLUMN IF NOT EXISTS location_code INTEGER,
+ADD COLUMN IF NOT EXISTS language_code TEXT,
+ADD COLUMN IF NOT EXISTS device TEXT;
+
+ALTER TABLE rankings_history
+ADD COLUMN IF NOT EXISTS location_code INTEGER,
+ADD COLUMN IF NOT EXISTS language_code TEXT,
+ADD COLUMN IF NOT EXISTS device TEXT;
+
+-- Existing rankings were all checked with the old hardcoded market
+UPDATE reddit_posts
+SET location_code = 2840, language_code = 'en', device = 'desktop'
+WHERE location_code IS NULL;
+
+UPDATE rankings_history
+SET location_code = 2840, language_code = 'en', device = 'desktop'
+WHERE location_code IS NULL;
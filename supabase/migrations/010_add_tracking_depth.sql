@@ -0,0 +1,12 @@
+-- Add configurable SERP tracking depth to projects (top 10/20/50/100)
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS tracking_depth INTEGER NOT NULL DEFAULT 10 CHECK (tracking_depth IN (10, 20, 50, 100));
+
+-- Allow rank positions beyond page one
+ALTER TABLE reddit_posts DROP CONSTRAINT IF EXISTS reddit_posts_rank_position_check;
+ALTER TABLE reddit_posts
+ADD CONSTRAINT reddit_posts_rank_position_check CHECK (rank_position >= 1 AND rank_position <= 100);
+
+ALTER TABLE rankings_history DROP CONSTRAINT IF EXISTS rankings_history_rank_position_check;
+ALTER TABLE rankings_history
+ADD CONSTRAINT rankings_history_rank_position_check CHECK (rank_position >= 1 AND rank_position <= 100);
@@ -0,0 +1,9 @@
+-- Keep threads that fall out of the SERP instead of deleting them
+ALTER TABLE reddit_posts
+ADD COLUMN IF NOT EXISTS dropped_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_reddit_posts_dropped_at ON reddit_posts(dropped_at);
+
+-- A NULL rank_position in history records a check where the thread was not ranking
+ALTER TABLE rankings_history
+ALTER COLUMN rank_position DROP NOT NULL;
@@ -0,0 +1,122 @@
+-- Use the Reddit post ID (reddit_thread_id) as the stable identity of a thread.
+-- URL variants (old./www., trailing slashes, query strings, missing slug, comment permalinks)
+-- previously created duplicate reddit_posts rows and orphaned drafts.
+
+-- Extract the base36 Reddit post ID from a Reddit thread URL (NULL if the URL is not a thread)
+CREATE OR REPLACE FUNCTION reddit_thread_id_from_url(url TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    substring(lower(url) from 'reddit\.com/(?:r/[^/]+/)?comments/([a-z0-9]+)'),
+    substring(lower(url) from 'redd\.it/([a-z0-9]+)')
+  );
+$$;
+
+-- Canonical thread URL, matching buildCanonicalRedditUrl in lib/reddit-url.ts
+CREATE OR REPLACE FUNCTION canonical_reddit_url(url TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN reddit_thread_id_from_url(url) IS NULL THEN url
+    WHEN substring(url from 'reddit\.com/r/([^/?#]+)/') IS NOT NULL THEN
+      'https://www.reddit.com/r/' || substring(url from 'reddit\.com/r/([^/?#]+)/') || '/comments/' || reddit_thread_id_from_url(url) || '/'
+    ELSE
+      'https://www.reddit.com/comments/' || reddit_thread_id_from_url(url) || '/'
+  END;
+$$;
+
+ALTER TABLE reddit_posts
+ADD COLUMN IF NOT EXISTS reddit_thread_id TEXT;
+
+ALTER TABLE reply_drafts
+ADD COLUMN IF NOT EXISTS reddit_thread_id TEXT;
+
+UPDATE reddit_posts
+SET reddit_thread_id = reddit_thread_id_from_url(post_url)
+WHERE reddit_thread_id IS NULL;
+
+UPDATE reply_drafts
+SET reddit_thread_id = reddit_thread_id_from_url(post_url)
+WHERE reddit_thread_id IS NULL;
+
+-- Rows that never pointed at a thread (e.g. subreddit pages) have no thread ID and can't be tracked
+DELETE FROM reddit_posts WHERE reddit_thread_id IS NULL;
+DELETE FROM reply_drafts WHERE reddit_thread_id IS NULL;
+
+-- Merge duplicate posts per keyword: keep the earliest seen row and move history onto it
+WITH ranked AS (
+  SELECT
+    id,
+    FIRST_VALUE(id) OVER (
+      PARTITION BY keyword_id, reddit_thread_id
+      ORDER BY first_seen_at ASC NULLS LAST, id
+    ) AS keep_id
+  FROM reddit_posts
+)
+UPDATE rankings_history h
+SET reddit_post_id = ranked.keep_id
+FROM ranked
+WHERE h.reddit_post_id = ranked.id
+  AND ranked.id <> ranked.keep_id;
+
+-- The kept row takes the most recent ranking and scrape of its duplicates
+WITH latest AS (
+  SELECT DISTINCT ON (keyword_id, reddit_thread_id)
+    keyword_id, reddit_thread_id, rank_position, post_title, last_checked_at,
+    apify_scraped_data, apify_scraped_at, dropped_at
+  FROM reddit_posts
+  ORDER BY keyword_id, reddit_thread_id, last_checked_at DESC NULLS LAST
+),
+earliest AS (
+  SELECT DISTINCT ON (keyword_id, reddit_thread_id)
+    id, keyword_id, reddit_thread_id, first_seen_at
+  FROM reddit_posts
+  ORDER BY keyword_id, reddit_thread_id, first_seen_at ASC NULLS LAST, id
+)
+UPDATE reddit_posts p
+SET
+  rank_position = latest.rank_position,
+  post_title = latest.post_title,
+  last_checked_at = latest.last_checked_at,
+  apify_scraped_data = COALESCE(latest.apify_scraped_data, p.apify_scraped_data),
+  apify_scraped_at = COALESCE(latest.apify_scraped_at, p.apify_scraped_at),
+  dropped_at = latest.dropped_at
+FROM earliest
+JOIN latest USING (keyword_id, reddit_thread_id)
+WHERE p.id = earliest.id;
+
+DELETE FROM reddit_posts p
+USING (
+  SELECT DISTINCT ON (keyword_id, reddit_thread_id) id, keyword_id, reddit_thread_id
+  FROM reddit_posts
+  ORDER BY keyword_id, reddit_thread_id, first_seen_at ASC NULLS LAST, id
+) keep
+WHERE p.keyword_id = keep.keyword_id
+  AND p.reddit_thread_id = keep.reddit_thread_id
+  AND p.id <> keep.id;
+
+-- Merge duplicate drafts per user: keep the most recently edited draft
+DELETE FROM reply_drafts d
+USING (
+  SELECT DISTINCT ON (user_id, reddit_thread_id) id, user_id, reddit_thread_id
+  FROM reply_drafts
+  ORDER BY user_id, reddit_thread_id, updated_at DESC NULLS LAST, id
+) keep
+WHERE d.user_id = keep.user_id
+  AND d.reddit_thread_id = keep.reddit_thread_id
+  AND d.id <> keep.id;
+
+-- Store canonical URLs from now on
+UPDATE reddit_posts SET post_url = canonical_reddit_url(post_url);
+UPDATE reply_drafts SET post_url = canonical_reddit_url(post_url);
+
+ALTER TABLE reddit_posts ALTER COLUMN reddit_thread_id SET NOT NULL;
+ALTER TABLE reply_drafts ALTER COLUMN reddit_thread_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reddit_posts_keyword_reddit_thread_id ON reddit_posts(keyword_id, reddit_thread_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reply_drafts_user_reddit_thread_id ON reply_drafts(user_id, reddit_thread_id);
+CREATE INDEX IF NOT EXISTS idx_reddit_posts_reddit_thread_id ON reddit_posts(reddit_thread_id);
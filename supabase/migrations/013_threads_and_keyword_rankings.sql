@@ -0,0 +1,106 @@
+-- Store each Reddit thread once, with per-keyword rankings in a join table.
+-- Previously reddit_posts held one copy of the thread (and its scrape) per keyword.
+
+-- Threads: content and scrape data, shared by every keyword the thread ranks for
+CREATE TABLE IF NOT EXISTS threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reddit_thread_id TEXT NOT NULL UNIQUE,
+  post_url TEXT NOT NULL,
+  post_title TEXT NOT NULL DEFAULT '',
+  subreddit TEXT NOT NULL,
+  scraped_data JSONB,
+  scraped_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_threads_subreddit ON threads(subreddit);
+
+CREATE TRIGGER update_threads_updated_at
+  BEFORE UPDATE ON threads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- One thread per reddit_thread_id, taking the most recently scraped copy
+INSERT INTO threads (reddit_thread_id, post_url, post_title, subreddit, scraped_data, scraped_at)
+SELECT DISTINCT ON (reddit_thread_id)
+  reddit_thread_id, post_url, post_title, subreddit, apify_scraped_data, apify_scraped_at
+FROM reddit_posts
+ORDER BY reddit_thread_id, apify_scraped_at DESC NULLS LAST, last_checked_at DESC NULLS LAST
+ON CONFLICT (reddit_thread_id) DO NOTHING;
+
+-- Drafts can exist for threads that are no longer tracked by any keyword
+INSERT INTO threads (reddit_thread_id, post_url, subreddit)
+SELECT DISTINCT ON (reddit_thread_id)
+  reddit_thread_id,
+  post_url,
+  COALESCE(substring(post_url from 'reddit\.com/r/([^/?#]+)/'), '')
+FROM reply_drafts
+ORDER BY reddit_thread_id, updated_at DESC NULLS LAST
+ON CONFLICT (reddit_thread_id) DO NOTHING;
+
+-- reddit_posts becomes the keyword <-> thread ranking table (ids, policies and history are kept)
+ALTER TABLE reddit_posts RENAME TO keyword_thread_rankings;
+
+ALTER TABLE keyword_thread_rankings
+ADD COLUMN IF NOT EXISTS thread_id UUID REFERENCES threads(id) ON DELETE CASCADE;
+
+UPDATE keyword_thread_rankings r
+SET thread_id = t.id
+FROM threads t
+WHERE t.reddit_thread_id = r.reddit_thread_id;
+
+ALTER TABLE keyword_thread_rankings ALTER COLUMN thread_id SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_reddit_posts_keyword_reddit_thread_id;
+DROP INDEX IF EXISTS idx_reddit_posts_reddit_thread_id;
+ALTER TABLE keyword_thread_rankings DROP CONSTRAINT IF EXISTS reddit_posts_keyword_id_post_url_key;
+
+ALTER TABLE keyword_thread_rankings
+DROP COLUMN IF EXISTS reddit_thread_id,
+DROP COLUMN IF EXISTS post_url,
+DROP COLUMN IF EXISTS post_title,
+DROP COLUMN IF EXISTS subreddit,
+DROP COLUMN IF EXISTS apify_scraped_data,
+DROP COLUMN IF EXISTS apify_scraped_at;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_keyword_thread_rankings_keyword_thread ON keyword_thread_rankings(keyword_id, thread_id);
+CREATE INDEX IF NOT EXISTS idx_keyword_thread_rankings_thread_id ON keyword_thread_rankings(thread_id);
+
+-- History rows belong to a keyword ranking
+ALTER TABLE rankings_history RENAME COLUMN reddit_post_id TO ranking_id;
+
+-- Drafts attach to the thread
+ALTER TABLE reply_drafts
+ADD COLUMN IF NOT EXISTS thread_id UUID REFERENCES threads(id) ON DELETE CASCADE;
+
+UPDATE reply_drafts d
+SET thread_id = t.id
+FROM threads t
+WHERE t.reddit_thread_id = d.reddit_thread_id;
+
+ALTER TABLE reply_drafts ALTER COLUMN thread_id SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_reply_drafts_user_reddit_thread_id;
+DROP INDEX IF EXISTS idx_reply_drafts_post_url;
+DROP INDEX IF EXISTS idx_reply_drafts_user_post;
+ALTER TABLE reply_drafts DROP CONSTRAINT IF EXISTS reply_drafts_user_id_post_url_key;
+
+ALTER TABLE reply_drafts
+DROP COLUMN IF EXISTS reddit_thread_id,
+DROP COLUMN IF EXISTS post_url;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reply_drafts_user_thread ON reply_drafts(user_id, thread_id);
+
+-- Threads are public Reddit content shared across projects, so any signed-in user can read and write them.
+-- Rankings and drafts that link to them keep their per-project / per-user policies.
+ALTER TABLE threads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view threads" ON threads
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can insert threads" ON threads
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update threads" ON threads
+  FOR UPDATE USING (auth.role() = 'authenticated') WITH CHECK (auth.role() = 'authenticated');
@@ -0,0 +1,78 @@
+-- Persisted queue of ranking checks, processed by a background worker instead of inside the HTTP request
+CREATE TABLE IF NOT EXISTS ranking_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  keyword_id UUID NOT NULL REFERENCES keywords(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- Retries are pushed back with a backoff
+  locked_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  posts_count INTEGER,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ranking_jobs_keyword_id ON ranking_jobs(keyword_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ranking_jobs_pending ON ranking_jobs(run_after) WHERE status = 'pending';
+
+-- At most one queued or running check per keyword
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ranking_jobs_active_keyword ON ranking_jobs(keyword_id) WHERE status IN ('pending', 'running');
+
+CREATE TRIGGER update_ranking_jobs_updated_at
+  BEFORE UPDATE ON ranking_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Claims up to batch_size due jobs for a worker. Jobs left running longer than
+-- stale_after (a worker that died mid-check) are claimed again.
+CREATE OR REPLACE FUNCTION claim_ranking_jobs(batch_size INTEGER, stale_after INTERVAL DEFAULT INTERVAL '10 minutes')
+RETURNS SETOF ranking_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE ranking_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_at = NOW(),
+      started_at = COALESCE(j.started_at, NOW()),
+      error = NULL
+  WHERE j.id IN (
+    SELECT id FROM ranking_jobs
+    WHERE (status = 'pending' AND run_after <= NOW())
+       OR (status = 'running' AND locked_at < NOW() - stale_after)
+    ORDER BY run_after, created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- The worker runs with the service role; users can queue and follow checks for their own keywords
+REVOKE EXECUTE ON FUNCTION claim_ranking_jobs(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE ranking_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view ranking jobs from own projects" ON ranking_jobs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM keywords
+      INNER JOIN projects ON projects.id = keywords.project_id
+      WHERE keywords.id = ranking_jobs.keyword_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can queue ranking jobs in own projects" ON ranking_jobs
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM keywords
+      INNER JOIN projects ON projects.id = keywords.project_id
+      WHERE keywords.id = ranking_jobs.keyword_id
+      AND projects.user_id = auth.uid()
+    )
+  );
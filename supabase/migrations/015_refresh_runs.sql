@@ -0,0 +1,81 @@
+-- Log of ranking refreshes: one run per cron / manual / bulk refresh, one item per keyword checked
+CREATE TABLE IF NOT EXISTS refresh_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'manual', 'bulk')),
+  source TEXT, -- What ran the refresh, e.g. 'api', 'edge-function', 'job-queue'
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- Set for manual refreshes
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  keywords_total INTEGER NOT NULL DEFAULT 0,
+  keywords_succeeded INTEGER NOT NULL DEFAULT 0,
+  keywords_failed INTEGER NOT NULL DEFAULT 0,
+  posts_count INTEGER NOT NULL DEFAULT 0,
+  api_cost NUMERIC(12, 6) NOT NULL DEFAULT 0, -- USD, as reported by the SERP provider
+  error TEXT, -- Set when the run itself failed (not a single keyword)
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS refresh_run_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES refresh_runs(id) ON DELETE CASCADE,
+  keyword_id UUID REFERENCES keywords(id) ON DELETE SET NULL,
+  keyword TEXT NOT NULL, -- Kept so the log stays readable after the keyword is deleted
+  success BOOLEAN NOT NULL,
+  posts_count INTEGER,
+  api_cost NUMERIC(12, 6),
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_runs_started_at ON refresh_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_refresh_run_items_run_id ON refresh_run_items(run_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_run_items_keyword_id ON refresh_run_items(keyword_id, finished_at DESC);
+
+-- Cron and bulk runs are written with the service role. Users see the items for their own
+-- keywords, the runs that contain them, and log their own manual refreshes.
+ALTER TABLE refresh_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refresh_run_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view runs with their keywords" ON refresh_runs
+  FOR SELECT USING (
+    refresh_runs.user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM refresh_run_items
+      INNER JOIN keywords ON keywords.id = refresh_run_items.keyword_id
+      INNER JOIN projects ON projects.id = keywords.project_id
+      WHERE refresh_run_items.run_id = refresh_runs.id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can log own manual runs" ON refresh_runs
+  FOR INSERT WITH CHECK (trigger = 'manual' AND user_id = auth.uid());
+
+CREATE POLICY "Users can update own manual runs" ON refresh_runs
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can view run items for own keywords" ON refresh_run_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM keywords
+      INNER JOIN projects ON projects.id = keywords.project_id
+      WHERE keywords.id = refresh_run_items.keyword_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can log items of own manual runs" ON refresh_run_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM refresh_runs
+      WHERE refresh_runs.id = refresh_run_items.run_id
+      AND refresh_runs.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM keywords
+      INNER JOIN projects ON projects.id = keywords.project_id
+      WHERE keywords.id = refresh_run_items.keyword_id
+      AND projects.user_id = auth.uid()
+    )
+  );
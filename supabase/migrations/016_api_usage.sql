@@ -0,0 +1,46 @@
+-- Ledger of paid third-party API calls: one row per SERP request, thread scrape or LLM completion
+CREATE TABLE IF NOT EXISTS api_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL, -- e.g. 'dataforseo', 'serpapi', 'apify', 'reddit-json', 'openai'
+  operation TEXT NOT NULL CHECK (operation IN ('serp_search', 'thread_scrape', 'reply_generation')),
+  -- Who the call is billed to. Rows outlive deleted keywords and projects so past months stay complete.
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  keyword_id UUID REFERENCES keywords(id) ON DELETE SET NULL,
+  model TEXT, -- LLM model that served the completion
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  cost NUMERIC(12, 6), -- USD; NULL when the provider doesn't report it and no price is configured
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_usage_user_id ON api_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_api_usage_project_id ON api_usage(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_api_usage_keyword_id ON api_usage(keyword_id, created_at DESC);
+
+ALTER TABLE api_usage ENABLE ROW LEVEL SECURITY;
+
+-- Calls are billed to the owner of the project they were made for, who can see them
+CREATE POLICY "Users can view own API usage" ON api_usage
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can log own API usage" ON api_usage
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+-- Monthly totals per user, project, keyword and provider. security_invoker applies the RLS above to readers of the view.
+CREATE OR REPLACE VIEW api_usage_monthly
+WITH (security_invoker = true) AS
+SELECT
+  date_trunc('month', created_at)::date AS month,
+  user_id,
+  project_id,
+  keyword_id,
+  provider,
+  operation,
+  COUNT(*)::integer AS calls,
+  COALESCE(SUM(input_tokens), 0)::integer AS input_tokens,
+  COALESCE(SUM(output_tokens), 0)::integer AS output_tokens,
+  COALESCE(SUM(cost), 0) AS cost,
+  COUNT(*) FILTER (WHERE cost IS NULL)::integer AS unpriced_calls
+FROM api_usage
+GROUP BY 1, 2, 3, 4, 5, 6;
@@ -0,0 +1,60 @@
+-- Per-keyword refresh frequency. The scheduler runs hourly and only checks keywords whose
+-- next_check_at has passed, most overdue first. Paused keywords have no next_check_at.
+ALTER TABLE keywords
+  ADD COLUMN IF NOT EXISTS refresh_interval TEXT NOT NULL DEFAULT 'daily'
+    CHECK (refresh_interval IN ('hourly', 'daily', 'weekly', 'paused')),
+  ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS next_check_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION keyword_refresh_period(refresh_interval TEXT)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE refresh_interval
+    WHEN 'hourly' THEN INTERVAL '1 hour'
+    WHEN 'daily' THEN INTERVAL '1 day'
+    WHEN 'weekly' THEN INTERVAL '7 days'
+  END;
+$$;
+
+-- Keeps next_check_at in step with the last check and the interval, so ranking checks only set last_checked_at.
+-- New keywords get their first check from the ranking job queue, so they are due one interval later.
+CREATE OR REPLACE FUNCTION set_keyword_next_check_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.refresh_interval = 'paused' THEN
+    NEW.next_check_at := NULL;
+  ELSIF TG_OP = 'INSERT'
+    OR NEW.last_checked_at IS DISTINCT FROM OLD.last_checked_at
+    OR NEW.refresh_interval IS DISTINCT FROM OLD.refresh_interval THEN
+    NEW.next_check_at := COALESCE(NEW.last_checked_at, NOW()) + keyword_refresh_period(NEW.refresh_interval);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_keywords_next_check_at
+  BEFORE INSERT OR UPDATE ON keywords
+  FOR EACH ROW
+  EXECUTE FUNCTION set_keyword_next_check_at();
+
+-- Existing keywords keep their daily schedule, counted from their last check
+UPDATE keywords
+SET last_checked_at = (
+  SELECT MAX(keyword_thread_rankings.last_checked_at)
+  FROM keyword_thread_rankings
+  WHERE keyword_thread_rankings.keyword_id = keywords.id
+);
+
+-- Keywords never checked are due right away
+UPDATE keywords SET next_check_at = NOW() WHERE last_checked_at IS NULL AND refresh_interval <> 'paused';
+
+CREATE INDEX IF NOT EXISTS idx_keywords_next_check_at ON keywords(next_check_at) WHERE next_check_at IS NOT NULL;
+
+-- Run the scheduler hourly instead of daily; it skips keywords that aren't due
+SELECT cron.schedule(
+  'refresh-reddit-rankings',
+  '0 * * * *', -- Hourly, on the hour
+  $$SELECT refresh_all_keyword_rankings();$$
+);
@@ -0,0 +1,108 @@
+-- Per-project alert rules, checked against the ranking changes of every keyword check
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- enters_top_n: a thread enters the top `threshold`
+  -- drops_out: a thread stops ranking, or falls out of the top `threshold` when set
+  -- moves_by: a thread moves by more than `threshold` positions
+  -- excluded_subreddit: a thread from one of the project's excluded subreddits starts ranking (in the top `threshold` when set)
+  type TEXT NOT NULL CHECK (type IN ('enters_top_n', 'drops_out', 'moves_by', 'excluded_subreddit')),
+  threshold INTEGER CHECK (threshold IS NULL OR threshold > 0),
+  channels TEXT[] NOT NULL DEFAULT ARRAY['in_app'] CHECK (channels <@ ARRAY['in_app', 'email', 'webhook']),
+  email_to TEXT,
+  webhook_url TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (type NOT IN ('enters_top_n', 'moves_by') OR threshold IS NOT NULL),
+  CHECK (NOT 'email' = ANY(channels) OR email_to IS NOT NULL),
+  CHECK (NOT 'webhook' = ANY(channels) OR webhook_url IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_project_id ON alert_rules(project_id);
+
+CREATE TRIGGER update_alert_rules_updated_at BEFORE UPDATE ON alert_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per rule match. In-app notifications are the rows themselves; email and webhook
+-- delivery is tracked per channel (NULL = channel not requested by the rule).
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  keyword_id UUID REFERENCES keywords(id) ON DELETE SET NULL,
+  thread_id UUID REFERENCES threads(id) ON DELETE SET NULL,
+  rule_id UUID REFERENCES alert_rules(id) ON DELETE SET NULL,
+  type TEXT NOT NULL, -- Type of the rule that matched
+  title TEXT NOT NULL,
+  body TEXT,
+  data JSONB NOT NULL DEFAULT '{}', -- Keyword, thread and positions, sent as the webhook payload
+  in_app BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Targets are copied from the rule so later rule edits don't redirect pending deliveries
+  email_to TEXT,
+  email_status TEXT CHECK (email_status IN ('pending', 'sent', 'failed')),
+  webhook_url TEXT,
+  webhook_status TEXT CHECK (webhook_status IN ('pending', 'sent', 'failed')),
+  delivery_attempts INTEGER NOT NULL DEFAULT 0,
+  delivery_error TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE in_app AND read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_pending ON notifications(created_at)
+  WHERE email_status = 'pending' OR webhook_status = 'pending';
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view alert rules of own projects" ON alert_rules
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = alert_rules.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create alert rules in own projects" ON alert_rules
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = alert_rules.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update alert rules of own projects" ON alert_rules
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = alert_rules.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete alert rules of own projects" ON alert_rules
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = alert_rules.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- Scheduled checks create notifications with the service role; manual checks create them for the signed-in owner
+CREATE POLICY "Users can view own notifications" ON notifications
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own notifications" ON notifications
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notifications" ON notifications
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own notifications" ON notifications
+  FOR DELETE USING (user_id = auth.uid());
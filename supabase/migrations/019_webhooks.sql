@@ -0,0 +1,109 @@
+-- Outbound webhooks: per-project endpoints receive HMAC-signed JSON events
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  secret TEXT NOT NULL, -- HMAC-SHA256 signing key, generated by the app
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['ranking.changed', 'thread.new', 'thread.dropped', 'draft.created', 'draft.updated', 'refresh_run.completed']
+  ),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_project_id ON webhook_endpoints(project_id);
+
+CREATE TRIGGER update_webhook_endpoints_updated_at BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Delivery log: one row per event and endpoint, retried with backoff while pending
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(), -- Also the payload `id` and X-Webhook-Delivery header
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event TEXT NOT NULL, -- One of the endpoint events, or 'webhook.test'
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- NULL once succeeded or given up
+  response_status INTEGER,
+  response_body TEXT, -- Truncated
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view webhook endpoints of own projects" ON webhook_endpoints
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = webhook_endpoints.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create webhook endpoints in own projects" ON webhook_endpoints
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = webhook_endpoints.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update webhook endpoints of own projects" ON webhook_endpoints
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = webhook_endpoints.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete webhook endpoints of own projects" ON webhook_endpoints
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = webhook_endpoints.project_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+-- Scheduled refreshes queue deliveries with the service role; manual checks and drafts queue them as the owner
+CREATE POLICY "Users can view deliveries of own webhook endpoints" ON webhook_deliveries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM webhook_endpoints
+      INNER JOIN projects ON projects.id = webhook_endpoints.project_id
+      WHERE webhook_endpoints.id = webhook_deliveries.endpoint_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can queue deliveries to own webhook endpoints" ON webhook_deliveries
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM webhook_endpoints
+      INNER JOIN projects ON projects.id = webhook_endpoints.project_id
+      WHERE webhook_endpoints.id = webhook_deliveries.endpoint_id
+      AND projects.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update deliveries of own webhook endpoints" ON webhook_deliveries
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM webhook_endpoints
+      INNER JOIN projects ON projects.id = webhook_endpoints.project_id
+      WHERE webhook_endpoints.id = webhook_deliveries.endpoint_id
+      AND projects.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,122 @@
+-- Personal API keys: Bearer tokens for scripts, acting as their owner
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL, -- First characters of the key, shown to tell keys apart
+  key_hash TEXT NOT NULL UNIQUE, -- SHA-256 hex of the full key; the key itself is only shown once
+  scope TEXT NOT NULL DEFAULT 'read' CHECK (scope IN ('read', 'write')),
+  project_ids UUID[], -- NULL = all of the owner's projects
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id, created_at DESC);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys are looked up by hash with the service role; users only manage their own
+CREATE POLICY "Users can view own API keys" ON api_keys
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own API keys" ON api_keys
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own API keys" ON api_keys
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own API keys" ON api_keys
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Requests made with a project-scoped key carry an `api_key_project_ids` claim (see lib/api-keys.ts).
+-- Sessions and keys for all projects don't, and are only limited by the policies above.
+CREATE OR REPLACE FUNCTION api_key_allows_project(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT (auth.jwt() ? 'api_key_project_ids')
+    OR COALESCE((auth.jwt() -> 'api_key_project_ids') ? p_project_id::text, FALSE)
+$$ LANGUAGE sql STABLE;
+
+-- Restrictive policies are ANDed with the owner policies, so a scoped key sees and changes only its projects
+CREATE POLICY "API keys are limited to their projects" ON projects
+  AS RESTRICTIVE FOR ALL USING (api_key_allows_project(id)) WITH CHECK (api_key_allows_project(id));
+
+CREATE POLICY "API keys are limited to their projects" ON keywords
+  AS RESTRICTIVE FOR ALL USING (api_key_allows_project(project_id)) WITH CHECK (api_key_allows_project(project_id));
+
+CREATE POLICY "API keys are limited to their projects" ON keyword_thread_rankings
+  AS RESTRICTIVE FOR ALL USING (
+    NOT (auth.jwt() ? 'api_key_project_ids')
+    OR EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = keyword_thread_rankings.keyword_id
+      AND api_key_allows_project(keywords.project_id)
+    )
+  );
+
+CREATE POLICY "API keys are limited to their projects" ON rankings_history
+  AS RESTRICTIVE FOR ALL USING (
+    NOT (auth.jwt() ? 'api_key_project_ids')
+    OR EXISTS (
+      SELECT 1 FROM keyword_thread_rankings
+      INNER JOIN keywords ON keywords.id = keyword_thread_rankings.keyword_id
+      WHERE keyword_thread_rankings.id = rankings_history.ranking_id
+      AND api_key_allows_project(keywords.project_id)
+    )
+  );
+
+CREATE POLICY "API keys are limited to their projects" ON ranking_jobs
+  AS RESTRICTIVE FOR ALL USING (
+    NOT (auth.jwt() ? 'api_key_project_ids')
+    OR EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = ranking_jobs.keyword_id
+      AND api_key_allows_project(keywords.project_id)
+    )
+  );
+
+CREATE POLICY "API keys are limited to their projects" ON refresh_run_items
+  AS RESTRICTIVE FOR ALL USING (
+    NOT (auth.jwt() ? 'api_key_project_ids')
+    OR EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = refresh_run_items.keyword_id
+      AND api_key_allows_project(keywords.project_id)
+    )
+  );
+
+-- Drafts belong to threads, which can rank in several projects: any of the key's projects will do
+CREATE POLICY "API keys are limited to their projects" ON reply_drafts
+  AS RESTRICTIVE FOR ALL USING (
+    NOT (auth.jwt() ? 'api_key_project_ids')
+    OR EXISTS (
+      SELECT 1 FROM keyword_thread_rankings
+      INNER JOIN keywords ON keywords.id = keyword_thread_rankings.keyword_id
+      WHERE keyword_thread_rankings.thread_id = reply_drafts.thread_id
+      AND api_key_allows_project(keywords.project_id)
+    )
+  );
+
+-- Reply generation isn't tied to a project, so its usage rows stay loggable
+CREATE POLICY "API keys are limited to their projects" ON api_usage
+  AS RESTRICTIVE FOR ALL USING (project_id IS NULL OR api_key_allows_project(project_id))
+  WITH CHECK (project_id IS NULL OR api_key_allows_project(project_id));
+
+CREATE POLICY "API keys are limited to their projects" ON alert_rules
+  AS RESTRICTIVE FOR ALL USING (api_key_allows_project(project_id)) WITH CHECK (api_key_allows_project(project_id));
+
+CREATE POLICY "API keys are limited to their projects" ON notifications
+  AS RESTRICTIVE FOR ALL USING (project_id IS NULL OR api_key_allows_project(project_id));
+
+CREATE POLICY "API keys are limited to their projects" ON webhook_endpoints
+  AS RESTRICTIVE FOR ALL USING (api_key_allows_project(project_id)) WITH CHECK (api_key_allows_project(project_id));
+
+CREATE POLICY "API keys are limited to their projects" ON webhook_deliveries
+  AS RESTRICTIVE FOR ALL USING (
+    NOT (auth.jwt() ? 'api_key_project_ids')
+    OR EXISTS (
+      SELECT 1 FROM webhook_endpoints
+      WHERE webhook_endpoints.id = webhook_deliveries.endpoint_id
+      AND api_key_allows_project(webhook_endpoints.project_id)
+    )
+  );
@@ -0,0 +1,510 @@
+-- Organizations own projects and business descriptions; their members share them with a role
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_organizations_updated_at BEFORE UPDATE ON organizations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_projects_organization_id ON projects(organization_id);
+
+ALTER TABLE business_descriptions
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+-- owner: everything, including members, invitations and the organization itself
+-- editor: manages projects, keywords, alert rules and webhooks, runs checks and writes drafts
+-- reviewer: sees everything and writes drafts
+-- client: read-only
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT, -- Copied from auth.users, which members can't read
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'reviewer', 'client')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+
+-- Invitations are accepted by the signed-in user with the invited email (see accept_organization_invitation)
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'reviewer', 'client')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '14 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invitations_pending ON organization_invitations(organization_id, email)
+  WHERE accepted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_email ON organization_invitations(email) WHERE accepted_at IS NULL;
+
+-- The signed-in user's role in an organization or in a project's organization (NULL = not a member).
+-- SECURITY DEFINER so policies can call them without recursing into the organization_members policies.
+CREATE OR REPLACE FUNCTION organization_role(p_organization_id UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM organization_members
+  WHERE organization_id = p_organization_id
+  AND user_id = auth.uid()
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION project_role(p_project_id UUID)
+RETURNS TEXT AS $$
+  SELECT organization_members.role FROM projects
+  INNER JOIN organization_members ON organization_members.organization_id = projects.organization_id
+  WHERE projects.id = p_project_id
+  AND organization_members.user_id = auth.uid()
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The creator of an organization becomes its owner
+CREATE OR REPLACE FUNCTION add_organization_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO organization_members (organization_id, user_id, email, role)
+    SELECT NEW.id, users.id, users.email, 'owner' FROM auth.users WHERE users.id = NEW.created_by
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER add_organization_owner AFTER INSERT ON organizations
+  FOR EACH ROW EXECUTE FUNCTION add_organization_owner();
+
+-- Every user starts with a personal organization, named after their email until renamed
+CREATE OR REPLACE FUNCTION create_personal_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO organizations (name, created_by) VALUES (COALESCE(NEW.email, 'My organization'), NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_personal_organization AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION create_personal_organization();
+
+CREATE OR REPLACE FUNCTION accept_organization_invitation(p_invitation_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_invitation organization_invitations%ROWTYPE;
+  v_email TEXT := lower(auth.jwt() ->> 'email');
+BEGIN
+  SELECT * INTO v_invitation FROM organization_invitations
+  WHERE id = p_invitation_id
+  AND email = v_email
+  AND accepted_at IS NULL
+  AND expires_at > NOW()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found or expired' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Existing members keep their role
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (v_invitation.organization_id, auth.uid(), v_email, v_invitation.role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  UPDATE organization_invitations SET accepted_at = NOW() WHERE id = p_invitation_id;
+
+  RETURN v_invitation.organization_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION accept_organization_invitation(UUID) FROM PUBLIC, anon;
+
+-- Existing users get their personal organization, which takes over their projects and business description
+INSERT INTO organizations (name, created_by)
+SELECT COALESCE(users.email, 'My organization'), users.id FROM auth.users;
+
+-- user_id is now the member who created the project; alerts and API usage are still attributed to them
+UPDATE projects
+SET organization_id = organizations.id
+FROM organizations
+WHERE organizations.created_by = projects.user_id
+AND projects.organization_id IS NULL;
+
+-- Project names are unique per organization (projects from before sign-in have no user and stay unassigned)
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_organization_name ON projects(organization_id, name);
+
+UPDATE business_descriptions
+SET organization_id = organizations.id
+FROM organizations
+WHERE organizations.created_by = business_descriptions.user_id;
+
+-- One description per organization; user_id is the member who last saved it
+ALTER TABLE business_descriptions ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE business_descriptions DROP CONSTRAINT IF EXISTS business_descriptions_user_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_business_descriptions_organization ON business_descriptions(organization_id);
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Invitees can see the name of the organization they are invited to. The creator check lets
+-- the insert return the row before the trigger has added the creator as owner.
+CREATE POLICY "Members and invitees can view organizations" ON organizations
+  FOR SELECT USING (
+    organization_role(id) IS NOT NULL
+    OR created_by = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM organization_invitations
+      WHERE organization_invitations.organization_id = organizations.id
+      AND organization_invitations.email = lower(auth.jwt() ->> 'email')
+      AND organization_invitations.accepted_at IS NULL
+    )
+  );
+
+CREATE POLICY "Users can create organizations" ON organizations
+  FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners can update organizations" ON organizations
+  FOR UPDATE USING (organization_role(id) = 'owner') WITH CHECK (organization_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete organizations" ON organizations
+  FOR DELETE USING (organization_role(id) = 'owner');
+
+-- Members join through invitations; owners change roles and remove members, anyone can leave
+CREATE POLICY "Members can view members" ON organization_members
+  FOR SELECT USING (organization_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Owners can update members" ON organization_members
+  FOR UPDATE USING (organization_role(organization_id) = 'owner') WITH CHECK (organization_role(organization_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave" ON organization_members
+  FOR DELETE USING (organization_role(organization_id) = 'owner' OR user_id = auth.uid());
+
+CREATE POLICY "Owners and invitees can view invitations" ON organization_invitations
+  FOR SELECT USING (
+    organization_role(organization_id) = 'owner'
+    OR email = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "Owners can invite" ON organization_invitations
+  FOR INSERT WITH CHECK (organization_role(organization_id) = 'owner' AND invited_by = auth.uid());
+
+CREATE POLICY "Owners can cancel and invitees can decline invitations" ON organization_invitations
+  FOR DELETE USING (
+    organization_role(organization_id) = 'owner'
+    OR email = lower(auth.jwt() ->> 'email')
+  );
+
+-- Projects: every member sees them, owners and editors manage them
+DROP POLICY IF EXISTS "Users can view own projects" ON projects;
+DROP POLICY IF EXISTS "Users can insert own projects" ON projects;
+DROP POLICY IF EXISTS "Users can update own projects" ON projects;
+DROP POLICY IF EXISTS "Users can delete own projects" ON projects;
+
+CREATE POLICY "Members can view projects" ON projects
+  FOR SELECT USING (organization_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create projects" ON projects
+  FOR INSERT WITH CHECK (user_id = auth.uid() AND organization_role(organization_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update projects" ON projects
+  FOR UPDATE USING (organization_role(organization_id) IN ('owner', 'editor'))
+  WITH CHECK (organization_role(organization_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete projects" ON projects
+  FOR DELETE USING (organization_role(organization_id) IN ('owner', 'editor'));
+
+-- Keywords and everything below them follow the role in the project's organization
+DROP POLICY IF EXISTS "Users can view keywords from own projects" ON keywords;
+DROP POLICY IF EXISTS "Users can insert keywords to own projects" ON keywords;
+DROP POLICY IF EXISTS "Users can update keywords in own projects" ON keywords;
+DROP POLICY IF EXISTS "Users can delete keywords from own projects" ON keywords;
+
+CREATE POLICY "Members can view keywords" ON keywords
+  FOR SELECT USING (project_role(project_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create keywords" ON keywords
+  FOR INSERT WITH CHECK (project_role(project_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update keywords" ON keywords
+  FOR UPDATE USING (project_role(project_id) IN ('owner', 'editor'))
+  WITH CHECK (project_role(project_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete keywords" ON keywords
+  FOR DELETE USING (project_role(project_id) IN ('owner', 'editor'));
+
+DROP POLICY IF EXISTS "Users can view posts from own projects" ON keyword_thread_rankings;
+DROP POLICY IF EXISTS "Users can insert posts to own projects" ON keyword_thread_rankings;
+DROP POLICY IF EXISTS "Users can update posts in own projects" ON keyword_thread_rankings;
+DROP POLICY IF EXISTS "Users can delete posts from own projects" ON keyword_thread_rankings;
+
+CREATE POLICY "Members can view rankings" ON keyword_thread_rankings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = keyword_thread_rankings.keyword_id
+      AND project_role(keywords.project_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Editors can record rankings" ON keyword_thread_rankings
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = keyword_thread_rankings.keyword_id
+      AND project_role(keywords.project_id) IN ('owner', 'editor')
+    )
+  );
+
+CREATE POLICY "Editors can update rankings" ON keyword_thread_rankings
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = keyword_thread_rankings.keyword_id
+      AND project_role(keywords.project_id) IN ('owner', 'editor')
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = keyword_thread_rankings.keyword_id
+      AND project_role(keywords.project_id) IN ('owner', 'editor')
+    )
+  );
+
+CREATE POLICY "Editors can delete rankings" ON keyword_thread_rankings
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = keyword_thread_rankings.keyword_id
+      AND project_role(keywords.project_id) IN ('owner', 'editor')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view rankings history from own projects" ON rankings_history;
+DROP POLICY IF EXISTS "Users can insert rankings history to own projects" ON rankings_history;
+
+CREATE POLICY "Members can view rankings history" ON rankings_history
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM keyword_thread_rankings
+      INNER JOIN keywords ON keywords.id = keyword_thread_rankings.keyword_id
+      WHERE keyword_thread_rankings.id = rankings_history.ranking_id
+      AND project_role(keywords.project_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Editors can record rankings history" ON rankings_history
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM keyword_thread_rankings
+      INNER JOIN keywords ON keywords.id = keyword_thread_rankings.keyword_id
+      WHERE keyword_thread_rankings.id = rankings_history.ranking_id
+      AND project_role(keywords.project_id) IN ('owner', 'editor')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view ranking jobs from own projects" ON ranking_jobs;
+DROP POLICY IF EXISTS "Users can queue ranking jobs in own projects" ON ranking_jobs;
+
+CREATE POLICY "Members can view ranking jobs" ON ranking_jobs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = ranking_jobs.keyword_id
+      AND project_role(keywords.project_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Editors can queue ranking jobs" ON ranking_jobs
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = ranking_jobs.keyword_id
+      AND project_role(keywords.project_id) IN ('owner', 'editor')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view runs with their keywords" ON refresh_runs;
+DROP POLICY IF EXISTS "Users can view run items for own keywords" ON refresh_run_items;
+DROP POLICY IF EXISTS "Users can log items of own manual runs" ON refresh_run_items;
+
+CREATE POLICY "Members can view runs with their keywords" ON refresh_runs
+  FOR SELECT USING (
+    refresh_runs.user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM refresh_run_items
+      INNER JOIN keywords ON keywords.id = refresh_run_items.keyword_id
+      WHERE refresh_run_items.run_id = refresh_runs.id
+      AND project_role(keywords.project_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Members can view run items" ON refresh_run_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = refresh_run_items.keyword_id
+      AND project_role(keywords.project_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Editors can log items of own manual runs" ON refresh_run_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM refresh_runs
+      WHERE refresh_runs.id = refresh_run_items.run_id
+      AND refresh_runs.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM keywords
+      WHERE keywords.id = refresh_run_items.keyword_id
+      AND project_role(keywords.project_id) IN ('owner', 'editor')
+    )
+  );
+
+-- Spend is still billed to the project's creator; owners also see all of their organization's.
+-- Editors checking someone else's project log its usage and alerts for that creator.
+DROP POLICY IF EXISTS "Users can view own API usage" ON api_usage;
+DROP POLICY IF EXISTS "Users can log own API usage" ON api_usage;
+
+CREATE POLICY "Users and owners can view API usage" ON api_usage
+  FOR SELECT USING (user_id = auth.uid() OR project_role(project_id) = 'owner');
+
+CREATE POLICY "Users and editors can log API usage" ON api_usage
+  FOR INSERT WITH CHECK (user_id = auth.uid() OR project_role(project_id) IN ('owner', 'editor'));
+
+DROP POLICY IF EXISTS "Users can create own notifications" ON notifications;
+
+CREATE POLICY "Users and editors can create notifications" ON notifications
+  FOR INSERT WITH CHECK (user_id = auth.uid() OR project_role(project_id) IN ('owner', 'editor'));
+
+DROP POLICY IF EXISTS "Users can view alert rules of own projects" ON alert_rules;
+DROP POLICY IF EXISTS "Users can create alert rules in own projects" ON alert_rules;
+DROP POLICY IF EXISTS "Users can update alert rules of own projects" ON alert_rules;
+DROP POLICY IF EXISTS "Users can delete alert rules of own projects" ON alert_rules;
+
+CREATE POLICY "Members can view alert rules" ON alert_rules
+  FOR SELECT USING (project_role(project_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create alert rules" ON alert_rules
+  FOR INSERT WITH CHECK (project_role(project_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update alert rules" ON alert_rules
+  FOR UPDATE USING (project_role(project_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete alert rules" ON alert_rules
+  FOR DELETE USING (project_role(project_id) IN ('owner', 'editor'));
+
+-- Endpoints hold signing secrets, so only owners and editors see them
+DROP POLICY IF EXISTS "Users can view webhook endpoints of own projects" ON webhook_endpoints;
+DROP POLICY IF EXISTS "Users can create webhook endpoints in own projects" ON webhook_endpoints;
+DROP POLICY IF EXISTS "Users can update webhook endpoints of own projects" ON webhook_endpoints;
+DROP POLICY IF EXISTS "Users can delete webhook endpoints of own projects" ON webhook_endpoints;
+
+CREATE POLICY "Editors can view webhook endpoints" ON webhook_endpoints
+  FOR SELECT USING (project_role(project_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can create webhook endpoints" ON webhook_endpoints
+  FOR INSERT WITH CHECK (project_role(project_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update webhook endpoints" ON webhook_endpoints
+  FOR UPDATE USING (project_role(project_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete webhook endpoints" ON webhook_endpoints
+  FOR DELETE USING (project_role(project_id) IN ('owner', 'editor'));
+
+DROP POLICY IF EXISTS "Users can view deliveries of own webhook endpoints" ON webhook_deliveries;
+DROP POLICY IF EXISTS "Users can queue deliveries to own webhook endpoints" ON webhook_deliveries;
+DROP POLICY IF EXISTS "Users can update deliveries of own webhook endpoints" ON webhook_deliveries;
+
+CREATE POLICY "Editors can view webhook deliveries" ON webhook_deliveries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM webhook_endpoints
+      WHERE webhook_endpoints.id = webhook_deliveries.endpoint_id
+      AND project_role(webhook_endpoints.project_id) IN ('owner', 'editor')
+    )
+  );
+
+CREATE POLICY "Editors can queue webhook deliveries" ON webhook_deliveries
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM webhook_endpoints
+      WHERE webhook_endpoints.id = webhook_deliveries.endpoint_id
+      AND project_role(webhook_endpoints.project_id) IN ('owner', 'editor')
+    )
+  );
+
+CREATE POLICY "Editors can update webhook deliveries" ON webhook_deliveries
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM webhook_endpoints
+      WHERE webhook_endpoints.id = webhook_deliveries.endpoint_id
+      AND project_role(webhook_endpoints.project_id) IN ('owner', 'editor')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own business description" ON business_descriptions;
+DROP POLICY IF EXISTS "Users can insert own business description" ON business_descriptions;
+DROP POLICY IF EXISTS "Users can update own business description" ON business_descriptions;
+DROP POLICY IF EXISTS "Users can delete own business description" ON business_descriptions;
+
+CREATE POLICY "Members can view the business description" ON business_descriptions
+  FOR SELECT USING (organization_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create the business description" ON business_descriptions
+  FOR INSERT WITH CHECK (user_id = auth.uid() AND organization_role(organization_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update the business description" ON business_descriptions
+  FOR UPDATE USING (organization_role(organization_id) IN ('owner', 'editor'))
+  WITH CHECK (user_id = auth.uid() AND organization_role(organization_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete the business description" ON business_descriptions
+  FOR DELETE USING (organization_role(organization_id) IN ('owner', 'editor'));
+
+-- Drafts stay one per user and thread. Members see each other's drafts for threads ranking in
+-- their organization's projects; clients (read-only everywhere) can't write drafts.
+DROP POLICY IF EXISTS "Users can view own reply drafts" ON reply_drafts;
+DROP POLICY IF EXISTS "Users can insert own reply drafts" ON reply_drafts;
+DROP POLICY IF EXISTS "Users can update own reply drafts" ON reply_drafts;
+
+CREATE POLICY "Members can view reply drafts of their organizations" ON reply_drafts
+  FOR SELECT USING (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM keyword_thread_rankings
+      INNER JOIN keywords ON keywords.id = keyword_thread_rankings.keyword_id
+      INNER JOIN projects ON projects.id = keywords.project_id
+      INNER JOIN organization_members ON organization_members.organization_id = projects.organization_id
+      WHERE keyword_thread_rankings.thread_id = reply_drafts.thread_id
+      AND organization_members.user_id = reply_drafts.user_id
+      AND organization_role(projects.organization_id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Members can write own reply drafts" ON reply_drafts
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.user_id = auth.uid()
+      AND organization_members.role <> 'client'
+    )
+  );
+
+CREATE POLICY "Members can update own reply drafts" ON reply_drafts
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.user_id = auth.uid()
+      AND organization_members.role <> 'client'
+    )
+  );
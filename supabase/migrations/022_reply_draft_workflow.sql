@@ -0,0 +1,76 @@
+-- Reply drafts go through review before they're posted:
+-- generated -> in_review -> approved / rejected -> scheduled -> posted
+ALTER TABLE reply_drafts
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'generated'
+  CHECK (status IN ('generated', 'in_review', 'approved', 'rejected', 'scheduled', 'posted')),
+ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- Who writes or revises the reply
+ADD COLUMN IF NOT EXISTS reviewer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- Who approves or rejects it
+ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMP WITH TIME ZONE, -- Set while scheduled
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_reply_drafts_status ON reply_drafts(status, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reply_drafts_assignee_id ON reply_drafts(assignee_id) WHERE assignee_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_reply_drafts_reviewer_id ON reply_drafts(reviewer_id) WHERE reviewer_id IS NOT NULL;
+
+-- Whether the signed-in user can edit and review a member's draft: they share an organization
+-- tracking the thread, and the user is more than a client there
+CREATE OR REPLACE FUNCTION can_review_reply_draft(p_thread_id UUID, p_author_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM keyword_thread_rankings
+    INNER JOIN keywords ON keywords.id = keyword_thread_rankings.keyword_id
+    INNER JOIN projects ON projects.id = keywords.project_id
+    INNER JOIN organization_members AS author ON author.organization_id = projects.organization_id
+    INNER JOIN organization_members AS reviewer ON reviewer.organization_id = projects.organization_id
+    WHERE keyword_thread_rankings.thread_id = p_thread_id
+    AND author.user_id = p_author_id
+    AND reviewer.user_id = auth.uid()
+    AND reviewer.role <> 'client'
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Authors keep "Members can update own reply drafts"; reviewers and assignees also need to move
+-- a colleague's draft along and fix its wording
+CREATE POLICY "Reviewers can update reply drafts of their organizations" ON reply_drafts
+  FOR UPDATE USING (can_review_reply_draft(thread_id, user_id))
+  WITH CHECK (can_review_reply_draft(thread_id, user_id));
+
+-- Review discussion on a draft
+CREATE TABLE IF NOT EXISTS reply_draft_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  draft_id UUID NOT NULL REFERENCES reply_drafts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  author_email TEXT, -- Shown next to the comment
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reply_draft_comments_draft_id ON reply_draft_comments(draft_id, created_at);
+
+ALTER TABLE reply_draft_comments ENABLE ROW LEVEL SECURITY;
+
+-- The draft's policies (including API key limits) decide who sees its comments
+CREATE POLICY "Users can view comments of visible drafts" ON reply_draft_comments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM reply_drafts WHERE reply_drafts.id = reply_draft_comments.draft_id)
+  );
+
+CREATE POLICY "Authors and reviewers can comment on drafts" ON reply_draft_comments
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM reply_drafts
+      WHERE reply_drafts.id = reply_draft_comments.draft_id
+      AND (reply_drafts.user_id = auth.uid() OR can_review_reply_draft(reply_drafts.thread_id, reply_drafts.user_id))
+    )
+  );
+
+CREATE POLICY "Users can delete own comments" ON reply_draft_comments
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Webhook endpoints can subscribe to status changes
+ALTER TABLE webhook_endpoints DROP CONSTRAINT IF EXISTS webhook_endpoints_events_check;
+ALTER TABLE webhook_endpoints ADD CONSTRAINT webhook_endpoints_events_check CHECK (
+  cardinality(events) > 0
+  AND events <@ ARRAY['ranking.changed', 'thread.new', 'thread.dropped', 'draft.created', 'draft.updated', 'draft.status_changed', 'refresh_run.completed']
+);
@@ -0,0 +1,62 @@
+-- The live Reddit comment a draft was posted as, with its latest score, reply count and status.
+-- A worker re-scrapes live comments on a schedule (see lib/posted-comments.ts).
+CREATE TABLE IF NOT EXISTS posted_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  draft_id UUID NOT NULL UNIQUE REFERENCES reply_drafts(id) ON DELETE CASCADE,
+  thread_id UUID NOT NULL REFERENCES threads(id) ON DELETE CASCADE,
+  posted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- Who attached the permalink
+  reddit_comment_id TEXT NOT NULL, -- Base36 comment ID (the "t1_" fullname without prefix)
+  permalink TEXT NOT NULL,
+  posted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  status TEXT NOT NULL DEFAULT 'live' CHECK (status IN ('live', 'removed', 'deleted')),
+  score INTEGER, -- Null until the first check
+  reply_count INTEGER,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  next_check_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- Null once the comment is no longer checked
+  check_error TEXT, -- Error of the last check, if it failed
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_posted_comments_thread_id ON posted_comments(thread_id);
+CREATE INDEX IF NOT EXISTS idx_posted_comments_next_check_at ON posted_comments(next_check_at)
+  WHERE status = 'live' AND next_check_at IS NOT NULL;
+
+CREATE TRIGGER update_posted_comments_updated_at BEFORE UPDATE ON posted_comments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE posted_comments ENABLE ROW LEVEL SECURITY;
+
+-- Like draft comments, the draft's policies decide who sees a posted comment
+CREATE POLICY "Users can view posted comments of visible drafts" ON posted_comments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM reply_drafts WHERE reply_drafts.id = posted_comments.draft_id)
+  );
+
+-- Whoever can edit the draft can attach or replace its permalink. Checks run with the service role.
+CREATE POLICY "Authors and reviewers can record posted comments" ON posted_comments
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM reply_drafts
+      WHERE reply_drafts.id = posted_comments.draft_id
+      AND reply_drafts.thread_id = posted_comments.thread_id
+      AND (reply_drafts.user_id = auth.uid() OR can_review_reply_draft(reply_drafts.thread_id, reply_drafts.user_id))
+    )
+  );
+
+CREATE POLICY "Authors and reviewers can update posted comments" ON posted_comments
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM reply_drafts
+      WHERE reply_drafts.id = posted_comments.draft_id
+      AND (reply_drafts.user_id = auth.uid() OR can_review_reply_draft(reply_drafts.thread_id, reply_drafts.user_id))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM reply_drafts
+      WHERE reply_drafts.id = posted_comments.draft_id
+      AND reply_drafts.thread_id = posted_comments.thread_id
+      AND (reply_drafts.user_id = auth.uid() OR can_review_reply_draft(reply_drafts.thread_id, reply_drafts.user_id))
+    )
+  );
@@ -0,0 +1,98 @@
+-- Reddit accounts an organization posts replies from, with limits on how often each one posts
+CREATE TABLE IF NOT EXISTS reddit_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  username TEXT NOT NULL CHECK (username ~ '^[A-Za-z0-9_-]{3,20}$'), -- Without the u/ prefix
+  notes TEXT,
+  max_comments_per_day INTEGER NOT NULL DEFAULT 3 CHECK (max_comments_per_day > 0), -- Promotional replies in any 24 hours
+  min_subreddit_gap_hours INTEGER NOT NULL DEFAULT 24 CHECK (min_subreddit_gap_hours >= 0), -- Between two replies in one subreddit
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reddit_accounts_username ON reddit_accounts(organization_id, lower(username));
+
+CREATE TRIGGER update_reddit_accounts_updated_at BEFORE UPDATE ON reddit_accounts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Karma of an account over time, recorded by hand from its profile
+CREATE TABLE IF NOT EXISTS reddit_account_karma (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES reddit_accounts(id) ON DELETE CASCADE,
+  link_karma INTEGER NOT NULL,
+  comment_karma INTEGER NOT NULL,
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reddit_account_karma_account_id ON reddit_account_karma(account_id, recorded_at DESC);
+
+-- The account a draft is (or was) posted from
+ALTER TABLE reply_drafts
+ADD COLUMN IF NOT EXISTS reddit_account_id UUID REFERENCES reddit_accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reply_drafts_reddit_account_id ON reply_drafts(reddit_account_id) WHERE reddit_account_id IS NOT NULL;
+
+ALTER TABLE reddit_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reddit_account_karma ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view reddit accounts" ON reddit_accounts
+  FOR SELECT USING (organization_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create reddit accounts" ON reddit_accounts
+  FOR INSERT WITH CHECK (organization_role(organization_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update reddit accounts" ON reddit_accounts
+  FOR UPDATE USING (organization_role(organization_id) IN ('owner', 'editor'))
+  WITH CHECK (organization_role(organization_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete reddit accounts" ON reddit_accounts
+  FOR DELETE USING (organization_role(organization_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Members can view karma of visible accounts" ON reddit_account_karma
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM reddit_accounts WHERE reddit_accounts.id = reddit_account_karma.account_id)
+  );
+
+-- Anyone but clients can record karma, since reviewers post too
+CREATE POLICY "Members can record karma" ON reddit_account_karma
+  FOR INSERT WITH CHECK (
+    recorded_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM reddit_accounts
+      WHERE reddit_accounts.id = reddit_account_karma.account_id
+      AND organization_role(reddit_accounts.organization_id) <> 'client'
+    )
+  );
+
+CREATE POLICY "Editors can delete karma snapshots" ON reddit_account_karma
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM reddit_accounts
+      WHERE reddit_accounts.id = reddit_account_karma.account_id
+      AND organization_role(reddit_accounts.organization_id) IN ('owner', 'editor')
+    )
+  );
+
+-- Drafts assigned to an account, except rejected ones, for its subreddit history and cadence checks.
+-- `activity_at` is when the reply went or goes live (or the last status change before that).
+-- SECURITY DEFINER so members see the account's whole history, including drafts they can't read.
+CREATE OR REPLACE FUNCTION reddit_account_activity(p_account_id UUID)
+RETURNS TABLE (draft_id UUID, thread_id UUID, subreddit TEXT, status TEXT, activity_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT
+    reply_drafts.id,
+    reply_drafts.thread_id,
+    threads.subreddit,
+    reply_drafts.status,
+    COALESCE(posted_comments.posted_at, reply_drafts.scheduled_for, reply_drafts.status_changed_at)
+  FROM reply_drafts
+  INNER JOIN reddit_accounts ON reddit_accounts.id = reply_drafts.reddit_account_id
+  INNER JOIN threads ON threads.id = reply_drafts.thread_id
+  LEFT JOIN posted_comments ON posted_comments.draft_id = reply_drafts.id
+  WHERE reply_drafts.reddit_account_id = p_account_id
+  AND reply_drafts.status <> 'rejected'
+  AND organization_role(reddit_accounts.organization_id) IS NOT NULL
+  ORDER BY 5 DESC
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,23 @@
+-- Reddit accounts linked through OAuth can post approved drafts as comments
+ALTER TABLE reddit_accounts
+ADD COLUMN IF NOT EXISTS oauth_linked_at TIMESTAMP WITH TIME ZONE, -- Null while the account isn't linked
+ADD COLUMN IF NOT EXISTS oauth_scope TEXT;
+
+-- OAuth refresh tokens of linked accounts. RLS is on without policies, so only the service role
+-- (the app's posting and linking routes) can read or write them.
+CREATE TABLE IF NOT EXISTS reddit_account_credentials (
+  account_id UUID PRIMARY KEY REFERENCES reddit_accounts(id) ON DELETE CASCADE,
+  refresh_token TEXT NOT NULL,
+  linked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_reddit_account_credentials_updated_at BEFORE UPDATE ON reddit_account_credentials
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE reddit_account_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Comments posted through the API, as opposed to permalinks pasted by hand
+ALTER TABLE posted_comments
+ADD COLUMN IF NOT EXISTS posted_via TEXT NOT NULL DEFAULT 'manual' CHECK (posted_via IN ('manual', 'api'));
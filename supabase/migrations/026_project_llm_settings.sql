@@ -0,0 +1,8 @@
+-- Model and parameters used to generate a project's replies. NULL falls back to the deployment
+-- default (LLM_PROVIDER, LLM_MODEL) or, for the parameters, to the model's own defaults.
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS llm_provider TEXT CHECK (llm_provider IN ('openai', 'anthropic', 'local', 'fake')),
+ADD COLUMN IF NOT EXISTS llm_model TEXT,
+ADD COLUMN IF NOT EXISTS llm_temperature NUMERIC(3, 2) CHECK (llm_temperature >= 0 AND llm_temperature <= 2),
+ADD COLUMN IF NOT EXISTS llm_max_tokens INTEGER CHECK (llm_max_tokens > 0),
+ADD COLUMN IF NOT EXISTS llm_system_prompt TEXT;
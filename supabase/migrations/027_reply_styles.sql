@@ -0,0 +1,61 @@
+-- Reply styles of a project: the tone written into the prompt ({{tone}}), the model parameters
+-- replies in the style are generated with, and how long they should be. NULL parameters fall
+-- back to the project's model settings.
+CREATE TABLE IF NOT EXISTS reply_styles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  key TEXT NOT NULL CHECK (key ~ '^[a-z0-9][a-z0-9_-]{0,39}$'), -- Sent as `style` to the generate-reply routes
+  name TEXT NOT NULL,
+  tone TEXT NOT NULL CHECK (length(trim(tone)) > 0),
+  temperature NUMERIC(3, 2) CHECK (temperature >= 0 AND temperature <= 2),
+  max_tokens INTEGER CHECK (max_tokens > 0),
+  target_words INTEGER CHECK (target_words > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (project_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reply_styles_project_id ON reply_styles(project_id, position);
+
+CREATE TRIGGER update_reply_styles_updated_at BEFORE UPDATE ON reply_styles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE reply_styles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view reply styles" ON reply_styles
+  FOR SELECT USING (project_role(project_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create reply styles" ON reply_styles
+  FOR INSERT WITH CHECK (project_role(project_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update reply styles" ON reply_styles
+  FOR UPDATE USING (project_role(project_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete reply styles" ON reply_styles
+  FOR DELETE USING (project_role(project_id) IN ('owner', 'editor'));
+
+-- Every project starts with the casual and laconic styles (lib/reply-styles.ts DEFAULT_REPLY_STYLES).
+-- Their token limits leave room for reasoning: the default gpt-5-mini counts reasoning tokens
+-- against max_completion_tokens, so a limit like the old 400 can leave nothing for the reply.
+CREATE OR REPLACE FUNCTION add_default_reply_styles(p_project_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO reply_styles (project_id, key, name, tone, temperature, max_tokens, target_words, position)
+  VALUES
+    (p_project_id, 'casual', 'Casual', 'Be friendly, natural, and conversational. Straight on the point.', 0.3, 2000, 150, 0),
+    (p_project_id, 'laconic', 'Laconic', 'Be short, minimal, helpful, and direct.', 0.3, 1200, 60, 1)
+  ON CONFLICT (project_id, key) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION add_project_reply_styles()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM add_default_reply_styles(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER add_project_reply_styles AFTER INSERT ON projects
+  FOR EACH ROW EXECUTE FUNCTION add_project_reply_styles();
+
+SELECT add_default_reply_styles(id) FROM projects;
@@ -0,0 +1,11 @@
+-- Whether the signed-in user is an owner or editor of an organization tracking the thread. Besides
+-- the reviewer assigned to a draft, only they can approve or reject it, and never its author.
+CREATE OR REPLACE FUNCTION can_approve_reply_draft(p_thread_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM keyword_thread_rankings
+    INNER JOIN keywords ON keywords.id = keyword_thread_rankings.keyword_id
+    WHERE keyword_thread_rankings.thread_id = p_thread_id
+    AND project_role(keywords.project_id) IN ('owner', 'editor')
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,29 @@
+-- Every user owns a personal organization, so "a non-client membership anywhere" let clients write
+-- drafts that then show up in their client organization's workspace. Drafts are now only written
+-- by users who aren't clients of any organization tracking the thread. Threads no project tracks
+-- stay open to drafting.
+CREATE OR REPLACE FUNCTION is_client_of_thread(p_thread_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM keyword_thread_rankings
+    INNER JOIN keywords ON keywords.id = keyword_thread_rankings.keyword_id
+    WHERE keyword_thread_rankings.thread_id = p_thread_id
+    AND project_role(keywords.project_id) = 'client'
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Members can write own reply drafts" ON reply_drafts;
+DROP POLICY IF EXISTS "Members can update own reply drafts" ON reply_drafts;
+
+CREATE POLICY "Members can write own reply drafts" ON reply_drafts
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND NOT is_client_of_thread(thread_id)
+  );
+
+CREATE POLICY "Members can update own reply drafts" ON reply_drafts
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND NOT is_client_of_thread(thread_id)
+  );
@@ -0,0 +1,33 @@
+-- Deliveries are claimed before they're sent, so an overlapping cron run or an inline send never
+-- delivers the same event twice. Sends from the app insert their rows already claimed.
+ALTER TABLE webhook_deliveries DROP CONSTRAINT IF EXISTS webhook_deliveries_status_check;
+ALTER TABLE webhook_deliveries ADD CONSTRAINT webhook_deliveries_status_check
+  CHECK (status IN ('pending', 'sending', 'succeeded', 'failed'));
+
+ALTER TABLE webhook_deliveries
+ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE; -- Set while sending
+
+-- Claims due deliveries for the cron worker, and deliveries whose sender died mid-send
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(batch_size INTEGER, stale_after INTERVAL DEFAULT INTERVAL '10 minutes')
+RETURNS SETOF webhook_deliveries
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries d
+  SET status = 'sending',
+      locked_at = NOW()
+  WHERE d.id IN (
+    SELECT id FROM webhook_deliveries
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND locked_at < NOW() - stale_after)
+    ORDER BY next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$;
+
+-- The worker runs with the service role
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
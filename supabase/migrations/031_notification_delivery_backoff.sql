@@ -0,0 +1,8 @@
+-- Failed email and webhook deliveries of notifications wait before their next attempt, doubling
+-- each time, instead of being retried on every run of the delivery worker
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(); -- When the pending deliveries are due
+
+DROP INDEX IF EXISTS idx_notifications_pending;
+CREATE INDEX IF NOT EXISTS idx_notifications_pending ON notifications(next_attempt_at)
+  WHERE email_status = 'pending' OR webhook_status = 'pending';
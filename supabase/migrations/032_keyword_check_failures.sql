@@ -0,0 +1,19 @@
+-- Scheduled checks that fail back off instead of staying the most overdue keywords, which would
+-- take a batch slot on every hourly run. last_checked_at stays the last successful check.
+ALTER TABLE keywords
+ADD COLUMN IF NOT EXISTS check_failures INTEGER NOT NULL DEFAULT 0; -- Consecutive failed scheduled checks
+
+-- Retries a failed keyword after 1 hour, doubling with each failure up to 7 days. The next
+-- successful check resets the count and its trigger moves next_check_at back onto the interval.
+CREATE OR REPLACE FUNCTION record_keyword_check_failure(p_keyword_id UUID)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  UPDATE keywords
+  SET check_failures = check_failures + 1,
+      next_check_at = NOW() + LEAST(INTERVAL '1 hour' * POWER(2, LEAST(check_failures, 8)), INTERVAL '7 days')
+  WHERE id = p_keyword_id;
+$$;
+
+-- The scheduler runs with the service role
+REVOKE EXECUTE ON FUNCTION record_keyword_check_failure(UUID) FROM PUBLIC, anon, authenticated;
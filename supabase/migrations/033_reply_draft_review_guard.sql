@@ -0,0 +1,67 @@
+-- Authors could write status and reviewer_id on their own drafts through the API with their session,
+-- skipping the review rules the app checks. The database now enforces them for signed-in users;
+-- the service role (scheduled jobs) is trusted.
+
+-- The status changes a draft allows (lib/types.ts REPLY_DRAFT_TRANSITIONS)
+CREATE OR REPLACE FUNCTION reply_draft_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'generated' THEN p_to IN ('in_review')
+    WHEN 'in_review' THEN p_to IN ('approved', 'rejected', 'generated')
+    WHEN 'approved' THEN p_to IN ('scheduled', 'posted', 'in_review')
+    WHEN 'rejected' THEN p_to IN ('in_review', 'generated')
+    WHEN 'scheduled' THEN p_to IN ('posted', 'approved')
+    ELSE FALSE
+  END;
+$$;
+
+-- New drafts start as generated. Status changes follow the workflow, except that editing an
+-- approved or scheduled draft sends it back to review. Only the assigned reviewer or an owner or
+-- editor approves or rejects a draft, never its author, and authors can't review their own drafts.
+CREATE OR REPLACE FUNCTION check_reply_draft_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'generated' THEN
+      RAISE EXCEPTION 'New drafts start as generated' USING ERRCODE = '23514';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT reply_draft_transition_allowed(OLD.status, NEW.status)
+      AND NOT (
+        NEW.status = 'in_review'
+        AND OLD.status IN ('approved', 'scheduled')
+        AND NEW.draft_content IS DISTINCT FROM OLD.draft_content
+      ) THEN
+      RAISE EXCEPTION 'A draft can''t go from % to %', OLD.status, NEW.status USING ERRCODE = '23514';
+    END IF;
+
+    IF NEW.status IN ('approved', 'rejected') AND (
+      auth.uid() = OLD.user_id
+      OR (OLD.reviewer_id IS DISTINCT FROM auth.uid() AND NOT can_approve_reply_draft(NEW.thread_id))
+    ) THEN
+      RAISE EXCEPTION 'Only the assigned reviewer or an owner or editor other than the author can approve or reject this draft'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF NEW.reviewer_id = NEW.user_id
+    AND (TG_OP = 'INSERT' OR NEW.reviewer_id IS DISTINCT FROM OLD.reviewer_id)
+    AND NOT can_approve_reply_draft(NEW.thread_id) THEN
+    RAISE EXCEPTION 'Authors can''t review their own drafts' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_reply_draft_review
+  BEFORE INSERT OR UPDATE ON reply_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION check_reply_draft_review();
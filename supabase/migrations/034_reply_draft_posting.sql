@@ -0,0 +1,22 @@
+-- Drafts are claimed (`posting`) before they're posted through the Reddit API, so two requests
+-- can't both post the same reply. A failed post puts the draft back where it was; a claim left by
+-- a request that died can be approved again by a reviewer, or marked posted by hand.
+ALTER TABLE reply_drafts DROP CONSTRAINT IF EXISTS reply_drafts_status_check;
+ALTER TABLE reply_drafts ADD CONSTRAINT reply_drafts_status_check
+  CHECK (status IN ('generated', 'in_review', 'approved', 'rejected', 'scheduled', 'posting', 'posted'));
+
+CREATE OR REPLACE FUNCTION reply_draft_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'generated' THEN p_to IN ('in_review')
+    WHEN 'in_review' THEN p_to IN ('approved', 'rejected', 'generated')
+    WHEN 'approved' THEN p_to IN ('scheduled', 'posting', 'posted', 'in_review')
+    WHEN 'rejected' THEN p_to IN ('in_review', 'generated')
+    WHEN 'scheduled' THEN p_to IN ('posting', 'posted', 'approved')
+    WHEN 'posting' THEN p_to IN ('posted', 'approved')
+    ELSE FALSE
+  END;
+$$;
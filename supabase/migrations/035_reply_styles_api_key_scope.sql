@@ -0,0 +1,4 @@
+-- Like the other project tables (migration 020), a project-scoped API key only reaches the reply
+-- styles of its projects
+CREATE POLICY "API keys are limited to their projects" ON reply_styles
+  AS RESTRICTIVE FOR ALL USING (api_key_allows_project(project_id)) WITH CHECK (api_key_allows_project(project_id));
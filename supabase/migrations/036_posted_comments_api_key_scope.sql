@@ -0,0 +1,12 @@
+-- Like reply drafts (migration 020), a project-scoped API key only reaches posted comments on
+-- threads that rank in one of its projects
+CREATE POLICY "API keys are limited to their projects" ON posted_comments
+  AS RESTRICTIVE FOR ALL USING (
+    NOT (auth.jwt() ? 'api_key_project_ids')
+    OR EXISTS (
+      SELECT 1 FROM keyword_thread_rankings
+      INNER JOIN keywords ON keywords.id = keyword_thread_rankings.keyword_id
+      WHERE keyword_thread_rankings.thread_id = posted_comments.thread_id
+      AND api_key_allows_project(keywords.project_id)
+    )
+  );
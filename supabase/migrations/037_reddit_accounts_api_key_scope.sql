@@ -0,0 +1,9 @@
+-- Reddit accounts belong to an organization rather than a project, so project-scoped API keys
+-- can't reach them or their karma at all. Sessions and keys for all projects are unaffected.
+CREATE POLICY "API keys are limited to their projects" ON reddit_accounts
+  AS RESTRICTIVE FOR ALL USING (NOT (auth.jwt() ? 'api_key_project_ids'))
+  WITH CHECK (NOT (auth.jwt() ? 'api_key_project_ids'));
+
+CREATE POLICY "API keys are limited to their projects" ON reddit_account_karma
+  AS RESTRICTIVE FOR ALL USING (NOT (auth.jwt() ? 'api_key_project_ids'))
+  WITH CHECK (NOT (auth.jwt() ? 'api_key_project_ids'));
@@ -0,0 +1,13 @@
+-- Like their drafts (migration 020), review comments are only reached by a project-scoped API key
+-- when the draft's thread ranks in one of its projects
+CREATE POLICY "API keys are limited to their projects" ON reply_draft_comments
+  AS RESTRICTIVE FOR ALL USING (
+    NOT (auth.jwt() ? 'api_key_project_ids')
+    OR EXISTS (
+      SELECT 1 FROM reply_drafts
+      INNER JOIN keyword_thread_rankings ON keyword_thread_rankings.thread_id = reply_drafts.thread_id
+      INNER JOIN keywords ON keywords.id = keyword_thread_rankings.keyword_id
+      WHERE reply_drafts.id = reply_draft_comments.draft_id
+      AND api_key_allows_project(keywords.project_id)
+    )
+  );
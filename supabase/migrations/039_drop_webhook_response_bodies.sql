@@ -0,0 +1,3 @@
+-- Endpoint responses were kept in the delivery log, which let a user read the reply of whatever
+-- an endpoint URL pointed at, internal services included. Only the response status is kept now.
+ALTER TABLE webhook_deliveries DROP COLUMN IF EXISTS response_body;
@@ -0,0 +1,35 @@
+-- Threads are shared by every tenant, and any signed-in user could insert or rewrite them, including
+-- the post URL and scraped content other tenants' replies are generated from. Ranking checks now
+-- write threads with the service role, and users can only add a thread that doesn't exist yet,
+-- through find_or_create_thread.
+DROP POLICY IF EXISTS "Authenticated users can insert threads" ON threads;
+DROP POLICY IF EXISTS "Authenticated users can update threads" ON threads;
+
+-- The thread's row ID, creating the thread when it's new (e.g. drafting a reply to an untracked
+-- thread). Existing threads are never changed. The URL must be the canonical one for the post ID
+-- (lib/reddit-url.ts buildCanonicalRedditUrl).
+CREATE OR REPLACE FUNCTION find_or_create_thread(
+  p_reddit_thread_id TEXT,
+  p_post_url TEXT,
+  p_post_title TEXT DEFAULT '',
+  p_subreddit TEXT DEFAULT ''
+)
+RETURNS UUID AS $$
+DECLARE
+  v_thread_id UUID;
+BEGIN
+  IF p_reddit_thread_id !~ '^[a-z0-9]+$'
+    OR p_post_url !~ ('^https://www\.reddit\.com/(r/[A-Za-z0-9_]+/)?comments/' || p_reddit_thread_id || '/$') THEN
+    RAISE EXCEPTION 'Not a canonical Reddit thread URL: %', p_post_url USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO threads (reddit_thread_id, post_url, post_title, subreddit)
+  VALUES (p_reddit_thread_id, p_post_url, COALESCE(p_post_title, ''), COALESCE(p_subreddit, ''))
+  ON CONFLICT (reddit_thread_id) DO NOTHING;
+
+  SELECT id INTO v_thread_id FROM threads WHERE reddit_thread_id = p_reddit_thread_id;
+  RETURN v_thread_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION find_or_create_thread(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
@@ -0,0 +1,37 @@
+-- Jobs left running by a worker that died were claimed again without counting their attempts, so a
+-- job that crashes its worker every time was retried forever. Stale jobs now only run again while
+-- they have attempts left; the others are marked failed.
+CREATE OR REPLACE FUNCTION claim_ranking_jobs(batch_size INTEGER, stale_after INTERVAL DEFAULT INTERVAL '10 minutes')
+RETURNS SETOF ranking_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE ranking_jobs
+  SET status = 'failed',
+      completed_at = NOW(),
+      locked_at = NULL,
+      error = 'The worker stopped during the last attempt'
+  WHERE status = 'running'
+    AND locked_at < NOW() - stale_after
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE ranking_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_at = NOW(),
+      started_at = COALESCE(j.started_at, NOW()),
+      error = NULL
+  WHERE j.id IN (
+    SELECT id FROM ranking_jobs
+    WHERE (status = 'pending' AND run_after <= NOW())
+       OR (status = 'running' AND locked_at < NOW() - stale_after AND attempts < max_attempts)
+    ORDER BY run_after, created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_ranking_jobs(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;